@@ -0,0 +1,148 @@
+/**
+ * Competition Integrity
+ * Checks a competition submission against server time and against the other submissions of its match.
+ * The app sends the time each question was answered, on the student's clock, together with the time it
+ * submitted; the difference to the server's clock is used to put the answer times on server time.
+ * Answers outside the match are not graded, and patterns that are hard to explain honestly are
+ * flagged for staff in competitionFlags. These helpers do not touch any database.
+ */
+
+export type IntegrityFlagType = 'late' | 'timing' | 'speed' | 'identical_answers'
+
+export type IntegrityFlag = {
+  type: IntegrityFlagType
+  detail: string
+  otherUserId?: string // identical_answers: the player with the same answers
+}
+
+export type TimingCheck = {
+  late: boolean // Submitted after every question's timer had run out; no answer is graded
+  ungradedQuestionIds: string[] // Answered outside the match or past the question's timer
+  flags: IntegrityFlag[]
+}
+
+// Allowed difference between the app's and the server's view of a time, e.g. for network delay
+export const CLOCK_TOLERANCE_MS = 10 * 1000
+// Players load the match and send their answers over the network; later submissions are late
+export const SUBMISSION_GRACE_MS = 30 * 1000
+// Reading and answering a question faster than this is not humanly possible
+export const MIN_ANSWER_MS = 1500
+const SPEED_FLAG_MIN_ANSWERS = 3
+const SPEED_FLAG_RATIO = 0.5
+// Two players sharing this many wrong answers, and at least half of the wrong answers of the one with fewer, are flagged
+const IDENTICAL_WRONG_ANSWERS = 3
+const IDENTICAL_WRONG_RATIO = 0.5
+
+/**
+ * Check a submission's timing
+ * timeLimitsMs holds the timer of each question, in the order of questionIds. answerTimes and
+ * clientSubmittedAt are on the app's clock and missing from older app versions, which only get the
+ * checks made on server time.
+ */
+export function checkSubmissionTiming(params: {
+  startedAt: number
+  receivedAt: number
+  questionIds: string[]
+  timeLimitsMs: number[]
+  answeredIds: string[]
+  answerTimes?: Record<string, unknown>
+  clientSubmittedAt?: unknown
+}): TimingCheck {
+  const { startedAt, receivedAt, questionIds, timeLimitsMs, answeredIds } = params
+  const flags: IntegrityFlag[] = []
+  const totalTimeMs = timeLimitsMs.reduce((sum, limit) => sum + limit, 0)
+  const elapsedMs = receivedAt - startedAt
+
+  if (elapsedMs > totalTimeMs + SUBMISSION_GRACE_MS) {
+    flags.push({ type: 'late', detail: `Submitted ${Math.round((elapsedMs - totalTimeMs) / 1000)}s after the last timer ran out` })
+    return { late: true, ungradedQuestionIds: answeredIds, flags }
+  }
+  if (answeredIds.length >= SPEED_FLAG_MIN_ANSWERS && elapsedMs < answeredIds.length * MIN_ANSWER_MS) {
+    flags.push({
+      type: 'speed',
+      detail: `Answered ${answeredIds.length} questions in ${(elapsedMs / 1000).toFixed(1)}s`,
+    })
+  }
+
+  const answerTimes = params.answerTimes
+  if (!answerTimes || typeof answerTimes !== 'object') {
+    return { late: false, ungradedQuestionIds: [], flags }
+  }
+  const clockOffset = typeof params.clientSubmittedAt === 'number' ? receivedAt - params.clientSubmittedAt : 0
+  const limits = new Map(questionIds.map((questionId, index) => [questionId, timeLimitsMs[index]]))
+
+  const outsideMatch: string[] = []
+  const timed: Array<{ questionId: string; time: number }> = []
+  for (const questionId of answeredIds) {
+    const clientTime = answerTimes[questionId]
+    // Unlike a wrong time, a missing one is not suspicious on its own: the app may have lost it
+    if (typeof clientTime !== 'number') continue
+    const time = clientTime + clockOffset
+    if (time < startedAt - CLOCK_TOLERANCE_MS || time > receivedAt + CLOCK_TOLERANCE_MS) {
+      outsideMatch.push(questionId)
+    } else {
+      timed.push({ questionId, time })
+    }
+  }
+
+  // Questions are answered one after another, each within its own timer
+  timed.sort((a, b) => a.time - b.time)
+  const overLimit: string[] = []
+  let fastAnswers = 0
+  let previousTime = startedAt
+  for (const { questionId, time } of timed) {
+    const spentMs = time - previousTime
+    if (spentMs > (limits.get(questionId) ?? 0) + CLOCK_TOLERANCE_MS) overLimit.push(questionId)
+    if (spentMs < MIN_ANSWER_MS) fastAnswers++
+    previousTime = time
+  }
+
+  if (outsideMatch.length > 0 || overLimit.length > 0) {
+    const details = [
+      outsideMatch.length > 0 ? `${outsideMatch.length} answered outside the match` : null,
+      overLimit.length > 0 ? `${overLimit.length} answered after the question's timer` : null,
+    ]
+    flags.push({ type: 'timing', detail: details.filter(Boolean).join(', ') })
+  }
+  if (
+    timed.length >= SPEED_FLAG_MIN_ANSWERS &&
+    fastAnswers >= timed.length * SPEED_FLAG_RATIO &&
+    !flags.some((flag) => flag.type === 'speed')
+  ) {
+    flags.push({
+      type: 'speed',
+      detail: `${fastAnswers} of ${timed.length} answers given within ${MIN_ANSWER_MS / 1000}s of the previous one`,
+    })
+  }
+
+  return { late: false, ungradedQuestionIds: [...outsideMatch, ...overLimit], flags }
+}
+
+/**
+ * Comparable form of an answer, the same for answers that only differ in case, spacing or key order
+ */
+export function answerFingerprint(answer: unknown): string {
+  const normalize = (value: unknown): unknown => {
+    if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase()
+    if (Array.isArray(value)) return value.map(normalize)
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, normalize((value as Record<string, unknown>)[key])]),
+      )
+    }
+    return value
+  }
+  return JSON.stringify(normalize(answer)) ?? ''
+}
+
+/**
+ * Whether two players gave the same wrong answers more often than chance explains
+ * Matching correct answers prove nothing, so only wrong answers (questionId → fingerprint) are compared.
+ */
+export function hasIdenticalWrongAnswers(a: Record<string, string>, b: Record<string, string>): boolean {
+  const shared = Object.keys(a).filter((questionId) => b[questionId] === a[questionId]).length
+  const smaller = Math.min(Object.keys(a).length, Object.keys(b).length)
+  return shared >= IDENTICAL_WRONG_ANSWERS && shared >= smaller * IDENTICAL_WRONG_RATIO
+}
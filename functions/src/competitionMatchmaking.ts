@@ -0,0 +1,170 @@
+/**
+ * Competition Matchmaking
+ * Public rooms waiting for players are listed per section in competition_queue/{sectionId}/{roomId}.
+ * A player claims a seat, or queues their own room, in one transaction on that small list, so two
+ * players can never take the same last seat and matchmaking never reads the whole competition_rooms tree.
+ * A queued room is removed from the queue once it is full or older than the matchmaking window.
+ * Players are only matched into rooms of the size they asked for, and preferably with players of a
+ * similar rating: the rating gap a queued room accepts widens the longer it waits.
+ * Rooms that are joined by code rather than matchmaking, such as live quizzes, reserve their code in
+ * competition_join_codes/{code}.
+ */
+
+import type { database } from 'firebase-admin'
+import { DEFAULT_RATING } from './shared/competitionRatings.js'
+
+export const COMPETITION_ROOMS_PATH = 'competition_rooms'
+export const COMPETITION_QUEUE_PATH = 'competition_queue'
+export const COMPETITION_JOIN_CODES_PATH = 'competition_join_codes'
+export const MATCHMAKING_WINDOW_MS = 2 * 60 * 1000
+export const DEFAULT_ROOM_CAPACITY = 2
+export const MAX_ROOM_CAPACITY = 8
+const MATCHMAKING_RATING_GAP = 200
+const RATING_GAP_GROWTH_PER_SECOND = 10 // Past the matchmaking window any rating is accepted
+const JOIN_CODE_LENGTH = 6
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789' // No 0/O or 1/I, which are easily mixed up when read aloud
+const JOIN_CODE_ATTEMPTS = 5
+
+export type QueueEntry = {
+  createdAt: number
+  maxCapacity: number
+  playerCount: number
+  players?: Record<string, boolean>
+  rating?: number // Average rating of the players in the room; missing on entries queued before ratings
+}
+
+export type MatchmakingClaim = {
+  roomId: string
+  joined: boolean // false when the caller's own room was queued instead
+  expiredRoomIds: string[] // Rooms dropped from the queue for being past the matchmaking window
+}
+
+/**
+ * Room size a player asked for, between two players and MAX_ROOM_CAPACITY
+ */
+export function resolveRoomCapacity(requested: unknown): number {
+  const size = Math.floor(Number(requested))
+  if (!Number.isFinite(size)) return DEFAULT_ROOM_CAPACITY
+  return Math.min(Math.max(size, DEFAULT_ROOM_CAPACITY), MAX_ROOM_CAPACITY)
+}
+
+/**
+ * Take a seat in the open room of the section with the same capacity and the closest rating the room
+ * accepts, the oldest one first on equal ratings, or queue ownRoomId when none has a free seat
+ * ownRoomId must already exist in competition_rooms, so anyone who claims a seat in it finds the room.
+ */
+export async function claimOrEnqueueRoom(
+  rtdb: database.Database,
+  params: { sectionId: string; userId: string; ownRoomId: string; maxCapacity: number; rating: number },
+): Promise<MatchmakingClaim> {
+  const { sectionId, userId, ownRoomId, maxCapacity, rating } = params
+  // Set on every run of the transaction; the values of the committed run are the ones returned
+  let claimedRoomId = null as string | null
+  let expiredRoomIds: string[] = []
+
+  const result = await rtdb.ref(`${COMPETITION_QUEUE_PATH}/${sectionId}`).transaction((current: Record<string, QueueEntry> | null) => {
+    const now = Date.now()
+    const queue: Record<string, QueueEntry> = { ...(current || {}) }
+    claimedRoomId = null
+    expiredRoomIds = Object.keys(queue).filter((roomId) => now - (queue[roomId].createdAt || 0) >= MATCHMAKING_WINDOW_MS)
+    expiredRoomIds.forEach((roomId) => delete queue[roomId])
+
+    const ratingGap = (entry: QueueEntry) => Math.abs((entry.rating ?? DEFAULT_RATING) - rating)
+    const acceptedGap = (entry: QueueEntry) =>
+      MATCHMAKING_RATING_GAP + Math.floor((now - entry.createdAt) / 1000) * RATING_GAP_GROWTH_PER_SECOND
+    const [open] = Object.entries(queue)
+      .filter(
+        ([roomId, entry]) =>
+          roomId !== ownRoomId &&
+          entry.maxCapacity === maxCapacity &&
+          entry.playerCount < entry.maxCapacity &&
+          !entry.players?.[userId] &&
+          ratingGap(entry) <= acceptedGap(entry),
+      )
+      .sort(([, a], [, b]) => ratingGap(a) - ratingGap(b) || a.createdAt - b.createdAt)
+
+    if (open) {
+      const [roomId, entry] = open
+      const playerCount = entry.playerCount + 1
+      claimedRoomId = roomId
+      if (playerCount >= entry.maxCapacity) {
+        delete queue[roomId]
+      } else {
+        queue[roomId] = {
+          ...entry,
+          playerCount,
+          players: { ...entry.players, [userId]: true },
+          rating: Math.round(((entry.rating ?? DEFAULT_RATING) * entry.playerCount + rating) / playerCount),
+        }
+      }
+    } else {
+      queue[ownRoomId] = { createdAt: now, maxCapacity, playerCount: 1, players: { [userId]: true }, rating }
+    }
+    return queue
+  })
+
+  if (!result.committed) {
+    throw new Error(`Matchmaking transaction for section ${sectionId} did not commit`)
+  }
+  return { roomId: claimedRoomId ?? ownRoomId, joined: claimedRoomId !== null, expiredRoomIds }
+}
+
+/**
+ * Drop the queue entry of a room that is gone, e.g. one closed by staff in the meantime
+ */
+export async function removeQueueEntry(rtdb: database.Database, sectionId: string, roomId: string): Promise<void> {
+  await rtdb.ref(`${COMPETITION_QUEUE_PATH}/${sectionId}/${roomId}`).remove()
+}
+
+/**
+ * Delete rooms still waiting for players, with their queue entries, in one multi-path update
+ * Rooms that found their players in the meantime are kept.
+ */
+export async function removeWaitingRooms(rtdb: database.Database, sectionId: string, roomIds: string[]): Promise<number> {
+  const updates: Record<string, null> = {}
+  for (const roomId of roomIds) {
+    const status = (await rtdb.ref(`${COMPETITION_ROOMS_PATH}/${roomId}/status`).once('value')).val()
+    if (status === 'waiting' || status === null) {
+      updates[`${COMPETITION_ROOMS_PATH}/${roomId}`] = null
+      updates[`${COMPETITION_QUEUE_PATH}/${sectionId}/${roomId}`] = null
+    }
+  }
+  if (Object.keys(updates).length > 0) {
+    await rtdb.ref().update(updates)
+  }
+  return Object.keys(updates).length / 2
+}
+
+/**
+ * Set ref to token unless it already holds a value; true when this caller's token won
+ * Used where concurrent calls may each try to do a one-off step, e.g. creating a room's match.
+ */
+export async function claimOnce(ref: database.Reference, token: string): Promise<boolean> {
+  const claim = await ref.transaction((current: string | null) => current ?? token)
+  return claim.committed && claim.snapshot.val() === token
+}
+
+/**
+ * Reserve a short code players type to join a room, unique among the codes in use
+ */
+export async function reserveJoinCode(rtdb: database.Database, roomId: string): Promise<string> {
+  for (let attempt = 1; attempt <= JOIN_CODE_ATTEMPTS; attempt++) {
+    const code = Array.from(
+      { length: JOIN_CODE_LENGTH },
+      () => JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)],
+    ).join('')
+    if (await claimOnce(rtdb.ref(`${COMPETITION_JOIN_CODES_PATH}/${code}`), roomId)) {
+      return code
+    }
+  }
+  throw new Error(`Could not reserve a join code for room ${roomId}`)
+}
+
+/**
+ * Room a join code was reserved for, or null for an unknown code
+ */
+export async function findRoomByJoinCode(rtdb: database.Database, joinCode: string): Promise<string | null> {
+  const code = joinCode.trim().toUpperCase()
+  if (!code || !/^[A-Z0-9]+$/.test(code)) return null
+  return (await rtdb.ref(`${COMPETITION_JOIN_CODES_PATH}/${code}`).once('value')).val()
+}
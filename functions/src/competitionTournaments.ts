@@ -0,0 +1,137 @@
+/**
+ * Competition Tournaments
+ * Single-elimination brackets across a section. The bracket is kept in Firestore
+ * competitionTournaments/{tournamentId}, and each bracket match is played as an ordinary
+ * two-player competition match. These helpers only shape the bracket; they do not touch any database.
+ */
+
+export type TournamentPlayer = { userId: string; userName: string; seed: number }
+
+export type BracketMatchStatus = 'pending' | 'live' | 'completed' | 'bye'
+
+export type BracketMatch = {
+  key: string // r{round}m{match}, both 1-based
+  playerIds: Array<string | null> // Two slots; null until the feeding match is decided
+  winnerId: string | null
+  matchId: string | null // competition_matches entry once the match is played
+  status: BracketMatchStatus
+}
+
+export type TournamentRound = { name: string; matches: BracketMatch[] }
+
+export const MIN_TOURNAMENT_PLAYERS = 2
+export const MAX_TOURNAMENT_PLAYERS = 64
+
+/**
+ * Seeds in bracket order, e.g. [1, 8, 4, 5, 2, 7, 3, 6] for eight slots, so the top seeds can only meet late
+ */
+function seedOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const total = order.length * 2 + 1
+    order = order.flatMap((seed) => [seed, total - seed])
+  }
+  return order
+}
+
+function roundName(roundIndex: number, roundCount: number): string {
+  const fromFinal = roundCount - 1 - roundIndex
+  if (fromFinal === 0) return 'Final'
+  if (fromFinal === 1) return 'Semi-finals'
+  if (fromFinal === 2) return 'Quarter-finals'
+  return `Round ${roundIndex + 1}`
+}
+
+function cloneRounds(rounds: TournamentRound[]): TournamentRound[] {
+  return rounds.map((round) => ({
+    ...round,
+    matches: round.matches.map((match) => ({ ...match, playerIds: [...match.playerIds] })),
+  }))
+}
+
+/**
+ * Record the winner of a bracket match and move them into their slot of the next round
+ * championId is set when the final was decided.
+ */
+export function recordBracketWinner(
+  rounds: TournamentRound[],
+  key: string,
+  winnerId: string,
+  status: 'completed' | 'bye' = 'completed',
+): { rounds: TournamentRound[]; championId: string | null } {
+  const next = cloneRounds(rounds)
+  const roundIndex = next.findIndex((round) => round.matches.some((match) => match.key === key))
+  if (roundIndex === -1) {
+    throw new Error(`Unknown bracket match ${key}`)
+  }
+  const matchIndex = next[roundIndex].matches.findIndex((match) => match.key === key)
+  const match = next[roundIndex].matches[matchIndex]
+  if (!match.playerIds.includes(winnerId)) {
+    throw new Error(`${winnerId} does not play in bracket match ${key}`)
+  }
+  match.winnerId = winnerId
+  match.status = status
+
+  if (roundIndex === next.length - 1) {
+    return { rounds: next, championId: winnerId }
+  }
+  next[roundIndex + 1].matches[Math.floor(matchIndex / 2)].playerIds[matchIndex % 2] = winnerId
+  return { rounds: next, championId: null }
+}
+
+/**
+ * Bracket for the players, ordered by seed. The field is padded to a power of two with byes,
+ * which go to the top seeds and are decided straight away.
+ */
+export function buildBracket(players: TournamentPlayer[]): TournamentRound[] {
+  const size = 2 ** Math.ceil(Math.log2(Math.max(players.length, MIN_TOURNAMENT_PLAYERS)))
+  const roundCount = Math.log2(size)
+  const slots = seedOrder(size).map((seed) => players[seed - 1]?.userId ?? null)
+
+  let rounds: TournamentRound[] = Array.from({ length: roundCount }, (_, roundIndex) => ({
+    name: roundName(roundIndex, roundCount),
+    matches: Array.from({ length: size / 2 ** (roundIndex + 1) }, (_, matchIndex) => ({
+      key: `r${roundIndex + 1}m${matchIndex + 1}`,
+      playerIds: roundIndex === 0 ? [slots[matchIndex * 2], slots[matchIndex * 2 + 1]] : [null, null],
+      winnerId: null,
+      matchId: null,
+      status: 'pending' as BracketMatchStatus,
+    })),
+  }))
+
+  for (const match of rounds[0].matches) {
+    const present = match.playerIds.filter((playerId): playerId is string => playerId !== null)
+    if (present.length === 1) {
+      rounds = recordBracketWinner(rounds, match.key, present[0], 'bye').rounds
+    }
+  }
+  return rounds
+}
+
+/**
+ * Matches whose two players are known and that have not been started yet
+ */
+export function readyBracketMatches(rounds: TournamentRound[]): BracketMatch[] {
+  return rounds.flatMap((round) =>
+    round.matches.filter((match) => match.status === 'pending' && match.playerIds.every((playerId) => playerId !== null)),
+  )
+}
+
+/**
+ * A bracket match always needs a winner: a tie goes to more correct answers, then to whoever
+ * submitted first, then to the better seed
+ */
+export function pickBracketWinner(
+  results: Array<{ userId: string; score: number; correctCount: number; submittedAt: number | null }>,
+  players: TournamentPlayer[],
+): string {
+  const seedOf = (userId: string) => players.find((player) => player.userId === userId)?.seed ?? Number.MAX_SAFE_INTEGER
+  const [winner] = [...results].sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.correctCount - a.correctCount ||
+      (a.submittedAt ?? Number.MAX_SAFE_INTEGER) - (b.submittedAt ?? Number.MAX_SAFE_INTEGER) ||
+      seedOf(a.userId) - seedOf(b.userId),
+  )
+  return winner.userId
+}
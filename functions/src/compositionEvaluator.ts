@@ -0,0 +1,251 @@
+/**
+ * Composition Evaluators
+ * Providers the evaluateComposition function can grade with, chosen by configuration:
+ *
+ *   firebase functions:config:set ai.provider="openai" ai.api_key="..." ai.model="gpt-5-nano"
+ *   firebase functions:config:set ai.provider="openai" ai.base_url="https://my-gateway/v1" ai.api_key="..."
+ *   firebase functions:config:set ai.provider="self_hosted" ai.base_url="http://my-ollama:11434" ai.model="llama3.1"
+ *   firebase functions:config:set ai.provider="mock"
+ *
+ * AI_PROVIDER, AI_BASE_URL, AI_API_KEY and AI_MODEL environment variables are used when the
+ * config is not set, e.g. for the emulator. The older openai.api_key config still works.
+ */
+
+import * as functions from 'firebase-functions'
+import {
+  buildGrade,
+  buildGradingMessages,
+  parseGradingResponse,
+  type CompositionCriterionId,
+  type CompositionGrade,
+  type CompositionRubric,
+  type CriterionScore,
+} from './compositionGrading.js'
+
+export type CompositionEvaluationRequest = {
+  questionPrompt: string
+  studentAnswer: string
+  rubric: CompositionRubric
+  teacherInstructions?: string
+}
+
+export interface CompositionEvaluator {
+  name: string
+  evaluate(request: CompositionEvaluationRequest): Promise<CompositionGrade>
+}
+
+type ChatMessage = { role: string; content: string }
+
+type AiConfig = {
+  provider: string
+  baseUrl?: string
+  apiKey?: string
+  model?: string
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const DEFAULT_OPENAI_MODEL = 'gpt-5-nano'
+const DEFAULT_SELF_HOSTED_BASE_URL = 'http://localhost:11434'
+const MAX_ATTEMPTS = 2
+
+function readAiConfig(): AiConfig {
+  const config = functions.config()
+  return {
+    provider: config.ai?.provider ?? process.env.AI_PROVIDER ?? 'openai',
+    baseUrl: config.ai?.base_url ?? process.env.AI_BASE_URL,
+    apiKey: config.ai?.api_key ?? process.env.AI_API_KEY ?? config.openai?.api_key,
+    model: config.ai?.model ?? process.env.AI_MODEL,
+  }
+}
+
+function notConfigured(message: string): functions.https.HttpsError {
+  console.error(message)
+  return new functions.https.HttpsError(
+    'internal',
+    'AI evaluation service is not configured. Please contact administrator.',
+  )
+}
+
+/**
+ * Asks a chat model for a rubric grade
+ * The model occasionally returns malformed JSON; it is asked once more before giving up.
+ */
+async function gradeWithChatModel(
+  request: CompositionEvaluationRequest,
+  complete: (messages: ChatMessage[]) => Promise<string>,
+): Promise<CompositionGrade> {
+  const messages = buildGradingMessages(request)
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt += 1) {
+    const content = await complete(messages)
+    try {
+      return parseGradingResponse(content, request.rubric)
+    } catch (parseError) {
+      console.warn(`Invalid grading response (attempt ${attempt}):`, parseError)
+    }
+  }
+  throw new functions.https.HttpsError('internal', 'The AI evaluation returned an invalid result. Please try again.')
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const errorBody = await response.text()
+    console.error(`AI provider error: ${response.status} ${errorBody}`)
+    throw new functions.https.HttpsError('internal', 'Failed to evaluate composition. Please try again.')
+  }
+
+  return response.json()
+}
+
+/**
+ * Any endpoint implementing the OpenAI chat completions API: OpenAI itself, Azure-style gateways,
+ * vLLM, LM Studio and similar
+ */
+function createOpenAiCompatibleEvaluator(config: AiConfig): CompositionEvaluator {
+  if (!config.apiKey && !config.baseUrl) {
+    throw notConfigured('AI API key not configured in Firebase Functions config')
+  }
+  const baseUrl = (config.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')
+  const model = config.model ?? DEFAULT_OPENAI_MODEL
+
+  return {
+    name: 'openai',
+    evaluate: (request) =>
+      gradeWithChatModel(request, async (messages) => {
+        const result = await postJson(
+          `${baseUrl}/chat/completions`,
+          { model, messages, response_format: { type: 'json_object' }, max_completion_tokens: 2000 },
+          config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        )
+        return result.choices?.[0]?.message?.content || ''
+      }),
+  }
+}
+
+/**
+ * Self-hosted model served by Ollama's native chat API
+ */
+function createSelfHostedEvaluator(config: AiConfig): CompositionEvaluator {
+  if (!config.model) {
+    throw notConfigured('AI model not configured for the self-hosted provider')
+  }
+  const baseUrl = (config.baseUrl ?? DEFAULT_SELF_HOSTED_BASE_URL).replace(/\/+$/, '')
+  const model = config.model
+
+  return {
+    name: 'self_hosted',
+    evaluate: (request) =>
+      gradeWithChatModel(request, async (messages) => {
+        const result = await postJson(
+          `${baseUrl}/api/chat`,
+          { model, messages, format: 'json', stream: false, options: { temperature: 0 } },
+          config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        )
+        return result.message?.content || ''
+      }),
+  }
+}
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'because', 'before', 'from', 'have', 'that', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'what', 'when', 'where', 'which', 'while', 'with', 'write', 'your',
+])
+const LINKING_WORDS = new Set([
+  'and', 'but', 'because', 'so', 'however', 'then', 'first', 'firstly', 'next', 'finally', 'also', 'after',
+  'before', 'although', 'when', 'while',
+])
+
+function wordsOf(text: string): string[] {
+  return text.toLowerCase().match(/[a-z']+/g) ?? []
+}
+
+/**
+ * Rule-based grader that needs no network access
+ * The same answer always gets the same grade, which keeps emulator runs and tests repeatable.
+ */
+function scoreWithRules(request: CompositionEvaluationRequest): Record<CompositionCriterionId, CriterionScore> {
+  const answer = request.studentAnswer.trim()
+  const words = wordsOf(answer)
+  const sentences = answer.split(/[.!?]+/).map((sentence) => sentence.trim()).filter(Boolean)
+  const lengthScore = words.length < 10 ? 1 : words.length < 30 ? 2 : words.length < 60 ? 3 : words.length < 100 ? 4 : 5
+
+  const promptKeywords = Array.from(new Set(wordsOf(request.questionPrompt).filter((word) => word.length > 3 && !STOP_WORDS.has(word))))
+  const coveredKeywords = promptKeywords.filter((word) => words.includes(word)).length
+  const taskScore = promptKeywords.length
+    ? Math.round((lengthScore + (coveredKeywords / promptKeywords.length) * 5) / 2)
+    : lengthScore
+
+  const wellFormed = sentences.filter((sentence) => /^[A-Z]/.test(sentence)).length
+  const punctuated = /[.!?]$/.test(answer)
+  const lowercaseI = (answer.match(/\bi\b/g) ?? []).length
+  const grammarScore = sentences.length
+    ? Math.round((wellFormed / sentences.length) * 4 + (punctuated ? 1 : 0)) - Math.min(2, lowercaseI)
+    : 0
+
+  const variety = words.length ? new Set(words).size / words.length : 0
+  const vocabularyScore = Math.min(lengthScore + 1, Math.round(Math.min(1, variety * 1.25) * 5))
+
+  const linkers = words.filter((word) => LINKING_WORDS.has(word)).length
+  const coherenceScore = Math.min(5, (sentences.length >= 3 ? 2 : 1) + Math.min(3, linkers))
+
+  return {
+    task_achievement: {
+      score: taskScore,
+      comment: `${words.length} words; covers ${coveredKeywords} of ${promptKeywords.length} topic keywords.`,
+    },
+    grammar: {
+      score: grammarScore,
+      comment: `${wellFormed} of ${sentences.length} sentences start with a capital letter.`,
+    },
+    vocabulary: {
+      score: vocabularyScore,
+      comment: `${Math.round(variety * 100)}% of the words are different.`,
+    },
+    coherence: {
+      score: coherenceScore,
+      comment: `${sentences.length} sentences with ${linkers} linking words.`,
+    },
+  }
+}
+
+const MOCK_FEEDBACK: Record<CompositionCriterionId, string> = {
+  task_achievement: 'Write more about the topic and answer every part of the question.',
+  grammar: 'Check that every sentence starts with a capital letter and ends with a full stop.',
+  vocabulary: 'Try to use a wider range of words instead of repeating the same ones.',
+  coherence: 'Link your ideas with words like "because", "however" and "finally".',
+}
+
+function createMockEvaluator(): CompositionEvaluator {
+  return {
+    name: 'mock',
+    evaluate: async (request) => {
+      const scores = scoreWithRules(request)
+      const weakest = request.rubric.criteria.reduce((lowest, criterion) =>
+        scores[criterion.id].score < scores[lowest.id].score ? criterion : lowest,
+      )
+      return buildGrade(request.rubric, scores, `Good effort. ${MOCK_FEEDBACK[weakest.id]}`)
+    },
+  }
+}
+
+/**
+ * Evaluator for the configured provider
+ */
+export function getCompositionEvaluator(): CompositionEvaluator {
+  const config = readAiConfig()
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiCompatibleEvaluator(config)
+    case 'self_hosted':
+      return createSelfHostedEvaluator(config)
+    case 'mock':
+      return createMockEvaluator()
+    default:
+      throw notConfigured(`Unknown AI provider "${config.provider}" in Firebase Functions config`)
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Composition Grading
+ * Rubric, prompt and response parsing for the evaluateComposition function.
+ * Mirrors the CompositionGrade type in the panel (src/types/models.ts); the rubric itself is shared.
+ */
+
+import {
+  DEFAULT_COMPOSITION_RUBRIC,
+  type CompositionCriterionId,
+  type CompositionRubric,
+} from './shared/compositionRubric.js'
+
+export type { CompositionCriterionId, CompositionRubric }
+
+export type CompositionBand = 'excellent' | 'good' | 'satisfactory' | 'needs_improvement'
+
+export type CompositionGrade = {
+  isCorrect: boolean
+  overallScore: number
+  band: CompositionBand
+  criteria: Array<{ id: CompositionCriterionId; weight: number; score: number; maxScore: number; comment: string }>
+  feedback: string
+}
+
+export const CRITERION_MAX_SCORE = 5
+
+const CRITERION_DESCRIPTIONS: Record<CompositionCriterionId, string> = {
+  task_achievement: 'Task achievement: answers the question and covers the topic',
+  grammar: 'Grammar: accurate sentences, tenses and agreement',
+  vocabulary: 'Vocabulary: range and correct use of words and spelling',
+  coherence: 'Coherence: ideas are organised and linked clearly',
+}
+
+const CRITERION_IDS = Object.keys(CRITERION_DESCRIPTIONS) as CompositionCriterionId[]
+
+const MAX_COMMENT_LENGTH = 200
+const MAX_FEEDBACK_LENGTH = 600
+
+/**
+ * Rubric stored on a quiz document, or the default rubric when it is missing or unusable
+ * Criteria with a zero weight are left out of grading.
+ */
+export function resolveRubric(value: unknown): CompositionRubric {
+  if (!value || typeof value !== 'object') return DEFAULT_COMPOSITION_RUBRIC
+  const { criteria, passMark } = value as { criteria?: unknown; passMark?: unknown }
+  if (!Array.isArray(criteria)) return DEFAULT_COMPOSITION_RUBRIC
+
+  const resolved = criteria
+    .filter(
+      (criterion): criterion is { id: CompositionCriterionId; weight: number } =>
+        Boolean(criterion) &&
+        CRITERION_IDS.includes(criterion.id) &&
+        typeof criterion.weight === 'number' &&
+        criterion.weight > 0,
+    )
+    .filter((criterion, index, list) => list.findIndex((item) => item.id === criterion.id) === index)
+    .map((criterion) => ({ id: criterion.id, weight: criterion.weight }))
+
+  if (resolved.length === 0) return DEFAULT_COMPOSITION_RUBRIC
+  return {
+    criteria: resolved,
+    passMark:
+      typeof passMark === 'number' && passMark >= 0 && passMark <= 100 ? passMark : DEFAULT_COMPOSITION_RUBRIC.passMark,
+  }
+}
+
+export function buildGradingMessages(options: {
+  questionPrompt: string
+  studentAnswer: string
+  rubric: CompositionRubric
+  teacherInstructions?: string
+}) {
+  const criteriaList = options.rubric.criteria
+    .map((criterion) => `- "${criterion.id}": ${CRITERION_DESCRIPTIONS[criterion.id]}`)
+    .join('\n')
+  const instructions = options.teacherInstructions?.trim()
+
+  const system = `You are an English teacher grading a student's composition against a rubric.
+Score each criterion from 0 to ${CRITERION_MAX_SCORE} and write one short comment per criterion.
+Then write short, encouraging feedback for the student (at most 3 sentences) that names one thing to improve.
+Respond with JSON only, in this shape:
+{"criteria":[{"id":"<criterion id>","score":<0-${CRITERION_MAX_SCORE}>,"comment":"<short comment>"}],"feedback":"<feedback>"}`
+
+  const user = `Criteria:
+${criteriaList}
+${instructions ? `\nTeacher instructions (follow these when scoring):\n${instructions}\n` : ''}
+Question/Topic: ${options.questionPrompt}
+
+Student's Answer:
+${options.studentAnswer}`
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ]
+}
+
+function bandFor(overallScore: number): CompositionBand {
+  if (overallScore >= 85) return 'excellent'
+  if (overallScore >= 70) return 'good'
+  if (overallScore >= 50) return 'satisfactory'
+  return 'needs_improvement'
+}
+
+function trimText(value: string, maxLength: number): string {
+  const text = value.trim()
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text
+}
+
+export type CriterionScore = { score: number; comment: string }
+
+/**
+ * Weighted overall score, band and pass/fail from per-criterion scores
+ */
+export function buildGrade(
+  rubric: CompositionRubric,
+  scores: Partial<Record<CompositionCriterionId, CriterionScore>>,
+  feedback: string,
+): CompositionGrade {
+  const criteria = rubric.criteria.map((criterion) => ({
+    id: criterion.id,
+    weight: criterion.weight,
+    score: Math.min(CRITERION_MAX_SCORE, Math.max(0, Math.round(scores[criterion.id]?.score ?? 0))),
+    maxScore: CRITERION_MAX_SCORE,
+    comment: trimText(scores[criterion.id]?.comment ?? '', MAX_COMMENT_LENGTH),
+  }))
+
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0)
+  const overallScore = Math.round(
+    criteria.reduce((sum, criterion) => sum + (criterion.score / CRITERION_MAX_SCORE) * criterion.weight, 0) /
+      totalWeight *
+      100,
+  )
+
+  return {
+    isCorrect: overallScore >= rubric.passMark,
+    overallScore,
+    band: bandFor(overallScore),
+    criteria,
+    feedback: trimText(feedback, MAX_FEEDBACK_LENGTH),
+  }
+}
+
+/**
+ * Grade from the model's JSON reply
+ * Throws when the reply is not valid JSON or misses a rubric criterion, so the caller can retry.
+ */
+export function parseGradingResponse(content: string, rubric: CompositionRubric): CompositionGrade {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    throw new Error('Grading response is not valid JSON')
+  }
+
+  const reply = parsed as { criteria?: unknown; feedback?: unknown }
+  if (!Array.isArray(reply.criteria)) {
+    throw new Error('Grading response has no criteria list')
+  }
+  const replyCriteria = reply.criteria as Array<{ id?: unknown; score?: unknown; comment?: unknown }>
+
+  const scores: Partial<Record<CompositionCriterionId, CriterionScore>> = {}
+  rubric.criteria.forEach((criterion) => {
+    const scored = replyCriteria.find((item) => item && item.id === criterion.id)
+    if (!scored || typeof scored.score !== 'number' || !Number.isFinite(scored.score)) {
+      throw new Error(`Grading response has no score for ${criterion.id}`)
+    }
+    scores[criterion.id] = { score: scored.score, comment: typeof scored.comment === 'string' ? scored.comment : '' }
+  })
+
+  return buildGrade(rubric, scores, typeof reply.feedback === 'string' ? reply.feedback : '')
+}
+
+/**
+ * Grade for an empty answer, returned without calling the model
+ */
+export function emptyAnswerGrade(rubric: CompositionRubric): CompositionGrade {
+  return buildGrade(rubric, {}, 'No answer was written.')
+}
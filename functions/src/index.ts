@@ -1,5 +1,42 @@
 import * as admin from 'firebase-admin'
 import * as functions from 'firebase-functions'
+import { getCompositionEvaluator } from './compositionEvaluator.js'
+import { gradeAnswer, type GradableQuestion } from './shared/answerGrading.js'
+import {
+  answerFingerprint,
+  checkSubmissionTiming,
+  hasIdenticalWrongAnswers,
+  type IntegrityFlag,
+} from './competitionIntegrity.js'
+import { DEFAULT_RATING, periodKey, ratingBand, ratingChanges } from './shared/competitionRatings.js'
+import {
+  COMPETITION_JOIN_CODES_PATH,
+  COMPETITION_QUEUE_PATH,
+  COMPETITION_ROOMS_PATH,
+  DEFAULT_ROOM_CAPACITY,
+  MATCHMAKING_WINDOW_MS,
+  claimOnce,
+  claimOrEnqueueRoom,
+  findRoomByJoinCode,
+  removeQueueEntry,
+  removeWaitingRooms,
+  reserveJoinCode,
+  resolveRoomCapacity,
+} from './competitionMatchmaking.js'
+import {
+  MAX_TOURNAMENT_PLAYERS,
+  MIN_TOURNAMENT_PLAYERS,
+  buildBracket,
+  pickBracketWinner,
+  readyBracketMatches,
+  recordBracketWinner,
+  type TournamentPlayer,
+  type TournamentRound,
+} from './competitionTournaments.js'
+import { countAudience, fetchAudienceDevices, type DeviceRecord } from './notificationAudience.js'
+import type { NotificationAudienceFilters, NotificationAudienceType } from './shared/notificationAudience.js'
+import { emptyAnswerGrade, resolveRubric, type CompositionGrade } from './compositionGrading.js'
+import { DEFAULT_COMPOSITION_RUBRIC } from './shared/compositionRubric.js'
 
 admin.initializeApp()
 
@@ -10,8 +47,9 @@ const rtdb = admin.database()
 type NotificationDoc = admin.firestore.DocumentData & {
   title: string
   message: string
-  audienceType: 'all' | 'grade' | 'unit' | 'lesson' | 'custom'
+  audienceType: NotificationAudienceType
   audienceValue?: string
+  audienceFilters?: NotificationAudienceFilters
   channels?: string[]
   deliveryStatus?: 'draft' | 'scheduled' | 'sent' | 'cancelled' | 'sending'
   scheduledAt?: admin.firestore.Timestamp | admin.firestore.FieldValue | Date | null
@@ -21,15 +59,14 @@ type NotificationDoc = admin.firestore.DocumentData & {
   deliveryProcessed?: boolean
 }
 
-type DeviceRecord = {
-  token: string
-  ref: admin.firestore.DocumentReference
-  notificationsEnabled: boolean
-  segments?: string[]
-  platform?: string
-}
-
 const NOTIFICATIONS_COLLECTION = 'notifications'
+const TRASH_COLLECTION = 'trash'
+const QUIZ_DRAFTS_COLLECTION = 'quizDrafts'
+const QUIZ_VERSIONS_COLLECTION = 'quizVersions'
+const COMPOSITION_SUBMISSIONS_COLLECTION = 'compositionSubmissions'
+// Grades are a top-level collection; units and quizzes are nested, so they are queried as collection groups.
+// Collection-group single-field indexes on publishAt and unpublishAt must be enabled for these queries.
+const SCHEDULED_CURRICULUM_LEVELS = ['grades', 'units', 'quizzes'] as const
 const MAX_BATCH_SIZE = 500
 
 const isPushEnabled = (notification: NotificationDoc) => notification.channels?.includes('push') ?? false
@@ -84,49 +121,6 @@ const logAdminAction = async (
   })
 }
 
-const fetchEligibleDevices = async (notification: NotificationDoc) => {
-  const snapshot = await db
-    .collectionGroup('devices')
-    .where('notificationsEnabled', '==', true)
-    .get()
-
-  const devices: DeviceRecord[] = []
-  snapshot.forEach((doc) => {
-    const data = doc.data()
-    const record: DeviceRecord = {
-      token: data.fcmToken,
-      notificationsEnabled: Boolean(data.notificationsEnabled),
-      segments: data.segments ?? [],
-      platform: data.platform,
-      ref: doc.ref,
-    }
-    if (!record.token) return
-
-    switch (notification.audienceType) {
-      case 'all':
-        devices.push(record)
-        break
-      case 'grade':
-      case 'unit':
-      case 'lesson':
-      case 'custom': {
-        const audienceValue = notification.audienceValue?.trim()
-        if (!audienceValue) return
-        const segmentKey = audienceValue.toLowerCase()
-        const segments = (record.segments ?? []).map((segment) => String(segment).toLowerCase())
-        if (segments.includes(segmentKey)) {
-          devices.push(record)
-        }
-        break
-      }
-      default:
-        devices.push(record)
-    }
-  })
-
-  return devices
-}
-
 const removeInvalidDevices = async (devices: DeviceRecord[], invalidIndexes: number[]) => {
   const removals = invalidIndexes.map((index) => devices[index]?.ref.delete().catch(() => undefined))
   await Promise.all(removals)
@@ -202,7 +196,7 @@ const processNotification = async (
     return
   }
 
-  const devices = await fetchEligibleDevices(notification)
+  const devices = await fetchAudienceDevices(db, notification)
   const { successCount, failureCount } = await sendPushNotification(notificationId, notification, devices)
 
   await markNotificationProcessed(notificationRef, {
@@ -274,9 +268,365 @@ export const processScheduledNotifications = functions.pubsub
     await Promise.all(tasks)
   })
 
+// Mirrors 'notifications.manage' in src/utils/permissions.ts
+const NOTIFICATION_MANAGER_ROLES = ['owner', 'notifier']
+
+/**
+ * Number of students and push devices a notification audience reaches, previewed in the panel before sending
+ */
+export const previewNotificationAudience = functions.https.onCall(async (data, context) => {
+  await requireStaff(context, NOTIFICATION_MANAGER_ROLES)
+  return countAudience(db, {
+    audienceType: typeof data?.audienceType === 'string' ? data.audienceType : 'all',
+    audienceValue: typeof data?.audienceValue === 'string' ? data.audienceValue : undefined,
+    audienceFilters: data?.audienceFilters && typeof data.audienceFilters === 'object' ? data.audienceFilters : undefined,
+  })
+})
+
+// Flip isPublished on grades, units and quizzes whose publishAt/unpublishAt time has passed.
+// Each time is cleared once applied so a later manual toggle is not overridden.
+export const processScheduledPublishing = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const now = admin.firestore.Timestamp.now()
+
+    const tasks = SCHEDULED_CURRICULUM_LEVELS.map(async (level) => {
+      const source = level === 'grades' ? db.collection(level) : db.collectionGroup(level)
+      const [dueToPublish, dueToUnpublish] = await Promise.all([
+        source.where('publishAt', '<=', now).get(),
+        source.where('unpublishAt', '<=', now).get(),
+      ])
+
+      const dueDocs = new Map<string, admin.firestore.QueryDocumentSnapshot>()
+      ;[...dueToPublish.docs, ...dueToUnpublish.docs].forEach((doc) => dueDocs.set(doc.ref.path, doc))
+
+      await Promise.all(
+        Array.from(dueDocs.values()).map(async (doc) => {
+          const data = doc.data()
+          const publishAt = toDate(data.publishAt)
+          const unpublishAt = toDate(data.unpublishAt)
+          const publishDue = Boolean(publishAt && publishAt.getTime() <= now.toMillis())
+          const unpublishDue = Boolean(unpublishAt && unpublishAt.getTime() <= now.toMillis())
+          // When both have passed, the later one decides the final state
+          const isPublished =
+            publishDue && unpublishDue ? publishAt!.getTime() > unpublishAt!.getTime() : publishDue
+
+          const update: admin.firestore.DocumentData = {
+            isPublished,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          }
+          if (publishDue) update.publishAt = null
+          if (unpublishDue) update.unpublishAt = null
+
+          // A scheduled quiz goes live with its latest draft, like a manual publish
+          if (level === 'quizzes' && isPublished) {
+            const draftRef = db.collection(QUIZ_DRAFTS_COLLECTION).doc(doc.id)
+            const draft = await draftRef.get()
+            if (draft.exists) {
+              const { document } = draft.data() as { document?: admin.firestore.DocumentData }
+              await doc.ref.set({
+                ...(document ?? {}),
+                ...update,
+                id: doc.id,
+                sectionId: data.sectionId,
+                gradeId: data.gradeId,
+                unitId: data.unitId,
+                lessonId: data.lessonId,
+                publishAt: null,
+                unpublishAt: unpublishDue ? null : data.unpublishAt ?? null,
+                createdAt: data.createdAt ?? null,
+                publishedAt: admin.firestore.FieldValue.serverTimestamp(),
+              })
+              await draftRef.delete()
+              return
+            }
+          }
+
+          await doc.ref.update(update)
+        }),
+      )
+    })
+
+    await Promise.all(tasks)
+  })
+
+// Permanently remove curriculum items that have been in the trash past their retention period
+export const purgeExpiredTrash = functions.pubsub
+  .schedule('every 24 hours')
+  .onRun(async () => {
+    const snapshot = await db
+      .collection(TRASH_COLLECTION)
+      .where('expiresAt', '<=', admin.firestore.Timestamp.now())
+      .get()
+
+    await Promise.all(
+      snapshot.docs.map(async (doc) => {
+        // The drafts and version history of purged quizzes go with them
+        const documents = await doc.ref.collection('documents').get()
+        const quizIds = documents.docs
+          .map((stored) => (stored.data().segments ?? []) as string[])
+          .filter((segments) => segments[segments.length - 2] === 'quizzes')
+          .map((segments) => segments[segments.length - 1])
+        for (const quizId of quizIds) {
+          const versions = await db.collection(QUIZ_VERSIONS_COLLECTION).where('quizId', '==', quizId).get()
+          const refs = [db.collection(QUIZ_DRAFTS_COLLECTION).doc(quizId), ...versions.docs.map((version) => version.ref)]
+          for (const group of chunk(refs, MAX_BATCH_SIZE)) {
+            const batch = db.batch()
+            group.forEach((ref) => batch.delete(ref))
+            await batch.commit()
+          }
+        }
+        // recursiveDelete also removes the stored documents subcollection
+        await db.recursiveDelete(doc.ref)
+      }),
+    )
+  })
+
+const STAFF_COLLECTION = 'staff'
+const STAFF_ROLES = ['owner', 'editor', 'reviewer', 'notifier', 'analyst']
+
+// Creates the Auth account and staff record for a new panel user. Only owners may invite.
+// The panel then sends the password reset email that lets the invitee set a password.
+export const inviteStaffMember = functions.https.onCall(async (data, context) => {
+  const callerEmail = context.auth?.token.email?.toLowerCase()
+  if (!context.auth || !callerEmail) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
+
+  const callerSnap = await db.collection(STAFF_COLLECTION).doc(callerEmail).get()
+  if (callerSnap.data()?.role !== 'owner' || callerSnap.data()?.status === 'inactive') {
+    throw new functions.https.HttpsError('permission-denied', 'Only owners can invite staff')
+  }
+
+  const email = typeof data?.email === 'string' ? data.email.trim().toLowerCase() : ''
+  const name = typeof data?.name === 'string' ? data.name.trim() : ''
+  const role = typeof data?.role === 'string' ? data.role : ''
+  if (!email || !name || !STAFF_ROLES.includes(role)) {
+    throw new functions.https.HttpsError('invalid-argument', 'email, name and a valid role are required')
+  }
+  // Optional grade scope; an empty list means every grade
+  const gradeIds: string[] = Array.isArray(data?.gradeIds)
+    ? data.gradeIds.filter((gradeId: unknown): gradeId is string => typeof gradeId === 'string' && gradeId.length > 0)
+    : []
+
+  const staffRef = db.collection(STAFF_COLLECTION).doc(email)
+  if ((await staffRef.get()).exists) {
+    throw new functions.https.HttpsError('already-exists', 'This email already has a staff account')
+  }
+
+  const authUser = await admin
+    .auth()
+    .getUserByEmail(email)
+    .catch(() => admin.auth().createUser({ email, displayName: name }))
+
+  await staffRef.set({
+    id: email,
+    email,
+    name,
+    role,
+    gradeIds,
+    status: 'active',
+    uid: authUser.uid,
+    invitedBy: context.auth.uid,
+    lastSignInAt: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  })
+
+  const logRef = db.collection('adminLogs').doc()
+  await logRef.set({
+    id: logRef.id,
+    adminId: context.auth.uid,
+    adminEmail: callerEmail,
+    action: 'create',
+    entity: STAFF_COLLECTION,
+    entityId: email,
+    metadata: { email, role, gradeIds, operation: 'invite' },
+    status: 'active',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  })
+
+  return { uid: authUser.uid }
+})
+
+const STAFF_BOOTSTRAP_MARKER = 'config/staffBootstrap'
+
+// Creates the first owner on the first panel sign-in of the bootstrap email, set with
+// `firebase functions:config:set staff.bootstrap_email=...` (or STAFF_BOOTSTRAP_EMAIL).
+// Runs once: afterwards config/staffBootstrap exists and owners invite everyone else.
+export const bootstrapStaffOwner = functions.https.onCall(async (_data, context) => {
+  const callerEmail = context.auth?.token.email?.toLowerCase()
+  if (!context.auth || !callerEmail) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
+  const bootstrapEmail = String(functions.config().staff?.bootstrap_email ?? process.env.STAFF_BOOTSTRAP_EMAIL ?? '')
+    .trim()
+    .toLowerCase()
+  if (!bootstrapEmail || callerEmail !== bootstrapEmail) {
+    return { member: null }
+  }
+
+  const staffRef = db.collection(STAFF_COLLECTION).doc(callerEmail)
+  const markerRef = db.doc(STAFF_BOOTSTRAP_MARKER)
+  const uid = context.auth.uid
+  const member = await db.runTransaction(async (transaction) => {
+    // Installs bootstrapped before the marker existed already have an owner
+    const [markerSnap, staffSnap, ownerSnap] = await Promise.all([
+      transaction.get(markerRef),
+      transaction.get(staffRef),
+      transaction.get(db.collection(STAFF_COLLECTION).where('role', '==', 'owner').limit(1)),
+    ])
+    if (markerSnap.exists || staffSnap.exists || !ownerSnap.empty) return null
+
+    const owner = {
+      id: callerEmail,
+      email: callerEmail,
+      name: context.auth?.token.name ?? callerEmail,
+      role: 'owner',
+      status: 'active',
+      uid,
+      invitedBy: null,
+    }
+    transaction.set(staffRef, {
+      ...owner,
+      lastSignInAt: admin.firestore.FieldValue.serverTimestamp(),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    })
+    transaction.set(markerRef, { ownerEmail: callerEmail, createdAt: admin.firestore.FieldValue.serverTimestamp() })
+    return owner
+  })
+
+  return { member }
+})
+
+// Classes
+// Students join a class with its code through joinClassByCode, so they never read other classes or their codes.
+// The panel reserves each code as classJoinCodes/{code} when it gives a class a code.
+const CLASSES_COLLECTION = 'classes'
+const CLASS_JOIN_CODES_COLLECTION = 'classJoinCodes'
+
+/**
+ * Add the calling student to the class with this join code, if the class still accepts joins
+ * Classes given their code before codes were reserved are found by their joinCode field.
+ */
+export const joinClassByCode = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
+  const userId = context.auth.uid
+  const joinCode = typeof data?.joinCode === 'string' ? data.joinCode.trim().toUpperCase() : ''
+  if (!joinCode || !/^[A-Z0-9]+$/.test(joinCode)) {
+    throw new functions.https.HttpsError('invalid-argument', 'joinCode is required')
+  }
+
+  const reservation = await db.collection(CLASS_JOIN_CODES_COLLECTION).doc(joinCode).get()
+  const classRef = reservation.exists
+    ? db.collection(CLASSES_COLLECTION).doc(String(reservation.data()?.classId))
+    : (await db.collection(CLASSES_COLLECTION).where('joinCode', '==', joinCode).limit(1).get()).docs[0]?.ref
+  if (!classRef) {
+    throw new functions.https.HttpsError('not-found', 'No class uses this join code')
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const classroom = (await transaction.get(classRef)).data()
+    // The code is checked on the class itself, so a regenerated or disabled code stops working at once
+    if (!classroom || classroom.joinCode !== joinCode || classroom.joinCodeEnabled !== true) {
+      throw new functions.https.HttpsError('not-found', 'No class uses this join code')
+    }
+    const alreadyEnrolled = Array.isArray(classroom.studentIds) && classroom.studentIds.includes(userId)
+    if (!alreadyEnrolled) {
+      transaction.update(classRef, {
+        studentIds: admin.firestore.FieldValue.arrayUnion(userId),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      })
+      transaction.set(
+        db.collection('users').doc(userId),
+        { classIds: admin.firestore.FieldValue.arrayUnion(classRef.id) },
+        { merge: true },
+      )
+    }
+    return { classId: classRef.id, name: typeof classroom.name === 'string' ? classroom.name : '', alreadyEnrolled }
+  })
+})
+
 // AI Composition Evaluation Function
-// This function evaluates student composition answers using OpenAI API
-// API key is stored securely in Firebase Functions config
+// This function grades student composition answers against the quiz rubric using the configured AI provider
+// Provider settings and API keys are stored securely in Firebase Functions config
+type QuizLocation = { gradeId: string; unitId: string; lessonId: string; sectionId: string; quizId: string }
+
+async function loadCompositionSettings(quizPath: unknown) {
+  if (!quizPath || typeof quizPath !== 'object') {
+    return { rubric: DEFAULT_COMPOSITION_RUBRIC, teacherInstructions: undefined, location: null }
+  }
+
+  const { gradeId, unitId, lessonId, sectionId, quizId } = quizPath as Record<string, unknown>
+  const ids = [gradeId, unitId, lessonId, sectionId, quizId]
+  if (!ids.every((id) => typeof id === 'string' && id.length > 0)) {
+    throw new functions.https.HttpsError('invalid-argument', 'quizPath must contain gradeId, unitId, lessonId, sectionId and quizId')
+  }
+
+  // Rubric and instructions come from the quiz document, never from the caller
+  const quizSnapshot = await db
+    .collection('grades')
+    .doc(gradeId as string)
+    .collection('units')
+    .doc(unitId as string)
+    .collection('lessons')
+    .doc(lessonId as string)
+    .collection('sections')
+    .doc(sectionId as string)
+    .collection('quizzes')
+    .doc(quizId as string)
+    .get()
+
+  if (!quizSnapshot.exists) {
+    throw new functions.https.HttpsError('not-found', 'Quiz not found')
+  }
+
+  const quizData = quizSnapshot.data() ?? {}
+  return {
+    rubric: resolveRubric(quizData.compositionRubric),
+    teacherInstructions: typeof quizData.aiEvaluationPrompt === 'string' ? quizData.aiEvaluationPrompt : undefined,
+    location: { gradeId, unitId, lessonId, sectionId, quizId } as QuizLocation,
+  }
+}
+
+/**
+ * Keep a student's composition and its AI grade for the teacher review queue
+ */
+async function saveCompositionSubmission(params: {
+  userId: string
+  location: QuizLocation
+  questionId: unknown
+  questionPrompt: string
+  studentAnswer: string
+  passMark: number
+  grade: CompositionGrade
+  provider: string
+}): Promise<string> {
+  const userSnapshot = await db.collection('users').doc(params.userId).get()
+  const submissionRef = db.collection(COMPOSITION_SUBMISSIONS_COLLECTION).doc()
+  await submissionRef.set({
+    id: submissionRef.id,
+    userId: params.userId,
+    studentName: userSnapshot.data()?.name ?? null,
+    ...params.location,
+    questionId: typeof params.questionId === 'string' ? params.questionId : null,
+    questionPrompt: params.questionPrompt,
+    studentAnswer: params.studentAnswer,
+    passMark: params.passMark,
+    aiGrade: params.grade,
+    provider: params.provider,
+    reviewStatus: 'pending',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  })
+  return submissionRef.id
+}
+
 export const evaluateComposition = functions.https.onCall(async (data, context) => {
   // Validate authentication (optional - remove if you want to allow anonymous calls)
   // if (!context.auth) {
@@ -284,7 +634,7 @@ export const evaluateComposition = functions.https.onCall(async (data, context)
   // }
 
   // Validate input data
-  const { questionPrompt, studentAnswer } = data
+  const { questionPrompt, studentAnswer, quizPath, questionId } = data
 
   if (!questionPrompt || typeof questionPrompt !== 'string') {
     throw new functions.https.HttpsError('invalid-argument', 'questionPrompt is required and must be a string')
@@ -294,76 +644,33 @@ export const evaluateComposition = functions.https.onCall(async (data, context)
     throw new functions.https.HttpsError('invalid-argument', 'studentAnswer is required and must be a string')
   }
 
+  const { rubric, teacherInstructions, location } = await loadCompositionSettings(quizPath)
+
   if (studentAnswer.trim().length === 0) {
-    return { isCorrect: false }
+    return emptyAnswerGrade(rubric)
   }
 
-  // Get OpenAI API key from Firebase Functions config
-  // Set this using: firebase functions:config:set openai.api_key="your-key-here"
-  const openaiApiKey = functions.config().openai?.api_key
-
-  if (!openaiApiKey) {
-    console.error('OpenAI API key not configured in Firebase Functions config')
-    throw new functions.https.HttpsError(
-      'internal',
-      'AI evaluation service is not configured. Please contact administrator.',
-    )
-  }
+  // Provider is chosen by configuration, see compositionEvaluator.ts
+  const evaluator = getCompositionEvaluator()
 
   try {
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-5-nano',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an English teacher. Respond with only "CORRECT" or "INCORRECT".',
-          },
-          {
-            role: 'user',
-            content: `You are an English teacher evaluating a student's composition.
-
-Question/Topic: ${questionPrompt}
-
-Student's Answer:
-${studentAnswer}
-
-Evaluate if the student's answer:
-1. Addresses the question/topic appropriately
-2. Shows understanding of the subject
-3. Is written in proper English
-4. Has reasonable content quality for the grade level
+    const grade = await evaluator.evaluate({ questionPrompt, studentAnswer, rubric, teacherInstructions })
 
-Respond with ONLY "CORRECT" or "INCORRECT" (no other text, no explanation).`,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 10,
-      }),
-    })
-
-    if (!response.ok) {
-      const errorBody = await response.text()
-      console.error(`OpenAI API error: ${response.status} ${errorBody}`)
-      throw new functions.https.HttpsError(
-        'internal',
-        'Failed to evaluate composition. Please try again.',
-      )
+    // Signed-in students' answers to a known quiz go to the review queue; the AI verdict stays provisional until reviewed
+    if (!context.auth || !location) {
+      return grade
     }
-
-    const result = await response.json()
-    const content = result.choices?.[0]?.message?.content || ''
-    const normalizedContent = content.trim().toUpperCase()
-
-    const isCorrect = normalizedContent.includes('CORRECT')
-
-    return { isCorrect }
+    const submissionId = await saveCompositionSubmission({
+      userId: context.auth.uid,
+      location,
+      questionId,
+      questionPrompt,
+      studentAnswer,
+      passMark: rubric.passMark,
+      grade,
+      provider: evaluator.name,
+    })
+    return { ...grade, submissionId }
   } catch (error) {
     console.error('Error evaluating composition:', error)
     if (error instanceof functions.https.HttpsError) {
@@ -380,12 +687,107 @@ Respond with ONLY "CORRECT" or "INCORRECT" (no other text, no explanation).`,
 // COMPETITION FUNCTIONS
 // ============================================================================
 
+const MATCHMAKING_ATTEMPTS = 3
+// Rooms whose match was made are kept this long for the panel, then removed; the match keeps the results
+const FINISHED_ROOM_RETENTION_MS = 24 * 60 * 60 * 1000
+const COMPETITION_MATCHES_PATH = 'competition_matches'
+const TIMER_PER_QUESTION = 60 // Seconds
+// Matches that are rated; live quizzes and tournaments have their own results
+const RATED_MODES = ['public', 'invite']
+const COMPETITION_RATINGS_COLLECTION = 'competitionRatings'
+const COMPETITION_RATING_PERIODS_COLLECTION = 'competitionRatingPeriods'
+const COMPETITION_RATING_SUMMARIES_COLLECTION = 'competitionRatingSummaries'
+// The student app still reads the top of each section's leaderboard from this document
+const COMPETITION_LEADERBOARDS_COLLECTION = 'competition_leaderboards'
+const LEADERBOARD_SIZE = 100
+// Players whose submissions failed an integrity check, for staff to review
+const COMPETITION_FLAGS_COLLECTION = 'competitionFlags'
+
+type SectionMetadata = { gradeId: string; unitId: string; lessonId: string }
+
+/**
+ * Random selection of 5-10 questions from the section's quiz, played by everyone in a room
+ */
+async function pickCompetitionQuestionIds(sectionId: string, sectionMetadata: SectionMetadata): Promise<string[]> {
+  const { gradeId, unitId, lessonId } = sectionMetadata || {}
+  if (!gradeId || !unitId || !lessonId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing section metadata')
+  }
+
+  const quizSnapshot = await db
+    .collection('grades')
+    .doc(gradeId)
+    .collection('units')
+    .doc(unitId)
+    .collection('lessons')
+    .doc(lessonId)
+    .collection('sections')
+    .doc(sectionId)
+    .collection('quizzes')
+    .limit(1)
+    .get()
+
+  if (quizSnapshot.empty) {
+    throw new functions.https.HttpsError('not-found', 'No quiz found for this section')
+  }
+
+  const quizData = quizSnapshot.docs[0].data()
+  // Compositions are only graded after review, so they cannot score a match
+  const questions = ((quizData.questions as GradableQuestion[] | undefined) || []).filter(
+    (question) => question.id && question.type !== 'composition',
+  )
+
+  if (questions.length === 0) {
+    throw new functions.https.HttpsError('not-found', 'Quiz has no questions that can be used in a competition')
+  }
+
+  const questionCount = Math.min(Math.max(5, Math.floor(questions.length * 0.7)), 10)
+  const shuffled = [...questions].sort(() => Math.random() - 0.5)
+  return shuffled.slice(0, questionCount).map((question) => question.id!)
+}
+
+/**
+ * Create the match of a room and mark the room ready
+ * Several calls may race for the same room (e.g. the last two seats filled at once), so the match is
+ * claimed in a transaction on the room; returns null when another call created it.
+ */
+async function createMatchForRoom(
+  roomId: string,
+  roomData: CompetitionRecord,
+  matchId = rtdb.ref(COMPETITION_MATCHES_PATH).push().key!,
+): Promise<string | null> {
+  const roomRef = rtdb.ref(`${COMPETITION_ROOMS_PATH}/${roomId}`)
+  if (!(await claimOnce(roomRef.child('pendingMatchId'), matchId))) return null
+
+  await rtdb.ref(`${COMPETITION_MATCHES_PATH}/${matchId}`).set({
+    matchId,
+    roomId,
+    sectionId: roomData.sectionId,
+    mode: roomData.matchType,
+    status: 'live',
+    questionIds: roomData.questionIds,
+    timerPerQuestion: roomData.timerPerQuestion || TIMER_PER_QUESTION,
+    participants: roomData.participants || {},
+    sectionMetadata: roomData.sectionMetadata,
+    ...(roomData.tournamentId ? { tournamentId: roomData.tournamentId, bracketKey: roomData.bracketKey } : {}),
+    createdAt: admin.database.ServerValue.TIMESTAMP,
+    submissions: {},
+  })
+
+  // Update room status and link to match
+  await rtdb.ref(`${COMPETITION_ROOMS_PATH}/${roomId}`).update({
+    status: 'ready',
+    matchId,
+  })
+  return matchId
+}
+
 /**
  * Create a competition room
- * - For PUBLIC matches: First checks for existing rooms waiting for players (matchmaking)
- * - If found, joins existing room
- * - If not found, creates new room
+ * - For PUBLIC matches: takes a seat in a room of the section waiting for players (matchmaking)
+ * - If none has a free seat, queues the new room for the next player
  * - For INVITE matches: Creates new room with invited user
+ * - maxPlayers sets the room size, 2-8 players (2 when not given)
  * - Generates questionIds from section
  * - Sets up match structure
  */
@@ -394,143 +796,95 @@ export const createCompetitionRoom = functions.https.onCall(async (data, context
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
   }
 
-  const { sectionId, userId, userName, invitedUserId, matchType, sectionMetadata } = data
+  const { sectionId, userName, invitedUserId, matchType, sectionMetadata, maxPlayers } = data
+  const userId = context.auth.uid
 
-  if (!sectionId || !userId || !userName || !matchType) {
+  if (!sectionId || !userName || !matchType) {
     throw new functions.https.HttpsError('invalid-argument', 'Missing required fields')
   }
+  // Older app versions still send the player's ID; it must be the caller's own
+  if (data.userId && data.userId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', 'Rooms can only be created for your own account')
+  }
+  if (matchType !== 'public' && matchType !== 'invite') {
+    throw new functions.https.HttpsError('invalid-argument', 'matchType must be public or invite')
+  }
 
   try {
-    // Load questions from section
-    const { gradeId, unitId, lessonId } = sectionMetadata
-    if (!gradeId || !unitId || !lessonId) {
-      throw new functions.https.HttpsError('invalid-argument', 'Missing section metadata')
+    const questionIds = await pickCompetitionQuestionIds(sectionId, sectionMetadata)
+    const maxCapacity = resolveRoomCapacity(maxPlayers)
+
+    // The caller's room is written before it can be found in the matchmaking queue, so a player
+    // who claims a seat in it always finds the room
+    const ownRoomRef = rtdb.ref(COMPETITION_ROOMS_PATH).push()
+    const ownRoomId = ownRoomRef.key!
+    const participant = {
+      userId,
+      userName,
+      joinedAt: admin.database.ServerValue.TIMESTAMP,
+      status: 'waiting',
     }
+    await ownRoomRef.set({
+      roomId: ownRoomId,
+      sectionId,
+      matchType, // 'invite' or 'public'
+      createdBy: userId,
+      createdAt: admin.database.ServerValue.TIMESTAMP,
+      status: 'waiting',
+      maxCapacity,
+      questionIds,
+      timerPerQuestion: TIMER_PER_QUESTION,
+      participants: { [userId]: participant },
+      ...(invitedUserId ? { invitedUserId } : {}),
+      sectionMetadata,
+    })
 
-    const quizSnapshot = await db
-      .collection('grades')
-      .doc(gradeId)
-      .collection('units')
-      .doc(unitId)
-      .collection('lessons')
-      .doc(lessonId)
-      .collection('sections')
-      .doc(sectionId)
-      .collection('quizzes')
-      .limit(1)
-      .get()
-
-    if (quizSnapshot.empty) {
-      throw new functions.https.HttpsError('not-found', 'No quiz found for this section')
-    }
-
-    const quizDoc = quizSnapshot.docs[0]
-    const quizData = quizDoc.data()
-    const questions = (quizData.questions as any[]) || []
-
-    if (questions.length === 0) {
-      throw new functions.https.HttpsError('not-found', 'Quiz has no questions')
-    }
-
-    // Select random questions (5-10 questions)
-    const questionCount = Math.min(Math.max(5, Math.floor(questions.length * 0.7)), 10)
-    const shuffled = [...questions].sort(() => Math.random() - 0.5)
-    const selectedQuestions = shuffled.slice(0, questionCount)
-    const questionIds = selectedQuestions.map((q: any) => q.id)
-
-    let roomId: string = ''
-    let isJoiningExistingRoom = false
-
-    // MATCHMAKING LOGIC: For public matches, try to find existing room waiting for players
-    if (matchType === 'public' && !invitedUserId) {
-      try {
-        // Get all rooms and filter client-side (Realtime DB doesn't support complex queries)
-        const roomsRef = rtdb.ref('competition_rooms')
-        const roomsSnapshot = await roomsRef.once('value')
-
-        if (roomsSnapshot.exists()) {
-          const rooms = roomsSnapshot.val() as Record<string, any>
-          const now = Date.now()
-          const maxRoomAge = 2 * 60 * 1000 // 2 minutes
-
-          // Find a room that matches our criteria
-          for (const [key, roomData] of Object.entries(rooms)) {
-            const room = roomData as any
-
-            // Check if room is available for matching
-            if (
-              room &&
-              room.matchType === 'public' &&
-              room.status === 'waiting' &&
-              room.sectionId === sectionId &&
-              !room.invitedUserId // Not an invite-only room
-            ) {
-              const participants = room.participants || {}
-              const participantCount = Object.keys(participants).length
-
-              // Found a room waiting for a player (has exactly 1 participant)
-              if (participantCount === 1) {
-                // Check if room is not too old (created within last 2 minutes)
-                const createdAt = room.createdAt || 0
-                const roomAge = now - createdAt
-
-                if (roomAge < maxRoomAge && roomAge >= 0) {
-                  roomId = key
-                  isJoiningExistingRoom = true
-
-                  // Join the existing room
-                  await roomsRef.child(roomId).child('participants').child(userId).set({
-                    userId,
-                    userName,
-                    joinedAt: admin.database.ServerValue.TIMESTAMP,
-                    status: 'waiting',
-                  })
-
-                  console.log(`✅ Player ${userId} joined existing room ${roomId} (matchmaking)`)
-                  break
-                }
-              }
-            }
-          }
-        }
-      } catch (matchmakingError) {
-        console.error('Error in matchmaking:', matchmakingError)
-        // Continue to create new room if matchmaking fails
-        isJoiningExistingRoom = false
-      }
+    if (matchType !== 'public' || invitedUserId) {
+      return { roomId: ownRoomId, questionIds, timerPerQuestion: TIMER_PER_QUESTION, maxCapacity, isJoiningExistingRoom: false }
     }
 
-    // If no existing room found, create a new one
-    if (!isJoiningExistingRoom) {
-      const roomRef = rtdb.ref('competition_rooms').push()
-      roomId = roomRef.key!
-
-      const roomData = {
-        roomId,
+    // MATCHMAKING: take a seat in the open room of the section closest to our rating, or queue our own room.
+    // A claimed room can disappear before we join it (closed by staff), in which case we try again.
+    const ratingDoc = await db.collection(COMPETITION_RATINGS_COLLECTION).doc(`${sectionId}_${userId}`).get()
+    const rating = typeof ratingDoc.data()?.rating === 'number' ? ratingDoc.data()!.rating : DEFAULT_RATING
+    for (let attempt = 1; attempt <= MATCHMAKING_ATTEMPTS; attempt++) {
+      const claim = await claimOrEnqueueRoom(rtdb, {
         sectionId,
-        matchType, // 'invite' or 'public'
-        createdBy: userId,
-        createdAt: admin.database.ServerValue.TIMESTAMP,
-        status: 'waiting',
-        questionIds,
-        timerPerQuestion: 60, // 60 seconds per question
-        participants: {
-          [userId]: {
-            userId,
-            userName,
-            joinedAt: admin.database.ServerValue.TIMESTAMP,
-            status: 'waiting',
-          },
-        },
-        ...(invitedUserId ? { invitedUserId } : {}),
-        sectionMetadata,
+        userId,
+        ownRoomId,
+        maxCapacity,
+        rating,
+      })
+      if (claim.expiredRoomIds.length > 0) {
+        await removeWaitingRooms(rtdb, sectionId, claim.expiredRoomIds)
+      }
+      if (!claim.joined) {
+        console.log(`Queued room ${ownRoomId} for player ${userId}`)
+        return { roomId: ownRoomId, questionIds, timerPerQuestion: TIMER_PER_QUESTION, maxCapacity, isJoiningExistingRoom: false }
+      }
+
+      const roomRef = rtdb.ref(`${COMPETITION_ROOMS_PATH}/${claim.roomId}`)
+      const room = (await roomRef.once('value')).val()
+      if (!room || room.status !== 'waiting') {
+        await removeQueueEntry(rtdb, sectionId, claim.roomId)
+        continue
       }
 
-      await roomRef.set(roomData)
-      console.log(`Created new room ${roomId} for player ${userId}`)
+      await roomRef.child('participants').child(userId).set(participant)
+      await ownRoomRef.remove()
+      console.log(`✅ Player ${userId} joined existing room ${claim.roomId} (matchmaking)`)
+      // Everyone in a room plays the questions chosen by the player who opened it
+      return {
+        roomId: claim.roomId,
+        questionIds: room.questionIds || questionIds,
+        timerPerQuestion: room.timerPerQuestion || TIMER_PER_QUESTION,
+        maxCapacity,
+        isJoiningExistingRoom: true,
+      }
     }
 
-    return { roomId, questionIds, timerPerQuestion: 60, isJoiningExistingRoom }
+    await ownRoomRef.remove()
+    throw new functions.https.HttpsError('aborted', 'Could not find a room, please try again')
   } catch (error) {
     console.error('Error creating competition room:', error)
     if (error instanceof functions.https.HttpsError) {
@@ -542,68 +896,128 @@ export const createCompetitionRoom = functions.https.onCall(async (data, context
 
 /**
  * Triggered when a player joins a room
- * Creates a match when both players are ready
+ * Creates the match once a public or invite room is full. Live quizzes are started by their host and
+ * tournament matches by the tournament, so their rooms are left alone.
  */
 export const onRoomParticipantJoin = functions.database
   .ref('competition_rooms/{roomId}/participants/{userId}')
   .onCreate(async (snapshot, context) => {
     const roomId = context.params.roomId
-    const roomRef = rtdb.ref(`competition_rooms/${roomId}`)
-    const roomSnapshot = await roomRef.once('value')
-    const roomData = roomSnapshot.val()
+    const roomSnapshot = await rtdb.ref(`${COMPETITION_ROOMS_PATH}/${roomId}`).once('value')
+    const roomData = roomSnapshot.val() as CompetitionRecord | null
 
-    if (!roomData) return
+    if (!roomData || roomData.status !== 'waiting') return
+    if (roomData.matchType === 'live' || roomData.matchType === 'tournament') return
 
-    const participants = roomData.participants || {}
-    const participantCount = Object.keys(participants).length
+    const participantCount = Object.keys(roomData.participants || {}).length
+    const maxCapacity = roomData.maxCapacity || DEFAULT_ROOM_CAPACITY
 
-    // When second player joins, create match
-    if (participantCount >= 2) {
-      const matchRef = rtdb.ref('competition_matches').push()
-      const matchId = matchRef.key!
+    if (participantCount < maxCapacity) return
 
-      const matchData = {
-        matchId,
-        roomId,
-        sectionId: roomData.sectionId,
-        status: 'live',
-        questionIds: roomData.questionIds,
-        timerPerQuestion: roomData.timerPerQuestion || 60,
-        participants: roomData.participants,
-        sectionMetadata: roomData.sectionMetadata,
-        createdAt: admin.database.ServerValue.TIMESTAMP,
-        submissions: {},
-      }
+    await createMatchForRoom(roomId, roomData)
+  })
 
-      await matchRef.set(matchData)
+/**
+ * Remove public rooms nobody joined within the matchmaking window, closed rooms, live quiz lobbies
+ * that were never started, and rooms of matches made more than a day ago, along with their matchmaking
+ * queue entries and join codes
+ * Needs ".indexOn": ["createdAt"] on competition_rooms in the Realtime Database rules.
+ */
+export const cleanupCompetitionRooms = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const now = Date.now()
+    const snapshot = await rtdb
+      .ref(COMPETITION_ROOMS_PATH)
+      .orderByChild('createdAt')
+      .endAt(now - MATCHMAKING_WINDOW_MS)
+      .once('value')
+
+    const updates: Record<string, null> = {}
+    snapshot.forEach((child) => {
+      const room = child.val() as CompetitionRecord
+      const age = now - (room.createdAt || 0)
+      const isFinished = room.status === 'ready' && age >= FINISHED_ROOM_RETENTION_MS
+      // A class may take a while to gather in a live quiz lobby
+      const isExpiredWaiting = room.status === 'waiting' && (room.matchType !== 'live' || age >= LIVE_QUIZ_LOBBY_TTL_MS)
+      if (isExpiredWaiting || room.status === 'closed' || isFinished) {
+        updates[`${COMPETITION_ROOMS_PATH}/${child.key}`] = null
+        if (room.sectionId) updates[`${COMPETITION_QUEUE_PATH}/${room.sectionId}/${child.key}`] = null
+        if (room.joinCode) updates[`${COMPETITION_JOIN_CODES_PATH}/${room.joinCode}`] = null
+      }
+    })
 
-      // Update room status and link to match
-      await roomRef.update({
-        status: 'ready',
-        matchId,
-      })
+    // One multi-path update per batch keeps each write small
+    const paths = Object.keys(updates)
+    for (const batch of chunk(paths, MAX_BATCH_SIZE)) {
+      await rtdb.ref().update(Object.fromEntries(batch.map((path) => [path, null])))
     }
+    console.log(`Removed ${paths.filter((path) => path.startsWith(COMPETITION_ROOMS_PATH)).length} competition rooms`)
   })
 
+// Players staff removed from a match no longer hold it up or take part in its result
+const activeParticipantIds = (match: CompetitionRecord) =>
+  Object.entries(match.participants || {})
+    .filter(([, participant]) => participant?.status !== 'removed')
+    .map(([userId]) => userId)
+
+/**
+ * Flag a player of a match for staff review, adding to the reasons of an earlier flag on the same match
+ */
+async function flagCompetitionPlayer(
+  matchId: string,
+  matchData: CompetitionRecord,
+  userId: string,
+  flags: IntegrityFlag[],
+): Promise<void> {
+  if (flags.length === 0) return
+  const { gradeId, unitId, lessonId } = matchData.sectionMetadata || {}
+  await db
+    .collection(COMPETITION_FLAGS_COLLECTION)
+    .doc(`${matchId}_${userId}`)
+    .set(
+      {
+        matchId,
+        sectionId: matchData.sectionId,
+        ...(gradeId ? { gradeId, unitId, lessonId } : {}),
+        mode: matchData.mode || 'public',
+        userId,
+        userName: matchData.participants?.[userId]?.userName || 'Anonymous',
+        reasons: admin.firestore.FieldValue.arrayUnion(...flags),
+        status: 'open',
+        flaggedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    )
+}
+
 /**
  * Submit competition answers
- * - Validates answers server-side
- * - Calculates score server-side
- * - Updates match status
- * - Updates leaderboard when match completes
+ * - Answers are submitted by the signed-in player, once per match
+ * - Validates answers server-side; answers given outside the match or past a question's timer are not graded
+ * - Flags suspicious submissions (late, impossibly fast, same wrong answers as another player) for staff
+ * - Updates match with results
+ * - Finalizes match once every player still in it has submitted
  */
 export const submitCompetitionAnswers = functions.https.onCall(async (data, context) => {
   if (!context.auth) {
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
   }
 
-  const { matchId, userId, responses } = data
+  const { matchId, responses, answerTimes, clientSubmittedAt } = data
+  const userId = context.auth.uid
 
-  if (!matchId || !userId || !responses) {
+  if (!matchId || !responses || typeof responses !== 'object') {
     throw new functions.https.HttpsError('invalid-argument', 'Missing required fields')
   }
+  // Older app versions still send the player's ID; it must be the caller's own
+  if (data.userId && data.userId !== userId) {
+    throw new functions.https.HttpsError('permission-denied', 'Answers can only be submitted for your own account')
+  }
 
   try {
+    const receivedAt = Date.now()
     // Get match data from Realtime Database
     const matchRef = rtdb.ref(`competition_matches/${matchId}`)
     const matchSnapshot = await matchRef.once('value')
@@ -612,6 +1026,21 @@ export const submitCompetitionAnswers = functions.https.onCall(async (data, cont
     if (!matchData) {
       throw new functions.https.HttpsError('not-found', 'Match not found')
     }
+    const participant = matchData.participants?.[userId]
+    if (!participant || participant.status === 'removed') {
+      throw new functions.https.HttpsError('permission-denied', 'You are not a player of this match')
+    }
+    if (matchData.submissions?.[userId]) {
+      throw new functions.https.HttpsError('already-exists', 'Your answers for this match were already submitted')
+    }
+    // Staff may cancel a match from the panel, e.g. after removing a cheating player
+    if (matchData.status === 'cancelled') {
+      throw new functions.https.HttpsError('failed-precondition', 'This match was cancelled')
+    }
+    // A live quiz host can end the quiz before everyone has answered
+    if (matchData.status === 'completed') {
+      throw new functions.https.HttpsError('failed-precondition', 'This match has already finished')
+    }
 
     // Get questions from Firestore
     const { sectionId, questionIds, sectionMetadata } = matchData
@@ -638,42 +1067,83 @@ export const submitCompetitionAnswers = functions.https.onCall(async (data, cont
     const allQuestions = (quizData.questions as any[]) || []
     const questionsMap = new Map(allQuestions.map((q: any) => [q.id, q]))
 
-    // Validate and calculate score server-side
+    // A question's own competition timer overrides the match timer
+    const timerPerQuestion = matchData.timerPerQuestion || TIMER_PER_QUESTION
+    const timing =
+      typeof matchData.createdAt === 'number'
+        ? checkSubmissionTiming({
+            startedAt: matchData.createdAt,
+            receivedAt,
+            questionIds,
+            timeLimitsMs: questionIds.map(
+              (questionId: string) => (questionsMap.get(questionId)?.competitionTimerSeconds || timerPerQuestion) * 1000,
+            ),
+            answeredIds: questionIds.filter((questionId: string) => responses[questionId]),
+            answerTimes,
+            clientSubmittedAt,
+          })
+        : { late: false, ungradedQuestionIds: [], flags: [] }
+    const ungraded = new Set(timing.ungradedQuestionIds)
+
+    // Validate and calculate score server-side; partly correct answers earn partial points
     let correctCount = 0
     let totalPoints = 0
+    const wrongAnswers: Record<string, string> = {}
 
     for (const questionId of questionIds) {
       const question = questionsMap.get(questionId)
       if (!question) continue
 
       const userAnswer = responses[questionId]
-      if (!userAnswer) continue
+      // Compositions in matches picked before they were left out earn nothing until reviewed
+      if (!userAnswer || ungraded.has(questionId) || question.type === 'composition') continue
 
-      const isCorrect = validateAnswer(question, userAnswer)
-      if (isCorrect) {
+      const grade = gradeAnswer(question, userAnswer)
+      if (grade.isCorrect) {
         correctCount++
-        totalPoints += question.points || 1
+      } else {
+        wrongAnswers[questionId] = answerFingerprint(userAnswer)
       }
+      totalPoints += grade.earnedPoints
     }
+    totalPoints = Math.round(totalPoints * 100) / 100
 
-    // Update match with user's submission
+    // Update match with user's submission; the transaction keeps a second, concurrent submission out
     const submissionData = {
       userId,
       correctCount,
       totalPoints,
       totalQuestions: questionIds.length,
-      submittedAt: admin.database.ServerValue.TIMESTAMP,
+      ungradedCount: ungraded.size,
+      ...(timing.late ? { late: true } : {}),
+      ...(Object.keys(wrongAnswers).length > 0 ? { wrongAnswers } : {}),
+      submittedAt: receivedAt,
+    }
+    const claim = await matchRef
+      .child('submissions')
+      .child(userId)
+      .transaction((current) => (current === null ? submissionData : undefined))
+    if (!claim.committed) {
+      throw new functions.https.HttpsError('already-exists', 'Your answers for this match were already submitted')
     }
 
-    await matchRef.child('submissions').child(userId).set(submissionData)
-
-    // Check if both players have submitted
+    // Check if every player still in the match has submitted
     const submissionsSnapshot = await matchRef.child('submissions').once('value')
     const submissions = submissionsSnapshot.val() || {}
-    const participantIds = Object.keys(matchData.participants || {})
 
-    if (Object.keys(submissions).length === participantIds.length) {
-      // Both players submitted - determine winner and update leaderboard
+    // Players who gave the same wrong answers are both flagged, whoever submitted first
+    const flags = [...timing.flags]
+    for (const [otherUserId, other] of Object.entries<{ wrongAnswers?: Record<string, string> }>(submissions)) {
+      if (otherUserId === userId || !hasIdenticalWrongAnswers(wrongAnswers, other.wrongAnswers || {})) continue
+      flags.push({ type: 'identical_answers', detail: 'Same wrong answers as another player', otherUserId })
+      await flagCompetitionPlayer(matchId, matchData, otherUserId, [
+        { type: 'identical_answers', detail: 'Same wrong answers as another player', otherUserId: userId },
+      ])
+    }
+    await flagCompetitionPlayer(matchId, matchData, userId, flags)
+
+    if (activeParticipantIds(matchData).every((participantId) => submissions[participantId])) {
+      // Everyone submitted - determine winner and update ratings
       await finalizeMatch(matchId, matchData, submissions, sectionId)
     }
 
@@ -682,6 +1152,7 @@ export const submitCompetitionAnswers = functions.https.onCall(async (data, cont
       score: totalPoints,
       correctCount,
       totalQuestions: questionIds.length,
+      ungradedCount: ungraded.size,
     }
   } catch (error) {
     console.error('Error submitting competition answers:', error)
@@ -693,133 +1164,1049 @@ export const submitCompetitionAnswers = functions.https.onCall(async (data, cont
 })
 
 /**
- * Validate answer against question (server-side validation)
+ * Finalize match and rate its players
+ * Players of a match can submit at the same time, and a live quiz host can end the quiz while the
+ * last answers come in, so the first call claims the match and the others return.
  */
-function validateAnswer(question: any, userAnswer: any): boolean {
-  const questionType = question.type
+async function finalizeMatch(
+  matchId: string,
+  matchData: CompetitionRecord,
+  submissions: Record<string, any>,
+  sectionId: string,
+): Promise<void> {
+  const matchRef = rtdb.ref(`competition_matches/${matchId}`)
+  if (!(await claimOnce(matchRef.child('finalizedBy'), matchRef.push().key!))) return
 
-  switch (questionType) {
-    case 'fill_blank':
-    case 'spelling': {
-      const userAnswerStr = String(userAnswer).trim().toLowerCase()
-      const correctAnswers = (question.answers || []).map((a: string) => a.trim().toLowerCase())
-      return correctAnswers.includes(userAnswerStr)
-    }
+  const scores = activeParticipantIds(matchData).map((id) => ({
+    userId: id,
+    score: submissions[id]?.totalPoints || 0,
+    correctCount: submissions[id]?.correctCount || 0,
+    submittedAt: (submissions[id]?.submittedAt as number | undefined) ?? null,
+  }))
+
+  // Determine winner; players with the same score share a place
+  scores.sort((a, b) => b.score - a.score)
+  const standings = scores.map(({ userId, score, correctCount }) => ({
+    userId,
+    score,
+    correctCount,
+    rank: scores.findIndex((other) => other.score === score) + 1,
+  }))
+  const isTie = scores.length > 1 && scores[0].score === scores[1].score
+  let winnerId = isTie ? null : (scores[0]?.userId ?? null)
 
-    case 'matching': {
-      if (typeof userAnswer !== 'object') return false
-      const userPairs = userAnswer as Record<string, string>
-      const correctPairs = (question.pairs || {}) as Record<string, string>
+  // A bracket match always sends one player through
+  if (matchData.mode === 'tournament' && matchData.tournamentId && matchData.bracketKey && scores.length > 0) {
+    winnerId = await advanceTournament(matchData.tournamentId, matchData.bracketKey, scores)
+  }
 
-      if (Object.keys(userPairs).length !== Object.keys(correctPairs).length) {
-        return false
+  // Update match status
+  await matchRef.update({
+    status: 'completed',
+    winnerId,
+    isTie: winnerId === null && isTie,
+    standings,
+    finalizedAt: admin.database.ServerValue.TIMESTAMP,
+  })
+
+  // Matches created before modes were stored are public or invite matches
+  if (matchData.mode && !RATED_MODES.includes(matchData.mode)) return
+
+  await updateCompetitionRatings(sectionId, matchData, standings, winnerId, winnerId === null && isTie)
+}
+
+/**
+ * Rate the players of a finished match and update the leaderboards of the section
+ * - competitionRatings/{sectionId}_{userId}: the all-time rating, ranked by rating
+ * - competitionRatingPeriods/{periodKey}_{sectionId}_{userId}: the week and month, ranked by rating gained
+ * - competitionRatingSummaries/{sectionId}: player count and rating distribution for the panel
+ * - competition_leaderboards/{sectionId}: the top players by rating, in the format the student app reads
+ * Leaderboards are queries on these documents; their composite indexes are in firestore.indexes.json.
+ */
+async function updateCompetitionRatings(
+  sectionId: string,
+  matchData: CompetitionRecord,
+  standings: Array<{ userId: string; score: number }>,
+  winnerId: string | null,
+  isTie: boolean,
+): Promise<void> {
+  if (standings.length < 2) return
+  const { gradeId, unitId, lessonId } = matchData.sectionMetadata || {}
+  const location = gradeId ? { gradeId, unitId, lessonId } : {}
+  const periods = (['weekly', 'monthly'] as const).map((period) => ({ period, key: periodKey(period) }))
+  const topScore = standings[0].score
+  const ratingRefs = standings.map(({ userId }) => db.collection(COMPETITION_RATINGS_COLLECTION).doc(`${sectionId}_${userId}`))
+  const timestamp = admin.firestore.FieldValue.serverTimestamp()
+  const increment = admin.firestore.FieldValue.increment
+
+  await db.runTransaction(async (transaction) => {
+    const snapshots = await transaction.getAll(...ratingRefs)
+    const players = standings.map(({ userId, score }, index) => {
+      const current = snapshots[index].data()
+      return {
+        userId,
+        score,
+        rating: typeof current?.rating === 'number' ? current.rating : DEFAULT_RATING,
+        matches: typeof current?.matches === 'number' ? current.matches : 0,
+        peakRating: typeof current?.peakRating === 'number' ? current.peakRating : DEFAULT_RATING,
+        isNew: !snapshots[index].exists,
+      }
+    })
+    const changes = ratingChanges(players)
+    const bandChanges: Record<string, number> = {}
+
+    players.forEach((player, index) => {
+      const rating = player.rating + changes[player.userId]
+      const outcome = player.userId === winnerId ? 'wins' : isTie && player.score === topScore ? 'ties' : 'losses'
+      const userName = matchData.participants?.[player.userId]?.userName || 'Anonymous'
+      const oldBand = String(ratingBand(player.rating))
+      const newBand = String(ratingBand(rating))
+      if (player.isNew || oldBand !== newBand) {
+        bandChanges[newBand] = (bandChanges[newBand] || 0) + 1
+        if (!player.isNew) bandChanges[oldBand] = (bandChanges[oldBand] || 0) - 1
       }
 
-      for (const [key, value] of Object.entries(correctPairs)) {
-        const correctValue = String(value).toLowerCase().trim()
-        const userValue = userPairs[key]?.toLowerCase().trim()
-        if (userValue !== correctValue) {
-          return false
+      transaction.set(
+        ratingRefs[index],
+        {
+          sectionId,
+          userId: player.userId,
+          userName,
+          ...location,
+          rating,
+          peakRating: Math.max(player.peakRating, rating),
+          matches: increment(1),
+          [outcome]: increment(1),
+          lastPlayedAt: timestamp,
+          updatedAt: timestamp,
+        },
+        { merge: true },
+      )
+      for (const { period, key } of periods) {
+        transaction.set(
+          db.collection(COMPETITION_RATING_PERIODS_COLLECTION).doc(`${key}_${sectionId}_${player.userId}`),
+          {
+            period,
+            periodKey: key,
+            sectionId,
+            userId: player.userId,
+            userName,
+            ...location,
+            rating,
+            ratingChange: increment(changes[player.userId]),
+            matches: increment(1),
+            [outcome]: increment(1),
+            updatedAt: timestamp,
+          },
+          { merge: true },
+        )
+      }
+    })
+
+    transaction.set(
+      db.collection(COMPETITION_RATING_SUMMARIES_COLLECTION).doc(sectionId),
+      {
+        sectionId,
+        ...location,
+        players: increment(players.filter((player) => player.isNew).length),
+        ...(Object.keys(bandChanges).length > 0
+          ? { bands: Object.fromEntries(Object.entries(bandChanges).map(([band, change]) => [band, increment(change)])) }
+          : {}),
+        updatedAt: timestamp,
+      },
+      { merge: true },
+    )
+  })
+  await writeSectionLeaderboard(sectionId, location)
+}
+
+/**
+ * Rewrite competition_leaderboards/{sectionId} from the highest ratings of the section
+ * Entries keep the shape the student app reads, with the rating as the player's points.
+ */
+async function writeSectionLeaderboard(
+  sectionId: string,
+  location: { gradeId?: string; unitId?: string; lessonId?: string } = {},
+): Promise<void> {
+  const snapshot = await db
+    .collection(COMPETITION_RATINGS_COLLECTION)
+    .where('sectionId', '==', sectionId)
+    .orderBy('rating', 'desc')
+    .limit(LEADERBOARD_SIZE)
+    .get()
+  const entries = snapshot.docs.map((doc, index) => {
+    const { userId, userName, rating } = doc.data()
+    return { userId, userName: userName || 'Anonymous', points: rating, rating, rank: index + 1 }
+  })
+  await db.collection(COMPETITION_LEADERBOARDS_COLLECTION).doc(sectionId).set(
+    {
+      sectionId,
+      ...location,
+      entries,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+    { merge: true },
+  )
+}
+
+// Competition admin console
+// The Realtime Database has no staff rules, so the panel reads and changes competitions through these functions.
+// Mirrors 'competitions.manage' in src/utils/permissions.ts
+const COMPETITION_MANAGER_ROLES = ['owner', 'editor']
+const COMPETITION_ACTIVITY_LIMIT = 100
+
+type StaffCaller = { uid: string; email: string; gradeIds: string[] | null }
+
+// Fields of competition_rooms and competition_matches entries the console reads
+type CompetitionRecord = {
+  roomId?: string
+  sectionId?: string
+  matchType?: string // Rooms: 'public', 'invite', 'live' or 'tournament'
+  mode?: string // Matches: the matchType of their room
+  status?: string
+  createdAt?: number
+  finalizedAt?: number
+  matchId?: string
+  winnerId?: string | null
+  isTie?: boolean
+  maxCapacity?: number
+  timerPerQuestion?: number
+  questionIds?: string[]
+  sectionMetadata?: { gradeId?: string; unitId?: string; lessonId?: string }
+  hostId?: string // Live quizzes
+  joinCode?: string
+  classId?: string
+  title?: string
+  tournamentId?: string // Tournament rooms and matches
+  bracketKey?: string
+  participants?: Record<string, { userName?: string; status?: string }>
+  submissions?: Record<string, { totalPoints?: number; correctCount?: number }>
+}
+
+/**
+ * Active staff member making a panel call, optionally limited to some roles
+ * gradeIds is null when the member may work on every grade, as in the Firestore rules
+ */
+async function requireStaff(context: functions.https.CallableContext, roles: string[] = STAFF_ROLES): Promise<StaffCaller> {
+  const email = context.auth?.token.email?.toLowerCase()
+  if (!context.auth || !email) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
+  const member = (await db.collection(STAFF_COLLECTION).doc(email).get()).data()
+  if (!member || member.status === 'inactive' || !roles.includes(member.role)) {
+    throw new functions.https.HttpsError('permission-denied', 'Your staff role does not allow this action')
+  }
+  const gradeIds: string[] = Array.isArray(member.gradeIds) ? member.gradeIds : []
+  return { uid: context.auth.uid, email, gradeIds: member.role === 'owner' || gradeIds.length === 0 ? null : gradeIds }
+}
+
+const isGradeInScope = (caller: StaffCaller, gradeId: unknown) =>
+  caller.gradeIds === null || (typeof gradeId === 'string' && caller.gradeIds.includes(gradeId))
+
+const assertCompetitionInScope = (caller: StaffCaller, gradeId: unknown) => {
+  if (!isGradeInScope(caller, gradeId)) {
+    throw new functions.https.HttpsError('permission-denied', 'You do not have access to this grade')
+  }
+}
+
+const logStaffAction = async (
+  caller: StaffCaller,
+  entity: string,
+  entityId: string,
+  action: 'create' | 'update' | 'delete',
+  metadata: Record<string, unknown>,
+) => {
+  const logRef = db.collection('adminLogs').doc()
+  await logRef.set({
+    id: logRef.id,
+    adminId: caller.uid,
+    adminEmail: caller.email,
+    action,
+    entity,
+    entityId,
+    metadata,
+    status: 'active',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  })
+}
+
+const toParticipantSummaries = (
+  participants: CompetitionRecord['participants'],
+  submissions?: CompetitionRecord['submissions'],
+) =>
+  Object.entries(participants || {}).map(([userId, participant]) => ({
+    userId,
+    userName: participant?.userName || 'Anonymous',
+    status: participant?.status || 'waiting',
+    ...(submissions
+      ? {
+          submitted: Boolean(submissions[userId]),
+          totalPoints: submissions[userId]?.totalPoints ?? null,
+          correctCount: submissions[userId]?.correctCount ?? null,
         }
+      : {}),
+  }))
+
+const toRoomSummary = (roomId: string, room: CompetitionRecord) => ({
+  roomId,
+  sectionId: room.sectionId,
+  gradeId: room.sectionMetadata?.gradeId ?? null,
+  matchType: room.matchType,
+  status: room.status,
+  createdAt: room.createdAt ?? null,
+  matchId: room.matchId ?? null,
+  maxCapacity: room.maxCapacity ?? DEFAULT_ROOM_CAPACITY,
+  ...(room.joinCode ? { joinCode: room.joinCode } : {}),
+  ...(room.classId ? { classId: room.classId } : {}),
+  ...(room.title ? { title: room.title } : {}),
+  ...(room.tournamentId ? { tournamentId: room.tournamentId } : {}),
+  participants: toParticipantSummaries(room.participants),
+})
+
+const toMatchSummary = (matchId: string, match: CompetitionRecord) => ({
+  matchId,
+  roomId: match.roomId,
+  sectionId: match.sectionId,
+  gradeId: match.sectionMetadata?.gradeId ?? null,
+  mode: match.mode ?? null,
+  status: match.status,
+  createdAt: match.createdAt ?? null,
+  finalizedAt: match.finalizedAt ?? null,
+  winnerId: match.winnerId ?? null,
+  isTie: Boolean(match.isTie),
+  questionCount: Array.isArray(match.questionIds) ? match.questionIds.length : 0,
+  participants: toParticipantSummaries(match.participants, match.submissions || {}),
+})
+
+/**
+ * Open rooms and the most recent matches, for the panel's Competitions page
+ */
+export const listCompetitionActivity = functions.https.onCall(async (_data, context) => {
+  const caller = await requireStaff(context)
+
+  const [roomsSnapshot, matchesSnapshot] = await Promise.all([
+    rtdb.ref('competition_rooms').orderByChild('createdAt').limitToLast(COMPETITION_ACTIVITY_LIMIT).once('value'),
+    rtdb.ref('competition_matches').orderByChild('createdAt').limitToLast(COMPETITION_ACTIVITY_LIMIT).once('value'),
+  ])
+  const rooms = Object.entries((roomsSnapshot.val() || {}) as Record<string, CompetitionRecord>)
+  const matches = Object.entries((matchesSnapshot.val() || {}) as Record<string, CompetitionRecord>)
+
+  return {
+    rooms: rooms
+      .filter(([, room]) => room && room.status !== 'closed' && isGradeInScope(caller, room.sectionMetadata?.gradeId))
+      .map(([roomId, room]) => toRoomSummary(roomId, room)),
+    matches: matches
+      .filter(([, match]) => match && isGradeInScope(caller, match.sectionMetadata?.gradeId))
+      .map(([matchId, match]) => toMatchSummary(matchId, match)),
+  }
+})
+
+/**
+ * Close rooms that are stuck waiting or whose match never finished
+ * A live match in a closed room is cancelled so its players are not left waiting for a result.
+ */
+export const closeCompetitionRooms = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const roomIds: string[] = Array.isArray(data?.roomIds)
+    ? data.roomIds.filter((roomId: unknown): roomId is string => typeof roomId === 'string' && roomId.length > 0)
+    : []
+  if (roomIds.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'roomIds must list at least one room')
+  }
+
+  let closed = 0
+  for (const roomId of roomIds) {
+    const roomRef = rtdb.ref(`competition_rooms/${roomId}`)
+    const room = (await roomRef.once('value')).val() as CompetitionRecord | null
+    if (!room || room.status === 'closed' || !isGradeInScope(caller, room.sectionMetadata?.gradeId)) continue
+
+    await roomRef.update({
+      status: 'closed',
+      closedBy: caller.uid,
+      closedAt: admin.database.ServerValue.TIMESTAMP,
+    })
+    if (room.sectionId) {
+      await removeQueueEntry(rtdb, room.sectionId, roomId)
+    }
+    if (room.joinCode) {
+      await rtdb.ref(`${COMPETITION_JOIN_CODES_PATH}/${room.joinCode}`).remove()
+    }
+    if (room.matchId) {
+      const matchRef = rtdb.ref(`${COMPETITION_MATCHES_PATH}/${room.matchId}`)
+      const matchStatus = (await matchRef.child('status').once('value')).val()
+      if (matchStatus === 'live') {
+        await matchRef.update({
+          status: 'cancelled',
+          cancelReason: 'room_closed',
+          cancelledAt: admin.database.ServerValue.TIMESTAMP,
+        })
       }
-      return true
     }
+    await logStaffAction(caller, 'competition_rooms', roomId, 'update', {
+      operation: 'close_room',
+      sectionId: room.sectionId,
+      matchId: room.matchId ?? null,
+    })
+    closed++
+  }
 
-    case 'order_words': {
-      if (!Array.isArray(userAnswer)) return false
-      const userOrder = userAnswer.map((w: any) => String(w).trim())
-      const correctOrder = question.order || []
+  return { closed }
+})
 
-      if (userOrder.length !== correctOrder.length) return false
+/**
+ * Delete the rating documents of a section in one collection, optionally those of one player only
+ */
+async function deleteRatingDocs(collectionName: string, sectionId: string, userId?: string): Promise<number> {
+  let query: admin.firestore.Query = db.collection(collectionName).where('sectionId', '==', sectionId)
+  if (userId) query = query.where('userId', '==', userId)
+  const snapshot = await query.get()
+  for (const docs of chunk(snapshot.docs, MAX_BATCH_SIZE)) {
+    const batch = db.batch()
+    docs.forEach((doc) => batch.delete(doc.ref))
+    await batch.commit()
+  }
+  return snapshot.size
+}
 
-      return userOrder.every((word, index) => word === correctOrder[index])
-    }
+/**
+ * Take a player off a section leaderboard, and out of a match when one is given
+ * Their rating is deleted, so they start again from the default rating in new matches.
+ * A live match is cancelled; a finished one keeps its result with the player marked as removed.
+ */
+export const removeCompetitionPlayer = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const sectionId = typeof data?.sectionId === 'string' ? data.sectionId : ''
+  const userId = typeof data?.userId === 'string' ? data.userId : ''
+  const matchId = typeof data?.matchId === 'string' && data.matchId.length > 0 ? data.matchId : null
+  const reason = typeof data?.reason === 'string' ? data.reason.trim().slice(0, 500) : ''
+  if (!sectionId || !userId) {
+    throw new functions.https.HttpsError('invalid-argument', 'sectionId and userId are required')
+  }
 
-    case 'composition': {
-      // Composition validation is done via AI evaluation (separate function)
-      // For now, accept any non-empty answer
-      return String(userAnswer).trim().length > 0
+  if (matchId) {
+    const matchRef = rtdb.ref(`competition_matches/${matchId}`)
+    const match = (await matchRef.once('value')).val() as CompetitionRecord | null
+    if (!match || !match.participants?.[userId]) {
+      throw new functions.https.HttpsError('not-found', 'The player is not in this match')
     }
+    assertCompetitionInScope(caller, match.sectionMetadata?.gradeId)
+    await matchRef.update({
+      [`participants/${userId}/status`]: 'removed',
+      [`participants/${userId}/removedBy`]: caller.uid,
+      [`participants/${userId}/removedAt`]: admin.database.ServerValue.TIMESTAMP,
+      ...(match.status === 'live'
+        ? { status: 'cancelled', cancelReason: 'player_removed', cancelledAt: admin.database.ServerValue.TIMESTAMP }
+        : {}),
+    })
+  }
 
-    default:
-      return false
+  const ratingRef = db.collection(COMPETITION_RATINGS_COLLECTION).doc(`${sectionId}_${userId}`)
+  const summaryRef = db.collection(COMPETITION_RATING_SUMMARIES_COLLECTION).doc(sectionId)
+  const removedRating = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ratingRef)
+    if (!snapshot.exists) return null
+    const rating = snapshot.data() || {}
+    assertCompetitionInScope(caller, rating.gradeId)
+    transaction.delete(ratingRef)
+    transaction.set(
+      summaryRef,
+      {
+        players: admin.firestore.FieldValue.increment(-1),
+        bands: { [String(ratingBand(rating.rating ?? DEFAULT_RATING))]: admin.firestore.FieldValue.increment(-1) },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    )
+    return rating
+  })
+  // Weekly and monthly entries go too, so the player drops off every view of the leaderboard
+  if (removedRating) {
+    await deleteRatingDocs(COMPETITION_RATING_PERIODS_COLLECTION, sectionId, userId)
+    await writeSectionLeaderboard(sectionId)
   }
-}
+
+  await logStaffAction(caller, 'competition_leaderboards', sectionId, 'update', {
+    operation: 'remove_player',
+    userId,
+    name: removedRating?.userName ?? userId,
+    rating: removedRating?.rating ?? null,
+    matchId,
+    ...(reason ? { reason } : {}),
+  })
+
+  return { removedFromLeaderboard: Boolean(removedRating), removedFromMatch: Boolean(matchId) }
+})
 
 /**
- * Finalize match and update leaderboard
+ * Clear the ratings and leaderboards of a section, e.g. at the start of a term
  */
-async function finalizeMatch(
-  matchId: string,
-  matchData: any,
-  submissions: Record<string, any>,
-  sectionId: string,
-): Promise<void> {
-  const participantIds = Object.keys(matchData.participants || {})
-  const scores = participantIds.map((id) => ({
-    userId: id,
-    score: submissions[id]?.totalPoints || 0,
-    correctCount: submissions[id]?.correctCount || 0,
-  }))
+export const resetCompetitionLeaderboard = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const sectionId = typeof data?.sectionId === 'string' ? data.sectionId : ''
+  if (!sectionId) {
+    throw new functions.https.HttpsError('invalid-argument', 'sectionId is required')
+  }
 
-  // Determine winner
-  scores.sort((a, b) => b.score - a.score)
-  const winnerId = scores[0].userId
-  const isTie = scores.length > 1 && scores[0].score === scores[1].score
+  const summaryRef = db.collection(COMPETITION_RATING_SUMMARIES_COLLECTION).doc(sectionId)
+  const snapshot = await summaryRef.get()
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError('not-found', 'This section has no leaderboard')
+  }
+  assertCompetitionInScope(caller, snapshot.data()?.gradeId)
+
+  const previousEntries = await deleteRatingDocs(COMPETITION_RATINGS_COLLECTION, sectionId)
+  await deleteRatingDocs(COMPETITION_RATING_PERIODS_COLLECTION, sectionId)
+  await summaryRef.update({
+    players: 0,
+    bands: {},
+    resetBy: caller.uid,
+    resetAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  })
+  await writeSectionLeaderboard(sectionId)
+  await logStaffAction(caller, 'competition_leaderboards', sectionId, 'update', {
+    operation: 'reset_leaderboard',
+    previousEntries,
+  })
 
-  // Update match status
-  await rtdb.ref(`competition_matches/${matchId}`).update({
-    status: 'completed',
-    winnerId: isTie ? null : winnerId,
-    isTie,
-    finalizedAt: admin.database.ServerValue.TIMESTAMP,
+  return { previousEntries }
+})
+
+/**
+ * Close a flag raised by the submission integrity checks
+ * 'dismissed' when the flag was a false alarm; 'actioned' once staff dealt with the player, e.g. by removing them.
+ */
+export const reviewCompetitionFlag = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const flagId = typeof data?.flagId === 'string' ? data.flagId : ''
+  const status = data?.status
+  const note = typeof data?.note === 'string' ? data.note.trim().slice(0, 500) : ''
+  if (!flagId || (status !== 'dismissed' && status !== 'actioned')) {
+    throw new functions.https.HttpsError('invalid-argument', 'flagId and a status of dismissed or actioned are required')
+  }
+
+  const flagRef = db.collection(COMPETITION_FLAGS_COLLECTION).doc(flagId)
+  const snapshot = await flagRef.get()
+  if (!snapshot.exists) {
+    throw new functions.https.HttpsError('not-found', 'Flag not found')
+  }
+  const flag = snapshot.data() || {}
+  assertCompetitionInScope(caller, flag.gradeId)
+
+  await flagRef.update({
+    status,
+    reviewedBy: caller.uid,
+    reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+    ...(note ? { reviewNote: note } : {}),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  })
+  await logStaffAction(caller, COMPETITION_FLAGS_COLLECTION, flagId, 'update', {
+    operation: 'review_flag',
+    status,
+    userId: flag.userId,
+    name: flag.userName,
+    matchId: flag.matchId,
+    ...(note ? { note } : {}),
   })
 
-  // Update leaderboard in Firestore
-  const leaderboardRef = db.collection('competition_leaderboards').doc(sectionId)
-  const leaderboardDoc = await leaderboardRef.get()
+  return { status }
+})
 
-  const currentEntries = leaderboardDoc.exists ? (leaderboardDoc.data()?.entries || []) : []
+// Live quizzes
+// A teacher hosts a room for a whole class, which students join with a short code. The host starts the
+// quiz when the class is in, and can end it before everyone has answered.
+const MAX_LIVE_QUIZ_PLAYERS = 60
+// Lobbies never started are removed by cleanupCompetitionRooms after this long
+const LIVE_QUIZ_LOBBY_TTL_MS = 3 * 60 * 60 * 1000
+
+const readString = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+const readSectionMetadata = (value: unknown): SectionMetadata => {
+  const metadata = (value || {}) as Record<string, unknown>
+  const gradeId = readString(metadata.gradeId)
+  const unitId = readString(metadata.unitId)
+  const lessonId = readString(metadata.lessonId)
+  if (!gradeId || !unitId || !lessonId) {
+    throw new functions.https.HttpsError('invalid-argument', 'Missing section metadata')
+  }
+  return { gradeId, unitId, lessonId }
+}
 
-  // Update points for each participant
-  for (const { userId, score: matchScore } of scores) {
-    const isWin = userId === winnerId && !isTie
-    const pointsGained = isWin ? 10 : 5
+/**
+ * Class a live quiz or tournament is limited to, checked against the caller's grades
+ */
+async function loadCompetitionClass(caller: StaffCaller, classId: string) {
+  const classDoc = await db.collection('classes').doc(classId).get()
+  if (!classDoc.exists) {
+    throw new functions.https.HttpsError('not-found', 'Class not found')
+  }
+  const classroom = classDoc.data() || {}
+  assertCompetitionInScope(caller, classroom.gradeId)
+  return {
+    name: typeof classroom.name === 'string' ? classroom.name : classId,
+    studentIds: Array.isArray(classroom.studentIds) ? (classroom.studentIds as string[]) : [],
+  }
+}
 
-    // Find or create entry
-    let entryIndex = currentEntries.findIndex((e: any) => e.userId === userId)
-    if (entryIndex === -1) {
-      currentEntries.push({
-        userId,
-        userName: matchData.participants[userId]?.userName || 'Anonymous',
-        points: 0,
-      })
-      entryIndex = currentEntries.length - 1
+async function loadLiveQuizRoom(caller: StaffCaller, roomId: string) {
+  if (!roomId) {
+    throw new functions.https.HttpsError('invalid-argument', 'roomId is required')
+  }
+  const room = (await rtdb.ref(`${COMPETITION_ROOMS_PATH}/${roomId}`).once('value')).val() as CompetitionRecord | null
+  if (!room || room.matchType !== 'live') {
+    throw new functions.https.HttpsError('not-found', 'Live quiz not found')
+  }
+  assertCompetitionInScope(caller, room.sectionMetadata?.gradeId)
+  return room
+}
+
+/**
+ * Open a live quiz lobby on a section, optionally limited to the students of one class
+ */
+export const createLiveQuiz = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const sectionId = readString(data?.sectionId)
+  if (!sectionId) {
+    throw new functions.https.HttpsError('invalid-argument', 'sectionId is required')
+  }
+  const sectionMetadata = readSectionMetadata(data?.sectionMetadata)
+  assertCompetitionInScope(caller, sectionMetadata.gradeId)
+  const classId = readString(data?.classId)
+  const title = readString(data?.title).slice(0, 120)
+  if (classId) {
+    await loadCompetitionClass(caller, classId)
+  }
+
+  const questionIds = await pickCompetitionQuestionIds(sectionId, sectionMetadata)
+  const roomRef = rtdb.ref(COMPETITION_ROOMS_PATH).push()
+  const roomId = roomRef.key!
+  const joinCode = await reserveJoinCode(rtdb, roomId)
+  await roomRef.set({
+    roomId,
+    sectionId,
+    matchType: 'live',
+    hostId: caller.uid,
+    createdBy: caller.uid,
+    createdAt: admin.database.ServerValue.TIMESTAMP,
+    status: 'waiting',
+    maxCapacity: MAX_LIVE_QUIZ_PLAYERS,
+    questionIds,
+    timerPerQuestion: TIMER_PER_QUESTION,
+    joinCode,
+    ...(classId ? { classId } : {}),
+    ...(title ? { title } : {}),
+    sectionMetadata,
+  })
+  await logStaffAction(caller, 'competition_rooms', roomId, 'create', {
+    operation: 'create_live_quiz',
+    sectionId,
+    classId: classId || null,
+    joinCode,
+  })
+
+  return { roomId, joinCode }
+})
+
+/**
+ * Join a live quiz lobby with its code
+ * Seats are taken in a transaction on the room's participants, so a full lobby never goes over capacity.
+ */
+export const joinLiveQuiz = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
+  const userId = context.auth.uid
+  const roomId = await findRoomByJoinCode(rtdb, readString(data?.joinCode))
+  if (!roomId) {
+    throw new functions.https.HttpsError('not-found', 'No live quiz uses this code')
+  }
+  const roomRef = rtdb.ref(`${COMPETITION_ROOMS_PATH}/${roomId}`)
+  const room = (await roomRef.once('value')).val() as CompetitionRecord | null
+  if (!room || room.matchType !== 'live') {
+    throw new functions.https.HttpsError('not-found', 'No live quiz uses this code')
+  }
+  if (room.status !== 'waiting') {
+    throw new functions.https.HttpsError('failed-precondition', 'This quiz has already started')
+  }
+  if (room.classId) {
+    const classroom = (await db.collection('classes').doc(room.classId).get()).data()
+    if (!classroom?.studentIds?.includes(userId)) {
+      throw new functions.https.HttpsError('permission-denied', 'This quiz is for another class')
     }
+  }
 
-    // Update points
-    currentEntries[entryIndex].points = (currentEntries[entryIndex].points || 0) + pointsGained
+  const profile = (await db.collection('users').doc(userId).get()).data()
+  const userName = (typeof profile?.name === 'string' && profile.name) || readString(data?.userName) || 'Anonymous'
+  const maxCapacity = room.maxCapacity || MAX_LIVE_QUIZ_PLAYERS
+  // The status is checked in the same transaction, so nobody joins once startLiveQuiz has taken the players
+  let rejection = null as functions.https.HttpsError | null
+  const seat = await roomRef.transaction((current: CompetitionRecord | null) => {
+    rejection = null
+    // Runs first against the local cache, which may not hold the room yet
+    if (current === null) return null
+    if (current.status !== 'waiting') {
+      rejection = new functions.https.HttpsError('failed-precondition', 'This quiz has already started')
+      return undefined
+    }
+    const participants = current.participants || {}
+    if (participants[userId]) return current
+    if (Object.keys(participants).length >= maxCapacity) {
+      rejection = new functions.https.HttpsError('resource-exhausted', 'This quiz is full')
+      return undefined
+    }
+    return {
+      ...current,
+      participants: {
+        ...participants,
+        [userId]: { userId, userName, joinedAt: admin.database.ServerValue.TIMESTAMP, status: 'waiting' },
+      },
+    }
+  })
+  if (!seat.committed) {
+    throw rejection ?? new functions.https.HttpsError('aborted', 'Unable to join this quiz, please try again')
+  }
+  if (!seat.snapshot.exists()) {
+    throw new functions.https.HttpsError('not-found', 'No live quiz uses this code')
   }
 
-  // Sort by points descending
-  currentEntries.sort((a: any, b: any) => (b.points || 0) - (a.points || 0))
+  return {
+    roomId,
+    questionIds: room.questionIds || [],
+    timerPerQuestion: room.timerPerQuestion || TIMER_PER_QUESTION,
+  }
+})
 
-  // Assign ranks
-  currentEntries.forEach((entry: any, index: number) => {
-    entry.rank = index + 1
+/**
+ * Lobby or progress of a live quiz, polled by the panel while the host runs it
+ */
+export const getLiveQuiz = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context)
+  const roomId = readString(data?.roomId)
+  const room = await loadLiveQuizRoom(caller, roomId)
+  const match = room.matchId
+    ? ((await rtdb.ref(`${COMPETITION_MATCHES_PATH}/${room.matchId}`).once('value')).val() as CompetitionRecord | null)
+    : null
+
+  return {
+    room: toRoomSummary(roomId, room),
+    match: match && room.matchId ? toMatchSummary(room.matchId, match) : null,
+  }
+})
+
+export const startLiveQuiz = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const roomId = readString(data?.roomId)
+  await loadLiveQuizRoom(caller, roomId)
+
+  // The lobby closes in one transaction with taking its players, so everyone in the room is in the match
+  const matchId = rtdb.ref(COMPETITION_MATCHES_PATH).push().key!
+  let rejection = null as string | null
+  const start = await rtdb
+    .ref(`${COMPETITION_ROOMS_PATH}/${roomId}`)
+    .transaction((current: (CompetitionRecord & { pendingMatchId?: string }) | null) => {
+      rejection = null
+      // Runs first against the local cache, which may not hold the room yet
+      if (current === null) return null
+      if (current.status !== 'waiting' || current.pendingMatchId) {
+        rejection = 'This quiz has already started'
+        return undefined
+      }
+      if (Object.keys(current.participants || {}).length === 0) {
+        rejection = 'No students have joined yet'
+        return undefined
+      }
+      return { ...current, status: 'starting', pendingMatchId: matchId }
+    })
+  if (!start.committed) {
+    throw new functions.https.HttpsError('failed-precondition', rejection ?? 'This quiz has already started')
+  }
+  const room = start.snapshot.val() as CompetitionRecord | null
+  if (!room) {
+    throw new functions.https.HttpsError('not-found', 'Live quiz not found')
+  }
+
+  await createMatchForRoom(roomId, room, matchId)
+  await logStaffAction(caller, 'competition_rooms', roomId, 'update', {
+    operation: 'start_live_quiz',
+    matchId,
+    players: Object.keys(room.participants || {}).length,
   })
 
-  // Keep top 100
-  const topEntries = currentEntries.slice(0, 100)
+  return { matchId }
+})
 
-  // Update leaderboard
-  await leaderboardRef.set(
-    {
-      sectionId,
-      entries: topEntries,
+/**
+ * End a live quiz: a running quiz is scored with the answers in so far, a lobby never started is closed
+ */
+export const endLiveQuiz = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const roomId = readString(data?.roomId)
+  const room = await loadLiveQuizRoom(caller, roomId)
+
+  if (room.matchId) {
+    const matchRef = rtdb.ref(`${COMPETITION_MATCHES_PATH}/${room.matchId}`)
+    const match = (await matchRef.once('value')).val()
+    if (match?.status === 'live') {
+      await finalizeMatch(room.matchId, match, match.submissions || {}, match.sectionId)
+    }
+  } else {
+    await rtdb.ref(`${COMPETITION_ROOMS_PATH}/${roomId}`).update({
+      status: 'closed',
+      closedBy: caller.uid,
+      closedAt: admin.database.ServerValue.TIMESTAMP,
+    })
+  }
+  if (room.joinCode) {
+    await rtdb.ref(`${COMPETITION_JOIN_CODES_PATH}/${room.joinCode}`).remove()
+  }
+  await logStaffAction(caller, 'competition_rooms', roomId, 'update', {
+    operation: 'end_live_quiz',
+    matchId: room.matchId ?? null,
+  })
+
+  return { matchId: room.matchId ?? null }
+})
+
+// Tournaments
+// Single-elimination brackets across a class, played on one section. The bracket is kept in Firestore so
+// students and the panel can read it; each bracket match is a two-player competition match, started as
+// soon as both of its players are known.
+const TOURNAMENTS_COLLECTION = 'competitionTournaments'
+
+type TournamentDoc = {
+  title: string
+  sectionId: string
+  gradeId: string
+  unitId: string
+  lessonId: string
+  status: 'active' | 'completed'
+  players: TournamentPlayer[]
+  rounds: TournamentRound[]
+  championId: string | null
+}
+
+type TournamentChange = { rounds: TournamentRound[]; championId: string | null } | null
+
+/**
+ * Change a tournament's bracket, then start the matches that became ready
+ * The bracket is changed in a transaction because matches of a round can finish at the same time.
+ * Rooms and matches are only created once it committed; their IDs are reserved in the bracket first.
+ */
+async function updateTournamentBracket(tournamentId: string, change: (tournament: TournamentDoc) => TournamentChange) {
+  const tournamentRef = db.collection(TOURNAMENTS_COLLECTION).doc(tournamentId)
+  const outcome = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(tournamentRef)
+    if (!snapshot.exists) {
+      throw new functions.https.HttpsError('not-found', 'Tournament not found')
+    }
+    const tournament = snapshot.data() as TournamentDoc
+    const changed = change(tournament)
+    if (!changed) return null
+
+    const started = readyBracketMatches(changed.rounds).map((match) => ({
+      key: match.key,
+      matchId: rtdb.ref(COMPETITION_MATCHES_PATH).push().key!,
+      playerIds: match.playerIds as string[],
+    }))
+    const rounds = changed.rounds.map((round) => ({
+      ...round,
+      matches: round.matches.map((match) => {
+        const start = started.find((entry) => entry.key === match.key)
+        return start ? { ...match, matchId: start.matchId, status: 'live' as const } : match
+      }),
+    }))
+    transaction.update(tournamentRef, {
+      rounds,
+      ...(changed.championId
+        ? { championId: changed.championId, status: 'completed', completedAt: admin.firestore.FieldValue.serverTimestamp() }
+        : {}),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-    },
-    { merge: true },
-  )
+    })
+    return { tournament, started }
+  })
+  if (!outcome) return
+
+  for (const match of outcome.started) {
+    await startTournamentMatch(tournamentId, outcome.tournament, match)
+  }
+}
+
+async function startTournamentMatch(
+  tournamentId: string,
+  tournament: TournamentDoc,
+  match: { key: string; matchId: string; playerIds: string[] },
+) {
+  const sectionMetadata = { gradeId: tournament.gradeId, unitId: tournament.unitId, lessonId: tournament.lessonId }
+  const questionIds = await pickCompetitionQuestionIds(tournament.sectionId, sectionMetadata)
+  const roomRef = rtdb.ref(COMPETITION_ROOMS_PATH).push()
+  const room: CompetitionRecord & Record<string, unknown> = {
+    roomId: roomRef.key!,
+    sectionId: tournament.sectionId,
+    matchType: 'tournament',
+    tournamentId,
+    bracketKey: match.key,
+    createdBy: 'tournament',
+    createdAt: Date.now(),
+    // Not 'waiting', so onRoomParticipantJoin leaves the room to us
+    status: 'starting',
+    maxCapacity: DEFAULT_ROOM_CAPACITY,
+    questionIds,
+    timerPerQuestion: TIMER_PER_QUESTION,
+    participants: Object.fromEntries(
+      match.playerIds.map((userId) => [
+        userId,
+        {
+          userId,
+          userName: tournament.players.find((player) => player.userId === userId)?.userName || 'Anonymous',
+          joinedAt: Date.now(),
+          status: 'waiting',
+        },
+      ]),
+    ),
+    sectionMetadata,
+  }
+  await roomRef.set(room)
+  await createMatchForRoom(roomRef.key!, room, match.matchId)
 }
 
+/**
+ * Move the winner of a finished tournament match through the bracket; returns the winner
+ */
+async function advanceTournament(
+  tournamentId: string,
+  bracketKey: string,
+  results: Array<{ userId: string; score: number; correctCount: number; submittedAt: number | null }>,
+): Promise<string> {
+  const snapshot = await db.collection(TOURNAMENTS_COLLECTION).doc(tournamentId).get()
+  const players = ((snapshot.data() as TournamentDoc | undefined)?.players || []) as TournamentPlayer[]
+  const winnerId = pickBracketWinner(results, players)
+
+  await updateTournamentBracket(tournamentId, (tournament) => {
+    const match = tournament.rounds.flatMap((round) => round.matches).find((entry) => entry.key === bracketKey)
+    // Staff may have decided the match in the meantime
+    if (!match || match.status !== 'live') return null
+    return recordBracketWinner(tournament.rounds, bracketKey, winnerId)
+  })
+  return winnerId
+}
+
+/**
+ * Create a single-elimination tournament for the students of a class
+ * Players are seeded by their rating on the section; round one starts straight away.
+ */
+export const createCompetitionTournament = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const title = readString(data?.title).slice(0, 120)
+  const sectionId = readString(data?.sectionId)
+  const classId = readString(data?.classId)
+  if (!title || !sectionId || !classId) {
+    throw new functions.https.HttpsError('invalid-argument', 'title, sectionId and classId are required')
+  }
+  const sectionMetadata = readSectionMetadata(data?.sectionMetadata)
+  assertCompetitionInScope(caller, sectionMetadata.gradeId)
+  const classroom = await loadCompetitionClass(caller, classId)
+  if (classroom.studentIds.length < MIN_TOURNAMENT_PLAYERS || classroom.studentIds.length > MAX_TOURNAMENT_PLAYERS) {
+    throw new functions.https.HttpsError(
+      'failed-precondition',
+      `A tournament needs ${MIN_TOURNAMENT_PLAYERS} to ${MAX_TOURNAMENT_PLAYERS} students`,
+    )
+  }
+  // The first questions are picked before anything is written, so a section without a quiz fails early
+  await pickCompetitionQuestionIds(sectionId, sectionMetadata)
+
+  const [studentDocs, ratingDocs] = await Promise.all([
+    db.getAll(...classroom.studentIds.map((studentId) => db.collection('users').doc(studentId))),
+    db.getAll(
+      ...classroom.studentIds.map((studentId) => db.collection(COMPETITION_RATINGS_COLLECTION).doc(`${sectionId}_${studentId}`)),
+    ),
+  ])
+  const ratings = new Map(ratingDocs.map((ratingDoc) => [ratingDoc.data()?.userId, ratingDoc.data()?.rating as number | undefined]))
+  const ratingOf = (userId: string) => ratings.get(userId) ?? DEFAULT_RATING
+  const players: TournamentPlayer[] = studentDocs
+    .filter((studentDoc) => studentDoc.exists)
+    .map((studentDoc) => ({ userId: studentDoc.id, userName: studentDoc.data()?.name || 'Anonymous' }))
+    // Shuffle first so students with the same rating are seeded at random
+    .sort(() => Math.random() - 0.5)
+    .sort((a, b) => ratingOf(b.userId) - ratingOf(a.userId))
+    .map((player, index) => ({ ...player, seed: index + 1 }))
+  if (players.length < MIN_TOURNAMENT_PLAYERS) {
+    throw new functions.https.HttpsError('failed-precondition', `A tournament needs at least ${MIN_TOURNAMENT_PLAYERS} students`)
+  }
+
+  const tournamentRef = db.collection(TOURNAMENTS_COLLECTION).doc()
+  await tournamentRef.set({
+    id: tournamentRef.id,
+    title,
+    sectionId,
+    ...sectionMetadata,
+    classId,
+    className: classroom.name,
+    status: 'active',
+    players,
+    rounds: buildBracket(players),
+    championId: null,
+    createdBy: caller.uid,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  })
+  await updateTournamentBracket(tournamentRef.id, (tournament) => ({ rounds: tournament.rounds, championId: null }))
+  await logStaffAction(caller, TOURNAMENTS_COLLECTION, tournamentRef.id, 'create', {
+    operation: 'create_tournament',
+    name: title,
+    sectionId,
+    classId,
+    players: players.length,
+  })
+
+  return { tournamentId: tournamentRef.id }
+})
+
+/**
+ * Decide a bracket match by hand, e.g. when a player never showed up
+ * A match still being played is cancelled.
+ */
+export const resolveTournamentMatch = functions.https.onCall(async (data, context) => {
+  const caller = await requireStaff(context, COMPETITION_MANAGER_ROLES)
+  const tournamentId = readString(data?.tournamentId)
+  const matchKey = readString(data?.matchKey)
+  const winnerId = readString(data?.winnerId)
+  if (!tournamentId || !matchKey || !winnerId) {
+    throw new functions.https.HttpsError('invalid-argument', 'tournamentId, matchKey and winnerId are required')
+  }
+
+  let matchId = null as string | null
+  await updateTournamentBracket(tournamentId, (tournament) => {
+    assertCompetitionInScope(caller, tournament.gradeId)
+    const match = tournament.rounds.flatMap((round) => round.matches).find((entry) => entry.key === matchKey)
+    if (!match || (match.status !== 'live' && match.status !== 'pending')) {
+      throw new functions.https.HttpsError('failed-precondition', 'This match has already been decided')
+    }
+    if (!match.playerIds.includes(winnerId)) {
+      throw new functions.https.HttpsError('invalid-argument', 'The winner must play in this match')
+    }
+    matchId = match.matchId
+    return recordBracketWinner(tournament.rounds, matchKey, winnerId)
+  })
+
+  if (matchId) {
+    const matchRef = rtdb.ref(`${COMPETITION_MATCHES_PATH}/${matchId}`)
+    const matchStatus = (await matchRef.child('status').once('value')).val()
+    if (matchStatus === 'live') {
+      await matchRef.update({
+        status: 'cancelled',
+        cancelReason: 'resolved_by_staff',
+        cancelledAt: admin.database.ServerValue.TIMESTAMP,
+      })
+    }
+  }
+  await logStaffAction(caller, TOURNAMENTS_COLLECTION, tournamentId, 'update', {
+    operation: 'resolve_match',
+    matchKey,
+    winnerId,
+    matchId,
+  })
+
+  return { matchId }
+})
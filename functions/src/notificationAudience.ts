@@ -0,0 +1,176 @@
+/**
+ * Notification Audience Resolver
+ * Turns a notification's audience and filters into the students it reaches and their push devices.
+ * Each audience and filter is one indexed lookup (an equality or range query on a single field, or a
+ * document read), and the resulting student sets are intersected, so no composite index is needed.
+ * Devices live under users/{uid}/devices; only "everyone, unfiltered" reads them as a collection group.
+ */
+
+import type { firestore } from 'firebase-admin'
+import {
+  activeAudienceFilters,
+  type NotificationAudienceFilters,
+  type NotificationAudienceSpec,
+} from './shared/notificationAudience.js'
+
+export type DeviceRecord = {
+  token: string
+  ref: firestore.DocumentReference
+  notificationsEnabled: boolean
+  platform?: string
+}
+
+export type AudienceCount = {
+  students: number
+  devices: number // Devices with push notifications enabled
+}
+
+// Per-student device queries run this many at a time
+const DEVICE_QUERY_CONCURRENCY = 50
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const idsOf = (snapshot: firestore.QuerySnapshot) => new Set(snapshot.docs.map((doc) => doc.id))
+
+const intersect = (current: Set<string> | null, next: Set<string>) =>
+  current === null ? next : new Set([...current].filter((id) => next.has(id)))
+
+async function classRoster(db: firestore.Firestore, classId: string): Promise<Set<string>> {
+  const classSnap = await db.collection('classes').doc(classId).get()
+  return new Set<string>((classSnap.data()?.studentIds as string[] | undefined) ?? [])
+}
+
+/**
+ * Students with practice records in a unit or lesson, with their accuracy over those records in percent
+ */
+async function practiceAccuracy(db: firestore.Firestore, field: 'unitId' | 'lessonId', id: string): Promise<Map<string, number>> {
+  const snapshot = await db.collection('practiceData').where(field, '==', id).get()
+  const totals = new Map<string, { attempts: number; correct: number }>()
+  snapshot.forEach((doc) => {
+    const data = doc.data()
+    // Older records only carry the student in their ID, {studentId}_{...}
+    const studentId = (data.studentId as string | undefined) ?? doc.id.split('_')[0]
+    const total = totals.get(studentId) ?? { attempts: 0, correct: 0 }
+    total.attempts += Number(data.attempts) || 0
+    total.correct += Number(data.correct) || 0
+    totals.set(studentId, total)
+  })
+  return new Map(
+    [...totals].map(([studentId, total]) => [studentId, total.attempts > 0 ? (total.correct / total.attempts) * 100 : 0]),
+  )
+}
+
+/**
+ * IDs of the students an audience reaches, or null for every student
+ * Students who never opened the app have no lastActiveAt, so the inactivity filter does not reach them.
+ */
+export async function resolveAudienceStudentIds(
+  db: firestore.Firestore,
+  audience: NotificationAudienceSpec,
+): Promise<Set<string> | null> {
+  const filters: NotificationAudienceFilters = activeAudienceFilters(audience.audienceFilters)
+  const audienceValue = audience.audienceValue?.trim() ?? ''
+  let studentIds: Set<string> | null
+
+  switch (audience.audienceType) {
+    case 'all':
+      studentIds = null
+      break
+    case 'grade':
+      studentIds = audienceValue ? idsOf(await db.collection('users').where('gradeId', '==', audienceValue).get()) : new Set()
+      break
+    case 'unit':
+    case 'lesson':
+      studentIds = audienceValue
+        ? new Set((await practiceAccuracy(db, audience.audienceType === 'unit' ? 'unitId' : 'lessonId', audienceValue)).keys())
+        : new Set()
+      break
+    case 'class':
+      studentIds = audienceValue ? await classRoster(db, audienceValue) : new Set()
+      break
+    case 'students':
+      studentIds = new Set(filters.studentIds ?? [])
+      break
+    default:
+      // Free-text segments of older notifications are no longer matched
+      studentIds = new Set()
+  }
+
+  if (filters.classId && studentIds?.size !== 0) {
+    studentIds = intersect(studentIds, await classRoster(db, filters.classId))
+  }
+  if (filters.inactiveDays && studentIds?.size !== 0) {
+    const cutoff = new Date(Date.now() - filters.inactiveDays * DAY_MS)
+    studentIds = intersect(studentIds, idsOf(await db.collection('users').where('lastActiveAt', '<', cutoff).get()))
+  }
+  if (filters.lowAccuracyUnitId && filters.maxAccuracy && studentIds?.size !== 0) {
+    const accuracy = await practiceAccuracy(db, 'unitId', filters.lowAccuracyUnitId)
+    const struggling = [...accuracy].filter(([, percent]) => percent < filters.maxAccuracy!).map(([studentId]) => studentId)
+    studentIds = intersect(studentIds, new Set(struggling))
+  }
+  return studentIds
+}
+
+/**
+ * Run one device query per student, a few at a time
+ */
+async function queryStudentDevices<T>(
+  db: firestore.Firestore,
+  studentIds: Set<string>,
+  run: (query: firestore.Query) => Promise<T>,
+): Promise<T[]> {
+  const ids = [...studentIds]
+  const results: T[] = []
+  for (let i = 0; i < ids.length; i += DEVICE_QUERY_CONCURRENCY) {
+    const batch = ids.slice(i, i + DEVICE_QUERY_CONCURRENCY)
+    results.push(
+      ...(await Promise.all(
+        batch.map((studentId) =>
+          run(db.collection('users').doc(studentId).collection('devices').where('notificationsEnabled', '==', true)),
+        ),
+      )),
+    )
+  }
+  return results
+}
+
+/**
+ * Push devices of the students an audience reaches
+ */
+export async function fetchAudienceDevices(db: firestore.Firestore, audience: NotificationAudienceSpec): Promise<DeviceRecord[]> {
+  const studentIds = await resolveAudienceStudentIds(db, audience)
+  const snapshots =
+    studentIds === null
+      ? [await db.collectionGroup('devices').where('notificationsEnabled', '==', true).get()]
+      : await queryStudentDevices(db, studentIds, (query) => query.get())
+
+  const devices: DeviceRecord[] = []
+  for (const snapshot of snapshots) {
+    snapshot.forEach((doc) => {
+      const data = doc.data()
+      if (!data.fcmToken) return
+      devices.push({
+        token: data.fcmToken,
+        notificationsEnabled: Boolean(data.notificationsEnabled),
+        platform: data.platform,
+        ref: doc.ref,
+      })
+    })
+  }
+  return devices
+}
+
+/**
+ * Number of students and push devices an audience reaches, counted without reading the devices
+ */
+export async function countAudience(db: firestore.Firestore, audience: NotificationAudienceSpec): Promise<AudienceCount> {
+  const studentIds = await resolveAudienceStudentIds(db, audience)
+  if (studentIds === null) {
+    const [students, devices] = await Promise.all([
+      db.collection('users').count().get(),
+      db.collectionGroup('devices').where('notificationsEnabled', '==', true).count().get(),
+    ])
+    return { students: students.data().count, devices: devices.data().count }
+  }
+  const deviceCounts = await queryStudentDevices(db, studentIds, async (query) => (await query.count().get()).data().count)
+  return { students: studentIds.size, devices: deviceCounts.reduce((sum, count) => sum + count, 0) }
+}
@@ -0,0 +1,292 @@
+/**
+ * Answer Grading
+ * Grades a student's answer against a question in the stored student app format
+ * (see prepareQuizDocumentForFirestore in the panel). Shared by the Cloud Functions and the
+ * panel's question preview, which imports it as @shared/answerGrading, so it must not import anything.
+ */
+
+export type GradableQuestionType = 'fill_blank' | 'drag_drop' | 'spelling' | 'matching' | 'order_words' | 'composition'
+
+// Question fields grading reads; both the panel's StudentAppQuestion and raw Firestore data fit
+export type GradableQuestion = {
+  id?: string
+  type: GradableQuestionType | string
+  points?: number
+  answers?: string[]
+  // Per-blank options; an array in the panel, an object keyed by blank index in Firestore
+  blankOptions?: string[][] | Record<string, string[]>
+  pairs?: Record<string, string>
+  order?: string[]
+  correctAnswer?: string
+  correctOrders?: Record<string, boolean>
+  answerMatching?: AnswerMatching
+}
+
+/**
+ * How strictly typed answers (fill-in blanks and spelling) are compared, set per question
+ * Surrounding spaces and curly apostrophes are always ignored.
+ */
+export type AnswerMatching = {
+  caseSensitive?: boolean
+  ignorePunctuation?: boolean
+  normalizeWhitespace?: boolean // Treat repeated spaces as one
+  typoTolerance?: number // Letters that may be wrong, missing or extra; never applied to spelling questions
+  equateDigits?: boolean // Arabic-Indic digits (٣) match Latin digits (3)
+}
+
+export const DEFAULT_ANSWER_MATCHING: Required<AnswerMatching> = {
+  caseSensitive: false,
+  ignorePunctuation: false,
+  normalizeWhitespace: true,
+  typoTolerance: 0,
+  equateDigits: false,
+}
+
+export const MAX_TYPO_TOLERANCE = 3
+
+/**
+ * Student answer shapes:
+ * - fill_blank / drag_drop: one entry per blank (array, or object keyed by blank index); a plain string for one blank.
+ *   An entry is the text chosen or typed, or the index of the chosen option in that blank's blankOptions
+ * - spelling and composition: a string
+ * - matching: object of left item → chosen right item
+ * - order_words: the words in the chosen order, as an array or a single sentence
+ */
+export type StudentAnswer = string | Array<string | number> | Record<string, string | number> | null | undefined
+
+export type AnswerPart = {
+  key: string // Blank number, matching left item, or "answer"
+  expected: string
+  given: string | null
+  isCorrect: boolean
+}
+
+export type AnswerGrade = {
+  isCorrect: boolean // Every part correct
+  score: number // Fraction of the question answered correctly, 0-1
+  earnedPoints: number
+  maxPoints: number
+  parts: AnswerPart[]
+  requiresReview: boolean // Compositions are graded by AI and teachers, not here
+}
+
+const PUNCTUATION = /[.,!?;:"“”]/g
+const ANSWER_PUNCTUATION = /[.,!?;:'"“”«»()[\]\-–—…،؛؟]/g
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/g
+
+/**
+ * Comparable form of a typed answer: case, surrounding spaces, repeated spaces and curly apostrophes ignored
+ */
+export function normalizeAnswerText(value: unknown): string {
+  return String(value ?? '')
+    .replace(/[‘’`]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+}
+
+function normalizeSentence(value: string): string {
+  return normalizeAnswerText(value.replace(PUNCTUATION, ' '))
+}
+
+export function resolveAnswerMatching(matching: AnswerMatching | undefined): Required<AnswerMatching> {
+  const typoTolerance = Math.round(Number(matching?.typoTolerance ?? 0))
+  return {
+    caseSensitive: matching?.caseSensitive ?? DEFAULT_ANSWER_MATCHING.caseSensitive,
+    ignorePunctuation: matching?.ignorePunctuation ?? DEFAULT_ANSWER_MATCHING.ignorePunctuation,
+    normalizeWhitespace: matching?.normalizeWhitespace ?? DEFAULT_ANSWER_MATCHING.normalizeWhitespace,
+    typoTolerance: Number.isFinite(typoTolerance) ? Math.min(MAX_TYPO_TOLERANCE, Math.max(0, typoTolerance)) : 0,
+    equateDigits: matching?.equateDigits ?? DEFAULT_ANSWER_MATCHING.equateDigits,
+  }
+}
+
+function normalizeForMatching(value: unknown, matching: Required<AnswerMatching>): string {
+  let text = String(value ?? '').replace(/[‘’`]/g, "'")
+  if (matching.equateDigits) {
+    // U+0660 and U+06F0 are both zero
+    text = text.replace(ARABIC_INDIC_DIGITS, (digit) => String(digit.charCodeAt(0) % 16))
+  }
+  if (matching.ignorePunctuation) {
+    text = text.replace(ANSWER_PUNCTUATION, '')
+  }
+  if (matching.normalizeWhitespace) {
+    text = text.replace(/\s+/g, ' ')
+  }
+  text = text.trim()
+  return matching.caseSensitive ? text : text.toLowerCase()
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Whether a typed answer matches one expected answer under the question's matching options
+ * A typo allowance never covers the whole answer, so "cat" cannot match "dog".
+ */
+export function answersMatch(given: unknown, expected: string, matching: Required<AnswerMatching>, allowTypos = true): boolean {
+  const normalizedGiven = normalizeForMatching(given, matching)
+  const normalizedExpected = normalizeForMatching(expected, matching)
+  if (normalizedGiven === normalizedExpected) return true
+  if (!allowTypos || matching.typoTolerance === 0) return false
+  const distance = editDistance(normalizedGiven, normalizedExpected)
+  return distance <= matching.typoTolerance && distance < normalizedExpected.length
+}
+
+// A blank's answer may list alternatives separated by "/"; any one of them is correct
+function blankAlternatives(correct: string): string[] {
+  const alternatives = correct.split('/').map((alternative) => alternative.trim()).filter(Boolean)
+  return alternatives.length ? alternatives : [correct]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function buildGrade(question: GradableQuestion, parts: AnswerPart[], requiresReview = false): AnswerGrade {
+  const maxPoints = typeof question.points === 'number' && question.points > 0 ? question.points : 1
+  const correctParts = parts.filter((part) => part.isCorrect).length
+  const score = parts.length ? correctParts / parts.length : 0
+  return {
+    isCorrect: parts.length > 0 && correctParts === parts.length,
+    score,
+    earnedPoints: Math.round(maxPoints * score * 100) / 100,
+    maxPoints,
+    parts,
+    requiresReview,
+  }
+}
+
+function blankOptionsAt(question: GradableQuestion, index: number): string[] {
+  const options = Array.isArray(question.blankOptions) ? question.blankOptions[index] : question.blankOptions?.[String(index)]
+  return Array.isArray(options) ? options : []
+}
+
+/**
+ * Answer text for each blank, in blank order
+ */
+function blankAnswers(question: GradableQuestion, answer: StudentAnswer, blankCount: number): Array<string | null> {
+  const given = (index: number): unknown => {
+    if (Array.isArray(answer)) return answer[index]
+    if (isRecord(answer)) return answer[String(index)]
+    return blankCount === 1 || index === 0 ? answer : undefined
+  }
+  return Array.from({ length: blankCount }, (_, index) => {
+    const value = given(index)
+    if (value === undefined || value === null) return null
+    if (typeof value === 'number') return blankOptionsAt(question, index)[value] ?? null
+    return String(value)
+  })
+}
+
+function gradeBlanks(question: GradableQuestion, answer: StudentAnswer): AnswerGrade {
+  const expected = question.answers ?? []
+  const given = blankAnswers(question, answer, expected.length)
+  const matching = resolveAnswerMatching(question.answerMatching)
+  return buildGrade(
+    question,
+    expected.map((correct, index) => ({
+      key: `Blank ${index + 1}`,
+      expected: correct,
+      given: given[index],
+      isCorrect: given[index] !== null && blankAlternatives(correct).some((alternative) => answersMatch(given[index], alternative, matching)),
+    })),
+  )
+}
+
+// Spelling answers list the accepted spellings; any one of them is correct, and a typo is never forgiven
+function gradeSpelling(question: GradableQuestion, answer: StudentAnswer): AnswerGrade {
+  const matching = resolveAnswerMatching(question.answerMatching)
+  const given = typeof answer === 'string' ? answer : Array.isArray(answer) ? answer.join(' ') : null
+  return buildGrade(question, [
+    {
+      key: 'answer',
+      expected: question.answers?.[0] ?? '',
+      given,
+      isCorrect: given !== null && (question.answers ?? []).some((spelling) => answersMatch(given, spelling, matching, false)),
+    },
+  ])
+}
+
+function gradeMatching(question: GradableQuestion, answer: StudentAnswer): AnswerGrade {
+  const chosen = isRecord(answer) ? answer : {}
+  // Left items are looked up case-insensitively, as app clients may send normalized keys
+  const chosenByLeft = new Map(Object.entries(chosen).map(([left, right]) => [normalizeAnswerText(left), right]))
+  return buildGrade(
+    question,
+    Object.entries(question.pairs ?? {}).map(([left, right]) => {
+      const given = chosenByLeft.get(normalizeAnswerText(left))
+      return {
+        key: left,
+        expected: right,
+        given: given === undefined || given === null ? null : String(given),
+        isCorrect: given !== undefined && given !== null && normalizeAnswerText(given) === normalizeAnswerText(right),
+      }
+    }),
+  )
+}
+
+/**
+ * Every sentence accepted for an order_words question
+ * Punctuation is compared loosely because the app keeps punctuation marks apart from the words.
+ */
+export function acceptedWordOrders(question: GradableQuestion): string[] {
+  const sentences = [
+    ...Object.entries(question.correctOrders ?? {})
+      .filter(([, accepted]) => accepted)
+      .map(([sentence]) => sentence),
+    question.correctAnswer ?? '',
+    (question.order ?? []).join(' '),
+  ]
+  return Array.from(new Set(sentences.filter((sentence) => sentence.trim().length > 0)))
+}
+
+function gradeWordOrder(question: GradableQuestion, answer: StudentAnswer): AnswerGrade {
+  const accepted = acceptedWordOrders(question)
+  const given = Array.isArray(answer) ? answer.map(String).join(' ') : typeof answer === 'string' ? answer : null
+  const normalizedGiven = given === null ? null : normalizeSentence(given)
+  return buildGrade(question, [
+    {
+      key: 'answer',
+      expected: accepted[0] ?? '',
+      given,
+      isCorrect: normalizedGiven !== null && accepted.some((sentence) => normalizeSentence(sentence) === normalizedGiven),
+    },
+  ])
+}
+
+// Any written answer counts until the composition is graded; the final grade comes from the review queue
+function gradeComposition(question: GradableQuestion, answer: StudentAnswer): AnswerGrade {
+  const given = typeof answer === 'string' ? answer : null
+  return buildGrade(
+    question,
+    [{ key: 'answer', expected: '', given, isCorrect: Boolean(given && given.trim().length > 0) }],
+    true,
+  )
+}
+
+export function gradeAnswer(question: GradableQuestion, answer: StudentAnswer): AnswerGrade {
+  switch (question.type) {
+    case 'fill_blank':
+    case 'drag_drop':
+      return gradeBlanks(question, answer)
+    case 'spelling':
+      return gradeSpelling(question, answer)
+    case 'matching':
+      return gradeMatching(question, answer)
+    case 'order_words':
+      return gradeWordOrder(question, answer)
+    case 'composition':
+      return gradeComposition(question, answer)
+    default:
+      return buildGrade(question, [])
+  }
+}
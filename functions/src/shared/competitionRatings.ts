@@ -0,0 +1,76 @@
+/**
+ * Competition Ratings
+ * Elo ratings of students per section, and the weekly and monthly periods leaderboards are kept for.
+ * Shared by the Cloud Functions, which rate finished matches, and the panel, which imports it as
+ * @shared/competitionRatings to pick the current period and label rating bands, so it must not import anything.
+ */
+
+export const DEFAULT_RATING = 1000
+export const RATING_FLOOR = 100
+export const RATING_BAND_SIZE = 100
+// A new player's rating moves faster until it has settled
+const PROVISIONAL_MATCHES = 10
+const PROVISIONAL_K_FACTOR = 40
+const ESTABLISHED_K_FACTOR = 20
+
+export type LeaderboardPeriod = 'all-time' | 'weekly' | 'monthly'
+
+export type RatedPlayer = {
+  userId: string
+  rating: number
+  matches: number // Rated matches played before this one
+  score: number // Points scored in this match
+}
+
+/**
+ * Chance of a player beating an opponent, from 0 to 1
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400))
+}
+
+/**
+ * Rating change of every player of a finished match
+ * A match of several players counts as one game against each opponent (a higher score wins, an equal
+ * score is a draw), averaged over the opponents so a room of eight moves ratings as much as a duel.
+ */
+export function ratingChanges(players: RatedPlayer[]): Record<string, number> {
+  const changes: Record<string, number> = {}
+  for (const player of players) {
+    const opponents = players.filter((other) => other.userId !== player.userId)
+    if (opponents.length === 0) {
+      changes[player.userId] = 0
+      continue
+    }
+    const kFactor = player.matches < PROVISIONAL_MATCHES ? PROVISIONAL_K_FACTOR : ESTABLISHED_K_FACTOR
+    const surplus = opponents.reduce((sum, opponent) => {
+      const actual = player.score > opponent.score ? 1 : player.score === opponent.score ? 0.5 : 0
+      return sum + actual - expectedScore(player.rating, opponent.rating)
+    }, 0)
+    const change = Math.round((kFactor * surplus) / opponents.length)
+    changes[player.userId] = Math.max(change, RATING_FLOOR - player.rating)
+  }
+  return changes
+}
+
+/**
+ * Lower bound of the band a rating is counted in for the rating distribution, e.g. 1000 for 1000-1099
+ */
+export function ratingBand(rating: number): number {
+  return Math.floor(rating / RATING_BAND_SIZE) * RATING_BAND_SIZE
+}
+
+/**
+ * Key of the ISO week (e.g. 2026-W42) or month (e.g. 2026-10) a time falls in, in UTC
+ */
+export function periodKey(period: Exclude<LeaderboardPeriod, 'all-time'>, time: Date = new Date()): string {
+  if (period === 'monthly') {
+    return `${time.getUTCFullYear()}-${String(time.getUTCMonth() + 1).padStart(2, '0')}`
+  }
+  const date = new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate()))
+  // The Thursday of the week decides which year the week belongs to
+  date.setUTCDate(date.getUTCDate() + 4 - (date.getUTCDay() || 7))
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7)
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
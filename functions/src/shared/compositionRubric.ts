@@ -0,0 +1,28 @@
+/**
+ * Composition Rubric
+ * Criteria composition answers are graded on, and the rubric used when a quiz has none.
+ * Shared by the Cloud Functions, which grade answers with it, and the panel, which imports it as
+ * @shared/compositionRubric to fill the rubric form, so it must not import anything.
+ */
+
+export type CompositionCriterionId = 'task_achievement' | 'grammar' | 'vocabulary' | 'coherence'
+
+export type CompositionRubricCriterion = {
+  id: CompositionCriterionId
+  weight: number // Relative weight; weights do not need to add up to 100
+}
+
+export type CompositionRubric = {
+  criteria: CompositionRubricCriterion[]
+  passMark: number // Overall percentage at which the answer counts as correct
+}
+
+export const DEFAULT_COMPOSITION_RUBRIC: CompositionRubric = {
+  criteria: [
+    { id: 'task_achievement', weight: 30 },
+    { id: 'grammar', weight: 30 },
+    { id: 'vocabulary', weight: 20 },
+    { id: 'coherence', weight: 20 },
+  ],
+  passMark: 60,
+}
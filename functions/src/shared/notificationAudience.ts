@@ -0,0 +1,43 @@
+/**
+ * Notification Audience
+ * Who a notification goes to: an audience picked by ID, narrowed by every filter that is set.
+ * Shared by the Cloud Functions, which resolve the audience to students and devices, and the panel's
+ * notification form, which imports it as @shared/notificationAudience, so it must not import anything.
+ */
+
+// unit and lesson reach the students who have practised in them; students is a hand-picked list
+export type NotificationAudienceType = 'all' | 'grade' | 'unit' | 'lesson' | 'class' | 'students'
+
+export type NotificationAudienceFilters = {
+  studentIds?: string[] // The students of the 'students' audience
+  classId?: string // Only students of this class
+  inactiveDays?: number // Only students not active in the app for at least this many days
+  lowAccuracyUnitId?: string // With maxAccuracy: only students whose accuracy on this unit is below it
+  maxAccuracy?: number // Percent
+}
+
+export type NotificationAudienceSpec = {
+  audienceType: NotificationAudienceType | string
+  audienceValue?: string // ID of the grade, unit, lesson or class
+  audienceFilters?: NotificationAudienceFilters
+}
+
+export const MAX_AUDIENCE_STUDENTS = 500
+export const MAX_INACTIVE_DAYS = 365
+
+/**
+ * Filters of a notification that are set, so an unused filter never narrows the audience
+ */
+export function activeAudienceFilters(filters: NotificationAudienceFilters | undefined): NotificationAudienceFilters {
+  const active: NotificationAudienceFilters = {}
+  if (filters?.studentIds && filters.studentIds.length > 0) active.studentIds = filters.studentIds.slice(0, MAX_AUDIENCE_STUDENTS)
+  if (filters?.classId) active.classId = filters.classId
+  if (typeof filters?.inactiveDays === 'number' && filters.inactiveDays > 0) {
+    active.inactiveDays = Math.min(Math.floor(filters.inactiveDays), MAX_INACTIVE_DAYS)
+  }
+  if (filters?.lowAccuracyUnitId && typeof filters.maxAccuracy === 'number' && filters.maxAccuracy > 0) {
+    active.lowAccuracyUnitId = filters.lowAccuracyUnitId
+    active.maxAccuracy = Math.min(filters.maxAccuracy, 100)
+  }
+  return active
+}
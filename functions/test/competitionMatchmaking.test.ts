@@ -0,0 +1,165 @@
+/**
+ * Matchmaking against the Realtime Database emulator
+ * Run with `npm test`, which starts the emulator through firebase emulators:exec. Two admin apps stand in
+ * for two function instances, so racing claims go through separate connections as they do when deployed.
+ */
+
+import * as admin from 'firebase-admin'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  COMPETITION_QUEUE_PATH,
+  MATCHMAKING_WINDOW_MS,
+  claimOrEnqueueRoom,
+  type QueueEntry,
+} from '../src/competitionMatchmaking.js'
+
+const SECTION_ID = 'section-1'
+
+let apps: admin.app.App[]
+let rtdb: admin.database.Database
+let otherRtdb: admin.database.Database
+let queueRef: admin.database.Reference
+
+async function readQueue(): Promise<Record<string, QueueEntry>> {
+  return (await queueRef.once('value')).val() || {}
+}
+
+function queuedRoom(overrides: Partial<QueueEntry> = {}): QueueEntry {
+  return { createdAt: Date.now(), maxCapacity: 2, playerCount: 1, players: { host: true }, rating: 1000, ...overrides }
+}
+
+describe.skipIf(!process.env.FIREBASE_DATABASE_EMULATOR_HOST)('claimOrEnqueueRoom', () => {
+  beforeAll(() => {
+    const projectId = process.env.GCLOUD_PROJECT || 'demo-eduenglish'
+    const options = { projectId, databaseURL: `https://${projectId}-default-rtdb.firebaseio.com` }
+    apps = [admin.initializeApp(options, 'instance-a'), admin.initializeApp(options, 'instance-b')]
+    ;[rtdb, otherRtdb] = apps.map((app) => app.database())
+    queueRef = rtdb.ref(`${COMPETITION_QUEUE_PATH}/${SECTION_ID}`)
+  })
+
+  beforeEach(async () => {
+    await rtdb.ref().remove()
+  })
+
+  afterAll(async () => {
+    await Promise.all(apps.map((app) => app.delete()))
+  })
+
+  it('gives the last seat of a room to only one of two racing players', async () => {
+    await queueRef.set({ room: queuedRoom({ maxCapacity: 3, playerCount: 2, players: { host: true, guest: true } }) })
+
+    const claims = await Promise.all([
+      claimOrEnqueueRoom(rtdb, { sectionId: SECTION_ID, userId: 'a', ownRoomId: 'room-a', maxCapacity: 3, rating: 1000 }),
+      claimOrEnqueueRoom(otherRtdb, { sectionId: SECTION_ID, userId: 'b', ownRoomId: 'room-b', maxCapacity: 3, rating: 1000 }),
+    ])
+
+    const winners = claims.filter((claim) => claim.joined)
+    const losers = claims.filter((claim) => !claim.joined)
+    expect(winners).toHaveLength(1)
+    expect(winners[0].roomId).toBe('room')
+    expect(losers).toHaveLength(1)
+
+    // The full room leaves the queue and the other player's room waits in it
+    const queue = await readQueue()
+    expect(Object.keys(queue)).toEqual([losers[0].roomId])
+    expect(queue[losers[0].roomId]).toMatchObject({ maxCapacity: 3, playerCount: 1 })
+  })
+
+  it('drops rooms past the matchmaking window instead of joining them', async () => {
+    await queueRef.set({
+      stale: queuedRoom({ createdAt: Date.now() - MATCHMAKING_WINDOW_MS - 1000 }),
+      fresh: queuedRoom({ maxCapacity: 4 }),
+    })
+
+    const claim = await claimOrEnqueueRoom(rtdb, {
+      sectionId: SECTION_ID,
+      userId: 'a',
+      ownRoomId: 'room-a',
+      maxCapacity: 2,
+      rating: 1000,
+    })
+
+    expect(claim).toEqual({ roomId: 'room-a', joined: false, expiredRoomIds: ['stale'] })
+    expect(Object.keys(await readQueue()).sort()).toEqual(['fresh', 'room-a'])
+  })
+
+  it('only joins rooms of the size the player asked for', async () => {
+    await queueRef.set({
+      pair: queuedRoom({ createdAt: Date.now() - 2000 }),
+      four: queuedRoom({ maxCapacity: 4 }),
+    })
+
+    const claim = await claimOrEnqueueRoom(rtdb, {
+      sectionId: SECTION_ID,
+      userId: 'a',
+      ownRoomId: 'room-a',
+      maxCapacity: 4,
+      rating: 1000,
+    })
+    expect(claim).toMatchObject({ roomId: 'four', joined: true })
+    expect((await readQueue()).four).toMatchObject({ playerCount: 2, players: { host: true, a: true } })
+
+    const other = await claimOrEnqueueRoom(rtdb, {
+      sectionId: SECTION_ID,
+      userId: 'b',
+      ownRoomId: 'room-b',
+      maxCapacity: 3,
+      rating: 1000,
+    })
+    expect(other).toMatchObject({ roomId: 'room-b', joined: false })
+  })
+
+  it('leaves a room a player already holds a seat in', async () => {
+    await queueRef.set({ room: queuedRoom({ maxCapacity: 3, players: { a: true } }) })
+
+    const claim = await claimOrEnqueueRoom(rtdb, {
+      sectionId: SECTION_ID,
+      userId: 'a',
+      ownRoomId: 'room-a',
+      maxCapacity: 3,
+      rating: 1000,
+    })
+    expect(claim).toMatchObject({ roomId: 'room-a', joined: false })
+  })
+
+  it('matches players of a close rating and widens the gap while a room waits', async () => {
+    await queueRef.set({ room: queuedRoom({ rating: 1500 }) })
+
+    const tooFar = await claimOrEnqueueRoom(rtdb, {
+      sectionId: SECTION_ID,
+      userId: 'a',
+      ownRoomId: 'room-a',
+      maxCapacity: 2,
+      rating: 1000,
+    })
+    expect(tooFar).toMatchObject({ roomId: 'room-a', joined: false })
+
+    // After 40 seconds the room accepts a gap of 200 + 40 * 10 rating points
+    await queueRef.set({ room: queuedRoom({ rating: 1500, createdAt: Date.now() - 40_000 }) })
+    const widened = await claimOrEnqueueRoom(rtdb, {
+      sectionId: SECTION_ID,
+      userId: 'b',
+      ownRoomId: 'room-b',
+      maxCapacity: 2,
+      rating: 1000,
+    })
+    expect(widened).toMatchObject({ roomId: 'room', joined: true })
+  })
+
+  it('prefers the closest rating and keeps the room rating as the average of its players', async () => {
+    await queueRef.set({
+      older: queuedRoom({ maxCapacity: 3, rating: 1100, createdAt: Date.now() - 5000 }),
+      closer: queuedRoom({ maxCapacity: 3, rating: 1250 }),
+    })
+
+    const claim = await claimOrEnqueueRoom(rtdb, {
+      sectionId: SECTION_ID,
+      userId: 'a',
+      ownRoomId: 'room-a',
+      maxCapacity: 3,
+      rating: 1200,
+    })
+    expect(claim).toMatchObject({ roomId: 'closer', joined: true })
+    expect((await readQueue()).closer).toMatchObject({ playerCount: 2, rating: 1225 })
+  })
+})
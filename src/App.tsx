@@ -15,8 +15,18 @@ import { SectionsPage } from '@/pages/curriculum/SectionsPage'
 import { QuizzesPage } from '@/pages/curriculum/QuizzesPage'
 import { QuestionsPage } from '@/pages/curriculum/QuestionsPage'
 import { SettingsPage } from '@/pages/settings/SettingsPage'
+import { StaffPage } from '@/pages/settings/StaffPage'
 import { NotificationsPage } from '@/pages/notifications/NotificationsPage'
 import { StudentsPage } from '@/pages/students/StudentsPage'
+import { StudentDetailPage } from '@/pages/students/StudentDetailPage'
+import { TrashPage } from '@/pages/trash/TrashPage'
+import { ClassesPage } from '@/pages/classes/ClassesPage'
+import { ClassDetailPage } from '@/pages/classes/ClassDetailPage'
+import { ActivityPage } from '@/pages/activity/ActivityPage'
+import { ReviewQueuePage } from '@/pages/reviews/ReviewQueuePage'
+import { CompetitionsPage } from '@/pages/competitions/CompetitionsPage'
+import { LiveQuizPage } from '@/pages/competitions/LiveQuizPage'
+import { TournamentPage } from '@/pages/competitions/TournamentPage'
 
 function App() {
   return (
@@ -40,8 +50,26 @@ function App() {
                   <Route path=":gradeId/:unitId/:lessonId/:sectionId/:quizId/questions" element={<QuestionsPage />} />
                 </Route>
                 <Route path="/students" element={<StudentsPage />} />
-                <Route path="/notifications" element={<NotificationsPage />} />
+                <Route path="/students/:studentId" element={<StudentDetailPage />} />
+                <Route path="/classes" element={<ClassesPage />} />
+                <Route path="/classes/:classId" element={<ClassDetailPage />} />
+                <Route path="/activity" element={<ActivityPage />} />
+                <Route element={<ProtectedRoute permission="grading.review" />}>
+                  <Route path="/reviews" element={<ReviewQueuePage />} />
+                </Route>
+                <Route path="/competitions" element={<CompetitionsPage />} />
+                <Route path="/competitions/live/:roomId" element={<LiveQuizPage />} />
+                <Route path="/competitions/tournaments/:tournamentId" element={<TournamentPage />} />
+                <Route element={<ProtectedRoute permission="notifications.manage" />}>
+                  <Route path="/notifications" element={<NotificationsPage />} />
+                </Route>
+                <Route element={<ProtectedRoute permission="trash.manage" />}>
+                  <Route path="/trash" element={<TrashPage />} />
+                </Route>
                 <Route path="/settings" element={<SettingsPage />} />
+                <Route element={<ProtectedRoute permission="staff.manage" />}>
+                  <Route path="/settings/staff" element={<StaffPage />} />
+                </Route>
                 <Route path="*" element={<Navigate to="/dashboard" replace />} />
               </Route>
             </Route>
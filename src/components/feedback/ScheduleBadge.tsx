@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { Clock } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import type { PublishWindow } from '@/types/models'
+import { formatDateTime } from '@/utils/formatters'
+
+const MINUTE = 60 * 1000
+
+function formatCountdown(milliseconds: number) {
+  const totalMinutes = Math.max(1, Math.ceil(milliseconds / MINUTE))
+  const days = Math.floor(totalMinutes / (24 * 60))
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60)
+  const minutes = totalMinutes % 60
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
+
+/**
+ * Countdown to the next scheduled publish or unpublish, hidden when nothing is upcoming
+ */
+export function ScheduleBadge({ publishAt, unpublishAt }: PublishWindow) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 30 * 1000)
+    return () => window.clearInterval(interval)
+  }, [])
+
+  const upcoming = [
+    { label: 'Publishes', at: publishAt },
+    { label: 'Unpublishes', at: unpublishAt },
+  ]
+    .filter((event) => event.at && event.at.toMillis() > now)
+    .sort((a, b) => a.at!.toMillis() - b.at!.toMillis())[0]
+
+  if (!upcoming?.at) return null
+
+  return (
+    <Badge variant="outline" className="gap-1 whitespace-nowrap" title={formatDateTime(upcoming.at)}>
+      <Clock className="h-3 w-3" />
+      {upcoming.label} in {formatCountdown(upcoming.at.toMillis() - now)}
+    </Badge>
+  )
+}
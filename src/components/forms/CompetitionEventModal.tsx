@@ -0,0 +1,152 @@
+import { useEffect, useMemo } from 'react'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { FormModal } from '@/components/forms/FormModal'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { useCollection } from '@/hooks/useCollection'
+import { classService } from '@/services/firebase'
+import type { Classroom } from '@/types/models'
+import { competitionEventSchema, type CompetitionEventFormValues } from '@/utils/schemas'
+
+type CompetitionEventModalProps = {
+  open: boolean
+  kind: CompetitionEventFormValues['kind']
+  isSubmitting?: boolean
+  onClose: () => void
+  onSubmit: (values: CompetitionEventFormValues) => void | Promise<void>
+}
+
+// Radix Select items cannot have an empty value
+const ANY_CLASS = 'any'
+
+/**
+ * Pick the section, and the class, of a live quiz or a tournament
+ */
+export function CompetitionEventModal({ open, kind, isSubmitting, onClose, onSubmit }: CompetitionEventModalProps) {
+  const { grades, allLessons, allSections } = useCurriculumCache()
+  const { data: classes } = useCollection<Classroom>(classService.listen)
+
+  const form = useForm<CompetitionEventFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(competitionEventSchema) as any,
+    defaultValues: { kind, title: '', sectionId: '', classId: '' },
+  })
+
+  useEffect(() => {
+    if (open) form.reset({ kind, title: '', sectionId: '', classId: '' })
+  }, [open, kind, form])
+
+  const sectionOptions = useMemo(() => {
+    const gradeNames = new Map(grades.map((grade) => [grade.id, grade.name]))
+    const lessonTitles = new Map(allLessons.map((lesson) => [lesson.id, lesson.title]))
+    return allSections
+      .map((section) => ({
+        section,
+        label: [gradeNames.get(section.gradeId), lessonTitles.get(section.lessonId), section.title].filter(Boolean).join(' · '),
+      }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  }, [grades, allLessons, allSections])
+
+  const sectionId = form.watch('sectionId')
+  const gradeId = allSections.find((section) => section.id === sectionId)?.gradeId
+  const gradeClasses = useMemo(
+    () => classes.filter((classroom) => classroom.gradeId === gradeId).sort((a, b) => a.name.localeCompare(b.name)),
+    [classes, gradeId],
+  )
+
+  const isTournament = kind === 'tournament'
+
+  return (
+    <FormModal
+      open={open}
+      onClose={onClose}
+      title={isTournament ? 'New tournament' : 'Host live quiz'}
+      description={
+        isTournament
+          ? 'Every student of the class is seeded into a single-elimination bracket by their rating on the section.'
+          : 'Students join the lobby with a code. You start the quiz once the class is in.'
+      }
+      onSubmit={form.handleSubmit(onSubmit)}
+      submitLabel={isTournament ? 'Create tournament' : 'Open lobby'}
+      isSubmitting={isSubmitting}
+    >
+      <Form {...form}>
+        <form className="space-y-4">
+          <FormField
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{isTournament ? 'Title' : 'Title (optional)'}</FormLabel>
+                <FormControl>
+                  <Input placeholder={isTournament ? 'e.g., Spring Grammar Cup' : 'e.g., Friday warm-up'} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            name="sectionId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Section</FormLabel>
+                <Select
+                  value={field.value || ''}
+                  onValueChange={(value) => {
+                    field.onChange(value)
+                    form.setValue('classId', '')
+                  }}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select section" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {sectionOptions.map(({ section, label }) => (
+                      <SelectItem key={section.id} value={section.id}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Questions are drawn from the section’s quiz.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            name="classId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Class</FormLabel>
+                <Select
+                  value={field.value || (isTournament ? '' : ANY_CLASS)}
+                  onValueChange={(value) => field.onChange(value === ANY_CLASS ? '' : value)}
+                  disabled={!gradeId}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={gradeId ? 'Select class' : 'Select a section first'} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {!isTournament && <SelectItem value={ANY_CLASS}>Anyone with the code</SelectItem>}
+                    {gradeClasses.map((classroom) => (
+                      <SelectItem key={classroom.id} value={classroom.id}>
+                        {classroom.name} ({classroom.studentIds?.length ?? 0} students)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </form>
+      </Form>
+    </FormModal>
+  )
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { FileJson } from 'lucide-react'
+import { FormModal } from '@/components/forms/FormModal'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  importGradeTree,
+  parseCurriculumExport,
+  type CurriculumExportDocument,
+  type CurriculumTreeSummary,
+} from '@/services/curriculumTreeService'
+
+type CurriculumImportModalProps = {
+  open: boolean
+  adminId?: string
+  existingGradeNames: string[]
+  onClose: () => void
+  onImported: (gradeId: string) => void
+  onError: (message: string) => void
+}
+
+const levelLabels: Record<string, string> = {
+  grades: 'Grade',
+  units: 'Units',
+  lessons: 'Lessons',
+  sections: 'Sections',
+  quizzes: 'Quizzes',
+}
+
+export function CurriculumImportModal({ open, adminId, existingGradeNames, onClose, onImported, onError }: CurriculumImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [exportDocument, setExportDocument] = useState<CurriculumExportDocument | null>(null)
+  const [preview, setPreview] = useState<CurriculumTreeSummary | null>(null)
+  const [readError, setReadError] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  // Start fresh every time the modal opens
+  useEffect(() => {
+    if (open) {
+      setFileName(null)
+      setExportDocument(null)
+      setPreview(null)
+      setReadError(null)
+    }
+  }, [open])
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setFileName(file.name)
+    setReadError(null)
+    setPreview(null)
+    setExportDocument(null)
+    try {
+      const parsed = parseCurriculumExport(await file.text())
+      // Dry run: plans every document without writing anything
+      const summary = await importGradeTree(parsed, adminId ?? '', { dryRun: true })
+      setExportDocument(parsed)
+      setPreview(summary)
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'Unable to read this file.')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!exportDocument) return
+    if (!adminId) {
+      onError('Missing admin session. Please sign in again.')
+      return
+    }
+    try {
+      setIsImporting(true)
+      const result = await importGradeTree(exportDocument, adminId)
+      onImported(result.gradeId)
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Unable to import grade.')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const nameTaken = preview
+    ? existingGradeNames.some((name) => name.toLowerCase().trim() === preview.rootTitle.toLowerCase().trim())
+    : false
+
+  return (
+    <FormModal
+      open={open}
+      onClose={onClose}
+      title="Import Grade"
+      description="Upload a grade export (.json). Everything is recreated with new IDs."
+      onSubmit={handleImport}
+      submitLabel="Import Grade"
+      isSubmitting={isImporting}
+      hideSubmitButton={!preview}
+      className="max-h-[90vh] overflow-y-auto sm:max-w-2xl"
+    >
+      <label className="flex cursor-pointer items-center gap-2 rounded-xl border border-dashed border-border px-4 py-3 text-sm text-muted-foreground hover:border-primary">
+        <FileJson className="h-4 w-4" />
+        <span className="truncate">{fileName ?? 'Choose an export file…'}</span>
+        <Input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+      </label>
+
+      {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+      {preview && exportDocument && (
+        <div className="space-y-3">
+          <div className="rounded-xl border border-border p-3 text-sm">
+            <p className="font-medium text-foreground">{preview.rootTitle}</p>
+            <p className="text-xs text-muted-foreground">
+              Exported {new Date(exportDocument.exportedAt).toLocaleString()}
+              {exportDocument.sourceProjectId ? ` from ${exportDocument.sourceProjectId}` : ''}
+            </p>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {(['units', 'lessons', 'sections', 'quizzes'] as const).map((level) => (
+                <Badge key={level} variant="secondary">
+                  {preview.counts[level]} {levelLabels[level]}
+                </Badge>
+              ))}
+              <Badge variant="secondary">{preview.questionCount} Questions</Badge>
+            </div>
+          </div>
+
+          {nameTaken && (
+            <p className="text-sm text-destructive">
+              A grade named "{preview.rootTitle}" already exists. The import will create a second grade with the same name.
+            </p>
+          )}
+
+          <div className="max-h-64 overflow-y-auto rounded-xl border border-border p-3">
+            <p className="mb-2 text-xs font-medium uppercase text-muted-foreground">Will be created</p>
+            <ul className="space-y-1 text-sm">
+              {preview.items.map((item, index) => (
+                <li key={index} className="flex items-center gap-2" style={{ paddingLeft: `${item.depth * 16}px` }}>
+                  <Badge variant="outline" className="text-[10px]">{levelLabels[item.level]}</Badge>
+                  <span className="truncate">{item.title}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </FormModal>
+  )
+}
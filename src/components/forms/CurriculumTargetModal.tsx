@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useState } from 'react'
+import { FormModal } from '@/components/forms/FormModal'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+
+type CurriculumTargetModalProps = {
+  open: boolean
+  title: string
+  description?: string
+  level: 'units' | 'lessons' | 'sections' // Level of the item being placed
+  initialParentPath: string[] // [gradeId] for units, [gradeId, unitId] for lessons, [gradeId, unitId, lessonId] for sections
+  disallowCurrentParent?: boolean
+  submitLabel: string
+  isSubmitting?: boolean
+  onClose: () => void
+  onSubmit: (targetParentPath: string[]) => void
+}
+
+const parentDepthByLevel = {
+  units: 1,
+  lessons: 2,
+  sections: 3,
+} as const
+
+/**
+ * Pick a new parent (grade, unit or lesson) for a curriculum item from the cached tree
+ */
+export function CurriculumTargetModal({
+  open,
+  title,
+  description,
+  level,
+  initialParentPath,
+  disallowCurrentParent = false,
+  submitLabel,
+  isSubmitting,
+  onClose,
+  onSubmit,
+}: CurriculumTargetModalProps) {
+  const { grades, allUnits, allLessons } = useCurriculumCache()
+  const [gradeId, setGradeId] = useState('')
+  const [unitId, setUnitId] = useState('')
+  const [lessonId, setLessonId] = useState('')
+
+  const parentDepth = parentDepthByLevel[level]
+  const initialPathKey = initialParentPath.join('/')
+
+  useEffect(() => {
+    if (open) {
+      const [initialGradeId = '', initialUnitId = '', initialLessonId = ''] = initialPathKey.split('/')
+      setGradeId(initialGradeId)
+      setUnitId(initialUnitId)
+      setLessonId(initialLessonId)
+    }
+  }, [open, initialPathKey])
+
+  const gradeUnits = useMemo(
+    () => allUnits.filter((unit) => unit.gradeId === gradeId).sort((a, b) => a.number - b.number),
+    [allUnits, gradeId],
+  )
+  const unitLessons = useMemo(
+    () =>
+      allLessons
+        .filter((lesson) => lesson.gradeId === gradeId && lesson.unitId === unitId)
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0)),
+    [allLessons, gradeId, unitId],
+  )
+
+  const targetPath = [gradeId, unitId, lessonId].slice(0, parentDepth)
+  const isComplete = targetPath.every(Boolean)
+  const isCurrentParent = targetPath.join('/') === initialPathKey
+  const canSubmit = isComplete && !(disallowCurrentParent && isCurrentParent)
+
+  return (
+    <FormModal
+      open={open}
+      onClose={onClose}
+      title={title}
+      description={description}
+      onSubmit={() => {
+        if (canSubmit) onSubmit(targetPath)
+      }}
+      submitLabel={submitLabel}
+      isSubmitting={isSubmitting}
+      submitDisabled={!canSubmit}
+    >
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Grade</Label>
+          <Select
+            value={gradeId}
+            onValueChange={(value) => {
+              setGradeId(value)
+              setUnitId('')
+              setLessonId('')
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select grade" />
+            </SelectTrigger>
+            <SelectContent>
+              {grades.map((grade) => (
+                <SelectItem key={grade.id} value={grade.id}>
+                  {grade.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {parentDepth >= 2 && (
+          <div className="space-y-2">
+            <Label>Unit</Label>
+            <Select
+              value={unitId}
+              onValueChange={(value) => {
+                setUnitId(value)
+                setLessonId('')
+              }}
+              disabled={!gradeId}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select unit" />
+              </SelectTrigger>
+              <SelectContent>
+                {gradeUnits.map((unit) => (
+                  <SelectItem key={unit.id} value={unit.id}>
+                    Unit {unit.number}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {parentDepth >= 3 && (
+          <div className="space-y-2">
+            <Label>Lesson</Label>
+            <Select value={lessonId} onValueChange={setLessonId} disabled={!unitId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select lesson" />
+              </SelectTrigger>
+              <SelectContent>
+                {unitLessons.map((lesson) => (
+                  <SelectItem key={lesson.id} value={lesson.id}>
+                    {lesson.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {disallowCurrentParent && isComplete && isCurrentParent && (
+          <p className="text-sm text-muted-foreground">Choose a different location than the current one.</p>
+        )}
+      </div>
+    </FormModal>
+  )
+}
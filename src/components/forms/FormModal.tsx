@@ -11,6 +11,7 @@ type FormModalProps = {
   submitLabel?: string
   children: ReactNode
   isSubmitting?: boolean
+  submitDisabled?: boolean
   secondaryAction?: ReactNode
   hideSubmitButton?: boolean
   className?: string
@@ -25,6 +26,7 @@ export function FormModal({
   submitLabel = 'Save',
   children,
   isSubmitting,
+  submitDisabled = false,
   secondaryAction,
   hideSubmitButton = false,
   className,
@@ -53,7 +55,7 @@ export function FormModal({
           </Button>
           {secondaryAction}
           {!hideSubmitButton && (
-            <Button onClick={onSubmit} disabled={isSubmitting} type="button">
+            <Button onClick={onSubmit} disabled={isSubmitting || submitDisabled} type="button">
               {isSubmitting ? 'Saving…' : submitLabel}
             </Button>
           )}
@@ -0,0 +1,347 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { UseFormReturn } from 'react-hook-form'
+import { Users } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { useCollection } from '@/hooks/useCollection'
+import { studentService } from '@/services/firebase'
+import {
+  previewNotificationAudience,
+  toNotificationAudience,
+  type AudiencePreview,
+} from '@/services/notificationAudienceService'
+import type { Classroom, Student } from '@/types/models'
+import { notificationAudienceOptions } from '@/utils/constants'
+import type { NotificationFormValues } from '@/utils/schemas'
+
+type NotificationAudienceFieldsProps = {
+  form: UseFormReturn<NotificationFormValues>
+  classes: Classroom[]
+}
+
+// Radix Select items cannot have an empty value
+const NO_FILTER = 'none'
+// Wait for the staff member to stop changing the audience before counting it
+const PREVIEW_DELAY_MS = 600
+
+/**
+ * Audience picker of the notification form: an audience picked by ID, filters that narrow it,
+ * and the number of students and devices it reaches
+ */
+export function NotificationAudienceFields({ form, classes }: NotificationAudienceFieldsProps) {
+  const { grades, allUnits, allLessons } = useCurriculumCache()
+  const { data: students } = useCollection<Student>(studentService.listen)
+  const [studentSearch, setStudentSearch] = useState('')
+  const [preview, setPreview] = useState<AudiencePreview | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [isCounting, setIsCounting] = useState(false)
+
+  const audienceType = form.watch('audienceType')
+  const gradeNames = useMemo(() => new Map(grades.map((grade) => [grade.id, grade.name])), [grades])
+  const unitOptions = useMemo(
+    () =>
+      allUnits
+        .map((unit) => ({ id: unit.id, label: `${gradeNames.get(unit.gradeId) ?? 'Grade'} · Unit ${unit.number}` }))
+        .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true })),
+    [allUnits, gradeNames],
+  )
+  const lessonOptions = useMemo(() => {
+    const unitLabels = new Map(unitOptions.map((unit) => [unit.id, unit.label]))
+    return allLessons
+      .map((lesson) => ({ id: lesson.id, label: `${unitLabels.get(lesson.unitId) ?? 'Unit'} · ${lesson.title}` }))
+      .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }))
+  }, [allLessons, unitOptions])
+
+  const targetOptions =
+    audienceType === 'grade'
+      ? grades.map((grade) => ({ id: grade.id, label: grade.name }))
+      : audienceType === 'unit'
+        ? unitOptions
+        : audienceType === 'lesson'
+          ? lessonOptions
+          : audienceType === 'class'
+            ? classes.map((classroom) => ({ id: classroom.id, label: `${classroom.name} (${classroom.studentIds?.length ?? 0})` }))
+            : []
+
+  const studentCandidates = useMemo(() => {
+    const term = studentSearch.trim().toLowerCase()
+    return students
+      .filter(
+        (student) =>
+          !term || student.name?.toLowerCase().includes(term) || student.email?.toLowerCase().includes(term),
+      )
+      .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? ''))
+      .slice(0, 100)
+  }, [students, studentSearch])
+
+  // Recount whenever the audience changes; the key keeps the effect from running on unrelated edits
+  const values = form.watch()
+  const audienceKey = JSON.stringify(toNotificationAudience(values))
+  useEffect(() => {
+    const audience = JSON.parse(audienceKey) as ReturnType<typeof toNotificationAudience>
+    const isIncomplete =
+      (audience.audienceType === 'students' && !audience.audienceFilters.studentIds) ||
+      (audience.audienceType !== 'all' && audience.audienceType !== 'students' && !audience.audienceValue)
+    if (isIncomplete) {
+      setPreview(null)
+      setPreviewError(null)
+      return
+    }
+    let isCurrent = true
+    const timeout = window.setTimeout(async () => {
+      try {
+        setIsCounting(true)
+        const next = await previewNotificationAudience(audience)
+        if (isCurrent) {
+          setPreview(next)
+          setPreviewError(null)
+        }
+      } catch (error) {
+        if (isCurrent) setPreviewError(error instanceof Error ? error.message : 'Unable to count recipients')
+      } finally {
+        if (isCurrent) setIsCounting(false)
+      }
+    }, PREVIEW_DELAY_MS)
+    return () => {
+      isCurrent = false
+      window.clearTimeout(timeout)
+    }
+  }, [audienceKey])
+
+  const parseNumber = (raw: string) => (raw === '' ? undefined : Number(raw))
+
+  return (
+    <div className="space-y-4 rounded-xl border border-border/60 p-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField
+          control={form.control}
+          name="audienceType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Audience</FormLabel>
+              <Select
+                value={field.value}
+                onValueChange={(value) => {
+                  field.onChange(value)
+                  form.setValue('audienceValue', '')
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select audience" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {notificationAudienceOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {audienceType !== 'all' && audienceType !== 'students' && (
+          <FormField
+            control={form.control}
+            name="audienceValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{notificationAudienceOptions.find((option) => option.value === audienceType)?.label}</FormLabel>
+                <Select value={field.value || ''} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Select ${audienceType}`} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {targetOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </div>
+
+      {audienceType === 'students' && (
+        <FormField
+          control={form.control}
+          name="studentIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Students ({field.value.length} selected)</FormLabel>
+              <Input
+                placeholder="Search by name or email"
+                value={studentSearch}
+                onChange={(event) => setStudentSearch(event.target.value)}
+              />
+              <div className="max-h-48 space-y-1 overflow-y-auto rounded-xl border border-border p-2">
+                {studentCandidates.length === 0 ? (
+                  <p className="p-2 text-sm text-muted-foreground">No students found.</p>
+                ) : (
+                  studentCandidates.map((student) => (
+                    <label
+                      key={student.id}
+                      className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-1.5 hover:bg-muted/50"
+                    >
+                      <Checkbox
+                        checked={field.value.includes(student.id)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked ? [...field.value, student.id] : field.value.filter((id: string) => id !== student.id),
+                          )
+                        }
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-foreground">{student.name}</p>
+                        <p className="truncate text-xs text-muted-foreground">{student.email || student.id}</p>
+                      </div>
+                    </label>
+                  ))
+                )}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <p className="text-sm font-medium text-foreground">Filters</p>
+          <p className="text-xs text-muted-foreground">Every filter you set narrows the audience further.</p>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="filterClassId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>In class</FormLabel>
+                <Select
+                  value={field.value || NO_FILTER}
+                  onValueChange={(value) => field.onChange(value === NO_FILTER ? undefined : value)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_FILTER}>Any class</SelectItem>
+                    {classes.map((classroom) => (
+                      <SelectItem key={classroom.id} value={classroom.id}>
+                        {classroom.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="inactiveDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Inactive for (days)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Any activity"
+                    value={field.value ?? ''}
+                    onChange={(event) => field.onChange(parseNumber(event.target.value))}
+                  />
+                </FormControl>
+                <FormDescription>Students who never opened the app are not included.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="lowAccuracyUnitId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Low accuracy on unit</FormLabel>
+                <Select
+                  value={field.value || NO_FILTER}
+                  onValueChange={(value) => field.onChange(value === NO_FILTER ? undefined : value)}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_FILTER}>Any accuracy</SelectItem>
+                    {unitOptions.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id}>
+                        {unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxAccuracy"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Accuracy below (%)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    placeholder="e.g., 50"
+                    value={field.value ?? ''}
+                    onChange={(event) => field.onChange(parseNumber(event.target.value))}
+                  />
+                </FormControl>
+                <FormDescription>Counts only students who practised the unit.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 rounded-lg bg-muted/40 px-3 py-2 text-sm">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        {previewError ? (
+          <span className="text-destructive">{previewError}</span>
+        ) : isCounting ? (
+          <span className="text-muted-foreground">Counting recipients…</span>
+        ) : preview ? (
+          <span>
+            Reaches <span className="font-semibold">{preview.students}</span> student{preview.students === 1 ? '' : 's'}
+            <span className="text-muted-foreground">
+              {' '}
+              · {preview.devices} device{preview.devices === 1 ? '' : 's'} with push notifications on
+            </span>
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Pick the audience to see how many students it reaches.</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { useFormContext } from 'react-hook-form'
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { toDateTimeLocalValue } from '@/utils/formatters'
+
+type PublishScheduleFieldsProps = {
+  itemLabel: string // e.g. "grade", used in the helper text
+  disabled?: boolean // Staff without curriculum.publish see the schedule but cannot change it
+}
+
+/**
+ * publishAt / unpublishAt inputs for forms whose schema includes the publish window fields
+ */
+export function PublishScheduleFields({ itemLabel, disabled }: PublishScheduleFieldsProps) {
+  const form = useFormContext<{ publishAt?: Date; unpublishAt?: Date }>()
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <div className="space-y-0.5">
+        <p className="text-sm font-medium text-foreground">Schedule</p>
+        <p className="text-xs text-muted-foreground">
+          Optional. The {itemLabel} is published and unpublished automatically at these times.
+        </p>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {(['publishAt', 'unpublishAt'] as const).map((name) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{name === 'publishAt' ? 'Publish at' : 'Unpublish at'}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="datetime-local"
+                    disabled={disabled}
+                    value={toDateTimeLocalValue(field.value)}
+                    onChange={(event) => {
+                      const value = event.target.value
+                      form.setValue(name, value ? new Date(value) : undefined, { shouldDirty: true })
+                    }}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -7,7 +7,9 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Switch } from '@/components/ui/switch'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { DEFAULT_ANSWER_MATCHING, MAX_TYPO_TOLERANCE, resolveAnswerMatching } from '@shared/answerGrading'
 import {
   fillInQuestionSchema,
   dragDropQuestionSchema,
@@ -23,6 +25,8 @@ import {
   type CompositionQuestionFormValues,
 } from '@/utils/schemas'
 import type { Question, Quiz, SpellingQuestion } from '@/types/models'
+import { separateWordsAndPunctuation } from '@/utils/orderWords'
+import { answerMatchingToggleOptions } from '@/utils/constants'
 
 type QuestionBuilderProps = {
   quiz: Quiz
@@ -725,6 +729,59 @@ function getQuestionTypeFromQuizType(quizType: Quiz['quizType']): Question['type
               </div>
             )}
 
+            {(isFillIn || isSpelling) && (
+              <div className="space-y-4 border-t border-border pt-5">
+                <div>
+                  <FormLabel>Answer matching</FormLabel>
+                  <p className="text-xs text-muted-foreground">
+                    How strictly a typed answer must match. Surrounding spaces and curly apostrophes are always ignored.
+                  </p>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {answerMatchingToggleOptions.map((option) => (
+                    <FormField
+                      key={option.value}
+                      name={`answerMatching.${option.value}` as const}
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between gap-3 rounded-lg border border-border p-3">
+                          <div className="space-y-0.5">
+                            <FormLabel>{option.label}</FormLabel>
+                            <p className="text-xs text-muted-foreground">{option.description}</p>
+                          </div>
+                          <FormControl>
+                            <Switch checked={Boolean(field.value)} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+                {isFillIn && (
+                  <FormField
+                    name="answerMatching.typoTolerance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Accepted typos</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={MAX_TYPO_TOLERANCE}
+                            value={field.value ?? 0}
+                            onChange={(event) => field.onChange(Number(event.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                        <p className="text-xs text-muted-foreground">
+                          Letters that may be wrong, missing or extra in a typed answer (0 to {MAX_TYPO_TOLERANCE}). Spelling questions always need the exact spelling.
+                        </p>
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+            )}
+
             <div className="space-y-4 border-t border-border pt-5">
               <FormField
                 name="points"
@@ -813,100 +870,6 @@ function getQuestionTypeFromQuizType(quizType: Quiz['quizType']): Question['type
   )
 }
 
-// Helper function to separate words and punctuation from a sentence
-function separateWordsAndPunctuation(sentence: string): { words: string[]; punctuation: string[] } {
-  if (!sentence.trim()) {
-    return { words: [], punctuation: [] }
-  }
-
-  // Common punctuation marks (ordered by length to check longer ones first, e.g., "'s" before "'")
-  // Note: '[' and ']' are intentionally excluded here as they're used for grouping multi-word phrases
-  const punctuationMarks = ["'s", '.', ',', '?', '!', ':', ';', "'", '"', '(', ')', '{', '}']
-  
-  const words: string[] = []
-  const punctuationSet = new Set<string>()
-  
-  // Step 1: Extract bracketed phrases and replace with placeholders
-  // This allows phrases like [her phone] to be treated as single words
-  const bracketedPhrases: string[] = []
-  let processedSentence = sentence.trim()
-  
-  // Find all [bracketed text] and replace with unique placeholders
-  const bracketRegex = /\[([^\]]+)\]/g
-  let match
-  let placeholderIndex = 0
-  
-  while ((match = bracketRegex.exec(sentence)) !== null) {
-    const fullMatch = match[0] // e.g., "[her phone]"
-    const content = match[1].trim() // e.g., "her phone" (without brackets)
-    
-    if (content) {
-      const placeholder = `__BRACKET_${placeholderIndex}__`
-      bracketedPhrases.push(content) // Store "her phone"
-      processedSentence = processedSentence.replace(fullMatch, placeholder)
-      placeholderIndex++
-    }
-  }
-  
-  // Step 2: Split by whitespace
-  const parts = processedSentence.split(/\s+/).filter(part => part.length > 0)
-  
-  // Step 3: Process each part and restore bracketed phrases
-  for (const part of parts) {
-    // Check if this part is a placeholder for a bracketed phrase
-    const placeholderMatch = part.match(/__BRACKET_(\d+)__/)
-    if (placeholderMatch) {
-      const index = parseInt(placeholderMatch[1], 10)
-      if (index < bracketedPhrases.length) {
-        // This is a bracketed phrase - add it as a single word
-        words.push(bracketedPhrases[index])
-      }
-      continue
-    }
-    
-    // Check if the entire part is punctuation
-    if (punctuationMarks.includes(part)) {
-      punctuationSet.add(part)
-      continue
-    }
-    
-    // Extract words and punctuation from mixed parts (e.g., "word," or "Sara's")
-    let remainingPart = part
-    const foundPunctuation: string[] = []
-    
-    // Check for punctuation at the end (check longer marks first, especially "'s")
-    // This handles cases like "Sara's" -> "Sara" + "'s"
-    for (const mark of punctuationMarks) {
-      if (remainingPart.endsWith(mark)) {
-        remainingPart = remainingPart.slice(0, -mark.length)
-        foundPunctuation.push(mark)
-        break // Only remove one punctuation mark at a time
-      }
-    }
-    
-    // Check for punctuation at the beginning
-    for (const mark of punctuationMarks) {
-      if (remainingPart.startsWith(mark)) {
-        remainingPart = remainingPart.slice(mark.length)
-        foundPunctuation.push(mark)
-        break // Only remove one punctuation mark at a time
-      }
-    }
-    
-    // Add word if it's not empty (keep original case for display, but we'll normalize in storage)
-    if (remainingPart.trim().length > 0) {
-      words.push(remainingPart.trim())
-    }
-    
-    // Add punctuation marks found
-    for (const mark of foundPunctuation) {
-      punctuationSet.add(mark)
-    }
-  }
-  
-  return { words, punctuation: Array.from(punctuationSet) }
-}
-
 function getDefaultValues(quizId: string, quizType: Quiz['quizType']): QuestionInput {
   switch (quizType) {
     case 'fill-in':
@@ -920,6 +883,7 @@ function getDefaultValues(quizId: string, quizType: Quiz['quizType']): QuestionI
         points: 1,
         status: 'active',
         competitionTimerSeconds: undefined,
+        answerMatching: { ...DEFAULT_ANSWER_MATCHING },
       }
     case 'drag-drop':
       return {
@@ -932,6 +896,7 @@ function getDefaultValues(quizId: string, quizType: Quiz['quizType']): QuestionI
         points: 1,
         status: 'active',
         competitionTimerSeconds: undefined,
+        answerMatching: { ...DEFAULT_ANSWER_MATCHING },
       }
     case 'spelling':
       return {
@@ -943,6 +908,7 @@ function getDefaultValues(quizId: string, quizType: Quiz['quizType']): QuestionI
         points: 1,
         status: 'active',
         competitionTimerSeconds: undefined,
+        answerMatching: { ...DEFAULT_ANSWER_MATCHING },
       }
     case 'composition':
       return {
@@ -996,6 +962,7 @@ function getDefaultValues(quizId: string, quizType: Quiz['quizType']): QuestionI
         points: 1,
         status: 'active',
         competitionTimerSeconds: undefined,
+        answerMatching: { ...DEFAULT_ANSWER_MATCHING },
       }
   }
 }
@@ -1019,6 +986,7 @@ function mapQuestionToValues(question: Question): QuestionInput {
       order: question.order ?? 1,
       status: question.status ?? 'active',
       competitionTimerSeconds: question.competitionTimerSeconds,
+      answerMatching: resolveAnswerMatching(question.answerMatching),
     }
   }
 
@@ -1037,6 +1005,7 @@ function mapQuestionToValues(question: Question): QuestionInput {
       order: question.order ?? 1,
       status: question.status ?? 'active',
       competitionTimerSeconds: question.competitionTimerSeconds,
+      answerMatching: resolveAnswerMatching(question.answerMatching),
     }
   }
 
@@ -0,0 +1,146 @@
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { Download, FileSpreadsheet } from 'lucide-react'
+import { FormModal } from '@/components/forms/FormModal'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { Quiz } from '@/types/models'
+import { SPREADSHEET_ACCEPT, downloadSpreadsheetTemplate, readSpreadsheetRows } from '@/utils/spreadsheet'
+import {
+  buildQuestionsFromRows,
+  getQuestionImportTemplate,
+  type ImportedQuestion,
+  type QuestionImportRowResult,
+} from '@/utils/questionImport'
+
+type QuestionImportModalProps = {
+  open: boolean
+  quiz: Quiz
+  existingQuestionCount: number
+  onClose: () => void
+  onImport: (questions: ImportedQuestion[]) => Promise<void>
+  isImporting?: boolean
+}
+
+export function QuestionImportModal({ open, quiz, existingQuestionCount, onClose, onImport, isImporting }: QuestionImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [results, setResults] = useState<QuestionImportRowResult[]>([])
+  const [readError, setReadError] = useState<string | null>(null)
+  const [isReading, setIsReading] = useState(false)
+
+  // Start fresh every time the modal opens
+  useEffect(() => {
+    if (open) {
+      setFileName(null)
+      setResults([])
+      setReadError(null)
+    }
+  }, [open])
+
+  const validQuestions = results
+    .map((result) => result.question)
+    .filter((question): question is ImportedQuestion => Boolean(question))
+  const invalidCount = results.length - validQuestions.length
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setFileName(file.name)
+    setReadError(null)
+    setIsReading(true)
+    try {
+      const rows = await readSpreadsheetRows(file)
+      const parsed = buildQuestionsFromRows(rows, quiz, existingQuestionCount + 1)
+      setResults(parsed)
+      if (parsed.length === 0) {
+        setReadError('No question rows were found in this file.')
+      }
+    } catch (error) {
+      setResults([])
+      setReadError(error instanceof Error ? error.message : 'Unable to read this file.')
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleDownloadTemplate = () => {
+    const template = getQuestionImportTemplate(quiz.quizType)
+    void downloadSpreadsheetTemplate(`${quiz.quizType}-questions-template.xlsx`, template.headers, [template.example])
+  }
+
+  const handleSubmit = () => {
+    if (validQuestions.length === 0) return
+    void onImport(validQuestions)
+  }
+
+  return (
+    <FormModal
+      open={open}
+      onClose={onClose}
+      title="Import Questions"
+      description={`Upload a CSV or XLSX file with one ${quiz.quizType} question per row.`}
+      onSubmit={handleSubmit}
+      submitLabel={`Import ${validQuestions.length} question${validQuestions.length === 1 ? '' : 's'}`}
+      isSubmitting={isImporting || isReading}
+      hideSubmitButton={validQuestions.length === 0}
+      className="max-h-[90vh] overflow-y-auto sm:max-w-3xl"
+    >
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <label className="flex flex-1 cursor-pointer items-center gap-2 rounded-xl border border-dashed border-border px-4 py-3 text-sm text-muted-foreground hover:border-primary">
+          <FileSpreadsheet className="h-4 w-4" />
+          <span className="truncate">{fileName ?? 'Choose a spreadsheet…'}</span>
+          <Input type="file" accept={SPREADSHEET_ACCEPT} className="hidden" onChange={handleFileChange} />
+        </label>
+        <Button type="button" variant="outline" onClick={handleDownloadTemplate}>
+          <Download className="mr-2 h-4 w-4" />
+          Template
+        </Button>
+      </div>
+
+      {isReading && <p className="text-sm text-muted-foreground">Reading file…</p>}
+      {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">{validQuestions.length} valid</Badge>
+            {invalidCount > 0 && <Badge variant="destructive">{invalidCount} with errors (skipped)</Badge>}
+          </div>
+          <div className="overflow-hidden rounded-xl border border-border">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="w-16 text-center">Row</TableHead>
+                  <TableHead>Question</TableHead>
+                  <TableHead className="w-[45%]">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.rowNumber}>
+                    <TableCell className="text-center text-xs text-muted-foreground">{result.rowNumber}</TableCell>
+                    <TableCell className="whitespace-normal break-words text-sm">{result.prompt || '—'}</TableCell>
+                    <TableCell className="whitespace-normal">
+                      {result.errors.length === 0 ? (
+                        <Badge variant="outline">Ready</Badge>
+                      ) : (
+                        <ul className="list-disc space-y-1 pl-4 text-xs text-destructive">
+                          {result.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </FormModal>
+  )
+}
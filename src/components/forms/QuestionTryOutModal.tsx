@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useState } from 'react'
+import { gradeAnswer, type AnswerGrade, type StudentAnswer } from '@shared/answerGrading'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { FormModal } from '@/components/forms/FormModal'
+import { transformQuestion, type StudentAppQuestion } from '@/utils/dataTransformers'
+import type { Question } from '@/types/models'
+
+type QuestionTryOutModalProps = {
+  open: boolean
+  question: Question | null
+  onClose: () => void
+}
+
+/**
+ * Answer the question as a student would and see how the app grades it
+ * Grading runs through the same module the Cloud Functions use for competitions.
+ */
+export function QuestionTryOutModal({ open, question, onClose }: QuestionTryOutModalProps) {
+  const studentQuestion = useMemo<StudentAppQuestion | null>(() => (question ? transformQuestion(question) : null), [question])
+  const [inputs, setInputs] = useState<Record<string, string>>({})
+  const [grade, setGrade] = useState<AnswerGrade | null>(null)
+
+  useEffect(() => {
+    setInputs({})
+    setGrade(null)
+  }, [question])
+
+  const setInput = (key: string, value: string) => {
+    setInputs((prev) => ({ ...prev, [key]: value }))
+    setGrade(null)
+  }
+
+  const toStudentAnswer = (target: StudentAppQuestion): StudentAnswer => {
+    switch (target.type) {
+      case 'fill_blank':
+      case 'drag_drop':
+        return target.answers.map((_, index) => inputs[String(index)] ?? '')
+      case 'matching':
+        return inputs
+      default:
+        return inputs.answer ?? ''
+    }
+  }
+
+  const handleCheck = () => {
+    if (!studentQuestion) return
+    setGrade(gradeAnswer(studentQuestion, toStudentAnswer(studentQuestion)))
+  }
+
+  const renderInputs = (target: StudentAppQuestion) => {
+    switch (target.type) {
+      case 'fill_blank':
+      case 'drag_drop':
+        return target.answers.map((_, index) => {
+          const options = (target.blankOptions?.[index] ?? []).filter(Boolean)
+          const key = String(index)
+          return (
+            <div key={key} className="space-y-1.5">
+              <Label>Blank {index + 1}</Label>
+              {options.length > 0 ? (
+                <Select value={inputs[key] ?? ''} onValueChange={(value) => setInput(key, value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an option" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input value={inputs[key] ?? ''} onChange={(event) => setInput(key, event.target.value)} />
+              )}
+            </div>
+          )
+        })
+      case 'matching': {
+        const rights = Array.from(new Set(Object.values(target.pairs ?? {}))).sort()
+        return Object.keys(target.pairs ?? {}).map((left) => (
+          <div key={left} className="grid grid-cols-2 items-center gap-3">
+            <span className="text-sm text-foreground">{left}</span>
+            <Select value={inputs[left] ?? ''} onValueChange={(value) => setInput(left, value)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Match with…" />
+              </SelectTrigger>
+              <SelectContent>
+                {rights.map((right) => (
+                  <SelectItem key={right} value={right}>
+                    {right}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))
+      }
+      case 'composition':
+        return (
+          <div className="space-y-1.5">
+            <Label>Answer</Label>
+            <Textarea
+              className="min-h-[120px] resize-none"
+              value={inputs.answer ?? ''}
+              onChange={(event) => setInput('answer', event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Compositions are graded by AI and reviewed by teachers.</p>
+          </div>
+        )
+      default:
+        return (
+          <div className="space-y-1.5">
+            <Label>{target.type === 'order_words' ? 'Sentence in the chosen order' : 'Answer'}</Label>
+            <Input value={inputs.answer ?? ''} onChange={(event) => setInput('answer', event.target.value)} />
+          </div>
+        )
+    }
+  }
+
+  return (
+    <FormModal
+      open={open}
+      onClose={onClose}
+      title="Try question"
+      description={studentQuestion?.prompt}
+      onSubmit={handleCheck}
+      submitLabel="Check answer"
+      className="max-h-[90vh] overflow-y-auto sm:max-w-2xl"
+    >
+      {studentQuestion && (
+        <div className="space-y-4">
+          <div className="grid gap-3">{renderInputs(studentQuestion)}</div>
+          {grade && (
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={grade.isCorrect ? 'default' : grade.score > 0 ? 'secondary' : 'destructive'}>
+                  {grade.isCorrect ? 'Correct' : grade.score > 0 ? 'Partly correct' : 'Incorrect'}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {grade.earnedPoints} of {grade.maxPoints} points
+                  {grade.requiresReview && ' · provisional until the composition is graded'}
+                </span>
+              </div>
+              {grade.parts.length === 1 && !grade.isCorrect && !grade.requiresReview && (
+                <p className="text-sm text-muted-foreground">
+                  Expected: <span className="text-foreground">{grade.parts[0].expected}</span>
+                </p>
+              )}
+              {grade.parts.length > 1 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-36">Part</TableHead>
+                      <TableHead>Answer given</TableHead>
+                      <TableHead>Expected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {grade.parts.map((part) => (
+                      <TableRow key={part.key}>
+                        <TableCell className="text-sm font-medium">{part.key}</TableCell>
+                        <TableCell className={part.isCorrect ? 'text-sm text-emerald-700' : 'text-sm text-destructive'}>
+                          {part.given || '—'}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{part.expected}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </FormModal>
+  )
+}
@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useState } from 'react'
+import { History, RotateCcw } from 'lucide-react'
+import { FormModal } from '@/components/forms/FormModal'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { listQuizVersions } from '@/services/quizVersionService'
+import type { Quiz, QuizVersion } from '@/types/models'
+import { cn } from '@/utils/cn'
+import { formatDateTime } from '@/utils/formatters'
+import { diffQuizVersions, summarizeQuizVersionDiff, type QuestionDiffStatus } from '@/utils/quizVersionDiff'
+
+type QuizHistoryModalProps = {
+  open: boolean
+  quiz: Quiz
+  onClose: () => void
+  onRestore?: (version: QuizVersion) => Promise<void> // Omit for read-only history
+  isRestoring?: boolean
+}
+
+const statusVariants: Record<QuestionDiffStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  added: 'default',
+  changed: 'secondary',
+  removed: 'destructive',
+  unchanged: 'outline',
+}
+
+function authorOf(version: QuizVersion) {
+  if (!version.createdBy) return 'Before history'
+  return version.createdByEmail ?? version.createdBy
+}
+
+export function QuizHistoryModal({ open, quiz, onClose, onRestore, isRestoring }: QuizHistoryModalProps) {
+  const [versions, setVersions] = useState<QuizVersion[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setIsLoading(true)
+    setLoadError(null)
+    listQuizVersions(quiz.id)
+      .then((result) => {
+        if (cancelled) return
+        setVersions(result)
+        setSelectedId(result[0]?.id ?? null)
+        setCompareId(result[1]?.id ?? null)
+      })
+      .catch((error) => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Unable to load history')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, quiz.id])
+
+  // Each version compared with the one saved right before it
+  const summaries = useMemo(() => {
+    const result = new Map<string, string>()
+    versions.forEach((version, index) => {
+      const previous = versions[index + 1]
+      result.set(
+        version.id,
+        previous ? summarizeQuizVersionDiff(diffQuizVersions(previous.document, version.document)) : `${version.questionCount} questions`,
+      )
+    })
+    return result
+  }, [versions])
+
+  const selected = versions.find((version) => version.id === selectedId) ?? null
+  const compareTo = versions.find((version) => version.id === compareId) ?? null
+  const diff = useMemo(
+    () => (selected && compareTo ? diffQuizVersions(compareTo.document, selected.document) : null),
+    [selected, compareTo],
+  )
+  const isLatest = selected?.id === versions[0]?.id
+
+  const handleSelect = (version: QuizVersion) => {
+    setSelectedId(version.id)
+    const index = versions.findIndex((item) => item.id === version.id)
+    setCompareId(versions[index + 1]?.id ?? null)
+  }
+
+  return (
+    <FormModal
+      open={open}
+      onClose={onClose}
+      title="Version history"
+      description={`Every save of "${quiz.title}" is kept. Compare two versions or roll back to an earlier one.`}
+      onSubmit={() => {}}
+      hideSubmitButton
+      secondaryAction={
+        selected && !isLatest && onRestore ? (
+          <Button type="button" onClick={() => void onRestore(selected)} disabled={isRestoring}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {isRestoring ? 'Restoring…' : `Restore version ${selected.version}`}
+          </Button>
+        ) : undefined
+      }
+      className="max-h-[90vh] overflow-y-auto sm:max-w-5xl"
+    >
+      {isLoading && <p className="text-sm text-muted-foreground">Loading history…</p>}
+      {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+      {!isLoading && !loadError && versions.length === 0 && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <History className="h-4 w-4" />
+          No versions yet. A version is saved every time the quiz changes.
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="grid gap-4 sm:grid-cols-[280px_1fr]">
+          <div className="space-y-2">
+            {versions.map((version, index) => (
+              <button
+                key={version.id}
+                type="button"
+                onClick={() => handleSelect(version)}
+                className={cn(
+                  'w-full rounded-xl border border-border px-3 py-2 text-left transition hover:border-primary',
+                  version.id === selectedId && 'border-primary bg-primary/5',
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-foreground">Version {version.version}</span>
+                  {index === 0 && <Badge>Current</Badge>}
+                  {version.restoredFromVersion !== undefined && (
+                    <Badge variant="outline">Restored v{version.restoredFromVersion}</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDateTime(version.createdAt)} · {authorOf(version)}
+                </p>
+                <p className="text-xs text-muted-foreground">{summaries.get(version.id)}</p>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="space-y-3">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+                <div>
+                  <p className="text-sm font-semibold text-foreground">
+                    Version {selected.version}: {selected.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {selected.questionCount} question{selected.questionCount === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="space-y-1 sm:w-56">
+                  <Label>Compare with</Label>
+                  <Select value={compareId ?? ''} onValueChange={setCompareId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions
+                        .filter((version) => version.id !== selected.id)
+                        .map((version) => (
+                          <SelectItem key={version.id} value={version.id}>
+                            Version {version.version}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {!diff && <p className="text-sm text-muted-foreground">This is the first version; nothing to compare with.</p>}
+
+              {diff && compareTo && (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="outline">
+                      v{compareTo.version} → v{selected.version}
+                    </Badge>
+                    {(['added', 'changed', 'removed'] as const).map((status) => (
+                      <Badge key={status} variant={statusVariants[status]}>
+                        {diff.counts[status]} {status}
+                      </Badge>
+                    ))}
+                  </div>
+                  {diff.quizFields.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Quiz settings changed: {diff.quizFields.join(', ')}</p>
+                  )}
+                  <div className="overflow-hidden rounded-xl border border-border">
+                    <Table>
+                      <TableHeader className="bg-muted/30">
+                        <TableRow>
+                          <TableHead>Question</TableHead>
+                          <TableHead className="w-28">Status</TableHead>
+                          <TableHead className="w-[30%]">Changed fields</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diff.questions.map((question) => (
+                          <TableRow key={`${question.status}-${question.id}`}>
+                            <TableCell className="whitespace-normal break-words text-sm">{question.prompt || '—'}</TableCell>
+                            <TableCell>
+                              <Badge variant={statusVariants[question.status]}>{question.status}</Badge>
+                            </TableCell>
+                            <TableCell className="whitespace-normal text-xs text-muted-foreground">
+                              {question.changedFields.join(', ') || '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </FormModal>
+  )
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { Download, FileSpreadsheet } from 'lucide-react'
+import { FormModal } from '@/components/forms/FormModal'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { Classroom, Student } from '@/types/models'
+import { SPREADSHEET_ACCEPT, downloadSpreadsheetTemplate, readSpreadsheetRows } from '@/utils/spreadsheet'
+import { matchRosterRows, rosterImportTemplate, type RosterImportRowResult } from '@/utils/rosterImport'
+
+type RosterImportModalProps = {
+  open: boolean
+  classroom: Classroom
+  students: Student[]
+  onClose: () => void
+  onImport: (studentIds: string[]) => Promise<void>
+  isImporting?: boolean
+}
+
+export function RosterImportModal({ open, classroom, students, onClose, onImport, isImporting }: RosterImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [results, setResults] = useState<RosterImportRowResult[]>([])
+  const [readError, setReadError] = useState<string | null>(null)
+  const [isReading, setIsReading] = useState(false)
+
+  // Start fresh every time the modal opens
+  useEffect(() => {
+    if (open) {
+      setFileName(null)
+      setResults([])
+      setReadError(null)
+    }
+  }, [open])
+
+  const newStudentIds = results
+    .filter((result) => result.student && !result.error && !result.alreadyEnrolled)
+    .map((result) => result.student!.id)
+  const enrolledCount = results.filter((result) => result.alreadyEnrolled).length
+  const invalidCount = results.filter((result) => result.error).length
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setFileName(file.name)
+    setReadError(null)
+    setIsReading(true)
+    try {
+      const rows = await readSpreadsheetRows(file)
+      const matched = matchRosterRows(rows, students, classroom.studentIds ?? [])
+      setResults(matched)
+      if (matched.length === 0) {
+        setReadError('No student rows were found in this file.')
+      }
+    } catch (error) {
+      setResults([])
+      setReadError(error instanceof Error ? error.message : 'Unable to read this file.')
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleSubmit = () => {
+    if (newStudentIds.length === 0) return
+    void onImport(newStudentIds)
+  }
+
+  return (
+    <FormModal
+      open={open}
+      onClose={onClose}
+      title="Enrol from CSV"
+      description={`Upload a CSV or XLSX file with one student per row to add them to ${classroom.name}. Rows are matched by student ID, email or name.`}
+      onSubmit={handleSubmit}
+      submitLabel={`Enrol ${newStudentIds.length} student${newStudentIds.length === 1 ? '' : 's'}`}
+      isSubmitting={isImporting || isReading}
+      hideSubmitButton={newStudentIds.length === 0}
+      className="max-h-[90vh] overflow-y-auto sm:max-w-3xl"
+    >
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <label className="flex flex-1 cursor-pointer items-center gap-2 rounded-xl border border-dashed border-border px-4 py-3 text-sm text-muted-foreground hover:border-primary">
+          <FileSpreadsheet className="h-4 w-4" />
+          <span className="truncate">{fileName ?? 'Choose a spreadsheet…'}</span>
+          <Input type="file" accept={SPREADSHEET_ACCEPT} className="hidden" onChange={handleFileChange} />
+        </label>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => void downloadSpreadsheetTemplate('class-roster-template.xlsx', rosterImportTemplate.headers, [rosterImportTemplate.example])}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Template
+        </Button>
+      </div>
+
+      {isReading && <p className="text-sm text-muted-foreground">Reading file…</p>}
+      {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="secondary">{newStudentIds.length} to enrol</Badge>
+            {enrolledCount > 0 && <Badge variant="outline">{enrolledCount} already in class</Badge>}
+            {invalidCount > 0 && <Badge variant="destructive">{invalidCount} not matched (skipped)</Badge>}
+          </div>
+          <div className="overflow-hidden rounded-xl border border-border">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="w-16 text-center">Row</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead className="w-[30%]">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.rowNumber}>
+                    <TableCell className="text-center text-xs text-muted-foreground">{result.rowNumber}</TableCell>
+                    <TableCell className="whitespace-normal break-words text-sm">{result.label}</TableCell>
+                    <TableCell className="whitespace-normal break-words text-sm">{result.student?.name ?? '—'}</TableCell>
+                    <TableCell className="whitespace-normal">
+                      {result.error ? (
+                        <span className="text-xs text-destructive">{result.error}</span>
+                      ) : result.alreadyEnrolled ? (
+                        <Badge variant="secondary">Already enrolled</Badge>
+                      ) : (
+                        <Badge variant="outline">Ready</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </FormModal>
+  )
+}
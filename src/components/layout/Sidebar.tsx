@@ -3,10 +3,12 @@ import { ChevronLeft, ChevronRight, GraduationCap } from 'lucide-react'
 import { navigationLinks } from '@/utils/constants'
 import { cn } from '@/utils/cn'
 import { useUI } from '@/context/UIContext'
+import { useAuth } from '@/context/AuthContext'
 import { Button } from '@/components/ui/button'
 
 export function Sidebar() {
   const { sidebarCollapsed, toggleSidebar } = useUI()
+  const { can } = useAuth()
 
   return (
     <aside
@@ -39,7 +41,7 @@ export function Sidebar() {
       </div>
 
       <nav className="flex-1 space-y-1 px-3">
-        {navigationLinks.map((item) => {
+        {navigationLinks.filter((item) => !item.permission || can(item.permission)).map((item) => {
           const Icon = item.icon
           return (
             <NavLink
@@ -19,6 +19,13 @@ export type DataTableColumn<T> = {
   render?: (item: T) => ReactNode
 }
 
+export type DataTableRowAction<T> = {
+  label: string
+  icon?: ReactNode
+  onSelect: (item: T) => void
+  hidden?: (item: T) => boolean
+}
+
 type DataTableProps<T> = {
   data: T[]
   columns: Array<DataTableColumn<T>>
@@ -27,10 +34,12 @@ type DataTableProps<T> = {
   onEdit?: (item: T) => void
   onDelete?: (item: T) => void
   onRowClick?: (item: T) => void
+  rowActions?: Array<DataTableRowAction<T>> // Extra menu items shown between Edit and Delete
   isLoading?: boolean
 }
 
-export function DataTable<T>({ data, columns, emptyMessage = 'No records found', caption, onEdit, onDelete, onRowClick, isLoading }: DataTableProps<T>) {
+export function DataTable<T>({ data, columns, emptyMessage = 'No records found', caption, onEdit, onDelete, onRowClick, rowActions = [], isLoading }: DataTableProps<T>) {
+  const hasActions = Boolean(onEdit || onDelete || rowActions.length > 0)
   return (
     <div className="overflow-hidden rounded-2xl border border-border bg-white shadow-sm">
       <Table>
@@ -46,13 +55,13 @@ export function DataTable<T>({ data, columns, emptyMessage = 'No records found',
                 {column.header}
               </TableHead>
             ))}
-            {(onEdit || onDelete) && <TableHead className="w-16 text-right">Actions</TableHead>}
+            {hasActions && <TableHead className="w-16 text-right">Actions</TableHead>}
           </TableRow>
         </TableHeader>
         <TableBody>
           {isLoading ? (
             <TableRow>
-              <TableCell colSpan={columns.length + (onEdit || onDelete ? 1 : 0)}>
+              <TableCell colSpan={columns.length + (hasActions ? 1 : 0)}>
                 <div className="flex h-24 items-center justify-center">
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <span className="h-3 w-3 rounded-full bg-primary/40" />
@@ -63,7 +72,7 @@ export function DataTable<T>({ data, columns, emptyMessage = 'No records found',
             </TableRow>
           ) : data.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={columns.length + (onEdit || onDelete ? 1 : 0)}>
+              <TableCell colSpan={columns.length + (hasActions ? 1 : 0)}>
                 <div className="flex h-24 items-center justify-center text-sm text-muted-foreground">{emptyMessage}</div>
               </TableCell>
             </TableRow>
@@ -91,7 +100,7 @@ export function DataTable<T>({ data, columns, emptyMessage = 'No records found',
                     </TableCell>
                   )
                 })}
-                {(onEdit || onDelete) && (
+                {hasActions && (
                   <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -106,6 +115,13 @@ export function DataTable<T>({ data, columns, emptyMessage = 'No records found',
                             <Pencil className="h-4 w-4" /> Edit
                           </DropdownMenuItem>
                         )}
+                        {rowActions
+                          .filter((action) => !action.hidden?.(item))
+                          .map((action) => (
+                            <DropdownMenuItem key={action.label} onClick={(e) => { e.stopPropagation(); action.onSelect(item); }} className="gap-2">
+                              {action.icon} {action.label}
+                            </DropdownMenuItem>
+                          ))}
                         {onDelete && (
                           <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onDelete(item); }} className="gap-2 text-destructive">
                             <Trash className="h-4 w-4" /> Delete
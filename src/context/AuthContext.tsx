@@ -1,11 +1,20 @@
-import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
 import type { User } from 'firebase/auth'
 import { login as firebaseLogin, logout as firebaseLogout, onAuthStateChangedListener, requestPasswordReset } from '@/services/firebase'
+import { resolveStaffMember } from '@/services/staffService'
+import { setGradeScope } from '@/services/gradeScope'
+import type { StaffMember, StaffRole } from '@/types/models'
+import { gradeScopeOf, hasPermission, type Permission } from '@/utils/permissions'
 
 type AuthContextValue = {
   user: User | null
+  staff: StaffMember | null
+  role: StaffRole | null
   isLoading: boolean
   isAuthenticated: boolean
+  can: (permission: Permission) => boolean
+  gradeScope: string[] | null // Grades the staff member is limited to; null means every grade
+  canAccessGrade: (gradeId: string | null | undefined) => boolean
   login: (email: string, password: string) => Promise<void>
   logout: () => Promise<void>
   resetPassword: (email: string) => Promise<void>
@@ -13,42 +22,90 @@ type AuthContextValue = {
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined)
 
+const NOT_AUTHORISED_MESSAGE = 'You are not authorised to access the Teacher Panel.'
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [staff, setStaff] = useState<StaffMember | null>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const allowedAdminEmail = import.meta.env.VITE_ALLOWED_ADMIN_EMAIL?.toLowerCase().trim() ?? ''
+  // The staff record is looked up once per sign-in, by the auth listener; login() waits for that lookup
+  const staffLookups = useRef(new Map<string, Promise<StaffMember | null>>())
+  const lookupWaiters = useRef(new Map<string, (lookup: Promise<StaffMember | null>) => void>())
+
+  const waitForStaffLookup = useCallback((uid: string) => {
+    const lookup = staffLookups.current.get(uid)
+    if (lookup) return lookup
+    return new Promise<StaffMember | null>((resolve) => lookupWaiters.current.set(uid, resolve))
+  }, [])
 
   useEffect(() => {
     const unsubscribe = onAuthStateChangedListener((firebaseUser) => {
-      if (firebaseUser && allowedAdminEmail && firebaseUser.email?.toLowerCase() !== allowedAdminEmail) {
-        void firebaseLogout()
+      if (!firebaseUser) {
+        staffLookups.current.clear()
         setUser(null)
+        setStaff(null)
         setIsLoading(false)
         return
       }
-      setUser(firebaseUser)
-      setIsLoading(false)
+      // Only users with an active staff record get into the panel
+      setIsLoading(true)
+      const lookup = resolveStaffMember(firebaseUser)
+      staffLookups.current.set(firebaseUser.uid, lookup)
+      lookupWaiters.current.get(firebaseUser.uid)?.(lookup)
+      lookupWaiters.current.delete(firebaseUser.uid)
+      lookup
+        .then((member) => {
+          if (!member) {
+            void firebaseLogout()
+            setUser(null)
+            setStaff(null)
+            return
+          }
+          // Services read the scope directly, so set it before anything re-renders with the new staff record
+          setGradeScope(gradeScopeOf(member))
+          setStaff(member)
+          setUser(firebaseUser)
+        })
+        .catch(() => {
+          void firebaseLogout()
+          setUser(null)
+          setStaff(null)
+        })
+        .finally(() => setIsLoading(false))
     })
     return () => unsubscribe()
-  }, [allowedAdminEmail])
+  }, [])
+
+  const role = staff?.role ?? null
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role])
+  const gradeScope = useMemo(() => gradeScopeOf(staff), [staff])
+  const canAccessGrade = useCallback(
+    (gradeId: string | null | undefined) => !gradeScope || Boolean(gradeId && gradeScope.includes(gradeId)),
+    [gradeScope],
+  )
 
   const value = useMemo<AuthContextValue>(
     () => ({
       user,
+      staff,
+      role,
       isLoading,
-      isAuthenticated: Boolean(user),
+      isAuthenticated: Boolean(user && staff),
+      can,
+      gradeScope,
+      canAccessGrade,
       async login(email, password) {
         setIsLoading(true)
         try {
           // Trim email and password to remove any leading/trailing whitespace
           const trimmedEmail = email.trim()
           const trimmedPassword = password.trim()
-          
+
           const authenticatedUser = await firebaseLogin(trimmedEmail, trimmedPassword)
-          if (allowedAdminEmail && authenticatedUser.email?.toLowerCase() !== allowedAdminEmail) {
-            await firebaseLogout()
-            setUser(null)
-            throw new Error('You are not authorised to access the Teacher Panel.')
+          // The auth listener signs out users without a staff record
+          const member = await waitForStaffLookup(authenticatedUser.uid).catch(() => null)
+          if (!member) {
+            throw new Error(NOT_AUTHORISED_MESSAGE)
           }
         } finally {
           setIsLoading(false)
@@ -56,7 +113,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       },
       async logout() {
         await firebaseLogout()
+        setGradeScope(null)
         setUser(null)
+        setStaff(null)
       },
       async resetPassword(email) {
         // Trim email to remove any leading/trailing whitespace
@@ -64,7 +123,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         await requestPasswordReset(trimmedEmail)
       },
     }),
-    [user, isLoading, allowedAdminEmail],
+    [user, staff, role, isLoading, can, gradeScope, canAccessGrade, waitForStaffLookup],
   )
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
@@ -77,5 +136,3 @@ export function useAuth() {
   }
   return context
 }
-
-
@@ -1,4 +1,5 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react'
+import { useAuth } from '@/context/AuthContext'
 import { gradeService } from '@/services/firebase'
 import { hierarchicalUnitService, hierarchicalLessonService, hierarchicalSectionService } from '@/services/hierarchicalServices'
 import { getQuizzesForSection } from '@/services/quizBuilderService'
@@ -21,7 +22,8 @@ type CurriculumCache = {
 const CurriculumCacheContext = createContext<CurriculumCache | undefined>(undefined)
 
 export function CurriculumCacheProvider({ children }: { children: ReactNode }) {
-  const { data: grades } = useCollection<Grade>(gradeService.listen)
+  const { gradeScope } = useAuth()
+  const { data: grades, refetch: refetchGrades } = useCollection<Grade>(gradeService.listen)
   const [allUnits, setAllUnits] = useState<Unit[]>([])
   const [allLessons, setAllLessons] = useState<Lesson[]>([])
   const [allSections, setAllSections] = useState<Section[]>([])
@@ -32,6 +34,11 @@ export function CurriculumCacheProvider({ children }: { children: ReactNode }) {
   const [sectionsCacheKey, setSectionsCacheKey] = useState(0)
   const [quizzesCacheKey, setQuizzesCacheKey] = useState(0)
 
+  // gradeService only returns the grades in the staff member's scope, so listen again once it changes
+  useEffect(() => {
+    refetchGrades()
+  }, [gradeScope, refetchGrades])
+
   // Load all units when grades change
   useEffect(() => {
     if (grades.length === 0) {
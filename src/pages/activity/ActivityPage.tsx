@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { addDays, parseISO } from 'date-fns'
+import type { DocumentData, DocumentSnapshot } from 'firebase/firestore'
+import { FileDiff } from 'lucide-react'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { FormModal } from '@/components/forms/FormModal'
+import { fetchAdminActionLogPage, staffService, type AdminActionLogFilters } from '@/services/firebase'
+import type { AdminActionLog, FieldChange, LoggedValue, StaffMember } from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { formatDateTime } from '@/utils/formatters'
+import {
+  activityActionOptions,
+  activityEntityLabel,
+  activityEntityOptions,
+  activityTargetPath,
+  describeActivity,
+} from '@/utils/activityLog'
+
+const ALL = 'all'
+
+const actionVariants: Record<AdminActionLog['action'], 'default' | 'secondary' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+}
+
+function formatLoggedValue(value: LoggedValue) {
+  if (value === null || value === '') return <span className="italic text-muted-foreground">empty</span>
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+function ChangeTable({ changes }: { changes: FieldChange[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-36">Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change) => (
+          <TableRow key={change.field}>
+            <TableCell className="align-top font-mono text-xs">{change.field}</TableCell>
+            <TableCell className="whitespace-normal break-words align-top text-sm text-destructive line-through decoration-destructive/40">
+              {formatLoggedValue(change.before)}
+            </TableCell>
+            <TableCell className="whitespace-normal break-words align-top text-sm text-emerald-700">
+              {formatLoggedValue(change.after)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function ActivityPage() {
+  const navigate = useNavigate()
+  const { setPageTitle, notifyError } = useUI()
+  const curriculum = useCurriculumCache()
+  const { data: staff } = useCollection<StaffMember>(staffService.listen)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [logs, setLogs] = useState<AdminActionLog[]>([])
+  const [cursor, setCursor] = useState<DocumentSnapshot<DocumentData, DocumentData> | null>(null)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [viewingLog, setViewingLog] = useState<AdminActionLog | null>(null)
+
+  const adminFilter = searchParams.get('admin') ?? ALL
+  const actionFilter = searchParams.get('action') ?? ALL
+  const entityFilter = searchParams.get('entity') ?? ALL
+  const entityIdFilter = searchParams.get('entityId') ?? ''
+  const fromFilter = searchParams.get('from') ?? ''
+  const toFilter = searchParams.get('to') ?? ''
+
+  useEffect(() => {
+    setPageTitle('Activity')
+  }, [setPageTitle])
+
+  const filters = useMemo<AdminActionLogFilters>(
+    () => ({
+      adminId: adminFilter === ALL ? undefined : adminFilter,
+      action: actionFilter === ALL ? undefined : (actionFilter as AdminActionLog['action']),
+      entity: entityFilter === ALL ? undefined : entityFilter,
+      entityId: entityIdFilter || undefined,
+      from: fromFilter ? parseISO(fromFilter) : undefined,
+      // The "to" day is included, so the range ends at the start of the next day
+      to: toFilter ? addDays(parseISO(toFilter), 1) : undefined,
+    }),
+    [adminFilter, actionFilter, entityFilter, entityIdFilter, fromFilter, toFilter],
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    fetchAdminActionLogPage(filters)
+      .then((page) => {
+        if (cancelled) return
+        setLogs(page.logs)
+        setCursor(page.cursor)
+        setHasMore(page.hasMore)
+      })
+      .catch((error) => {
+        if (!cancelled) notifyError('Unable to load activity', error instanceof Error ? error.message : undefined)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [filters, notifyError])
+
+  const handleLoadMore = useCallback(async () => {
+    try {
+      setIsLoadingMore(true)
+      const page = await fetchAdminActionLogPage(filters, cursor)
+      setLogs((prev) => [...prev, ...page.logs])
+      setCursor(page.cursor)
+      setHasMore(page.hasMore)
+    } catch (error) {
+      notifyError('Unable to load more activity', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [filters, cursor, notifyError])
+
+  const updateFilter = (key: string, value: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      if (!value || value === ALL) next.delete(key)
+      else next.set(key, value)
+      // Picking another entity type drops the single-item filter
+      if (key === 'entity') next.delete('entityId')
+      return next
+    })
+  }
+
+  // Staff who never signed in have no uid and no activity
+  const adminOptions = useMemo(
+    () =>
+      staff
+        .filter((member): member is StaffMember & { uid: string } => Boolean(member.uid))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [staff],
+  )
+  const adminNames = useMemo(() => new Map(adminOptions.map((member) => [member.uid, member.name])), [adminOptions])
+
+  const handleOpen = (log: AdminActionLog) => {
+    const target = activityTargetPath(log, curriculum)
+    if (!target) {
+      notifyError('Item not found', 'It may have been deleted or moved to the trash.')
+      return
+    }
+    navigate(target)
+  }
+
+  const columns: Array<DataTableColumn<AdminActionLog>> = [
+    {
+      key: 'timestamp',
+      header: 'When',
+      render: (row) => (
+        <span className="whitespace-nowrap text-sm text-muted-foreground">
+          {formatDateTime(row.timestamp ?? row.createdAt)}
+        </span>
+      ),
+    },
+    {
+      key: 'adminId',
+      header: 'Who',
+      render: (row) => (
+        <div>
+          <p className="text-sm font-medium text-foreground">{adminNames.get(row.adminId) ?? row.adminEmail ?? row.adminId}</p>
+          {adminNames.has(row.adminId) && row.adminEmail && (
+            <p className="text-xs text-muted-foreground">{row.adminEmail}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'action',
+      header: 'Action',
+      render: (row) => (
+        <Badge variant={actionVariants[row.action] ?? 'secondary'}>
+          {activityActionOptions.find((option) => option.value === row.action)?.label ?? row.action}
+        </Badge>
+      ),
+    },
+    {
+      key: 'entity',
+      header: 'Item',
+      render: (row) => (
+        <div>
+          <p className="text-sm font-medium text-foreground">{activityEntityLabel(row.entity)}</p>
+          <p className="font-mono text-xs text-muted-foreground">{row.entityId}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'metadata',
+      header: 'Details',
+      render: (row) => <span className="text-sm text-muted-foreground line-clamp-2">{describeActivity(row) || '—'}</span>,
+    },
+    {
+      key: 'changes',
+      header: 'Changes',
+      render: (row) =>
+        row.changes?.length ? (
+          <span className="text-sm text-muted-foreground">
+            {row.changes.length === 1 ? row.changes[0].field : `${row.changes.length} fields`}
+          </span>
+        ) : (
+          <span className="text-sm text-muted-foreground">—</span>
+        ),
+    },
+  ]
+
+  const hasFilters = [adminFilter, actionFilter, entityFilter].some((value) => value !== ALL) || Boolean(entityIdFilter || fromFilter || toFilter)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold text-foreground">Activity</h2>
+        <p className="text-sm text-muted-foreground">Every change made in the panel: who made it, when, and to what.</p>
+      </div>
+
+      <div className="flex flex-col gap-3 lg:flex-row lg:flex-wrap lg:items-end">
+        <Select value={adminFilter} onValueChange={(value) => updateFilter('admin', value)}>
+          <SelectTrigger className="w-full lg:w-52">
+            <SelectValue placeholder="Staff member" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All staff</SelectItem>
+            {adminOptions.map((member) => (
+              <SelectItem key={member.uid} value={member.uid}>
+                {member.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={actionFilter} onValueChange={(value) => updateFilter('action', value)}>
+          <SelectTrigger className="w-full lg:w-40">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {activityActionOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={entityFilter} onValueChange={(value) => updateFilter('entity', value)}>
+          <SelectTrigger className="w-full lg:w-44">
+            <SelectValue placeholder="Item type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All items</SelectItem>
+            {activityEntityOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          From
+          <Input
+            type="date"
+            className="w-full lg:w-40"
+            value={fromFilter}
+            max={toFilter || undefined}
+            onChange={(event) => updateFilter('from', event.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+          To
+          <Input
+            type="date"
+            className="w-full lg:w-40"
+            value={toFilter}
+            min={fromFilter || undefined}
+            onChange={(event) => updateFilter('to', event.target.value)}
+          />
+        </label>
+        {hasFilters && (
+          <Button variant="ghost" onClick={() => setSearchParams({})}>
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {entityIdFilter && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          Showing one {activityEntityLabel(entityFilter).toLowerCase()}:
+          <span className="font-mono text-foreground">{entityIdFilter}</span>
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => updateFilter('entityId', '')}>
+            Show all
+          </Button>
+        </div>
+      )}
+
+      <DataTable
+        data={logs}
+        columns={columns}
+        isLoading={isLoading}
+        emptyMessage={hasFilters ? 'No activity matches these filters.' : 'No activity recorded yet.'}
+        onRowClick={handleOpen}
+        rowActions={[
+          {
+            label: 'View changes',
+            icon: <FileDiff className="h-4 w-4" />,
+            onSelect: setViewingLog,
+            hidden: (log) => !log.changes?.length,
+          },
+        ]}
+      />
+
+      {hasMore && !isLoading && (
+        <div className="flex justify-center">
+          <Button variant="outline" className="rounded-full px-6" onClick={() => void handleLoadMore()} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Loading…' : 'Load more'}
+          </Button>
+        </div>
+      )}
+
+      <FormModal
+        open={Boolean(viewingLog)}
+        onClose={() => setViewingLog(null)}
+        title="Changes"
+        description={
+          viewingLog
+            ? `${activityEntityLabel(viewingLog.entity)} ${describeActivity(viewingLog) || viewingLog.entityId} · ${formatDateTime(viewingLog.timestamp ?? viewingLog.createdAt)}`
+            : undefined
+        }
+        onSubmit={() => {}}
+        hideSubmitButton
+        className="max-h-[90vh] overflow-y-auto sm:max-w-3xl"
+      >
+        {viewingLog?.changes?.length ? <ChangeTable changes={viewingLog.changes} /> : null}
+      </FormModal>
+    </div>
+  )
+}
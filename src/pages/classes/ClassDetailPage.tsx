@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Copy, RefreshCw, Upload, UserPlus } from 'lucide-react'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { FormModal } from '@/components/forms/FormModal'
+import { RosterImportModal } from '@/components/forms/RosterImportModal'
+import { classService, studentService } from '@/services/firebase'
+import { enrollStudents, regenerateJoinCode, unenrollStudent } from '@/services/classService'
+import type { Classroom, Student } from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { formatDateTime } from '@/utils/formatters'
+
+export function ClassDetailPage() {
+  const { classId } = useParams()
+  const navigate = useNavigate()
+  const { user, can } = useAuth()
+  const canManage = can('classes.manage')
+  const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
+  const { grades } = useCurriculumCache()
+  const { data: classes, isLoading: classesLoading } = useCollection<Classroom>(classService.listen)
+  const { data: students, isLoading: studentsLoading } = useCollection<Student>(studentService.listen)
+  const [isAddOpen, setIsAddOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isEnrolling, setIsEnrolling] = useState(false)
+  const [search, setSearch] = useState('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const classroom = useMemo(() => classes.find((item) => item.id === classId) ?? null, [classes, classId])
+  const gradeName = grades.find((grade) => grade.id === classroom?.gradeId)?.name
+
+  useEffect(() => {
+    setPageTitle(classroom?.name ?? 'Class')
+  }, [setPageTitle, classroom?.name])
+
+  useEffect(() => {
+    if (isAddOpen) {
+      setSearch('')
+      setSelectedIds([])
+    }
+  }, [isAddOpen])
+
+  const roster = useMemo(() => {
+    const enrolled = new Set(classroom?.studentIds ?? [])
+    return students.filter((student) => enrolled.has(student.id)).sort((a, b) => a.name.localeCompare(b.name))
+  }, [students, classroom?.studentIds])
+
+  // Students of the class grade first, then everyone else
+  const candidates = useMemo(() => {
+    const enrolled = new Set(classroom?.studentIds ?? [])
+    const term = search.trim().toLowerCase()
+    return students
+      .filter((student) => !enrolled.has(student.id))
+      .filter(
+        (student) =>
+          !term || student.name?.toLowerCase().includes(term) || student.email?.toLowerCase().includes(term),
+      )
+      .sort(
+        (a, b) =>
+          Number(b.gradeId === classroom?.gradeId) - Number(a.gradeId === classroom?.gradeId) ||
+          a.name.localeCompare(b.name),
+      )
+  }, [students, classroom?.studentIds, classroom?.gradeId, search])
+
+  const handleEnroll = async (studentIds: string[]) => {
+    if (!classroom) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      setIsEnrolling(true)
+      const count = await enrollStudents(classroom, studentIds, user.uid)
+      notifySuccess(`${count} student${count === 1 ? '' : 's'} enrolled`)
+      setIsAddOpen(false)
+      setIsImportOpen(false)
+    } catch (error) {
+      notifyError('Unable to enrol students', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsEnrolling(false)
+    }
+  }
+
+  const handleUnenroll = async (student: Student) => {
+    if (!classroom) return
+    const confirmed = await confirmAction({
+      title: 'Remove from class?',
+      description: `${student.name} will be removed from ${classroom.name}. Their progress is kept.`,
+      confirmLabel: 'Remove',
+      danger: true,
+    })
+    if (!confirmed) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      await unenrollStudent(classroom, student.id, user.uid)
+      notifySuccess('Student removed from class')
+    } catch (error) {
+      notifyError('Unable to remove student', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const handleRegenerateCode = async () => {
+    if (!classroom) return
+    const confirmed = await confirmAction({
+      title: 'Generate a new join code?',
+      description: `The current code ${classroom.joinCode} will stop working. Students already in the class stay enrolled.`,
+      confirmLabel: 'Generate',
+    })
+    if (!confirmed) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      const joinCode = await regenerateJoinCode(classroom, user.uid)
+      notifySuccess('Join code updated', joinCode)
+    } catch (error) {
+      notifyError('Unable to update join code', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const handleCopyCode = async () => {
+    if (!classroom) return
+    try {
+      await navigator.clipboard.writeText(classroom.joinCode)
+      notifySuccess('Join code copied')
+    } catch {
+      notifyError('Unable to copy join code')
+    }
+  }
+
+  const columns: Array<DataTableColumn<Student>> = [
+    {
+      key: 'name',
+      header: 'Name',
+      render: (row) => <p className="font-semibold text-foreground">{row.name}</p>,
+    },
+    {
+      key: 'email',
+      header: 'Email',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.email || '—'}</span>,
+    },
+    {
+      key: 'createdAt',
+      header: 'Enrolled',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">{row.createdAt ? formatDateTime(row.createdAt) : '—'}</span>
+      ),
+    },
+  ]
+
+  if (!classesLoading && !classroom) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">This class does not exist or was deleted.</p>
+        <Button variant="outline" onClick={() => navigate('/classes')}>
+          Back to classes
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3">
+        <Button variant="ghost" size="sm" className="w-fit gap-2 px-2" asChild>
+          <Link to="/classes">
+            <ArrowLeft className="h-4 w-4" />
+            All classes
+          </Link>
+        </Button>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground">{classroom?.name ?? 'Loading…'}</h2>
+            <p className="text-sm text-muted-foreground">
+              {gradeName ?? '—'} · {classroom?.teacherName ?? '—'}
+            </p>
+          </div>
+          {canManage && (
+            <div className="flex gap-2">
+              <Button variant="outline" className="rounded-full px-6" onClick={() => setIsImportOpen(true)} disabled={!classroom}>
+                <Upload className="mr-2 h-4 w-4" />
+                Enrol from CSV
+              </Button>
+              <Button className="rounded-full px-6" onClick={() => setIsAddOpen(true)} disabled={!classroom}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Add Students
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="text-xl font-semibold">Join Code</CardTitle>
+            <CardDescription>
+              {classroom?.joinCodeEnabled
+                ? 'Students can join this class from the app with this code.'
+                : 'Joining with a code is turned off. Edit the class to turn it on.'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="rounded-lg bg-muted px-4 py-2 font-mono text-2xl font-semibold tracking-[0.3em]">
+              {classroom?.joinCode ?? '——————'}
+            </span>
+            {!classroom?.joinCodeEnabled && <Badge variant="secondary">Disabled</Badge>}
+            <Button variant="ghost" size="icon" onClick={handleCopyCode} disabled={!classroom} title="Copy code">
+              <Copy className="h-4 w-4" />
+            </Button>
+            {canManage && (
+              <Button variant="ghost" size="icon" onClick={handleRegenerateCode} disabled={!classroom} title="Generate new code">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Roster</CardTitle>
+          <CardDescription>{roster.length} students enrolled.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={roster}
+            columns={columns}
+            isLoading={classesLoading || studentsLoading}
+            emptyMessage="No students in this class yet. Add students or share the join code."
+            onRowClick={(student) => navigate(`/students/${student.id}`)}
+            onDelete={canManage ? handleUnenroll : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <FormModal
+        open={isAddOpen}
+        onClose={() => setIsAddOpen(false)}
+        title="Add Students"
+        description={`Select students to enrol in ${classroom?.name ?? 'this class'}.`}
+        onSubmit={() => void handleEnroll(selectedIds)}
+        submitLabel={`Enrol ${selectedIds.length} student${selectedIds.length === 1 ? '' : 's'}`}
+        submitDisabled={selectedIds.length === 0}
+        isSubmitting={isEnrolling}
+        className="max-h-[90vh] overflow-y-auto sm:max-w-xl"
+      >
+        <Input placeholder="Search by name or email" value={search} onChange={(event) => setSearch(event.target.value)} />
+        <div className="max-h-80 space-y-1 overflow-y-auto rounded-xl border border-border p-2">
+          {candidates.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No students to add.</p>
+          ) : (
+            candidates.map((student) => (
+              <label
+                key={student.id}
+                className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-2 hover:bg-muted/50"
+              >
+                <Checkbox
+                  checked={selectedIds.includes(student.id)}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds((prev) =>
+                      checked ? [...prev, student.id] : prev.filter((id) => id !== student.id),
+                    )
+                  }
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-foreground">{student.name}</p>
+                  <p className="truncate text-xs text-muted-foreground">{student.email || student.id}</p>
+                </div>
+                {student.gradeId === classroom?.gradeId && <Badge variant="outline">Same grade</Badge>}
+              </label>
+            ))
+          )}
+        </div>
+      </FormModal>
+
+      {classroom && (
+        <RosterImportModal
+          open={isImportOpen}
+          classroom={classroom}
+          students={students}
+          onClose={() => setIsImportOpen(false)}
+          onImport={handleEnroll}
+          isImporting={isEnrolling}
+        />
+      )}
+    </div>
+  )
+}
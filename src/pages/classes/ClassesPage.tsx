@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { FormModal } from '@/components/forms/FormModal'
+import { classService } from '@/services/firebase'
+import { createClass, deleteClass } from '@/services/classService'
+import type { Classroom } from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { classSchema, type ClassFormValues } from '@/utils/schemas'
+
+type ClassTableRow = Classroom & { gradeName: string; studentCount: number }
+
+const DEFAULT_VALUES: ClassFormValues = {
+  name: '',
+  gradeId: '',
+  teacherName: '',
+  description: '',
+  joinCodeEnabled: true,
+}
+
+export function ClassesPage() {
+  const navigate = useNavigate()
+  const { user, can } = useAuth()
+  const canManage = can('classes.manage')
+  const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
+  const { grades } = useCurriculumCache()
+  const { data: classes, isLoading } = useCollection<Classroom>(classService.listen)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingClass, setEditingClass] = useState<Classroom | null>(null)
+  const [showMineOnly, setShowMineOnly] = useState(false)
+
+  const form = useForm<ClassFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(classSchema) as any,
+    defaultValues: DEFAULT_VALUES,
+  })
+
+  useEffect(() => {
+    setPageTitle('Classes')
+  }, [setPageTitle])
+
+  useEffect(() => {
+    if (editingClass) {
+      form.reset({
+        id: editingClass.id,
+        name: editingClass.name,
+        gradeId: editingClass.gradeId,
+        teacherName: editingClass.teacherName,
+        description: editingClass.description ?? '',
+        joinCodeEnabled: editingClass.joinCodeEnabled ?? true,
+      })
+    } else {
+      form.reset({ ...DEFAULT_VALUES, teacherName: user?.displayName ?? user?.email ?? '' })
+    }
+  }, [editingClass, form, user])
+
+  const rows = useMemo<ClassTableRow[]>(() => {
+    const gradeMap = new Map(grades.map((grade) => [grade.id, grade.name]))
+    return classes
+      .filter((classroom) => !showMineOnly || classroom.teacherId === user?.uid)
+      .map((classroom) => ({
+        ...classroom,
+        gradeName: gradeMap.get(classroom.gradeId) ?? '—',
+        studentCount: classroom.studentIds?.length ?? 0,
+      }))
+      .sort((a, b) => a.gradeName.localeCompare(b.gradeName) || a.name.localeCompare(b.name))
+  }, [classes, grades, showMineOnly, user?.uid])
+
+  const handleOpenNew = () => {
+    setEditingClass(null)
+    setIsModalOpen(true)
+  }
+
+  const handleEdit = (classroom: Classroom) => {
+    setEditingClass(classroom)
+    setIsModalOpen(true)
+  }
+
+  const handleDelete = async (classroom: Classroom) => {
+    const confirmed = await confirmAction({
+      title: 'Delete class?',
+      description: `"${classroom.name}" will be deleted and its ${classroom.studentIds?.length ?? 0} students unenrolled. Student accounts and progress are kept.`,
+      confirmLabel: 'Delete',
+      danger: true,
+    })
+    if (!confirmed) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      await deleteClass(classroom, user.uid)
+      notifySuccess('Class deleted')
+    } catch (error) {
+      notifyError('Unable to delete class', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const onSubmit = form.handleSubmit(async (values) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      const payload = {
+        name: values.name.trim(),
+        gradeId: values.gradeId,
+        teacherName: values.teacherName.trim(),
+        description: values.description?.trim() || '',
+        joinCodeEnabled: values.joinCodeEnabled,
+      }
+      if (editingClass) {
+        await classService.update(editingClass.id, payload, user.uid, { name: payload.name })
+        notifySuccess('Class updated')
+      } else {
+        const joinCode = await createClass(
+          {
+            ...payload,
+            teacherId: user.uid,
+            studentIds: [],
+            status: 'active',
+          },
+          user.uid,
+        )
+        notifySuccess('Class created', `Join code: ${joinCode}`)
+      }
+      setIsModalOpen(false)
+    } catch (error) {
+      notifyError('Unable to save class', error instanceof Error ? error.message : undefined)
+    }
+  })
+
+  const columns: Array<DataTableColumn<ClassTableRow>> = [
+    {
+      key: 'name',
+      header: 'Class',
+      render: (row) => (
+        <div>
+          <p className="font-semibold text-foreground">{row.name}</p>
+          {row.description && <p className="text-xs text-muted-foreground line-clamp-1">{row.description}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'gradeName',
+      header: 'Grade',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.gradeName}</span>,
+    },
+    {
+      key: 'teacherName',
+      header: 'Teacher',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.teacherName}</span>,
+    },
+    {
+      key: 'studentCount',
+      header: 'Students',
+      align: 'center',
+      render: (row) => <span className="font-semibold text-foreground">{row.studentCount}</span>,
+    },
+    {
+      key: 'joinCode',
+      header: 'Join code',
+      render: (row) =>
+        row.joinCodeEnabled ? (
+          <span className="font-mono text-sm tracking-widest">{row.joinCode}</span>
+        ) : (
+          <Badge variant="secondary">Disabled</Badge>
+        ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">Classes</h2>
+          <p className="text-sm text-muted-foreground">Group students into classes with their own teacher, roster and join code.</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Switch checked={showMineOnly} onCheckedChange={setShowMineOnly} />
+            My classes only
+          </label>
+          {canManage && (
+            <Button onClick={handleOpenNew} className="rounded-full px-6">
+              Add Class
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <DataTable
+        data={rows}
+        columns={columns}
+        isLoading={isLoading}
+        emptyMessage="No classes yet. Create a class to start building a roster."
+        onEdit={canManage ? handleEdit : undefined}
+        onDelete={canManage ? handleDelete : undefined}
+        onRowClick={(classroom) => navigate(`/classes/${classroom.id}`)}
+      />
+
+      <FormModal
+        open={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={editingClass ? 'Edit Class' : 'Add Class'}
+        description="Classes group students of one grade under a teacher."
+        onSubmit={onSubmit}
+        submitLabel={editingClass ? 'Update Class' : 'Create Class'}
+        isSubmitting={form.formState.isSubmitting}
+      >
+        <Form {...form}>
+          <form className="space-y-4">
+            <FormField
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Class Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., 5A" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="gradeId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Grade</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || ''}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select grade" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {grades.map((grade) => (
+                        <SelectItem key={grade.id} value={grade.id}>
+                          {grade.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="teacherName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Teacher</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Ms. Huda" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Optional notes about the class" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="joinCodeEnabled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border border-border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Allow joining with a code</FormLabel>
+                    <p className="text-xs text-muted-foreground">Students can join from the app by entering the class code.</p>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          </form>
+        </Form>
+      </FormModal>
+    </div>
+  )
+}
@@ -0,0 +1,913 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { format, formatDistanceToNow } from 'date-fns'
+import { CheckCircle2, Radio, RefreshCw, Trophy, UserX, XCircle } from 'lucide-react'
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { FormModal } from '@/components/forms/FormModal'
+import { CompetitionEventModal } from '@/components/forms/CompetitionEventModal'
+import { where } from 'firebase/firestore'
+import { competitionFlagService, competitionRatingSummaryService, competitionTournamentService } from '@/services/firebase'
+import {
+  closeCompetitionRooms,
+  createCompetitionTournament,
+  createLiveQuiz,
+  fetchCompetitionActivity,
+  fetchRatingLeaderboard,
+  isRoomStuck,
+  removeCompetitionPlayer,
+  resetCompetitionLeaderboard,
+  reviewCompetitionFlag,
+  type CompetitionActivity,
+  type LeaderboardEntry,
+} from '@/services/competitionService'
+import { RATING_BAND_SIZE, type LeaderboardPeriod } from '@shared/competitionRatings'
+import type {
+  CompetitionFlag,
+  CompetitionFlagStatus,
+  CompetitionFlagType,
+  CompetitionMatchStatus,
+  CompetitionMatchSummary,
+  CompetitionMode,
+  CompetitionParticipant,
+  CompetitionRatingSummary,
+  CompetitionRoomSummary,
+  CompetitionTournament,
+} from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { formatDateTime } from '@/utils/formatters'
+import { cn } from '@/utils/cn'
+import type { CompetitionEventFormValues } from '@/utils/schemas'
+
+// Rooms and matches are not pushed to the panel, so the page asks again while it is open
+const REFRESH_INTERVAL_MS = 15 * 1000
+
+const matchStatusLabels: Record<CompetitionMatchStatus, string> = {
+  live: 'Live',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+}
+
+const matchStatusVariants: Record<CompetitionMatchStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  live: 'default',
+  completed: 'secondary',
+  cancelled: 'outline',
+}
+
+const modeLabels: Record<CompetitionMode, string> = {
+  public: 'Public',
+  invite: 'Invite',
+  live: 'Live quiz',
+  tournament: 'Tournament',
+}
+
+const flagTypeLabels: Record<CompetitionFlagType, string> = {
+  late: 'Late',
+  timing: 'Timing',
+  speed: 'Too fast',
+  identical_answers: 'Same answers',
+}
+
+const flagStatusLabels: Record<CompetitionFlagStatus, string> = {
+  open: 'Open',
+  dismissed: 'Dismissed',
+  actioned: 'Actioned',
+}
+
+const periodLabels: Record<LeaderboardPeriod, string> = {
+  'all-time': 'All-time',
+  weekly: 'This week',
+  monthly: 'This month',
+}
+
+type LeaderboardEntryRow = LeaderboardEntry & { rank: number }
+
+function formatMillis(value: number | null) {
+  return value ? format(new Date(value), 'PPp') : '—'
+}
+
+function formatAge(value: number | null) {
+  return value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : '—'
+}
+
+function participantNames(participants: CompetitionParticipant[]) {
+  // Whole classes play live quizzes, so long lists are counted rather than named
+  if (participants.length > 4) return `${participants.length} players`
+  return participants.map((participant) => participant.userName).join(' vs ') || '—'
+}
+
+function modeLabel(mode: CompetitionMode | null, maxCapacity?: number) {
+  const label = modeLabels[mode ?? 'public'] ?? mode
+  return maxCapacity && maxCapacity > 2 && (mode === 'public' || mode === 'invite') ? `${label} · ${maxCapacity} players` : label
+}
+
+export function CompetitionsPage() {
+  const navigate = useNavigate()
+  const { user, can } = useAuth()
+  const { setPageTitle, notifySuccess, notifyError, confirmAction } = useUI()
+  const { allSections } = useCurriculumCache()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [activity, setActivity] = useState<CompetitionActivity>({ rooms: [], matches: [] })
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [viewingMatch, setViewingMatch] = useState<CompetitionMatchSummary | null>(null)
+  const [eventKind, setEventKind] = useState<CompetitionEventFormValues['kind'] | null>(null)
+  const [isCreatingEvent, setIsCreatingEvent] = useState(false)
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([])
+  const [leaderboardLoading, setLeaderboardLoading] = useState(false)
+  const { data: ratingSummaries, isLoading: summariesLoading } = useCollection<CompetitionRatingSummary>(
+    competitionRatingSummaryService.listen,
+  )
+  const { data: tournaments, isLoading: tournamentsLoading } = useCollection<CompetitionTournament>(
+    competitionTournamentService.listen,
+  )
+  const showAllFlags = searchParams.get('flags') === 'all'
+  // Filtering on status next to the grade scope needs a composite index on gradeId and status
+  const flagConstraints = useMemo(() => (showAllFlags ? undefined : [where('status', '==', 'open')]), [showAllFlags])
+  const { data: flags, isLoading: flagsLoading } = useCollection<CompetitionFlag>(competitionFlagService.listen, flagConstraints)
+
+  const canManage = can('competitions.manage')
+
+  useEffect(() => {
+    setPageTitle('Competitions')
+  }, [setPageTitle])
+
+  const loadActivity = useCallback(async (showErrors: boolean) => {
+    try {
+      setIsRefreshing(true)
+      const next = await fetchCompetitionActivity()
+      setActivity(next)
+      setViewingMatch((current) => (current ? next.matches.find((match) => match.matchId === current.matchId) ?? current : null))
+    } catch (error) {
+      if (showErrors) notifyError('Unable to load competitions', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsRefreshing(false)
+      setIsLoading(false)
+    }
+  }, [notifyError])
+
+  useEffect(() => {
+    void loadActivity(true)
+    const interval = window.setInterval(() => void loadActivity(false), REFRESH_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [loadActivity])
+
+  const sectionMap = useMemo(() => new Map(allSections.map((section) => [section.id, section.title])), [allSections])
+  const sectionLabel = useCallback((sectionId: string) => sectionMap.get(sectionId) ?? sectionId, [sectionMap])
+
+  const matchesById = useMemo(() => new Map(activity.matches.map((match) => [match.matchId, match])), [activity.matches])
+
+  // Rooms of finished matches stay "ready" in the database; only rooms still in play are listed
+  const liveRooms = useMemo(
+    () =>
+      activity.rooms
+        .filter((room) => room.status === 'waiting' || (room.matchId && matchesById.get(room.matchId)?.status !== 'completed'))
+        .sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0)),
+    [activity.rooms, matchesById],
+  )
+  const stuckRoomIds = useMemo(
+    () => liveRooms.filter((room) => isRoomStuck(room, matchesById)).map((room) => room.roomId),
+    [liveRooms, matchesById],
+  )
+  const matches = useMemo(
+    () => [...activity.matches].sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0)),
+    [activity.matches],
+  )
+  const sortedFlags = useMemo(
+    () => [...flags].sort((a, b) => (b.flaggedAt?.toMillis() ?? 0) - (a.flaggedAt?.toMillis() ?? 0)),
+    [flags],
+  )
+  const sortedTournaments = useMemo(
+    () =>
+      [...tournaments].sort(
+        (a, b) => Number(a.status === 'completed') - Number(b.status === 'completed') || a.title.localeCompare(b.title),
+      ),
+    [tournaments],
+  )
+
+  // The curriculum cache only holds the staff member's grades, so this also applies their grade scope
+  const scopedSummaries = useMemo(
+    () =>
+      ratingSummaries
+        .filter((summary) => sectionMap.has(summary.sectionId ?? summary.id))
+        .sort((a, b) => sectionLabel(a.sectionId ?? a.id).localeCompare(sectionLabel(b.sectionId ?? b.id))),
+    [ratingSummaries, sectionMap, sectionLabel],
+  )
+  const selectedSectionId = searchParams.get('section') ?? scopedSummaries[0]?.id ?? ''
+  const selectedSummary = scopedSummaries.find((summary) => summary.id === selectedSectionId) ?? null
+  const periodParam = searchParams.get('period')
+  const selectedPeriod: LeaderboardPeriod = periodParam === 'weekly' || periodParam === 'monthly' ? periodParam : 'all-time'
+
+  const loadLeaderboard = useCallback(async () => {
+    if (!selectedSectionId) {
+      setLeaderboard([])
+      return
+    }
+    try {
+      setLeaderboardLoading(true)
+      setLeaderboard(await fetchRatingLeaderboard(selectedSectionId, selectedPeriod))
+    } catch (error) {
+      notifyError('Unable to load leaderboard', error instanceof Error ? error.message : undefined)
+    } finally {
+      setLeaderboardLoading(false)
+    }
+  }, [selectedSectionId, selectedPeriod, notifyError])
+
+  useEffect(() => {
+    void loadLeaderboard()
+  }, [loadLeaderboard])
+
+  // Players with equal ratings, or equal gains over the period, share a place
+  const leaderboardRows = useMemo<LeaderboardEntryRow[]>(() => {
+    const scoreOf = (entry: LeaderboardEntry) => (selectedPeriod === 'all-time' ? entry.rating : (entry.ratingChange ?? 0))
+    return leaderboard.map((entry) => ({
+      ...entry,
+      rank: leaderboard.findIndex((other) => scoreOf(other) === scoreOf(entry)) + 1,
+    }))
+  }, [leaderboard, selectedPeriod])
+
+  const ratingDistribution = useMemo(
+    () =>
+      Object.entries(selectedSummary?.bands ?? {})
+        .map(([band, players]) => ({ band: Number(band), players }))
+        .filter((entry) => entry.players > 0)
+        .sort((a, b) => a.band - b.band)
+        .map((entry) => ({ ...entry, label: `${entry.band}–${entry.band + RATING_BAND_SIZE - 1}` })),
+    [selectedSummary],
+  )
+
+  const updateSearchParam = (key: 'section' | 'period' | 'flags', value: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      next.set(key, value)
+      return next
+    })
+  }
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      setIsWorking(true)
+      await action()
+      await loadActivity(false)
+    } catch (error) {
+      notifyError(failureTitle, error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCloseRooms = async (roomIds: string[]) => {
+    const confirmed = await confirmAction({
+      title: roomIds.length === 1 ? 'Close room?' : `Close ${roomIds.length} stuck rooms?`,
+      description: 'Players still waiting are sent back to the lobby, and a live match in the room is cancelled.',
+      confirmLabel: 'Close',
+      danger: true,
+    })
+    if (!confirmed) return
+    await runAction(async () => {
+      const closed = await closeCompetitionRooms(roomIds)
+      notifySuccess(closed === 1 ? 'Room closed' : `${closed} rooms closed`)
+    }, 'Unable to close rooms')
+  }
+
+  const handleRemovePlayer = async (sectionId: string, participant: Pick<CompetitionParticipant, 'userId' | 'userName'>, matchId?: string) => {
+    const confirmed = await confirmAction({
+      title: `Remove ${participant.userName}?`,
+      description: matchId
+        ? 'The player’s rating on this section is deleted and they are marked as removed in the match. A live match is cancelled.'
+        : 'The player’s rating on this section is deleted, with their weekly and monthly entries. They start again from the default rating in new matches.',
+      confirmLabel: 'Remove player',
+      danger: true,
+    })
+    if (!confirmed) return
+    await runAction(async () => {
+      await removeCompetitionPlayer({ sectionId, userId: participant.userId, ...(matchId ? { matchId } : {}) })
+      notifySuccess('Player removed')
+      if (sectionId === selectedSectionId) await loadLeaderboard()
+    }, 'Unable to remove player')
+  }
+
+  const handleRemoveFlaggedPlayer = async (flag: CompetitionFlag) => {
+    const confirmed = await confirmAction({
+      title: `Remove ${flag.userName}?`,
+      description:
+        'The player’s rating on this section is deleted and they are marked as removed in the match. A live match is cancelled. The flag is closed as actioned.',
+      confirmLabel: 'Remove player',
+      danger: true,
+    })
+    if (!confirmed) return
+    await runAction(async () => {
+      await removeCompetitionPlayer({
+        sectionId: flag.sectionId,
+        userId: flag.userId,
+        matchId: flag.matchId,
+        reason: flag.reasons.map((reason) => reason.detail).join('; '),
+      })
+      await reviewCompetitionFlag({ flagId: flag.id, status: 'actioned' })
+      notifySuccess('Player removed')
+      if (flag.sectionId === selectedSectionId) await loadLeaderboard()
+    }, 'Unable to remove player')
+  }
+
+  const handleDismissFlag = async (flag: CompetitionFlag) => {
+    await runAction(async () => {
+      await reviewCompetitionFlag({ flagId: flag.id, status: 'dismissed' })
+      notifySuccess('Flag dismissed')
+    }, 'Unable to dismiss flag')
+  }
+
+  const handleResetLeaderboard = async () => {
+    if (!selectedSummary) return
+    const confirmed = await confirmAction({
+      title: `Reset the ${sectionLabel(selectedSummary.sectionId ?? selectedSummary.id)} leaderboard?`,
+      description: `The ratings of all ${selectedSummary.players} players are deleted, with the weekly and monthly leaderboards. Ratings cannot be restored.`,
+      confirmLabel: 'Reset leaderboard',
+      danger: true,
+    })
+    if (!confirmed) return
+    await runAction(async () => {
+      await resetCompetitionLeaderboard(selectedSummary.id)
+      notifySuccess('Leaderboard reset')
+      await loadLeaderboard()
+    }, 'Unable to reset leaderboard')
+  }
+
+  const handleCreateEvent = async (values: CompetitionEventFormValues) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    const section = allSections.find((entry) => entry.id === values.sectionId)
+    if (!section) return
+    try {
+      setIsCreatingEvent(true)
+      if (values.kind === 'live') {
+        const { roomId, joinCode } = await createLiveQuiz({ section, classId: values.classId, title: values.title })
+        notifySuccess('Lobby open', `Students join with code ${joinCode}.`)
+        navigate(`/competitions/live/${roomId}`)
+      } else {
+        const tournamentId = await createCompetitionTournament({ title: values.title, section, classId: values.classId })
+        notifySuccess('Tournament created', 'Round one has started in the app.')
+        navigate(`/competitions/tournaments/${tournamentId}`)
+      }
+      setEventKind(null)
+    } catch (error) {
+      notifyError(
+        values.kind === 'live' ? 'Unable to open live quiz' : 'Unable to create tournament',
+        error instanceof Error ? error.message : undefined,
+      )
+    } finally {
+      setIsCreatingEvent(false)
+    }
+  }
+
+  const openRoom = (room: CompetitionRoomSummary) => {
+    if (room.matchType === 'live') navigate(`/competitions/live/${room.roomId}`)
+    else if (room.tournamentId) navigate(`/competitions/tournaments/${room.tournamentId}`)
+  }
+
+  const roomColumns: Array<DataTableColumn<CompetitionRoomSummary>> = [
+    {
+      key: 'createdAt',
+      header: 'Opened',
+      render: (row) => <span className="whitespace-nowrap text-sm text-muted-foreground">{formatAge(row.createdAt)}</span>,
+    },
+    {
+      key: 'sectionId',
+      header: 'Section',
+      render: (row) => <p className="text-sm font-medium text-foreground">{sectionLabel(row.sectionId)}</p>,
+    },
+    {
+      key: 'matchType',
+      header: 'Type',
+      render: (row) => <span className="text-sm">{modeLabel(row.matchType, row.maxCapacity)}</span>,
+    },
+    {
+      key: 'participants',
+      header: 'Players',
+      render: (row) => <span className="text-sm">{participantNames(row.participants)}</span>,
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (row) =>
+        isRoomStuck(row, matchesById) ? (
+          <Badge variant="destructive">Stuck</Badge>
+        ) : (
+          <Badge variant={row.status === 'waiting' ? 'outline' : 'default'}>
+            {row.status !== 'waiting' ? 'Playing' : row.matchType === 'live' ? `Lobby open · ${row.joinCode}` : 'Waiting for players'}
+          </Badge>
+        ),
+    },
+  ]
+
+  const matchColumns: Array<DataTableColumn<CompetitionMatchSummary>> = [
+    {
+      key: 'createdAt',
+      header: 'Started',
+      render: (row) => <span className="whitespace-nowrap text-sm text-muted-foreground">{formatMillis(row.createdAt)}</span>,
+    },
+    {
+      key: 'sectionId',
+      header: 'Section',
+      render: (row) => <p className="text-sm font-medium text-foreground">{sectionLabel(row.sectionId)}</p>,
+    },
+    {
+      key: 'mode',
+      header: 'Type',
+      render: (row) => <span className="text-sm">{modeLabel(row.mode)}</span>,
+    },
+    {
+      key: 'participants',
+      header: 'Players',
+      render: (row) => (
+        <span className="text-sm">
+          {row.participants.length > 4
+            ? participantNames(row.participants)
+            : row.participants
+                .map((participant) =>
+                  typeof participant.totalPoints === 'number' ? `${participant.userName} (${participant.totalPoints})` : participant.userName,
+                )
+                .join(' vs ')}
+        </span>
+      ),
+    },
+    {
+      key: 'winnerId',
+      header: 'Result',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">
+          {row.status !== 'completed'
+            ? '—'
+            : row.isTie
+              ? 'Tie'
+              : `${row.participants.find((participant) => participant.userId === row.winnerId)?.userName ?? 'Unknown'} won`}
+        </span>
+      ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (row) => <Badge variant={matchStatusVariants[row.status] ?? 'outline'}>{matchStatusLabels[row.status] ?? row.status}</Badge>,
+    },
+  ]
+
+  const tournamentColumns: Array<DataTableColumn<CompetitionTournament>> = [
+    {
+      key: 'title',
+      header: 'Tournament',
+      render: (row) => (
+        <div>
+          <p className="text-sm font-medium text-foreground">{row.title}</p>
+          <p className="text-xs text-muted-foreground">{row.className}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'sectionId',
+      header: 'Section',
+      render: (row) => <span className="text-sm">{sectionLabel(row.sectionId)}</span>,
+    },
+    {
+      key: 'players',
+      header: 'Players',
+      align: 'right',
+      render: (row) => <span className="text-sm">{row.players.length}</span>,
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (row) => {
+        if (row.status === 'completed') {
+          const champion = row.players.find((player) => player.userId === row.championId)
+          return <Badge variant="secondary">{champion ? `${champion.userName} won` : 'Finished'}</Badge>
+        }
+        const round = row.rounds.find((entry) => entry.matches.some((match) => match.status === 'live' || match.status === 'pending'))
+        return <Badge>{round ? round.name : 'In progress'}</Badge>
+      },
+    },
+  ]
+
+  const flagColumns: Array<DataTableColumn<CompetitionFlag>> = [
+    {
+      key: 'flaggedAt',
+      header: 'Flagged',
+      render: (row) => (
+        <span className="whitespace-nowrap text-sm text-muted-foreground">{row.flaggedAt ? formatDateTime(row.flaggedAt) : '—'}</span>
+      ),
+    },
+    {
+      key: 'userName',
+      header: 'Student',
+      render: (row) => (
+        <div>
+          <p className="text-sm font-medium text-foreground">{row.userName}</p>
+          <p className="text-xs text-muted-foreground">
+            {sectionLabel(row.sectionId)} · {modeLabel(row.mode)}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'reasons',
+      header: 'Reasons',
+      render: (row) => (
+        <div className="space-y-1">
+          {row.reasons.map((reason, index) => (
+            <p key={index} className="text-sm">
+              <Badge variant="outline" className="mr-2">
+                {flagTypeLabels[reason.type] ?? reason.type}
+              </Badge>
+              <span className="text-muted-foreground">{reason.detail}</span>
+            </p>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (row) => (
+        <Badge variant={row.status === 'open' ? 'destructive' : 'secondary'}>{flagStatusLabels[row.status] ?? row.status}</Badge>
+      ),
+    },
+  ]
+
+  const leaderboardColumns: Array<DataTableColumn<LeaderboardEntryRow>> = [
+    {
+      key: 'rank',
+      header: 'Rank',
+      width: '80px',
+      render: (row) => <span className="text-sm font-medium">#{row.rank}</span>,
+    },
+    {
+      key: 'userName',
+      header: 'Student',
+      render: (row) => <p className="text-sm font-medium text-foreground">{row.userName}</p>,
+    },
+    {
+      key: 'matches',
+      header: 'Matches',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">
+          {row.matches} · {row.wins}W {row.losses}L
+        </span>
+      ),
+    },
+    ...(selectedPeriod === 'all-time'
+      ? []
+      : [
+          {
+            key: 'ratingChange',
+            header: 'Change',
+            align: 'right' as const,
+            render: (row: LeaderboardEntryRow) => (
+              <span className={cn('text-sm', (row.ratingChange ?? 0) < 0 ? 'text-destructive' : 'text-emerald-600')}>
+                {(row.ratingChange ?? 0) > 0 ? '+' : ''}
+                {row.ratingChange ?? 0}
+              </span>
+            ),
+          },
+        ]),
+    {
+      key: 'rating',
+      header: 'Rating',
+      align: 'right',
+      render: (row) => <span className="text-sm font-medium">{row.rating}</span>,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">Competitions</h2>
+          <p className="text-sm text-muted-foreground">
+            Live rooms and matches from the student app, refreshed every {REFRESH_INTERVAL_MS / 1000} seconds, and the section leaderboards.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" disabled={isRefreshing} onClick={() => void loadActivity(true)}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          {canManage && (
+            <>
+              <Button variant="outline" onClick={() => setEventKind('tournament')}>
+                <Trophy className="mr-2 h-4 w-4" />
+                New tournament
+              </Button>
+              <Button onClick={() => setEventKind('live')}>
+                <Radio className="mr-2 h-4 w-4" />
+                Host live quiz
+              </Button>
+            </>
+          )}
+          {canManage && (
+            <Button
+              variant="destructive"
+              disabled={isWorking || stuckRoomIds.length === 0}
+              onClick={() => void handleCloseRooms(stuckRoomIds)}
+            >
+              Close stuck rooms{stuckRoomIds.length > 0 ? ` (${stuckRoomIds.length})` : ''}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Live Rooms</CardTitle>
+          <CardDescription>
+            Rooms waiting for players or hosting a match. A room is stuck when nobody joined within two minutes (three hours for
+            a live quiz lobby) or its match has run for over half an hour. Open a live quiz or tournament room to follow it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={liveRooms}
+            columns={roomColumns}
+            isLoading={isLoading}
+            emptyMessage="No rooms are open."
+            onRowClick={openRoom}
+            rowActions={
+              canManage
+                ? [{ label: 'Close room', icon: <XCircle className="h-4 w-4" />, onSelect: (room) => void handleCloseRooms([room.roomId]) }]
+                : []
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Match History</CardTitle>
+          <CardDescription>The 100 most recent matches. Open a match to see each player’s score.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={matches}
+            columns={matchColumns}
+            isLoading={isLoading}
+            emptyMessage="No matches played yet."
+            onRowClick={setViewingMatch}
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl font-semibold">Flagged Submissions</CardTitle>
+            <CardDescription>
+              Submissions sent after the timers ran out, answered impossibly fast or outside the match, or with the same wrong
+              answers as another player. Answers outside the match or past a question’s timer were not scored.
+            </CardDescription>
+          </div>
+          <Select value={showAllFlags ? 'all' : 'open'} onValueChange={(value) => updateSearchParam('flags', value)}>
+            <SelectTrigger className="w-full sm:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="all">All flags</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={sortedFlags}
+            columns={flagColumns}
+            isLoading={flagsLoading}
+            emptyMessage={showAllFlags ? 'No submissions have been flagged.' : 'No flags to review.'}
+            onRowClick={(flag) => {
+              const match = matchesById.get(flag.matchId)
+              if (match) setViewingMatch(match)
+            }}
+            rowActions={
+              canManage
+                ? [
+                    {
+                      label: 'Remove player',
+                      icon: <UserX className="h-4 w-4" />,
+                      onSelect: (flag) => void handleRemoveFlaggedPlayer(flag),
+                      hidden: (flag) => flag.status !== 'open',
+                    },
+                    {
+                      label: 'Dismiss',
+                      icon: <CheckCircle2 className="h-4 w-4" />,
+                      onSelect: (flag) => void handleDismissFlag(flag),
+                      hidden: (flag) => flag.status !== 'open',
+                    },
+                  ]
+                : []
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Tournaments</CardTitle>
+          <CardDescription>Single-elimination brackets played by a class. Open a tournament to see its bracket.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={sortedTournaments}
+            columns={tournamentColumns}
+            isLoading={tournamentsLoading}
+            emptyMessage="No tournaments yet."
+            onRowClick={(tournament) => navigate(`/competitions/tournaments/${tournament.id}`)}
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader className="flex flex-col gap-3 space-y-0 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-1.5">
+            <CardTitle className="text-xl font-semibold">Leaderboards</CardTitle>
+            <CardDescription>
+              Elo ratings per section, starting at 1000. Beating higher-rated players gains more; live quizzes and tournaments are
+              not rated. The weekly and monthly views rank the top 100 by rating gained.
+              {selectedSummary?.resetAt && ` Last reset ${formatDateTime(selectedSummary.resetAt)}.`}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={selectedSectionId}
+              onValueChange={(value) => updateSearchParam('section', value)}
+              disabled={scopedSummaries.length === 0}
+            >
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue placeholder="Section" />
+              </SelectTrigger>
+              <SelectContent>
+                {scopedSummaries.map((summary) => (
+                  <SelectItem key={summary.id} value={summary.id}>
+                    {sectionLabel(summary.sectionId ?? summary.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={selectedPeriod} onValueChange={(value) => updateSearchParam('period', value)}>
+              <SelectTrigger className="w-full sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(periodLabels) as LeaderboardPeriod[]).map((period) => (
+                  <SelectItem key={period} value={period}>
+                    {periodLabels[period]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canManage && (
+              <Button
+                variant="outline"
+                disabled={isWorking || !selectedSummary || selectedSummary.players === 0}
+                onClick={() => void handleResetLeaderboard()}
+              >
+                Reset leaderboard
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {ratingDistribution.length > 0 && (
+            <div>
+              <p className="mb-2 text-sm font-medium text-foreground">
+                Rating distribution · {selectedSummary?.players ?? 0} rated players
+              </p>
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={ratingDistribution} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value) => [value, 'Players']} labelFormatter={(label) => `Rating ${label}`} />
+                    <Bar dataKey="players" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+          <DataTable
+            data={leaderboardRows}
+            columns={leaderboardColumns}
+            isLoading={summariesLoading || leaderboardLoading}
+            emptyMessage={
+              !selectedSummary
+                ? 'No section has a leaderboard yet.'
+                : selectedPeriod === 'all-time'
+                  ? 'This leaderboard is empty.'
+                  : `Nobody has played a rated match ${selectedPeriod === 'weekly' ? 'this week' : 'this month'}.`
+            }
+            rowActions={
+              canManage && selectedSummary
+                ? [
+                    {
+                      label: 'Remove player',
+                      icon: <UserX className="h-4 w-4" />,
+                      onSelect: (entry) => void handleRemovePlayer(selectedSummary.id, entry),
+                    },
+                  ]
+                : []
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <CompetitionEventModal
+        open={eventKind !== null}
+        kind={eventKind ?? 'live'}
+        isSubmitting={isCreatingEvent}
+        onClose={() => setEventKind(null)}
+        onSubmit={handleCreateEvent}
+      />
+
+      <FormModal
+        open={Boolean(viewingMatch)}
+        onClose={() => setViewingMatch(null)}
+        title="Match details"
+        description={
+          viewingMatch ? `${sectionLabel(viewingMatch.sectionId)} · ${formatMillis(viewingMatch.createdAt)}` : undefined
+        }
+        onSubmit={() => setViewingMatch(null)}
+        hideSubmitButton
+        className="sm:max-w-2xl"
+      >
+        {viewingMatch && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant={matchStatusVariants[viewingMatch.status] ?? 'outline'}>
+                {matchStatusLabels[viewingMatch.status] ?? viewingMatch.status}
+              </Badge>
+              <span className="text-muted-foreground">
+                {viewingMatch.questionCount} questions
+                {viewingMatch.finalizedAt && ` · finished ${formatMillis(viewingMatch.finalizedAt)}`}
+              </span>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Player</TableHead>
+                  <TableHead className="text-right">Correct</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                  {canManage && <TableHead className="w-24" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewingMatch.participants.map((participant) => (
+                  <TableRow key={participant.userId}>
+                    <TableCell className="text-sm font-medium">
+                      {participant.userName}
+                      {participant.userId === viewingMatch.winnerId && <Badge className="ml-2">Winner</Badge>}
+                      {participant.status === 'removed' && (
+                        <Badge variant="destructive" className="ml-2">
+                          Removed
+                        </Badge>
+                      )}
+                      {!participant.submitted && <span className="block text-xs font-normal text-muted-foreground">Not submitted</span>}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {typeof participant.correctCount === 'number' ? `${participant.correctCount}/${viewingMatch.questionCount}` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{participant.totalPoints ?? '—'}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {participant.status !== 'removed' && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            disabled={isWorking}
+                            onClick={() => void handleRemovePlayer(viewingMatch.sectionId, participant, viewingMatch.matchId)}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </FormModal>
+    </div>
+  )
+}
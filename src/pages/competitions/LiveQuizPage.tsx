@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Play, Square } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { PageLoader } from '@/components/feedback/PageLoader'
+import { endLiveQuiz, fetchLiveQuiz, startLiveQuiz, type LiveQuiz } from '@/services/competitionService'
+import { classService } from '@/services/firebase'
+import type { Classroom, CompetitionParticipant } from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+
+// The host watches students join and answer, so the lobby is polled more often than the Competitions page
+const REFRESH_INTERVAL_MS = 5 * 1000
+
+type PlayerRow = CompetitionParticipant & { id: string; rank: number | null }
+
+export function LiveQuizPage() {
+  const { roomId = '' } = useParams()
+  const navigate = useNavigate()
+  const { user, can } = useAuth()
+  const { setPageTitle, notifySuccess, notifyError, confirmAction } = useUI()
+  const { allSections } = useCurriculumCache()
+  const { data: classes } = useCollection<Classroom>(classService.listen)
+  const [liveQuiz, setLiveQuiz] = useState<LiveQuiz | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const canManage = can('competitions.manage')
+
+  useEffect(() => {
+    setPageTitle('Live Quiz')
+  }, [setPageTitle])
+
+  const loadQuiz = useCallback(
+    async (showErrors: boolean) => {
+      try {
+        setLiveQuiz(await fetchLiveQuiz(roomId))
+      } catch (error) {
+        if (showErrors) notifyError('Unable to load live quiz', error instanceof Error ? error.message : undefined)
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [roomId, notifyError],
+  )
+
+  const room = liveQuiz?.room ?? null
+  const match = liveQuiz?.match ?? null
+  const isFinished = room?.status === 'closed' || match?.status === 'completed' || match?.status === 'cancelled'
+
+  useEffect(() => {
+    void loadQuiz(true)
+    if (isFinished) return
+    const interval = window.setInterval(() => void loadQuiz(false), REFRESH_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [loadQuiz, isFinished])
+
+  // Players are ranked by points once the quiz has started; equal points share a place
+  const rows = useMemo<PlayerRow[]>(() => {
+    const players = match?.participants ?? room?.participants ?? []
+    const sorted = [...players].sort(
+      (a, b) => (b.totalPoints ?? -1) - (a.totalPoints ?? -1) || a.userName.localeCompare(b.userName),
+    )
+    return sorted.map((player) => ({
+      ...player,
+      id: player.userId,
+      rank: typeof player.totalPoints === 'number' ? sorted.findIndex((other) => other.totalPoints === player.totalPoints) + 1 : null,
+    }))
+  }, [match, room])
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      setIsWorking(true)
+      await action()
+      await loadQuiz(false)
+    } catch (error) {
+      notifyError(failureTitle, error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleStart = () =>
+    runAction(async () => {
+      await startLiveQuiz(roomId)
+      notifySuccess('Quiz started')
+    }, 'Unable to start quiz')
+
+  const handleEnd = async () => {
+    const submitted = match?.participants.filter((participant) => participant.submitted).length ?? 0
+    const confirmed = await confirmAction({
+      title: match ? 'End the quiz now?' : 'Close the lobby?',
+      description: match
+        ? `${submitted} of ${rows.length} students have submitted. Students who have not are scored with no points.`
+        : 'Students in the lobby are sent back and the join code stops working.',
+      confirmLabel: match ? 'End quiz' : 'Close lobby',
+      danger: true,
+    })
+    if (!confirmed) return
+    await runAction(async () => {
+      await endLiveQuiz(roomId)
+      notifySuccess(match ? 'Quiz ended' : 'Lobby closed')
+    }, 'Unable to end quiz')
+  }
+
+  if (isLoading) {
+    return <PageLoader />
+  }
+
+  if (!room) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">This live quiz does not exist or was removed after it ended.</p>
+        <Button variant="outline" onClick={() => navigate('/competitions')}>
+          Back to competitions
+        </Button>
+      </div>
+    )
+  }
+
+  const sectionTitle = allSections.find((section) => section.id === room.sectionId)?.title ?? room.sectionId
+  const className = room.classId ? (classes.find((classroom) => classroom.id === room.classId)?.name ?? 'Class') : null
+  const statusLabel = isFinished ? 'Finished' : match ? 'In progress' : 'Lobby open'
+
+  const columns: Array<DataTableColumn<PlayerRow>> = [
+    {
+      key: 'rank',
+      header: 'Rank',
+      width: '80px',
+      render: (row) => <span className="text-sm font-medium">{row.rank ? `#${row.rank}` : '—'}</span>,
+    },
+    {
+      key: 'userName',
+      header: 'Student',
+      render: (row) => (
+        <p className="text-sm font-medium text-foreground">
+          {row.userName}
+          {row.status === 'removed' && (
+            <Badge variant="destructive" className="ml-2">
+              Removed
+            </Badge>
+          )}
+        </p>
+      ),
+    },
+    {
+      key: 'submitted',
+      header: 'Answers',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">
+          {!match ? 'Waiting to start' : row.submitted ? `${row.correctCount ?? 0}/${match.questionCount} correct` : 'Answering…'}
+        </span>
+      ),
+    },
+    {
+      key: 'totalPoints',
+      header: 'Points',
+      align: 'right',
+      render: (row) => <span className="text-sm">{row.totalPoints ?? '—'}</span>,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3">
+        <Button variant="ghost" size="sm" className="w-fit gap-2 px-2" asChild>
+          <Link to="/competitions">
+            <ArrowLeft className="h-4 w-4" />
+            All competitions
+          </Link>
+        </Button>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground">{room.title || `Live quiz · ${sectionTitle}`}</h2>
+            <p className="text-sm text-muted-foreground">
+              {sectionTitle}
+              {className ? ` · ${className} only` : ' · open to anyone with the code'}
+            </p>
+          </div>
+          {canManage && !isFinished && (
+            <div className="flex gap-2">
+              {!match && (
+                <Button className="rounded-full px-6" disabled={isWorking || rows.length === 0} onClick={() => void handleStart()}>
+                  <Play className="mr-2 h-4 w-4" />
+                  Start quiz
+                </Button>
+              )}
+              <Button variant="destructive" className="rounded-full px-6" disabled={isWorking} onClick={() => void handleEnd()}>
+                <Square className="mr-2 h-4 w-4" />
+                {match ? 'End quiz' : 'Close lobby'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="border-none shadow-sm">
+          <CardHeader className="pb-2">
+            <CardDescription>Join code</CardDescription>
+            <CardTitle className="font-mono text-4xl tracking-[0.3em]">{room.joinCode ?? '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {room.status === 'waiting' ? 'Students enter this code in the app.' : 'The code no longer admits new students.'}
+          </CardContent>
+        </Card>
+        <Card className="border-none shadow-sm">
+          <CardHeader className="pb-2">
+            <CardDescription>Students</CardDescription>
+            <CardTitle className="text-4xl">{rows.length}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {match ? `${rows.filter((row) => row.submitted).length} submitted` : `Up to ${room.maxCapacity} can join`}
+          </CardContent>
+        </Card>
+        <Card className="border-none shadow-sm">
+          <CardHeader className="pb-2">
+            <CardDescription>Status</CardDescription>
+            <CardTitle className="text-2xl">{statusLabel}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {match ? `${match.questionCount} questions` : 'Start the quiz once the class is in.'}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">{isFinished ? 'Results' : 'Players'}</CardTitle>
+          <CardDescription>Refreshed every {REFRESH_INTERVAL_MS / 1000} seconds while the quiz runs.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable data={rows} columns={columns} emptyMessage="No students have joined yet." />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Trophy } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { competitionTournamentService } from '@/services/firebase'
+import { resolveTournamentMatch } from '@/services/competitionService'
+import type { CompetitionTournament, TournamentBracketMatch, TournamentBracketMatchStatus } from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { formatDateTime } from '@/utils/formatters'
+import { cn } from '@/utils/cn'
+
+const bracketStatusLabels: Record<TournamentBracketMatchStatus, string> = {
+  pending: 'Waiting',
+  live: 'Playing',
+  completed: 'Played',
+  bye: 'Bye',
+}
+
+const bracketStatusVariants: Record<TournamentBracketMatchStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'outline',
+  live: 'default',
+  completed: 'secondary',
+  bye: 'outline',
+}
+
+export function TournamentPage() {
+  const { tournamentId = '' } = useParams()
+  const navigate = useNavigate()
+  const { user, can } = useAuth()
+  const { setPageTitle, notifySuccess, notifyError, confirmAction } = useUI()
+  const { allSections } = useCurriculumCache()
+  const { data: tournaments, isLoading } = useCollection<CompetitionTournament>(competitionTournamentService.listen)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const canManage = can('competitions.manage')
+  const tournament = tournaments.find((entry) => entry.id === tournamentId) ?? null
+
+  useEffect(() => {
+    setPageTitle('Tournament')
+  }, [setPageTitle])
+
+  const players = useMemo(
+    () => new Map((tournament?.players ?? []).map((player) => [player.userId, player])),
+    [tournament],
+  )
+
+  const handleAdvance = async (match: TournamentBracketMatch, winnerId: string) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    const winnerName = players.get(winnerId)?.userName ?? 'this player'
+    const confirmed = await confirmAction({
+      title: `Send ${winnerName} through?`,
+      description:
+        match.status === 'live'
+          ? 'The match still being played is cancelled and the bracket moves on. Use this when a player never showed up.'
+          : 'The match is decided without being played and the bracket moves on.',
+      confirmLabel: 'Decide match',
+    })
+    if (!confirmed) return
+    try {
+      setIsWorking(true)
+      await resolveTournamentMatch({ tournamentId, matchKey: match.key, winnerId })
+      notifySuccess(`${winnerName} goes through`)
+    } catch (error) {
+      notifyError('Unable to decide match', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  if (!isLoading && !tournament) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">This tournament does not exist or is outside your grades.</p>
+        <Button variant="outline" onClick={() => navigate('/competitions')}>
+          Back to competitions
+        </Button>
+      </div>
+    )
+  }
+
+  const sectionTitle = allSections.find((section) => section.id === tournament?.sectionId)?.title ?? tournament?.sectionId
+  const champion = tournament?.championId ? players.get(tournament.championId) : undefined
+
+  const renderPlayer = (match: TournamentBracketMatch, playerId: string | null, slot: number) => {
+    const player = playerId ? players.get(playerId) : undefined
+    const isWinner = Boolean(playerId) && match.winnerId === playerId
+    const isDecidable =
+      canManage && (match.status === 'live' || match.status === 'pending') && match.playerIds.every((id) => id !== null)
+    return (
+      <div
+        key={slot}
+        className={cn(
+          'flex items-center justify-between gap-2 px-3 py-2 text-sm',
+          isWinner && 'font-semibold text-foreground',
+          match.winnerId && !isWinner && 'text-muted-foreground line-through',
+        )}
+      >
+        <span className="truncate">
+          {player ? (
+            <>
+              <span className="mr-2 text-xs text-muted-foreground">{player.seed}</span>
+              {player.userName}
+            </>
+          ) : (
+            <span className="text-muted-foreground">{match.status === 'bye' ? '—' : 'To be decided'}</span>
+          )}
+        </span>
+        {isDecidable && playerId && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={isWorking}
+            onClick={() => void handleAdvance(match, playerId)}
+          >
+            Advance
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3">
+        <Button variant="ghost" size="sm" className="w-fit gap-2 px-2" asChild>
+          <Link to="/competitions">
+            <ArrowLeft className="h-4 w-4" />
+            All competitions
+          </Link>
+        </Button>
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">{tournament?.title ?? 'Loading…'}</h2>
+          <p className="text-sm text-muted-foreground">
+            {sectionTitle ?? '—'} · {tournament?.className ?? '—'} · {tournament?.players.length ?? 0} players
+          </p>
+        </div>
+      </div>
+
+      {tournament?.status === 'completed' && (
+        <Card className="border-none shadow-sm">
+          <CardContent className="flex items-center gap-3 py-6">
+            <Trophy className="h-6 w-6 text-amber-500" />
+            <p className="text-sm">
+              <span className="font-semibold text-foreground">{champion?.userName ?? 'Unknown'}</span> won the tournament
+              {tournament.completedAt && ` on ${formatDateTime(tournament.completedAt)}`}.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Bracket</CardTitle>
+          <CardDescription>
+            Single elimination, seeded by section rating. Each match starts in the app as soon as both players are
+            known; a tie goes to more correct answers, then to the faster submission.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {(tournament?.rounds ?? []).map((round) => (
+              <div key={round.name} className="flex min-w-[220px] flex-1 flex-col">
+                <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{round.name}</p>
+                <div className="flex flex-1 flex-col justify-around gap-3">
+                  {round.matches.map((match) => (
+                    <div key={match.key} className="rounded-xl border border-border bg-white">
+                      <div className="flex items-center justify-between border-b px-3 py-1.5">
+                        <span className="text-xs text-muted-foreground">{match.key.toUpperCase()}</span>
+                        <Badge variant={bracketStatusVariants[match.status]} className="text-[10px]">
+                          {bracketStatusLabels[match.status]}
+                        </Badge>
+                      </div>
+                      <div className="divide-y">{match.playerIds.map((playerId, slot) => renderPlayer(match, playerId, slot))}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { Download, Upload } from 'lucide-react'
+import { saveAs } from 'file-saver'
 import { zodResolver } from '@hookform/resolvers/zod'
+import { Timestamp } from 'firebase/firestore'
 import { useForm, useWatch } from 'react-hook-form'
 import { useAuth } from '@/context/AuthContext'
 import { useUI } from '@/context/UIContext'
@@ -9,10 +12,15 @@ import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
 import { FormModal } from '@/components/forms/FormModal'
+import { CurriculumImportModal } from '@/components/forms/CurriculumImportModal'
+import { PublishScheduleFields } from '@/components/forms/PublishScheduleFields'
+import { ScheduleBadge } from '@/components/feedback/ScheduleBadge'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { gradeSchema, type GradeFormValues } from '@/utils/schemas'
 import { gradeService } from '@/services/firebase'
 import { hierarchicalUnitService } from '@/services/hierarchicalServices'
+import { exportGradeTree } from '@/services/curriculumTreeService'
+import { TRASH_RETENTION_DAYS } from '@/services/trashService'
 import type { Grade, Unit } from '@/types/models'
 import { useCollection } from '@/hooks/useCollection'
 
@@ -20,10 +28,15 @@ type GradeTableRow = Grade & { unitCount: number }
 
 export function GradesPage() {
   const navigate = useNavigate()
-  const { user } = useAuth()
+  const { user, can, gradeScope } = useAuth()
+  const canEdit = can('curriculum.edit')
+  // Adding and removing whole grades is for staff who work on every grade
+  const canManageGrades = canEdit && !gradeScope
+  const canPublish = can('curriculum.publish')
   const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingGrade, setEditingGrade] = useState<Grade | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
 
   const { data: grades, isLoading: gradesLoading, refetch: refetchGrades } = useCollection<Grade>(gradeService.listen)
   const [allUnits, setAllUnits] = useState<Unit[]>([])
@@ -45,7 +58,8 @@ export function GradesPage() {
   }, [grades])
 
   const form = useForm<GradeFormValues>({
-    resolver: zodResolver(gradeSchema),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(gradeSchema) as any,
     defaultValues: {
       name: '',
       description: undefined,
@@ -111,6 +125,8 @@ export function GradesPage() {
         name: editingGrade.name,
         description: description || undefined,
         isPublished: editingGrade.isPublished ?? false,
+        publishAt: editingGrade.publishAt?.toDate(),
+        unpublishAt: editingGrade.unpublishAt?.toDate(),
       })
     } else {
       form.reset({
@@ -157,7 +173,7 @@ export function GradesPage() {
   const handleDelete = async (grade: Grade) => {
     const confirmed = await confirmAction({
       title: 'Delete grade?',
-      description: `Are you sure you want to delete "${grade.name}"? Related units and lessons will stay orphaned.`,
+      description: `"${grade.name}" and all its units, lessons, sections and quizzes will move to the Trash. You can restore them for ${TRASH_RETENTION_DAYS} days.`,
       confirmLabel: 'Delete',
       danger: true,
     })
@@ -169,12 +185,24 @@ export function GradesPage() {
     try {
       await gradeService.remove(grade.id, user.uid, { name: grade.name })
       refetchGrades()
-      notifySuccess('Grade deleted')
+      notifySuccess('Grade moved to Trash')
     } catch (error) {
       notifyError('Unable to delete grade', error instanceof Error ? error.message : undefined)
     }
   }
 
+  const handleExport = async (grade: Grade) => {
+    try {
+      const exportDocument = await exportGradeTree(grade.id)
+      const fileSlug = grade.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+      const blob = new Blob([JSON.stringify(exportDocument, null, 2)], { type: 'application/json' })
+      saveAs(blob, `${fileSlug}-${exportDocument.exportedAt.slice(0, 10)}.json`)
+      notifySuccess('Grade exported')
+    } catch (error) {
+      notifyError('Unable to export grade', error instanceof Error ? error.message : undefined)
+    }
+  }
+
   const onSubmit = form.handleSubmit(async (values) => {
     if (!user?.uid) {
       notifyError('Missing admin session', 'Please sign in again.')
@@ -197,6 +225,8 @@ export function GradesPage() {
             name: values.name,
             description: values.description?.trim() || '',
             isPublished: values.isPublished,
+            publishAt: values.publishAt ? Timestamp.fromDate(values.publishAt) : null,
+            unpublishAt: values.unpublishAt ? Timestamp.fromDate(values.unpublishAt) : null,
           },
           user.uid,
           { name: values.name },
@@ -208,6 +238,8 @@ export function GradesPage() {
             name: values.name,
             description: values.description?.trim() || '',
             isPublished: values.isPublished,
+            publishAt: values.publishAt ? Timestamp.fromDate(values.publishAt) : null,
+            unpublishAt: values.unpublishAt ? Timestamp.fromDate(values.unpublishAt) : null,
           } as Omit<Grade, 'id' | 'createdAt' | 'updatedAt'>,
           user.uid,
           { name: values.name },
@@ -250,13 +282,15 @@ export function GradesPage() {
       header: 'Published',
       align: 'center',
       render: (row) => (
-        <div onClick={(e) => e.stopPropagation()}>
+        <div className="flex flex-col items-center gap-1" onClick={(e) => e.stopPropagation()}>
           <Switch 
             checked={row.isPublished ?? false} 
+            disabled={!canPublish}
             onCheckedChange={() => {
               handleTogglePublish(row)
             }}
           />
+          <ScheduleBadge publishAt={row.publishAt} unpublishAt={row.unpublishAt} />
         </div>
       ),
     },
@@ -269,9 +303,17 @@ export function GradesPage() {
           <h2 className="text-2xl font-semibold text-foreground">Grades</h2>
           <p className="text-sm text-muted-foreground">Create and organize grade levels for the EduEnglish curriculum.</p>
         </div>
-        <Button onClick={handleOpenNew} className="rounded-full px-6">
-          Add Grade
-        </Button>
+        {canManageGrades && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="rounded-full px-6">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button onClick={handleOpenNew} className="rounded-full px-6">
+              Add Grade
+            </Button>
+          </div>
+        )}
       </div>
 
       <DataTable
@@ -279,9 +321,25 @@ export function GradesPage() {
         columns={columns}
         isLoading={gradesLoading}
         emptyMessage="No grades configured yet. Start by adding your first grade level."
-        onEdit={handleEdit}
-        onDelete={handleDelete}
+        onEdit={canEdit ? handleEdit : undefined}
+        onDelete={canManageGrades ? handleDelete : undefined}
         onRowClick={(grade) => navigate(`/curriculum/${grade.id}/units`)}
+        rowActions={[
+          { label: 'Export JSON', icon: <Download className="h-4 w-4" />, onSelect: handleExport },
+        ]}
+      />
+
+      <CurriculumImportModal
+        open={isImportOpen}
+        adminId={user?.uid}
+        existingGradeNames={grades.map((grade) => grade.name)}
+        onClose={() => setIsImportOpen(false)}
+        onImported={() => {
+          setIsImportOpen(false)
+          refetchGrades()
+          notifySuccess('Grade imported successfully')
+        }}
+        onError={(message) => notifyError('Unable to import grade', message)}
       />
 
       <FormModal
@@ -360,11 +418,12 @@ export function GradesPage() {
                     <p className="text-xs text-muted-foreground">Only published grades appear to students.</p>
                   </div>
                   <FormControl>
-                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    <Switch checked={field.value} disabled={!canPublish} onCheckedChange={field.onChange} />
                   </FormControl>
                 </FormItem>
               )}
             />
+            <PublishScheduleFields itemLabel="grade" disabled={!canPublish} />
           </form>
         </Form>
       </FormModal>
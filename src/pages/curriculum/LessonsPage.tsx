@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { ChevronRight } from 'lucide-react'
+import { ChevronRight, Copy, FolderInput } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Button } from '@/components/ui/button'
@@ -9,10 +9,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
 import { FormModal } from '@/components/forms/FormModal'
+import { CurriculumTargetModal } from '@/components/forms/CurriculumTargetModal'
 import { PageLoader } from '@/components/feedback/PageLoader'
 import { lessonSchema, type LessonFormValues } from '@/utils/schemas'
 import { lessonTitleOptions } from '@/utils/constants'
 import { hierarchicalLessonService } from '@/services/hierarchicalServices'
+import { duplicateCurriculumNode, moveCurriculumNode } from '@/services/curriculumTreeService'
+import { TRASH_RETENTION_DAYS } from '@/services/trashService'
 import { useCurriculumCache } from '@/context/CurriculumCacheContext'
 import type { Lesson } from '@/types/models'
 import { useAuth } from '@/context/AuthContext'
@@ -23,10 +26,15 @@ type LessonTableRow = Lesson & { gradeName: string; unitTitle: string; sectionCo
 export function LessonsPage() {
   const { gradeId, unitId } = useParams<{ gradeId: string; unitId: string }>()
   const navigate = useNavigate()
-  const { user } = useAuth()
+  const { user, can } = useAuth()
+  const canEdit = can('curriculum.edit')
   const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingLesson, setEditingLesson] = useState<Lesson | null>(null)
+  const [duplicatingLesson, setDuplicatingLesson] = useState<Lesson | null>(null)
+  const [isDuplicating, setIsDuplicating] = useState(false)
+  const [movingLesson, setMovingLesson] = useState<Lesson | null>(null)
+  const [isMoving, setIsMoving] = useState(false)
 
   const { grades, allUnits: cachedAllUnits, allSections: cachedAllSections, isLoading: cacheLoading, refreshLessons } = useCurriculumCache()
   
@@ -185,7 +193,7 @@ export function LessonsPage() {
   const handleDelete = async (lesson: Lesson) => {
     const confirmed = await confirmAction({
       title: 'Delete lesson?',
-      description: `Are you sure you want to delete "${lesson.title}"?`,
+      description: `"${lesson.title}" and its sections and quizzes will move to the Trash. You can restore them for ${TRASH_RETENTION_DAYS} days.`,
       confirmLabel: 'Delete',
       danger: true,
     })
@@ -199,15 +207,62 @@ export function LessonsPage() {
         notifyError('Invalid lesson', 'Lesson missing gradeId or unitId')
         return
       }
-      await hierarchicalLessonService.remove(lesson.gradeId, lesson.unitId, lesson.id)
+      await hierarchicalLessonService.remove(lesson.gradeId, lesson.unitId, lesson.id, user.uid)
       setLessons((prev) => prev.filter((l) => l.id !== lesson.id))
       refreshLessons() // Refresh cache
-      notifySuccess('Lesson deleted successfully')
+      notifySuccess('Lesson moved to Trash')
     } catch (error) {
       notifyError('Unable to delete lesson', error instanceof Error ? error.message : undefined)
     }
   }
 
+  const handleDuplicate = async (targetParentPath: string[]) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    if (!duplicatingLesson) return
+
+    try {
+      setIsDuplicating(true)
+      const result = await duplicateCurriculumNode(
+        [duplicatingLesson.gradeId, duplicatingLesson.unitId, duplicatingLesson.id],
+        targetParentPath,
+        user.uid,
+      )
+      refreshLessons() // Refresh cache
+      setDuplicatingLesson(null)
+      notifySuccess(
+        `Lesson "${result.rootTitle}" duplicated`,
+        `${result.counts.sections} sections and ${result.counts.quizzes} quizzes copied.`,
+      )
+    } catch (error) {
+      notifyError('Unable to duplicate lesson', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
+  const handleMove = async (targetParentPath: string[]) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    if (!movingLesson) return
+
+    try {
+      setIsMoving(true)
+      const result = await moveCurriculumNode([movingLesson.gradeId, movingLesson.unitId, movingLesson.id], targetParentPath, user.uid)
+      refreshLessons() // Refresh cache
+      setMovingLesson(null)
+      notifySuccess(`Lesson "${result.rootTitle}" moved`, `${result.counts.quizzes} quizzes moved with it.`)
+    } catch (error) {
+      notifyError('Unable to move lesson', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
   const onSubmit = form.handleSubmit(async (values) => {
     if (!user?.uid) {
       notifyError('Missing admin session', 'Please sign in again.')
@@ -245,6 +300,7 @@ export function LessonsPage() {
             title: values.title,
             order: values.order,
           },
+          user.uid,
         )
         notifySuccess('Lesson updated successfully')
         refreshLessons() // Refresh cache
@@ -325,9 +381,11 @@ export function LessonsPage() {
           </h2>
           <p className="text-sm text-muted-foreground">Curate lesson experiences aligned with the unit narrative.</p>
         </div>
-        <Button onClick={handleOpenNew} className="rounded-full px-6">
-          Add Lesson
-        </Button>
+        {canEdit && (
+          <Button onClick={handleOpenNew} className="rounded-full px-6">
+            Add Lesson
+          </Button>
+        )}
       </div>
 
       <DataTable
@@ -335,9 +393,38 @@ export function LessonsPage() {
         columns={columns}
         isLoading={isLoading}
         emptyMessage="No lessons yet. Add lessons to build out this unit."
-        onEdit={handleEdit}
-        onDelete={handleDelete}
+        onEdit={canEdit ? handleEdit : undefined}
+        onDelete={canEdit ? handleDelete : undefined}
         onRowClick={(lesson) => navigate(`/curriculum/${gradeId}/${unitId}/${lesson.id}/sections`)}
+        rowActions={[
+          { label: 'Duplicate to…', icon: <Copy className="h-4 w-4" />, onSelect: setDuplicatingLesson, hidden: () => !canEdit },
+          { label: 'Move to…', icon: <FolderInput className="h-4 w-4" />, onSelect: setMovingLesson, hidden: () => !canEdit },
+        ]}
+      />
+
+      <CurriculumTargetModal
+        open={Boolean(duplicatingLesson)}
+        title={duplicatingLesson ? `Duplicate ${duplicatingLesson.title}` : 'Duplicate Lesson'}
+        description="Copies the lesson with all sections and quizzes into the selected unit."
+        level="lessons"
+        initialParentPath={[gradeId, unitId]}
+        submitLabel="Duplicate"
+        isSubmitting={isDuplicating}
+        onClose={() => setDuplicatingLesson(null)}
+        onSubmit={handleDuplicate}
+      />
+
+      <CurriculumTargetModal
+        open={Boolean(movingLesson)}
+        title={movingLesson ? `Move ${movingLesson.title}` : 'Move Lesson'}
+        description="Moves the lesson with all sections and quizzes to another unit. The lesson order is bumped if it is taken."
+        level="lessons"
+        initialParentPath={[gradeId, unitId]}
+        disallowCurrentParent
+        submitLabel="Move"
+        isSubmitting={isMoving}
+        onClose={() => setMovingLesson(null)}
+        onSubmit={handleMove}
       />
 
       <FormModal
@@ -1,18 +1,23 @@
 import { useEffect, useState } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { ChevronRight } from 'lucide-react'
+import { ChevronRight, FlaskConical, History, Send, Upload } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
 import { FormModal } from '@/components/forms/FormModal'
 import { QuestionBuilder } from '@/components/forms/QuestionBuilder'
+import { QuestionImportModal } from '@/components/forms/QuestionImportModal'
+import { QuizHistoryModal } from '@/components/forms/QuizHistoryModal'
+import { QuestionTryOutModal } from '@/components/forms/QuestionTryOutModal'
 import { PageLoader } from '@/components/feedback/PageLoader'
-import { getQuizWithQuestions, updateQuizWithQuestions } from '@/services/quizBuilderService'
+import { getQuizWithQuestions, publishQuiz, updateQuizWithQuestions } from '@/services/quizBuilderService'
+import { restoreQuizVersion } from '@/services/quizVersionService'
 import { useCurriculumCache } from '@/context/CurriculumCacheContext'
-import type { Question, Quiz } from '@/types/models'
+import type { Question, Quiz, QuizVersion } from '@/types/models'
 import type { FillInQuestionFormValues, DragDropQuestionFormValues, SpellingQuestionFormValues, MatchingQuestionFormValues, OrderWordsQuestionFormValues, CompositionQuestionFormValues } from '@/utils/schemas'
 import { useAuth } from '@/context/AuthContext'
 import { useUI } from '@/context/UIContext'
+import type { ImportedQuestion } from '@/utils/questionImport'
 
 // Helper function to map quiz type to question type
 function getQuestionTypeFromQuizType(quizType: Quiz['quizType']): Question['type'] {
@@ -47,7 +52,9 @@ type QuestionTableRow = Question & {
 export function QuestionsPage() {
   const { gradeId, unitId, lessonId, sectionId, quizId } = useParams<{ gradeId: string; unitId: string; lessonId: string; sectionId: string; quizId: string }>()
   const navigate = useNavigate()
-  const { user } = useAuth()
+  const { user, can } = useAuth()
+  const canEdit = can('curriculum.edit')
+  const canPublish = can('curriculum.publish')
   const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
 
   const [isModalOpen, setIsModalOpen] = useState(false)
@@ -55,6 +62,13 @@ export function QuestionsPage() {
   const [questions, setQuestions] = useState<Question[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isSavingQuestion, setIsSavingQuestion] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [isRestoringVersion, setIsRestoringVersion] = useState(false)
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(false)
+  const [isPublishing, setIsPublishing] = useState(false)
+  const [tryingQuestion, setTryingQuestion] = useState<Question | null>(null)
 
   const { grades, allUnits: cachedAllUnits, allLessons: cachedAllLessons, allSections: cachedAllSections, allQuizzes: cachedAllQuizzes, isLoading: cacheLoading, refreshQuizzes } = useCurriculumCache()
 
@@ -102,6 +116,7 @@ export function QuestionsPage() {
       .then((result) => {
         if (result) {
           setQuestions(result.questions || [])
+          setHasUnpublishedChanges(result.hasUnpublishedChanges)
         } else {
           setQuestions([])
         }
@@ -215,6 +230,7 @@ export function QuestionsPage() {
       )
 
       setQuestions((prev) => prev.filter((q) => q.id !== question.id))
+      setHasUnpublishedChanges(true)
       refreshQuizzes() // Refresh cache
       notifySuccess('Question deleted successfully')
     } catch (error) {
@@ -282,6 +298,7 @@ export function QuestionsPage() {
         const result = await getQuizWithQuestions(gradeId, unitId, lessonId, sectionId, quizId)
         if (result) {
           setQuestions(result.questions || [])
+          setHasUnpublishedChanges(result.hasUnpublishedChanges)
         }
       }
     } catch (error) {
@@ -352,6 +369,7 @@ export function QuestionsPage() {
         const result = await getQuizWithQuestions(gradeId, unitId, lessonId, sectionId, quizId)
         if (result) {
           setQuestions(result.questions || [])
+          setHasUnpublishedChanges(result.hasUnpublishedChanges)
         }
       }
     } catch (error) {
@@ -361,6 +379,109 @@ export function QuestionsPage() {
     }
   }
 
+  const handleImportQuestions = async (importedQuestions: ImportedQuestion[]) => {
+    if (!user?.uid || !currentQuiz) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+
+    try {
+      setIsImporting(true)
+      // Append to the latest saved questions so nothing added meanwhile is lost
+      const result = await getQuizWithQuestions(
+        currentQuiz.gradeId,
+        currentQuiz.unitId,
+        currentQuiz.lessonId,
+        currentQuiz.sectionId,
+        currentQuiz.id,
+      )
+      const currentQuestions = result?.questions || []
+      const updatedQuestions = [
+        ...currentQuestions.map((q) => ({ ...q, quizId: undefined })),
+        ...importedQuestions.map((q, index) => ({ ...q, order: currentQuestions.length + index + 1 })),
+      ]
+
+      await updateQuizWithQuestions(
+        currentQuiz.gradeId,
+        currentQuiz.unitId,
+        currentQuiz.lessonId,
+        currentQuiz.sectionId,
+        currentQuiz.id,
+        {}, // No quiz updates
+        updatedQuestions,
+        user.uid,
+      )
+
+      notifySuccess(`${importedQuestions.length} question${importedQuestions.length === 1 ? '' : 's'} imported successfully`)
+      refreshQuizzes() // Refresh cache
+      setIsImportOpen(false)
+
+      const reloaded = await getQuizWithQuestions(currentQuiz.gradeId, currentQuiz.unitId, currentQuiz.lessonId, currentQuiz.sectionId, currentQuiz.id)
+      if (reloaded) {
+        setQuestions(reloaded.questions || [])
+        setHasUnpublishedChanges(reloaded.hasUnpublishedChanges)
+      }
+    } catch (error) {
+      notifyError('Unable to import questions', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleRestoreVersion = async (version: QuizVersion) => {
+    const confirmed = await confirmAction({
+      title: `Restore version ${version.version}?`,
+      description: 'The draft will be replaced with this version. The current content stays in the history. Publish the quiz to make it live.',
+      confirmLabel: 'Restore',
+    })
+    if (!confirmed) return
+    if (!user?.uid || !currentQuiz) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+
+    try {
+      setIsRestoringVersion(true)
+      await restoreQuizVersion(
+        [currentQuiz.gradeId, currentQuiz.unitId, currentQuiz.lessonId, currentQuiz.sectionId, currentQuiz.id],
+        version.id,
+        user.uid,
+      )
+      notifySuccess(`Version ${version.version} restored`)
+      refreshQuizzes() // Refresh cache
+      setIsHistoryOpen(false)
+
+      const reloaded = await getQuizWithQuestions(currentQuiz.gradeId, currentQuiz.unitId, currentQuiz.lessonId, currentQuiz.sectionId, currentQuiz.id)
+      if (reloaded) {
+        setQuestions(reloaded.questions || [])
+        setHasUnpublishedChanges(reloaded.hasUnpublishedChanges)
+      }
+    } catch (error) {
+      notifyError('Unable to restore version', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsRestoringVersion(false)
+    }
+  }
+
+  const handlePublish = async () => {
+    if (!user?.uid || !currentQuiz) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+
+    try {
+      setIsPublishing(true)
+      await publishQuiz(currentQuiz.gradeId, currentQuiz.unitId, currentQuiz.lessonId, currentQuiz.sectionId, currentQuiz.id, user.uid)
+      setHasUnpublishedChanges(false)
+      refreshQuizzes() // Refresh cache
+      notifySuccess('Quiz published', 'Students now see the latest questions.')
+    } catch (error) {
+      notifyError('Unable to publish quiz', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
   const handleDeleteQuestion = async (question: Question) => {
     await handleDelete(question)
   }
@@ -438,11 +559,42 @@ export function QuestionsPage() {
             <ChevronRight className="h-4 w-4 text-muted-foreground" />
             <span className="text-foreground">Questions</span>
           </h2>
-          <p className="text-sm text-muted-foreground">Manage questions for this quiz.</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="text-sm text-muted-foreground">Manage questions for this quiz.</p>
+            <Badge variant={currentQuiz.isPublished ? 'default' : 'outline'}>
+              {currentQuiz.isPublished ? 'Published' : 'Not published'}
+            </Badge>
+            {hasUnpublishedChanges && <Badge variant="secondary">Unpublished changes</Badge>}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsHistoryOpen(true)} className="rounded-full px-6">
+            <History className="mr-2 h-4 w-4" />
+            History
+          </Button>
+          {canEdit && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} className="rounded-full px-6">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
+          {canPublish && (
+            <Button
+              variant="outline"
+              onClick={handlePublish}
+              disabled={isPublishing || (currentQuiz.isPublished && !hasUnpublishedChanges)}
+              className="rounded-full px-6"
+            >
+              <Send className="mr-2 h-4 w-4" />
+              {isPublishing ? 'Publishing…' : 'Publish'}
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={handleOpenNew} className="rounded-full px-6">
+              Add Question
+            </Button>
+          )}
         </div>
-        <Button onClick={handleOpenNew} className="rounded-full px-6">
-          Add Question
-        </Button>
       </div>
 
       <DataTable
@@ -450,8 +602,15 @@ export function QuestionsPage() {
         columns={columns}
         isLoading={isLoading}
         emptyMessage="No questions yet. Add questions to start building this assessment."
-        onEdit={handleEdit}
-        onDelete={handleDelete}
+        onEdit={canEdit ? handleEdit : undefined}
+        onDelete={canEdit ? handleDelete : undefined}
+        rowActions={[
+          {
+            label: 'Try it',
+            icon: <FlaskConical className="h-4 w-4" />,
+            onSelect: setTryingQuestion,
+          },
+        ]}
       />
 
       <FormModal
@@ -482,6 +641,25 @@ export function QuestionsPage() {
           )}
         </div>
       </FormModal>
+
+      <QuestionImportModal
+        open={isImportOpen}
+        quiz={currentQuiz}
+        existingQuestionCount={questions.length}
+        onClose={() => setIsImportOpen(false)}
+        onImport={handleImportQuestions}
+        isImporting={isImporting}
+      />
+
+      <QuestionTryOutModal open={Boolean(tryingQuestion)} question={tryingQuestion} onClose={() => setTryingQuestion(null)} />
+
+      <QuizHistoryModal
+        open={isHistoryOpen}
+        quiz={currentQuiz}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestore={canEdit ? handleRestoreVersion : undefined}
+        isRestoring={isRestoringVersion}
+      />
     </div>
   )
 }
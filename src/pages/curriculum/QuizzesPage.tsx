@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { ChevronRight } from 'lucide-react'
+import { ChevronRight, History, Send } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
+import { Timestamp } from 'firebase/firestore'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
@@ -11,34 +12,57 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
 import { FormModal } from '@/components/forms/FormModal'
+import { PublishScheduleFields } from '@/components/forms/PublishScheduleFields'
 import { PageLoader } from '@/components/feedback/PageLoader'
+import { ScheduleBadge } from '@/components/feedback/ScheduleBadge'
 import { quizSchema, type QuizFormValues } from '@/utils/schemas'
-import { quizTypeOptions } from '@/utils/constants'
-import { createQuizWithQuestions, updateQuizWithQuestions, deleteQuizWithQuestions, getQuizWithQuestions, getQuizzesForSection } from '@/services/quizBuilderService'
+import { compositionCriteriaOptions, quizTypeOptions } from '@/utils/constants'
+import { DEFAULT_COMPOSITION_RUBRIC } from '@shared/compositionRubric'
+import { TRASH_RETENTION_DAYS } from '@/services/trashService'
+import { createQuizWithQuestions, updateQuizWithQuestions, deleteQuizWithQuestions, getQuizWithQuestions, getQuizzesForSection, publishQuiz, updateQuizSchedule } from '@/services/quizBuilderService'
+import { getQuizIdsWithDraftChanges } from '@/services/quizDraftService'
 import { useCurriculumCache } from '@/context/CurriculumCacheContext'
-import type { Quiz } from '@/types/models'
+import type { CompositionRubric, Quiz } from '@/types/models'
 import { useAuth } from '@/context/AuthContext'
 import { useUI } from '@/context/UIContext'
 
 
+/**
+ * Rubric form values with one weight per criterion, in the order the form lists them
+ */
+function toRubricFormValues(rubric: CompositionRubric | undefined): CompositionRubric {
+  const source = rubric ?? DEFAULT_COMPOSITION_RUBRIC
+  return {
+    criteria: compositionCriteriaOptions.map((option) => ({
+      id: option.value,
+      weight: source.criteria.find((criterion) => criterion.id === option.value)?.weight ?? 0,
+    })),
+    passMark: source.passMark,
+  }
+}
+
 type QuizTableRow = Quiz & {
   gradeName: string
   unitTitle: string
   lessonTitle: string
   sectionTitle: string
   questionCount: number
+  hasUnpublishedChanges: boolean
   serialNumber: number
 }
 
 export function QuizzesPage() {
   const { gradeId, unitId, lessonId, sectionId } = useParams<{ gradeId: string; unitId: string; lessonId: string; sectionId: string }>()
   const navigate = useNavigate()
-  const { user } = useAuth()
+  const { user, can } = useAuth()
+  const canEdit = can('curriculum.edit')
+  const canPublish = can('curriculum.publish')
   const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
 
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingQuiz, setEditingQuiz] = useState<Quiz | null>(null)
   const [questionCounts, setQuestionCounts] = useState<Record<string, number>>({})
+  const [draftChangeIds, setDraftChangeIds] = useState<Set<string>>(new Set())
 
   const { grades, allUnits: cachedAllUnits, allLessons: cachedAllLessons, allSections: cachedAllSections, isLoading: cacheLoading, refreshQuizzes } = useCurriculumCache()
   
@@ -111,6 +135,25 @@ export function QuizzesPage() {
     setQuestionCounts(counts)
   }, [quizzes])
 
+  // Flag quizzes whose draft differs from what students currently see
+  useEffect(() => {
+    if (quizzes.length === 0) {
+      setDraftChangeIds(new Set())
+      return
+    }
+    let cancelled = false
+    getQuizIdsWithDraftChanges(quizzes as unknown as Array<{ id: string; gradeId?: string } & Record<string, unknown>>)
+      .then((ids) => {
+        if (!cancelled) setDraftChangeIds(ids)
+      })
+      .catch((error) => {
+        console.error('Failed to load quiz drafts', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [quizzes])
+
 
   const form = useForm<QuizFormValues>({
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -123,6 +166,7 @@ export function QuizzesPage() {
       title: '',
       quizType: 'fill-in',
       aiEvaluationPrompt: '',
+      compositionRubric: toRubricFormValues(undefined),
     },
   })
 
@@ -137,6 +181,9 @@ export function QuizzesPage() {
         title: editingQuiz.title,
         quizType: editingQuiz.quizType,
         aiEvaluationPrompt: editingQuiz.aiEvaluationPrompt || '',
+        compositionRubric: toRubricFormValues(editingQuiz.compositionRubric),
+        publishAt: editingQuiz.publishAt?.toDate(),
+        unpublishAt: editingQuiz.unpublishAt?.toDate(),
       })
     } else {
       form.reset({
@@ -147,6 +194,7 @@ export function QuizzesPage() {
         title: '',
         quizType: 'fill-in',
         aiEvaluationPrompt: '',
+        compositionRubric: toRubricFormValues(undefined),
       })
     }
   }, [editingQuiz, gradeId, unitId, lessonId, sectionId, form])
@@ -164,7 +212,7 @@ export function QuizzesPage() {
   const handleDelete = async (quiz: Quiz) => {
     const confirmed = await confirmAction({
       title: 'Delete quiz?',
-      description: `Are you sure you want to delete "${quiz.title}"?`,
+      description: `"${quiz.title}" and its questions will move to the Trash. You can restore them for ${TRASH_RETENTION_DAYS} days.`,
       confirmLabel: 'Delete',
       danger: true,
     })
@@ -182,13 +230,28 @@ export function QuizzesPage() {
       setQuizzes((prev) => prev.filter((q) => q.id !== quiz.id))
       setQuizzesRefreshKey((k) => k + 1)
       refreshQuizzes() // Refresh cache
-      notifySuccess('Quiz deleted successfully')
+      notifySuccess('Quiz moved to Trash')
     } catch (error) {
       notifyError('Unable to delete quiz', error instanceof Error ? error.message : undefined)
     }
   }
 
 
+  const handlePublish = async (quiz: QuizTableRow) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      await publishQuiz(quiz.gradeId, quiz.unitId, quiz.lessonId, quiz.sectionId, quiz.id, user.uid)
+      setQuizzesRefreshKey((k) => k + 1)
+      refreshQuizzes() // Refresh cache
+      notifySuccess('Quiz published', quiz.title)
+    } catch (error) {
+      notifyError('Unable to publish quiz', error instanceof Error ? error.message : undefined)
+    }
+  }
+
   const onSubmit = form.handleSubmit(async (values) => {
     if (!user?.uid) {
       notifyError('Missing admin session', 'Please sign in again.')
@@ -243,6 +306,9 @@ export function QuizzesPage() {
             title: values.title,
             quizType: values.quizType,
             aiEvaluationPrompt: values.aiEvaluationPrompt?.trim() || undefined,
+            ...(values.quizType === 'composition' && values.compositionRubric
+              ? { compositionRubric: values.compositionRubric }
+              : {}),
           },
           result?.questions.map((q) => ({
             ...q,
@@ -250,7 +316,25 @@ export function QuizzesPage() {
           })) || [],
           user.uid,
         )
-        notifySuccess('Quiz updated successfully')
+
+        // The schedule lives on the published document, not in the draft
+        const publishAt = values.publishAt ? Timestamp.fromDate(values.publishAt) : null
+        const unpublishAt = values.unpublishAt ? Timestamp.fromDate(values.unpublishAt) : null
+        const scheduleChanged =
+          (publishAt?.toMillis() ?? null) !== (editingQuiz.publishAt?.toMillis() ?? null) ||
+          (unpublishAt?.toMillis() ?? null) !== (editingQuiz.unpublishAt?.toMillis() ?? null)
+        if (scheduleChanged && canPublish) {
+          await updateQuizSchedule(
+            editingQuiz.gradeId,
+            editingQuiz.unitId,
+            editingQuiz.lessonId,
+            editingQuiz.sectionId,
+            editingQuiz.id,
+            { publishAt, unpublishAt },
+            user.uid,
+          )
+        }
+        notifySuccess('Quiz draft updated', 'Publish the quiz to make the changes live.')
         refreshQuizzes() // Refresh cache
         
         // Reload quizzes for the current section
@@ -290,6 +374,11 @@ export function QuizzesPage() {
             title: values.title,
             quizType: values.quizType,
             aiEvaluationPrompt: values.aiEvaluationPrompt?.trim() || undefined,
+            ...(values.quizType === 'composition' && values.compositionRubric
+              ? { compositionRubric: values.compositionRubric }
+              : {}),
+            publishAt: values.publishAt ? Timestamp.fromDate(values.publishAt) : null,
+            unpublishAt: values.unpublishAt ? Timestamp.fromDate(values.unpublishAt) : null,
           } as Omit<Quiz, 'id' | 'createdAt' | 'updatedAt'>,
           [], // Start with no questions
           user.uid,
@@ -336,6 +425,7 @@ export function QuizzesPage() {
           lessonTitle: lessonMap.get(quiz.lessonId) ?? '—',
           sectionTitle: sectionMap.get(quiz.sectionId) ?? '—',
           questionCount: questionCounts[quiz.id] ?? 0,
+          hasUnpublishedChanges: draftChangeIds.has(quiz.id),
         }
       })
       .sort((a, b) => {
@@ -386,6 +476,17 @@ export function QuizzesPage() {
       align: 'center',
       render: (row) => <span className="font-semibold text-foreground">{row.questionCount}</span>,
     },
+    {
+      key: 'isPublished',
+      header: 'Status',
+      render: (row) => (
+        <div className="flex flex-wrap gap-1">
+          <Badge variant={row.isPublished ? 'default' : 'outline'}>{row.isPublished ? 'Published' : 'Not published'}</Badge>
+          {row.hasUnpublishedChanges && <Badge variant="secondary">Unpublished changes</Badge>}
+          <ScheduleBadge publishAt={row.publishAt} unpublishAt={row.unpublishAt} />
+        </div>
+      ),
+    },
   ]
 
 
@@ -433,9 +534,11 @@ export function QuizzesPage() {
           </h2>
           <p className="text-sm text-muted-foreground">Design assessments that reinforce mastery and provide feedback.</p>
         </div>
-        <Button onClick={handleOpenNew} className="rounded-full px-6">
-          Add Quiz
-        </Button>
+        {canEdit && (
+          <Button onClick={handleOpenNew} className="rounded-full px-6">
+            Add Quiz
+          </Button>
+        )}
       </div>
 
       <DataTable
@@ -443,9 +546,22 @@ export function QuizzesPage() {
         columns={columns}
         isLoading={isLoading}
         emptyMessage="No quizzes yet. Create a quiz to start building assessments."
-        onEdit={handleEdit}
-        onDelete={handleDelete}
+        onEdit={canEdit ? handleEdit : undefined}
+        onDelete={canEdit ? handleDelete : undefined}
         onRowClick={(quiz) => navigate(`/curriculum/${gradeId}/${unitId}/${lessonId}/${sectionId}/${quiz.id}/questions`)}
+        rowActions={[
+          {
+            label: 'Publish',
+            icon: <Send className="h-4 w-4" />,
+            onSelect: handlePublish,
+            hidden: (quiz) => !canPublish || (quiz.isPublished && !quiz.hasUnpublishedChanges),
+          },
+          {
+            label: 'Activity',
+            icon: <History className="h-4 w-4" />,
+            onSelect: (quiz) => navigate(`/activity?entity=quizzes&entityId=${quiz.id}`),
+          },
+        ]}
       />
 
 
@@ -516,13 +632,70 @@ export function QuizzesPage() {
                       />
                     </FormControl>
                     <p className="text-xs text-muted-foreground">
-                      Provide additional instructions for the AI evaluator. These will be combined with the default evaluation criteria.
+                      Provide additional instructions for the AI evaluator. These will be combined with the rubric below.
                     </p>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             )}
+            {form.watch('quizType') === 'composition' && (
+              <div className="space-y-3 rounded-md border p-3">
+                <div>
+                  <p className="text-sm font-medium">Grading rubric</p>
+                  <p className="text-xs text-muted-foreground">
+                    Each criterion is scored 0-5 by the AI and weighted into an overall percentage. Set a weight to 0 to skip a criterion.
+                  </p>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {compositionCriteriaOptions.map((option, index) => (
+                    <FormField
+                      key={option.value}
+                      name={`compositionRubric.criteria.${index}.weight`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{option.label} weight</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={field.value ?? 0}
+                              onChange={(event) => field.onChange(Number(event.target.value))}
+                            />
+                          </FormControl>
+                          <p className="text-xs text-muted-foreground">{option.description}</p>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+                {form.formState.errors.compositionRubric?.criteria?.message && (
+                  <p className="text-xs font-medium text-destructive">{form.formState.errors.compositionRubric.criteria.message}</p>
+                )}
+                <FormField
+                  name="compositionRubric.passMark"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pass mark (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={field.value ?? DEFAULT_COMPOSITION_RUBRIC.passMark}
+                          onChange={(event) => field.onChange(Number(event.target.value))}
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">Answers scoring at least this much count as correct.</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            <PublishScheduleFields itemLabel="quiz" disabled={!canPublish} />
           </form>
         </Form>
       </FormModal>
@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useState, useRef, useCallback } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { ChevronRight, Play, Upload, X, Loader2, Maximize2, Languages } from 'lucide-react'
+import { ChevronRight, Copy, FolderInput, Play, Upload, X, Loader2, Maximize2, Languages } from 'lucide-react'
 import { deleteField } from 'firebase/firestore'
 import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
@@ -10,9 +10,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
 import { FormModal } from '@/components/forms/FormModal'
+import { CurriculumTargetModal } from '@/components/forms/CurriculumTargetModal'
 import { PageLoader } from '@/components/feedback/PageLoader'
 import { sectionSchema, type SectionFormValues } from '@/utils/schemas'
 import { hierarchicalSectionService } from '@/services/hierarchicalServices'
+import { duplicateCurriculumNode, moveCurriculumNode } from '@/services/curriculumTreeService'
+import { TRASH_RETENTION_DAYS } from '@/services/trashService'
 import { useCurriculumCache } from '@/context/CurriculumCacheContext'
 import type { Section } from '@/types/models'
 import { useAuth } from '@/context/AuthContext'
@@ -25,10 +28,15 @@ type SectionTableRow = Section & { gradeName: string; unitTitle: string; lessonT
 export function SectionsPage() {
   const { gradeId, unitId, lessonId } = useParams<{ gradeId: string; unitId: string; lessonId: string }>()
   const navigate = useNavigate()
-  const { user } = useAuth()
+  const { user, can } = useAuth()
+  const canEdit = can('curriculum.edit')
   const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingSection, setEditingSection] = useState<Section | null>(null)
+  const [duplicatingSection, setDuplicatingSection] = useState<Section | null>(null)
+  const [isDuplicating, setIsDuplicating] = useState(false)
+  const [movingSection, setMovingSection] = useState<Section | null>(null)
+  const [isMoving, setIsMoving] = useState(false)
   const [uploadingImageIndex, setUploadingImageIndex] = useState<number | null>(null)
   const [fullImageUrl, setFullImageUrl] = useState<string | null>(null)
   const [translatingIndex, setTranslatingIndex] = useState<number | null>(null)
@@ -208,7 +216,7 @@ export function SectionsPage() {
   const handleDelete = async (section: Section) => {
     const confirmed = await confirmAction({
       title: 'Delete section?',
-      description: `Are you sure you want to delete "${section.title}"?`,
+      description: `"${section.title}" and its quizzes will move to the Trash. You can restore them for ${TRASH_RETENTION_DAYS} days.`,
       confirmLabel: 'Delete',
       danger: true,
     })
@@ -222,10 +230,10 @@ export function SectionsPage() {
         notifyError('Invalid section', 'Section missing required IDs')
         return
       }
-      await hierarchicalSectionService.remove(section.gradeId, section.unitId, section.lessonId, section.id)
+      await hierarchicalSectionService.remove(section.gradeId, section.unitId, section.lessonId, section.id, user.uid)
       setSections((prev) => prev.filter((s) => s.id !== section.id))
       refreshSections() // Refresh cache
-      notifySuccess('Section deleted successfully')
+      notifySuccess('Section moved to Trash')
     } catch (error) {
       notifyError('Unable to delete section', error instanceof Error ? error.message : undefined)
     }
@@ -308,6 +316,7 @@ export function SectionsPage() {
           editingSection.lessonId,
           editingSection.id,
           updateData as Partial<Omit<Section, 'id' | 'createdAt' | 'updatedAt'>>,
+          user.uid,
         )
         
         // Close modal and reset form
@@ -360,6 +369,50 @@ export function SectionsPage() {
   }
 
   // Wrapper that filters empty list items before validation, then uses handleSubmit for proper form state
+  const handleDuplicate = async (targetParentPath: string[]) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    if (!duplicatingSection) return
+
+    try {
+      setIsDuplicating(true)
+      const result = await duplicateCurriculumNode(
+        [duplicatingSection.gradeId, duplicatingSection.unitId, duplicatingSection.lessonId, duplicatingSection.id],
+        targetParentPath,
+        user.uid,
+      )
+      refreshSections() // Refresh cache
+      setDuplicatingSection(null)
+      notifySuccess(`Section "${result.rootTitle}" duplicated`, `${result.counts.quizzes} quizzes copied.`)
+    } catch (error) {
+      notifyError('Unable to duplicate section', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
+  const handleMove = async (targetParentPath: string[]) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    if (!movingSection) return
+
+    try {
+      setIsMoving(true)
+      const result = await moveCurriculumNode([movingSection.gradeId, movingSection.unitId, movingSection.lessonId, movingSection.id], targetParentPath, user.uid)
+      refreshSections() // Refresh cache
+      setMovingSection(null)
+      notifySuccess(`Section "${result.rootTitle}" moved`, `${result.counts.quizzes} quizzes moved with it.`)
+    } catch (error) {
+      notifyError('Unable to move section', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
   const onSubmit = async () => {
     // Get current form values
     const rawValues = form.getValues()
@@ -553,9 +606,11 @@ export function SectionsPage() {
           </h2>
           <p className="text-sm text-muted-foreground">Sections organize quiz experiences within each lesson.</p>
         </div>
-        <Button onClick={handleOpenNew} className="rounded-full px-6">
-          Add Section
-        </Button>
+        {canEdit && (
+          <Button onClick={handleOpenNew} className="rounded-full px-6">
+            Add Section
+          </Button>
+        )}
       </div>
 
       <DataTable
@@ -563,9 +618,38 @@ export function SectionsPage() {
         columns={columns}
         isLoading={isLoading}
         emptyMessage="No sections yet. Create a section to add quizzes for this lesson."
-        onEdit={handleEdit}
-        onDelete={handleDelete}
+        onEdit={canEdit ? handleEdit : undefined}
+        onDelete={canEdit ? handleDelete : undefined}
         onRowClick={(section) => navigate(`/curriculum/${gradeId}/${unitId}/${lessonId}/${section.id}/quizzes`)}
+        rowActions={[
+          { label: 'Duplicate to…', icon: <Copy className="h-4 w-4" />, onSelect: setDuplicatingSection, hidden: () => !canEdit },
+          { label: 'Move to…', icon: <FolderInput className="h-4 w-4" />, onSelect: setMovingSection, hidden: () => !canEdit },
+        ]}
+      />
+
+      <CurriculumTargetModal
+        open={Boolean(duplicatingSection)}
+        title={duplicatingSection ? `Duplicate ${duplicatingSection.title}` : 'Duplicate Section'}
+        description="Copies the section, its word lists and all quizzes into the selected lesson."
+        level="sections"
+        initialParentPath={[gradeId, unitId, lessonId]}
+        submitLabel="Duplicate"
+        isSubmitting={isDuplicating}
+        onClose={() => setDuplicatingSection(null)}
+        onSubmit={handleDuplicate}
+      />
+
+      <CurriculumTargetModal
+        open={Boolean(movingSection)}
+        title={movingSection ? `Move ${movingSection.title}` : 'Move Section'}
+        description="Moves the section and all of its quizzes to another lesson."
+        level="sections"
+        initialParentPath={[gradeId, unitId, lessonId]}
+        disallowCurrentParent
+        submitLabel="Move"
+        isSubmitting={isMoving}
+        onClose={() => setMovingSection(null)}
+        onSubmit={handleMove}
       />
 
       <FormModal
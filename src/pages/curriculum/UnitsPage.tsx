@@ -1,18 +1,24 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { ChevronRight } from 'lucide-react'
+import { ChevronRight, Copy, FolderInput } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
+import { Timestamp } from 'firebase/firestore'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
 import { FormModal } from '@/components/forms/FormModal'
+import { CurriculumTargetModal } from '@/components/forms/CurriculumTargetModal'
+import { PublishScheduleFields } from '@/components/forms/PublishScheduleFields'
 import { PageLoader } from '@/components/feedback/PageLoader'
+import { ScheduleBadge } from '@/components/feedback/ScheduleBadge'
 import { unitSchema, type UnitFormValues } from '@/utils/schemas'
 import { gradeService } from '@/services/firebase'
 import { hierarchicalUnitService } from '@/services/hierarchicalServices'
+import { duplicateCurriculumNode, moveCurriculumNode } from '@/services/curriculumTreeService'
+import { TRASH_RETENTION_DAYS } from '@/services/trashService'
 import { useCurriculumCache } from '@/context/CurriculumCacheContext'
 import type { Unit } from '@/types/models'
 import { useAuth } from '@/context/AuthContext'
@@ -23,10 +29,16 @@ type UnitTableRow = Unit & { gradeName: string; lessonCount: number }
 export function UnitsPage() {
   const { gradeId } = useParams<{ gradeId: string }>()
   const navigate = useNavigate()
-  const { user } = useAuth()
+  const { user, can } = useAuth()
+  const canEdit = can('curriculum.edit')
+  const canPublish = can('curriculum.publish')
   const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingUnit, setEditingUnit] = useState<Unit | null>(null)
+  const [duplicatingUnit, setDuplicatingUnit] = useState<Unit | null>(null)
+  const [isDuplicating, setIsDuplicating] = useState(false)
+  const [movingUnit, setMovingUnit] = useState<Unit | null>(null)
+  const [isMoving, setIsMoving] = useState(false)
 
   const { grades, allLessons: cachedAllLessons, isLoading: cacheLoading, refreshUnits } = useCurriculumCache()
   
@@ -88,6 +100,8 @@ export function UnitsPage() {
         gradeId: editingUnit.gradeId,
         number: editingUnit.number,
         isPublished: editingUnit.isPublished ?? false,
+        publishAt: editingUnit.publishAt?.toDate(),
+        unpublishAt: editingUnit.unpublishAt?.toDate(),
       })
     } else {
       form.reset({
@@ -141,9 +155,14 @@ export function UnitsPage() {
     )
     
     try {
-      await hierarchicalUnitService.update(unit.gradeId, unit.id, {
-        isPublished: newPublishedState,
-      })
+      await hierarchicalUnitService.update(
+        unit.gradeId,
+        unit.id,
+        {
+          isPublished: newPublishedState,
+        },
+        user.uid,
+      )
       notifySuccess(newPublishedState ? 'Unit published' : 'Unit unpublished')
     } catch (error) {
       // Revert on error
@@ -157,7 +176,7 @@ export function UnitsPage() {
   const handleDelete = async (unit: Unit) => {
     const confirmed = await confirmAction({
       title: 'Delete unit?',
-      description: `Are you sure you want to delete Unit ${unit.number}?`,
+      description: `Unit ${unit.number} and all its lessons, sections and quizzes will move to the Trash. You can restore them for ${TRASH_RETENTION_DAYS} days.`,
       confirmLabel: 'Delete',
       danger: true,
     })
@@ -171,17 +190,60 @@ export function UnitsPage() {
         notifyError('Invalid unit', 'Unit missing gradeId')
         return
       }
-      await hierarchicalUnitService.remove(unit.gradeId, unit.id)
-      // Log action manually since hierarchical service doesn't do it
-      await gradeService.update(unit.gradeId, {}, user.uid, { action: 'delete_unit', unitId: unit.id })
+      await hierarchicalUnitService.remove(unit.gradeId, unit.id, user.uid)
       setUnits((prev) => prev.filter((u) => u.id !== unit.id))
       refreshUnits() // Refresh cache
-      notifySuccess('Unit deleted successfully')
+      notifySuccess('Unit moved to Trash')
     } catch (error) {
       notifyError('Unable to delete unit', error instanceof Error ? error.message : undefined)
     }
   }
 
+  const handleDuplicate = async (targetParentPath: string[]) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    if (!duplicatingUnit) return
+
+    try {
+      setIsDuplicating(true)
+      const result = await duplicateCurriculumNode([duplicatingUnit.gradeId, duplicatingUnit.id], targetParentPath, user.uid)
+      const targetGrade = grades.find((grade) => grade.id === targetParentPath[0])
+      refreshUnits() // Refresh cache
+      setDuplicatingUnit(null)
+      notifySuccess(
+        `Unit duplicated as ${result.rootTitle}`,
+        `${targetGrade?.name ?? 'Target grade'}: ${result.counts.lessons} lessons, ${result.counts.sections} sections, ${result.counts.quizzes} quizzes copied.`,
+      )
+    } catch (error) {
+      notifyError('Unable to duplicate unit', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
+  const handleMove = async (targetParentPath: string[]) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    if (!movingUnit) return
+
+    try {
+      setIsMoving(true)
+      const result = await moveCurriculumNode([movingUnit.gradeId, movingUnit.id], targetParentPath, user.uid)
+      const targetGrade = grades.find((grade) => grade.id === targetParentPath[0])
+      refreshUnits() // Refresh cache
+      setMovingUnit(null)
+      notifySuccess(`Unit moved to ${targetGrade?.name ?? 'the selected grade'}`, `${result.counts.quizzes} quizzes moved with it.`)
+    } catch (error) {
+      notifyError('Unable to move unit', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
   const onSubmit = form.handleSubmit(async (values) => {
     if (!user?.uid) {
       notifyError('Missing admin session', 'Please sign in again.')
@@ -213,10 +275,11 @@ export function UnitsPage() {
           {
             number: values.number,
             isPublished: values.isPublished,
+            publishAt: values.publishAt ? Timestamp.fromDate(values.publishAt) : null,
+            unpublishAt: values.unpublishAt ? Timestamp.fromDate(values.unpublishAt) : null,
           },
+          user.uid,
         )
-        // Log action
-        await gradeService.update(editingUnit.gradeId, {}, user.uid, { action: 'update_unit', unitId: editingUnit.id })
         notifySuccess('Unit updated successfully')
         refreshUnits() // Refresh cache
       } else {
@@ -224,6 +287,8 @@ export function UnitsPage() {
           gradeId: gradeId,
           number: values.number,
           isPublished: values.isPublished,
+          publishAt: values.publishAt ? Timestamp.fromDate(values.publishAt) : null,
+          unpublishAt: values.unpublishAt ? Timestamp.fromDate(values.unpublishAt) : null,
         })
         // Log action
         await gradeService.update(gradeId, {}, user.uid, { action: 'create_unit' })
@@ -255,13 +320,15 @@ export function UnitsPage() {
       header: 'Published',
       align: 'center',
       render: (row) => (
-        <div onClick={(e) => e.stopPropagation()}>
+        <div className="flex flex-col items-center gap-1" onClick={(e) => e.stopPropagation()}>
           <Switch 
             checked={row.isPublished ?? false} 
+            disabled={!canPublish}
             onCheckedChange={() => {
               handleTogglePublish(row)
             }}
           />
+          <ScheduleBadge publishAt={row.publishAt} unpublishAt={row.unpublishAt} />
         </div>
       ),
     },
@@ -299,9 +366,11 @@ export function UnitsPage() {
           </h2>
           <p className="text-sm text-muted-foreground">Group lessons into structured units for this grade.</p>
         </div>
-        <Button onClick={handleOpenNew} className="rounded-full px-6">
-          Add Unit
-        </Button>
+        {canEdit && (
+          <Button onClick={handleOpenNew} className="rounded-full px-6">
+            Add Unit
+          </Button>
+        )}
       </div>
 
       <DataTable
@@ -309,9 +378,38 @@ export function UnitsPage() {
         columns={columns}
         isLoading={isLoading}
         emptyMessage="No units yet. Start by adding a unit for this grade."
-        onEdit={handleEdit}
-        onDelete={handleDelete}
+        onEdit={canEdit ? handleEdit : undefined}
+        onDelete={canEdit ? handleDelete : undefined}
         onRowClick={(unit) => navigate(`/curriculum/${gradeId}/${unit.id}/lessons`)}
+        rowActions={[
+          { label: 'Duplicate to…', icon: <Copy className="h-4 w-4" />, onSelect: setDuplicatingUnit, hidden: () => !canEdit },
+          { label: 'Move to…', icon: <FolderInput className="h-4 w-4" />, onSelect: setMovingUnit, hidden: () => !canEdit },
+        ]}
+      />
+
+      <CurriculumTargetModal
+        open={Boolean(duplicatingUnit)}
+        title={duplicatingUnit ? `Duplicate Unit ${duplicatingUnit.number}` : 'Duplicate Unit'}
+        description="Copies the unit with all lessons, sections and quizzes. The copy starts unpublished."
+        level="units"
+        initialParentPath={[gradeId]}
+        submitLabel="Duplicate"
+        isSubmitting={isDuplicating}
+        onClose={() => setDuplicatingUnit(null)}
+        onSubmit={handleDuplicate}
+      />
+
+      <CurriculumTargetModal
+        open={Boolean(movingUnit)}
+        title={movingUnit ? `Move Unit ${movingUnit.number}` : 'Move Unit'}
+        description="Moves the unit with all lessons, sections and quizzes to another grade. The unit number is bumped if it is taken."
+        level="units"
+        initialParentPath={[gradeId]}
+        disallowCurrentParent
+        submitLabel="Move"
+        isSubmitting={isMoving}
+        onClose={() => setMovingUnit(null)}
+        onSubmit={handleMove}
       />
 
       <FormModal
@@ -351,11 +449,12 @@ export function UnitsPage() {
                     <p className="text-xs text-muted-foreground">Only published units appear to students.</p>
                   </div>
                   <FormControl>
-                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    <Switch checked={field.value} disabled={!canPublish} onCheckedChange={field.onChange} />
                   </FormControl>
                 </FormItem>
               )}
             />
+            <PublishScheduleFields itemLabel="unit" disabled={!canPublish} />
           </form>
         </Form>
       </FormModal>
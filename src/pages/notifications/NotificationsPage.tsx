@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useForm } from 'react-hook-form'
 import { BellRing, CalendarClock, Inbox, SendHorizonal } from 'lucide-react'
@@ -12,18 +12,22 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
 import { FormModal } from '@/components/forms/FormModal'
+import { NotificationAudienceFields } from '@/components/forms/NotificationAudienceFields'
 import { StatsCard } from '@/components/feedback/StatsCard'
 import { useCollection } from '@/hooks/useCollection'
 import { useUI } from '@/context/UIContext'
 import { useAuth } from '@/context/AuthContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
 import {
   cancelNotification,
+  classService,
   notificationService,
   scheduleNotification,
   sendNotification,
 } from '@/services/firebase'
+import { previewNotificationAudience, toNotificationAudience } from '@/services/notificationAudienceService'
 import { Timestamp } from 'firebase/firestore'
-import type { Notification } from '@/types/models'
+import type { Classroom, Notification } from '@/types/models'
 import {
   notificationAudienceOptions,
   notificationChannelOptions,
@@ -43,6 +47,11 @@ const DEFAULT_VALUES: NotificationFormValues = {
   message: '',
   audienceType: 'all',
   audienceValue: '',
+  studentIds: [],
+  filterClassId: undefined,
+  inactiveDays: undefined,
+  lowAccuracyUnitId: undefined,
+  maxAccuracy: undefined,
   channels: ['in-app'],
   deliveryStatus: 'draft',
   scheduledAt: undefined,
@@ -72,6 +81,8 @@ export function NotificationsPage() {
   const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
   const { user } = useAuth()
   const { data: notifications, isLoading } = useCollection<Notification>(notificationService.listen)
+  const { data: classes } = useCollection<Classroom>(classService.listen)
+  const { grades, allUnits, allLessons } = useCurriculumCache()
 
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingNotification, setEditingNotification] = useState<Notification | null>(null)
@@ -101,6 +112,11 @@ export function NotificationsPage() {
       message: editingNotification.message,
       audienceType: editingNotification.audienceType,
       audienceValue: editingNotification.audienceValue ?? '',
+      studentIds: editingNotification.audienceFilters?.studentIds ?? [],
+      filterClassId: editingNotification.audienceFilters?.classId,
+      inactiveDays: editingNotification.audienceFilters?.inactiveDays,
+      lowAccuracyUnitId: editingNotification.audienceFilters?.lowAccuracyUnitId,
+      maxAccuracy: editingNotification.audienceFilters?.maxAccuracy,
       channels: editingNotification.channels ?? ['in-app'],
       deliveryStatus: editingNotification.deliveryStatus ?? 'draft',
       scheduledAt: toDate(editingNotification.scheduledAt),
@@ -113,6 +129,42 @@ export function NotificationsPage() {
     [notifications],
   )
 
+  const describeAudience = useCallback(
+    (notification: Notification) => {
+      const value = notification.audienceValue ?? ''
+      let label: string
+      switch (notification.audienceType) {
+        case 'grade':
+          label = grades.find((grade) => grade.id === value)?.name ?? 'Deleted grade'
+          break
+        case 'unit': {
+          const unit = allUnits.find((item) => item.id === value)
+          label = unit ? `Unit ${unit.number}` : 'Deleted unit'
+          break
+        }
+        case 'lesson':
+          label = allLessons.find((lesson) => lesson.id === value)?.title ?? 'Deleted lesson'
+          break
+        case 'class':
+          label = classes.find((classroom) => classroom.id === value)?.name ?? 'Deleted class'
+          break
+        case 'students': {
+          const count = notification.audienceFilters?.studentIds?.length ?? 0
+          label = `${count} student${count === 1 ? '' : 's'}`
+          break
+        }
+        default:
+          label =
+            notificationAudienceOptions.find((option) => option.value === notification.audienceType)?.label ??
+            notification.audienceType
+      }
+      const filters = notification.audienceFilters
+      const filterCount = [filters?.classId, filters?.inactiveDays, filters?.lowAccuracyUnitId].filter(Boolean).length
+      return filterCount > 0 ? `${label} + ${filterCount} filter${filterCount === 1 ? '' : 's'}` : label
+    },
+    [grades, allUnits, allLessons, classes],
+  )
+
   const rows = useMemo<NotificationTableRow[]>(
     () =>
       activeNotifications
@@ -120,14 +172,12 @@ export function NotificationsPage() {
         .sort((a, b) => (b.createdAt?.toMillis?.() ?? 0) - (a.createdAt?.toMillis?.() ?? 0))
         .map((notification) => ({
           ...notification,
-          audienceLabel:
-            notificationAudienceOptions.find((option) => option.value === notification.audienceType)?.label ??
-            notification.audienceType,
+          audienceLabel: describeAudience(notification),
           channelLabels: notification.channels?.map(
             (channel) => notificationChannelOptions.find((option) => option.value === channel)?.label ?? channel,
           ) ?? [],
         })),
-    [activeNotifications],
+    [activeNotifications, describeAudience],
   )
 
   const summary = useMemo(() => {
@@ -177,9 +227,13 @@ export function NotificationsPage() {
       notifyError('Missing admin session', 'Please sign in again.')
       return
     }
+    // The count is only shown when it can be worked out; sending does not depend on it
+    const recipients = await previewNotificationAudience(notification).catch(() => null)
     const confirmed = await confirmAction({
       title: 'Send notification now?',
-      description: `This will immediately deliver “${notification.title}” to the selected audience.`,
+      description: recipients
+        ? `This will immediately deliver “${notification.title}” to ${recipients.students} student${recipients.students === 1 ? '' : 's'}.`
+        : `This will immediately deliver “${notification.title}” to the selected audience.`,
       confirmLabel: 'Send now',
     })
     if (!confirmed) return
@@ -227,8 +281,7 @@ export function NotificationsPage() {
       const basePayload = {
         title: values.title,
         message: values.message,
-        audienceType: values.audienceType,
-        audienceValue: values.audienceType === 'all' ? '' : values.audienceValue?.trim() ?? '',
+        ...toNotificationAudience(values),
         channels: values.channels,
         deliveryStatus: values.deliveryStatus,
         scheduledAt: values.scheduledAt ? Timestamp.fromDate(values.scheduledAt) : null,
@@ -492,56 +545,7 @@ export function NotificationsPage() {
               )}
             />
 
-            <div className="grid gap-4 sm:grid-cols-2">
-              <FormField
-                control={form.control}
-                name="audienceType"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Audience</FormLabel>
-                    <Select
-                      value={field.value}
-                      onValueChange={(value) => {
-                        field.onChange(value)
-                        if (value === 'all') {
-                          form.setValue('audienceValue', '')
-                        }
-                      }}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select audience" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {notificationAudienceOptions.map((option) => (
-                          <SelectItem key={option.value} value={option.value}>
-                            {option.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {form.watch('audienceType') !== 'all' && (
-                <FormField
-                  control={form.control}
-                  name="audienceValue"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Audience filter</FormLabel>
-                      <FormControl>
-                        <Input placeholder="e.g., Grade 5" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              )}
-            </div>
+            <NotificationAudienceFields form={form} classes={classes} />
 
             {renderChannelSelection}
 
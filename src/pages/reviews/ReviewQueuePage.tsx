@@ -0,0 +1,397 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { where } from 'firebase/firestore'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { FormModal } from '@/components/forms/FormModal'
+import { compositionAgreementService, compositionSubmissionService } from '@/services/firebase'
+import { reviewCompositionSubmission } from '@/services/compositionReviewService'
+import type { CompositionAgreement, CompositionReviewStatus, CompositionSubmission } from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { compositionBandLabels, compositionCriteriaOptions } from '@/utils/constants'
+import { formatDateTime } from '@/utils/formatters'
+
+const ALL = 'all'
+
+const statusOptions: Array<{ value: CompositionReviewStatus; label: string }> = [
+  { value: 'pending', label: 'Waiting for review' },
+  { value: 'accepted', label: 'AI grade accepted' },
+  { value: 'overridden', label: 'Overridden' },
+]
+
+const statusVariants: Record<CompositionReviewStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'outline',
+  accepted: 'secondary',
+  overridden: 'default',
+}
+
+const criterionLabels = new Map<string, string>(compositionCriteriaOptions.map((option) => [option.value, option.label]))
+
+type AgreementRow = CompositionAgreement & { quizLabel: string; agreementPercent: number; averageDifference: number }
+
+function ScoreBadge({ score, isCorrect }: { score: number; isCorrect: boolean }) {
+  return <Badge variant={isCorrect ? 'default' : 'destructive'}>{score}%</Badge>
+}
+
+function AiGradeDetails({ submission }: { submission: CompositionSubmission }) {
+  const grade = submission.aiGrade
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <p className="text-xs font-medium uppercase text-muted-foreground">Question</p>
+        <p className="text-sm text-foreground">{submission.questionPrompt}</p>
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs font-medium uppercase text-muted-foreground">Student answer</p>
+        <p className="whitespace-pre-wrap rounded-md border bg-muted/40 p-3 text-sm text-foreground">{submission.studentAnswer}</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-foreground">AI grade</span>
+        <ScoreBadge score={grade.overallScore} isCorrect={grade.isCorrect} />
+        <Badge variant="outline">{compositionBandLabels[grade.band] ?? grade.band}</Badge>
+        <span className="text-xs text-muted-foreground">
+          Pass mark {submission.passMark}% · {submission.provider}
+        </span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-40">Criterion</TableHead>
+            <TableHead className="w-20 text-right">Score</TableHead>
+            <TableHead>Comment</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {grade.criteria.map((criterion) => (
+            <TableRow key={criterion.id}>
+              <TableCell className="align-top text-sm font-medium">
+                {criterionLabels.get(criterion.id) ?? criterion.id}
+                <span className="block text-xs font-normal text-muted-foreground">Weight {criterion.weight}</span>
+              </TableCell>
+              <TableCell className="align-top text-right text-sm">
+                {criterion.score}/{criterion.maxScore}
+              </TableCell>
+              <TableCell className="whitespace-normal align-top text-sm text-muted-foreground">{criterion.comment || '—'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {grade.feedback && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium uppercase text-muted-foreground">AI feedback</p>
+          <p className="text-sm text-foreground">{grade.feedback}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ReviewQueuePage() {
+  const { user } = useAuth()
+  const { setPageTitle, notifySuccess, notifyError } = useUI()
+  const { allQuizzes } = useCurriculumCache()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [reviewing, setReviewing] = useState<CompositionSubmission | null>(null)
+  const [score, setScore] = useState(0)
+  const [teacherFeedback, setTeacherFeedback] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const statusFilter = searchParams.get('status') ?? 'pending'
+  const submissionParam = searchParams.get('submission')
+
+  const constraints = useMemo(
+    () => (statusFilter === ALL ? undefined : [where('reviewStatus', '==', statusFilter)]),
+    [statusFilter],
+  )
+  const { data: submissions, isLoading } = useCollection<CompositionSubmission>(compositionSubmissionService.listen, constraints)
+  const { data: agreements, isLoading: agreementsLoading } = useCollection<CompositionAgreement>(compositionAgreementService.listen)
+
+  useEffect(() => {
+    setPageTitle('Review Queue')
+  }, [setPageTitle])
+
+  const quizMap = useMemo(() => new Map(allQuizzes.map((quiz) => [quiz.id, quiz.title])), [allQuizzes])
+
+  // Oldest first, so the queue is worked through in the order students submitted
+  const rows = useMemo(
+    () => [...submissions].sort((a, b) => (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0)),
+    [submissions],
+  )
+
+  const agreementRows = useMemo<AgreementRow[]>(
+    () =>
+      agreements
+        .filter((item) => item.reviewed > 0)
+        .map((item) => ({
+          ...item,
+          quizLabel: quizMap.get(item.id) ?? item.id,
+          agreementPercent: Math.round((item.agreed / item.reviewed) * 100),
+          averageDifference: Math.round(item.totalScoreDifference / item.reviewed),
+        }))
+        .sort((a, b) => a.agreementPercent - b.agreementPercent),
+    [agreements, quizMap],
+  )
+
+  const openReview = useCallback((submission: CompositionSubmission) => {
+    setReviewing(submission)
+    setScore(submission.finalScore ?? submission.aiGrade.overallScore)
+    setTeacherFeedback(submission.teacherFeedback ?? '')
+  }, [])
+
+  // Links from the activity log and student pages open one submission
+  useEffect(() => {
+    if (!submissionParam) return
+    const submission = submissions.find((item) => item.id === submissionParam)
+    if (submission) openReview(submission)
+  }, [submissionParam, submissions, openReview])
+
+  const closeReview = () => {
+    setReviewing(null)
+    if (submissionParam) {
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev)
+        next.delete('submission')
+        return next
+      })
+    }
+  }
+
+  const updateStatusFilter = (value: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev)
+      if (value === 'pending') next.delete('status')
+      else next.set('status', value)
+      return next
+    })
+  }
+
+  const handleReview = async (decision: 'accept' | 'override') => {
+    if (!reviewing) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      setIsSubmitting(true)
+      await reviewCompositionSubmission(
+        reviewing,
+        decision === 'accept' ? { decision, teacherFeedback } : { decision, score, teacherFeedback },
+        user.uid,
+      )
+      notifySuccess(decision === 'accept' ? 'AI grade accepted' : 'Grade overridden')
+      closeReview()
+    } catch (error) {
+      notifyError('Unable to save review', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const columns: Array<DataTableColumn<CompositionSubmission>> = [
+    {
+      key: 'createdAt',
+      header: 'Submitted',
+      render: (row) => <span className="whitespace-nowrap text-sm text-muted-foreground">{formatDateTime(row.createdAt)}</span>,
+    },
+    {
+      key: 'studentName',
+      header: 'Student',
+      render: (row) => <p className="text-sm font-medium text-foreground">{row.studentName || row.userId}</p>,
+    },
+    {
+      key: 'quizId',
+      header: 'Question',
+      render: (row) => (
+        <div>
+          <p className="text-sm font-medium text-foreground">{quizMap.get(row.quizId) ?? row.quizId}</p>
+          <p className="text-xs text-muted-foreground line-clamp-1">{row.questionPrompt}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'aiGrade',
+      header: 'AI grade',
+      align: 'right',
+      render: (row) => <ScoreBadge score={row.aiGrade.overallScore} isCorrect={row.aiGrade.isCorrect} />,
+    },
+    {
+      key: 'finalScore',
+      header: 'Final',
+      align: 'right',
+      render: (row) =>
+        typeof row.finalScore === 'number' ? (
+          <ScoreBadge score={row.finalScore} isCorrect={Boolean(row.finalIsCorrect)} />
+        ) : (
+          <span className="text-sm text-muted-foreground">—</span>
+        ),
+    },
+    {
+      key: 'reviewStatus',
+      header: 'Status',
+      render: (row) => (
+        <Badge variant={statusVariants[row.reviewStatus] ?? 'outline'}>
+          {statusOptions.find((option) => option.value === row.reviewStatus)?.label ?? row.reviewStatus}
+        </Badge>
+      ),
+    },
+  ]
+
+  const agreementColumns: Array<DataTableColumn<AgreementRow>> = [
+    {
+      key: 'quizLabel',
+      header: 'Quiz',
+      render: (row) => <p className="text-sm font-medium text-foreground">{row.quizLabel}</p>,
+    },
+    {
+      key: 'reviewed',
+      header: 'Reviewed',
+      align: 'right',
+      render: (row) => <span className="text-sm">{row.reviewed}</span>,
+    },
+    {
+      key: 'agreementPercent',
+      header: 'Same verdict',
+      align: 'right',
+      render: (row) => (
+        <Badge variant={row.agreementPercent >= 80 ? 'default' : row.agreementPercent >= 60 ? 'secondary' : 'destructive'}>
+          {row.agreementPercent}%
+        </Badge>
+      ),
+    },
+    {
+      key: 'averageDifference',
+      header: 'Avg. score difference',
+      align: 'right',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.averageDifference} points</span>,
+    },
+  ]
+
+  const isPending = reviewing?.reviewStatus === 'pending'
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">Review Queue</h2>
+          <p className="text-sm text-muted-foreground">
+            Compositions graded by AI. Accept the grade or override it; the final grade is what the student keeps.
+          </p>
+        </div>
+        <Select value={statusFilter} onValueChange={updateStatusFilter}>
+          <SelectTrigger className="w-full sm:w-52">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statusOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+            <SelectItem value={ALL}>All submissions</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DataTable
+        data={rows}
+        columns={columns}
+        isLoading={isLoading}
+        emptyMessage={statusFilter === 'pending' ? 'No compositions are waiting for review.' : 'No submissions found.'}
+        onRowClick={openReview}
+      />
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">AI Agreement by Quiz</CardTitle>
+          <CardDescription>
+            How often teachers reached the same pass/fail verdict as the AI. Low agreement suggests the quiz rubric or prompt needs work.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={agreementRows}
+            columns={agreementColumns}
+            isLoading={agreementsLoading}
+            emptyMessage="No reviewed compositions yet."
+          />
+        </CardContent>
+      </Card>
+
+      <FormModal
+        open={Boolean(reviewing)}
+        onClose={closeReview}
+        title={isPending ? 'Review composition' : 'Reviewed composition'}
+        description={reviewing ? `${reviewing.studentName || reviewing.userId} · ${formatDateTime(reviewing.createdAt)}` : undefined}
+        onSubmit={() => void handleReview('override')}
+        submitLabel="Save override"
+        isSubmitting={isSubmitting}
+        submitDisabled={!isPending || score === reviewing?.aiGrade.overallScore}
+        hideSubmitButton={!isPending}
+        secondaryAction={
+          isPending ? (
+            <Button type="button" variant="outline" disabled={isSubmitting} onClick={() => void handleReview('accept')}>
+              Accept AI grade
+            </Button>
+          ) : null
+        }
+        className="max-h-[90vh] overflow-y-auto sm:max-w-3xl"
+      >
+        {reviewing && (
+          <div className="space-y-6">
+            <AiGradeDetails submission={reviewing} />
+            {isPending ? (
+              <div className="grid gap-4 border-t pt-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="review-score">Teacher score (%)</Label>
+                  <Input
+                    id="review-score"
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-32"
+                    value={score}
+                    onChange={(event) => setScore(Number(event.target.value))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Change the score to override the AI. At least {reviewing.passMark}% counts as correct.
+                  </p>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="review-feedback">Feedback for the student (optional)</Label>
+                  <Textarea
+                    id="review-feedback"
+                    className="min-h-[80px] resize-none"
+                    placeholder="Replaces the AI feedback when filled in"
+                    value={teacherFeedback}
+                    onChange={(event) => setTeacherFeedback(event.target.value)}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2 border-t pt-4 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">Final grade</span>
+                  {typeof reviewing.finalScore === 'number' && (
+                    <ScoreBadge score={reviewing.finalScore} isCorrect={Boolean(reviewing.finalIsCorrect)} />
+                  )}
+                  <span className="text-xs text-muted-foreground">Reviewed {formatDateTime(reviewing.reviewedAt)}</span>
+                </div>
+                {reviewing.teacherFeedback && <p className="text-foreground">{reviewing.teacherFeedback}</p>}
+              </div>
+            )}
+          </div>
+        )}
+      </FormModal>
+    </div>
+  )
+}
@@ -1,7 +1,10 @@
 import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Users } from 'lucide-react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
@@ -9,9 +12,10 @@ import { adminSettingsSchema, type AdminSettingsFormValues } from '@/utils/schem
 import { useAuth } from '@/context/AuthContext'
 import { useUI } from '@/context/UIContext'
 import { fetchLatestAdminProfile, saveAdminProfile } from '@/services/firebase'
+import { staffRoleOptions } from '@/utils/constants'
 
 export function SettingsPage() {
-  const { user, resetPassword } = useAuth()
+  const { user, role, can, resetPassword } = useAuth()
   const { setPageTitle, notifyError, notifySuccess } = useUI()
   const [isLoading, setIsLoading] = useState(false)
 
@@ -92,7 +96,10 @@ export function SettingsPage() {
     <div className="space-y-6">
       <Card className="border-none shadow-sm">
         <CardHeader>
-          <CardTitle className="text-xl font-semibold">Admin Profile</CardTitle>
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-xl font-semibold">Admin Profile</CardTitle>
+            {role && <Badge variant="secondary">{staffRoleOptions.find((option) => option.value === role)?.label}</Badge>}
+          </div>
           <CardDescription>Update your contact details and preferences.</CardDescription>
         </CardHeader>
         <CardContent>
@@ -138,8 +145,23 @@ export function SettingsPage() {
           </Form>
         </CardContent>
       </Card>
+
+      {can('staff.manage') && (
+        <Card className="border-none shadow-sm">
+          <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <CardTitle className="text-xl font-semibold">Staff & Roles</CardTitle>
+              <CardDescription>Invite teachers and choose what each of them can change.</CardDescription>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/settings/staff">
+                <Users className="mr-2 h-4 w-4" />
+                Manage Staff
+              </Link>
+            </Button>
+          </CardHeader>
+        </Card>
+      )}
     </div>
   )
 }
-
-
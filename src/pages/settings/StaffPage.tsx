@@ -0,0 +1,402 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import { ArrowLeft, GraduationCap, UserCheck, UserPlus, UserX } from 'lucide-react'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { FormModal } from '@/components/forms/FormModal'
+import { staffService } from '@/services/firebase'
+import { inviteStaffMember, setStaffActive, updateStaffGradeScope, updateStaffRole } from '@/services/staffService'
+import type { Grade, StaffMember, StaffRole } from '@/types/models'
+import { useCollection } from '@/hooks/useCollection'
+import { staffRoleOptions } from '@/utils/constants'
+import { formatDateTime } from '@/utils/formatters'
+import { staffInviteSchema, type StaffInviteFormValues } from '@/utils/schemas'
+
+const roleLabels = new Map<string, string>(staffRoleOptions.map((option) => [option.value, option.label]))
+
+type GradeScopePickerProps = {
+  grades: Grade[]
+  value: string[]
+  onChange: (gradeIds: string[]) => void
+}
+
+// Nothing ticked means the staff member works on every grade
+function GradeScopePicker({ grades, value, onChange }: GradeScopePickerProps) {
+  return (
+    <div className="space-y-2">
+      <div className="max-h-56 space-y-1 overflow-y-auto rounded-xl border border-border p-2">
+        {grades.length === 0 ? (
+          <p className="p-2 text-sm text-muted-foreground">No grades yet.</p>
+        ) : (
+          grades.map((grade) => (
+            <label key={grade.id} className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-1.5 hover:bg-muted/50">
+              <Checkbox
+                checked={value.includes(grade.id)}
+                onCheckedChange={(checked) =>
+                  onChange(checked ? [...value, grade.id] : value.filter((gradeId) => gradeId !== grade.id))
+                }
+              />
+              <span className="text-sm text-foreground">{grade.name}</span>
+            </label>
+          ))
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {value.length === 0 ? 'No grades selected: access to every grade.' : `Limited to ${value.length} grade${value.length === 1 ? '' : 's'}.`}
+      </p>
+    </div>
+  )
+}
+
+export function StaffPage() {
+  const { user, staff: currentStaff } = useAuth()
+  const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
+  const { grades } = useCurriculumCache()
+  const { data: staff, isLoading } = useCollection<StaffMember>(staffService.listen)
+  const [isInviteOpen, setIsInviteOpen] = useState(false)
+  const [scopeMember, setScopeMember] = useState<StaffMember | null>(null)
+  const [scopeGradeIds, setScopeGradeIds] = useState<string[]>([])
+  const [isSavingScope, setIsSavingScope] = useState(false)
+
+  const form = useForm<StaffInviteFormValues>({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    resolver: zodResolver(staffInviteSchema) as any,
+    defaultValues: { email: '', name: '', role: 'editor', gradeIds: [] },
+  })
+
+  useEffect(() => {
+    setPageTitle('Staff & Roles')
+  }, [setPageTitle])
+
+  useEffect(() => {
+    if (isInviteOpen) form.reset({ email: '', name: '', role: 'editor', gradeIds: [] })
+  }, [isInviteOpen, form])
+
+  const rows = useMemo(
+    () =>
+      [...staff].sort(
+        (a, b) => Number(a.status === 'inactive') - Number(b.status === 'inactive') || a.name.localeCompare(b.name),
+      ),
+    [staff],
+  )
+  const gradeNames = useMemo(() => new Map(grades.map((grade) => [grade.id, grade.name])), [grades])
+  const activeOwnerCount = staff.filter((member) => member.role === 'owner' && member.status !== 'inactive').length
+
+  // The panel must always keep one active owner, and owners cannot lock themselves out
+  const isLockedMember = (member: StaffMember) =>
+    member.id === currentStaff?.id || (member.role === 'owner' && member.status !== 'inactive' && activeOwnerCount <= 1)
+
+  const handleRoleChange = async (member: StaffMember, role: StaffRole) => {
+    if (role === member.role) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      await updateStaffRole(member, role, user.uid)
+      notifySuccess('Role updated', `${member.name} is now ${roleLabels.get(role) ?? role}.`)
+    } catch (error) {
+      notifyError('Unable to update role', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const handleToggleActive = async (member: StaffMember) => {
+    const activate = member.status === 'inactive'
+    const confirmed = await confirmAction({
+      title: activate ? 'Reactivate staff member?' : 'Deactivate staff member?',
+      description: activate
+        ? `${member.name} will be able to sign in to the panel again.`
+        : `${member.name} will be signed out and can no longer access the panel. Their activity history is kept.`,
+      confirmLabel: activate ? 'Reactivate' : 'Deactivate',
+      danger: !activate,
+    })
+    if (!confirmed) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      await setStaffActive(member, activate, user.uid)
+      notifySuccess(activate ? 'Staff member reactivated' : 'Staff member deactivated')
+    } catch (error) {
+      notifyError('Unable to update staff member', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const handleOpenScope = (member: StaffMember) => {
+    setScopeMember(member)
+    setScopeGradeIds(member.gradeIds ?? [])
+  }
+
+  const handleSaveScope = async () => {
+    if (!scopeMember) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      setIsSavingScope(true)
+      await updateStaffGradeScope(scopeMember, scopeGradeIds, user.uid)
+      notifySuccess('Grade access updated', `Changes apply the next time ${scopeMember.name} signs in.`)
+      setScopeMember(null)
+    } catch (error) {
+      notifyError('Unable to update grade access', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsSavingScope(false)
+    }
+  }
+
+  const onSubmit = form.handleSubmit(async (values) => {
+    if (staff.some((member) => member.id === values.email.trim().toLowerCase())) {
+      notifyError('Already invited', `${values.email} already has a staff account.`)
+      return
+    }
+    try {
+      await inviteStaffMember({ ...values, gradeIds: values.role === 'owner' ? [] : values.gradeIds })
+      notifySuccess('Invitation sent', `${values.email} will receive an email to set their password.`)
+      setIsInviteOpen(false)
+    } catch (error) {
+      notifyError('Unable to invite staff member', error instanceof Error ? error.message : undefined)
+    }
+  })
+
+  const columns: Array<DataTableColumn<StaffMember>> = [
+    {
+      key: 'name',
+      header: 'Name',
+      render: (row) => (
+        <div>
+          <p className="font-semibold text-foreground">
+            {row.name}
+            {row.id === currentStaff?.id && <span className="ml-2 text-xs font-normal text-muted-foreground">(you)</span>}
+          </p>
+          <p className="text-xs text-muted-foreground">{row.email}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'role',
+      header: 'Role',
+      render: (row) => (
+        <div onClick={(event) => event.stopPropagation()}>
+          <Select
+            value={row.role}
+            onValueChange={(value) => void handleRoleChange(row, value as StaffRole)}
+            disabled={isLockedMember(row) || row.status === 'inactive'}
+          >
+            <SelectTrigger className="h-8 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {staffRoleOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ),
+    },
+    {
+      key: 'gradeIds',
+      header: 'Grades',
+      render: (row) =>
+        row.role === 'owner' || !row.gradeIds?.length ? (
+          <span className="text-sm text-muted-foreground">All grades</span>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {row.gradeIds.map((gradeId) => (
+              <Badge key={gradeId} variant="secondary">
+                {gradeNames.get(gradeId) ?? gradeId}
+              </Badge>
+            ))}
+          </div>
+        ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (row) =>
+        row.status === 'inactive' ? (
+          <Badge variant="secondary">Deactivated</Badge>
+        ) : row.lastSignInAt ? (
+          <Badge variant="outline">Active</Badge>
+        ) : (
+          <Badge variant="outline">Invited</Badge>
+        ),
+    },
+    {
+      key: 'lastSignInAt',
+      header: 'Last sign-in',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">{row.lastSignInAt ? formatDateTime(row.lastSignInAt) : '—'}</span>
+      ),
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3">
+        <Button variant="ghost" size="sm" className="w-fit gap-2 px-2" asChild>
+          <Link to="/settings">
+            <ArrowLeft className="h-4 w-4" />
+            Settings
+          </Link>
+        </Button>
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-foreground">Staff & Roles</h2>
+            <p className="text-sm text-muted-foreground">Invite teachers to the panel and decide what each of them can change.</p>
+          </div>
+          <Button className="rounded-full px-6" onClick={() => setIsInviteOpen(true)}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Invite Staff
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Roles</CardTitle>
+          <CardDescription>What each role can do.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+          {staffRoleOptions.map((option) => (
+            <div key={option.value} className="rounded-xl border border-border/60 p-3">
+              <p className="text-sm font-semibold text-foreground">{option.label}</p>
+              <p className="text-xs text-muted-foreground">{option.description}</p>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <DataTable
+        data={rows}
+        columns={columns}
+        isLoading={isLoading}
+        emptyMessage="No staff yet."
+        rowActions={[
+          {
+            label: 'Grade access',
+            icon: <GraduationCap className="h-4 w-4" />,
+            onSelect: handleOpenScope,
+            hidden: (member) => member.role === 'owner' || member.status === 'inactive',
+          },
+          {
+            label: 'Deactivate',
+            icon: <UserX className="h-4 w-4" />,
+            onSelect: handleToggleActive,
+            hidden: (member) => member.status === 'inactive' || isLockedMember(member),
+          },
+          {
+            label: 'Reactivate',
+            icon: <UserCheck className="h-4 w-4" />,
+            onSelect: handleToggleActive,
+            hidden: (member) => member.status !== 'inactive',
+          },
+        ]}
+      />
+
+      <FormModal
+        open={isInviteOpen}
+        onClose={() => setIsInviteOpen(false)}
+        title="Invite Staff"
+        description="Creates a panel account and emails a link to set a password."
+        onSubmit={onSubmit}
+        submitLabel="Send Invite"
+        isSubmitting={form.formState.isSubmitting}
+      >
+        <Form {...form}>
+          <form className="space-y-4">
+            <FormField
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Huda Saleh" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="teacher@school.edu" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {staffRoleOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {staffRoleOptions.find((option) => option.value === field.value)?.description}
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {form.watch('role') !== 'owner' && (
+              <FormField
+                name="gradeIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Grades</FormLabel>
+                    <GradeScopePicker grades={grades} value={field.value ?? []} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </form>
+        </Form>
+      </FormModal>
+
+      <FormModal
+        open={Boolean(scopeMember)}
+        onClose={() => setScopeMember(null)}
+        title="Grade Access"
+        description={`Choose the grades ${scopeMember?.name ?? 'this staff member'} can see and change, including their students and classes.`}
+        onSubmit={() => void handleSaveScope()}
+        submitLabel="Save Access"
+        isSubmitting={isSavingScope}
+      >
+        <GradeScopePicker grades={grades} value={scopeGradeIds} onChange={setScopeGradeIds} />
+      </FormModal>
+    </div>
+  )
+}
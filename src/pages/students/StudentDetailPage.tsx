@@ -0,0 +1,433 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { where } from 'firebase/firestore'
+import { ArrowLeft, Clock, ListChecks, Target, Trophy } from 'lucide-react'
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { StatsCard } from '@/components/feedback/StatsCard'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import {
+  compositionSubmissionService,
+  fetchStudent,
+  fetchStudentCompetitionResults,
+  fetchStudentPracticeRecords,
+} from '@/services/firebase'
+import type { CompositionSubmission, PracticeAggregate, Student, StudentCompetitionResult } from '@/types/models'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { formatDateTime } from '@/utils/formatters'
+import { quizTypeOptions } from '@/utils/constants'
+import { buildAccuracyTrend, buildQuizTypeBreakdown, summarizePractice } from '@/utils/studentAnalytics'
+
+type PracticeRow = PracticeAggregate & {
+  gradeLabel: string
+  unitLabel: string
+  lessonLabel: string
+  quizLabel: string
+  accuracyPercent: number
+}
+
+type CompetitionRow = StudentCompetitionResult & { id: string; sectionLabel: string }
+
+type CompositionRow = CompositionSubmission & { quizLabel: string }
+
+const quizTypeLabels = new Map<string, string>(quizTypeOptions.map((option) => [option.value, option.label]))
+
+function accuracyVariant(accuracy: number) {
+  if (accuracy >= 80) return 'default' as const
+  if (accuracy >= 50) return 'secondary' as const
+  return 'destructive' as const
+}
+
+export function StudentDetailPage() {
+  const { studentId } = useParams()
+  const navigate = useNavigate()
+  const { can } = useAuth()
+  const { setPageTitle, notifyError } = useUI()
+  const { grades, allUnits, allLessons, allSections, allQuizzes } = useCurriculumCache()
+  const [student, setStudent] = useState<Student | null>(null)
+  const [records, setRecords] = useState<PracticeAggregate[]>([])
+  const [competitionResults, setCompetitionResults] = useState<StudentCompetitionResult[]>([])
+  const [compositions, setCompositions] = useState<CompositionSubmission[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    setPageTitle(student?.name ?? 'Student')
+  }, [setPageTitle, student?.name])
+
+  useEffect(() => {
+    if (!studentId) return
+    let cancelled = false
+    const load = async () => {
+      setIsLoading(true)
+      try {
+        const [studentData, practiceData, competitionData, compositionData] = await Promise.all([
+          fetchStudent(studentId),
+          fetchStudentPracticeRecords(studentId),
+          fetchStudentCompetitionResults(studentId),
+          compositionSubmissionService.getAll([where('userId', '==', studentId)]),
+        ])
+        if (cancelled) return
+        setStudent(studentData)
+        setRecords(practiceData)
+        setCompetitionResults(competitionData)
+        setCompositions(compositionData)
+      } catch (error) {
+        if (!cancelled) {
+          notifyError('Unable to load student', error instanceof Error ? error.message : undefined)
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+    void load()
+    return () => {
+      cancelled = true
+    }
+  }, [studentId, notifyError])
+
+  const summary = useMemo(() => summarizePractice(records), [records])
+  const trend = useMemo(() => buildAccuracyTrend(records), [records])
+  const quizTypeBreakdown = useMemo(() => buildQuizTypeBreakdown(records), [records])
+
+  const practiceRows = useMemo<PracticeRow[]>(() => {
+    const gradeMap = new Map(grades.map((grade) => [grade.id, grade.name]))
+    const unitMap = new Map(allUnits.map((unit) => [unit.id, `Unit ${unit.number}`]))
+    const lessonMap = new Map(allLessons.map((lesson) => [lesson.id, lesson.title]))
+    const quizMap = new Map(allQuizzes.map((quiz) => [quiz.id, quiz]))
+
+    return records
+      .map((record) => {
+        const quiz = record.quizId ? quizMap.get(record.quizId) : undefined
+        const gradeId = record.gradeId ?? quiz?.gradeId
+        const unitId = record.unitId ?? quiz?.unitId
+        const lessonId = record.lessonId ?? quiz?.lessonId
+        return {
+          ...record,
+          quizType: record.quizType ?? quiz?.quizType,
+          gradeLabel: (gradeId && gradeMap.get(gradeId)) || gradeId || '—',
+          unitLabel: (unitId && unitMap.get(unitId)) || unitId || '—',
+          lessonLabel: (lessonId && lessonMap.get(lessonId)) || lessonId || '—',
+          quizLabel: quiz?.title ?? record.quizId ?? '—',
+          accuracyPercent: record.attempts > 0 ? (record.correct / record.attempts) * 100 : 0,
+        }
+      })
+      .sort((a, b) =>
+        a.gradeLabel.localeCompare(b.gradeLabel) ||
+        a.unitLabel.localeCompare(b.unitLabel, undefined, { numeric: true }) ||
+        a.lessonLabel.localeCompare(b.lessonLabel) ||
+        a.quizLabel.localeCompare(b.quizLabel),
+      )
+  }, [records, grades, allUnits, allLessons, allQuizzes])
+
+  const competitionRows = useMemo<CompetitionRow[]>(() => {
+    const sectionMap = new Map(allSections.map((section) => [section.id, section.title]))
+    return competitionResults.map((result) => ({
+      ...result,
+      id: result.sectionId,
+      sectionLabel: sectionMap.get(result.sectionId) ?? result.sectionId,
+    }))
+  }, [competitionResults, allSections])
+
+  const compositionRows = useMemo<CompositionRow[]>(() => {
+    const quizMap = new Map(allQuizzes.map((quiz) => [quiz.id, quiz.title]))
+    return compositions
+      .map((submission) => ({ ...submission, quizLabel: quizMap.get(submission.quizId) ?? submission.quizId }))
+      .sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0))
+  }, [compositions, allQuizzes])
+
+  const practiceColumns: Array<DataTableColumn<PracticeRow>> = [
+    {
+      key: 'gradeLabel',
+      header: 'Grade',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.gradeLabel}</span>,
+    },
+    {
+      key: 'unitLabel',
+      header: 'Unit',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.unitLabel}</span>,
+    },
+    {
+      key: 'lessonLabel',
+      header: 'Lesson',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.lessonLabel}</span>,
+    },
+    {
+      key: 'quizLabel',
+      header: 'Quiz',
+      render: (row) => (
+        <div>
+          <p className="font-semibold text-foreground">{row.quizLabel}</p>
+          {row.quizType && (
+            <p className="text-xs text-muted-foreground">{quizTypeLabels.get(row.quizType) ?? row.quizType}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'attempts',
+      header: 'Attempts',
+      align: 'right',
+      render: (row) => (
+        <span className="text-sm">
+          {row.correct}/{row.attempts}
+        </span>
+      ),
+    },
+    {
+      key: 'accuracyPercent',
+      header: 'Accuracy',
+      align: 'right',
+      render: (row) => <Badge variant={accuracyVariant(row.accuracyPercent)}>{row.accuracyPercent.toFixed(1)}%</Badge>,
+    },
+    {
+      key: 'updatedAt',
+      header: 'Last activity',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">{row.updatedAt ? formatDateTime(row.updatedAt) : '—'}</span>
+      ),
+    },
+  ]
+
+  const competitionColumns: Array<DataTableColumn<CompetitionRow>> = [
+    {
+      key: 'sectionLabel',
+      header: 'Section',
+      render: (row) => <p className="font-semibold text-foreground">{row.sectionLabel}</p>,
+    },
+    {
+      key: 'rank',
+      header: 'Rank',
+      render: (row) => (
+        <span className="text-sm">
+          #{row.rank} <span className="text-muted-foreground">of {row.totalPlayers}</span>
+        </span>
+      ),
+    },
+    {
+      key: 'matches',
+      header: 'Matches',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">
+          {row.matches} played · {row.wins} won
+        </span>
+      ),
+    },
+    {
+      key: 'rating',
+      header: 'Rating',
+      align: 'right',
+      render: (row) => <span className="text-sm font-medium">{row.rating}</span>,
+    },
+    {
+      key: 'updatedAt',
+      header: 'Updated',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">{row.updatedAt ? formatDateTime(row.updatedAt) : '—'}</span>
+      ),
+    },
+  ]
+
+  const compositionColumns: Array<DataTableColumn<CompositionRow>> = [
+    {
+      key: 'quizLabel',
+      header: 'Quiz',
+      render: (row) => (
+        <div>
+          <p className="font-semibold text-foreground">{row.quizLabel}</p>
+          <p className="text-xs text-muted-foreground line-clamp-1">{row.questionPrompt}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'aiGrade',
+      header: 'AI grade',
+      align: 'right',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.aiGrade.overallScore}%</span>,
+    },
+    {
+      key: 'finalScore',
+      header: 'Final grade',
+      align: 'right',
+      render: (row) =>
+        typeof row.finalScore === 'number' ? (
+          <Badge variant={row.finalIsCorrect ? 'default' : 'destructive'}>{row.finalScore}%</Badge>
+        ) : (
+          <Badge variant="outline">Awaiting review</Badge>
+        ),
+    },
+    {
+      key: 'reviewStatus',
+      header: 'Review',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">
+          {row.reviewStatus === 'overridden' ? 'Overridden by teacher' : row.reviewStatus === 'accepted' ? 'AI grade accepted' : '—'}
+        </span>
+      ),
+    },
+    {
+      key: 'createdAt',
+      header: 'Submitted',
+      render: (row) => <span className="text-sm text-muted-foreground">{formatDateTime(row.createdAt)}</span>,
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3">
+        <Button variant="ghost" size="sm" className="w-fit gap-2 px-2" asChild>
+          <Link to="/students">
+            <ArrowLeft className="h-4 w-4" />
+            All students
+          </Link>
+        </Button>
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">{student?.name ?? (isLoading ? 'Loading…' : 'Unknown student')}</h2>
+          <p className="text-sm text-muted-foreground">
+            {student?.email || 'No email'}
+            {student?.createdAt && ` · Enrolled ${formatDateTime(student.createdAt)}`}
+          </p>
+        </div>
+      </div>
+
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        <StatsCard
+          title="Accuracy"
+          value={isLoading ? '—' : `${summary.accuracy}%`}
+          description={`${summary.correct} of ${summary.attempts} answers correct`}
+          icon={<Target className="h-8 w-8" />}
+        />
+        <StatsCard
+          title="Quizzes Practiced"
+          value={isLoading ? '—' : summary.quizzesPracticed.toString()}
+          description={`${summary.attempts} attempts in total`}
+          icon={<ListChecks className="h-8 w-8" />}
+        />
+        <StatsCard
+          title="Last Activity"
+          value={isLoading ? '—' : summary.lastActivityAt ? formatDateTime(summary.lastActivityAt) : 'Never'}
+          description="Most recent practice update"
+          icon={<Clock className="h-8 w-8" />}
+        />
+        <StatsCard
+          title="Competitions"
+          value={isLoading ? '—' : competitionResults.length.toString()}
+          description={
+            competitionResults.length > 0 ? `Best rank #${competitionResults[0].rank}` : 'No rated matches'
+          }
+          icon={<Trophy className="h-8 w-8" />}
+        />
+      </section>
+
+      <section className="grid gap-4 lg:grid-cols-3">
+        <Card className="border-none shadow-sm lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Accuracy Over Time</CardTitle>
+            <CardDescription>Accuracy of the quizzes practiced on each day.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {trend.length === 0 ? (
+              <div className="flex h-64 items-center justify-center text-sm text-muted-foreground">
+                {isLoading ? 'Loading…' : 'No practice activity yet.'}
+              </div>
+            ) : (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 100]} tick={{ fontSize: 12 }} unit="%" />
+                    <Tooltip
+                      formatter={(value) => [`${value}%`, 'Accuracy']}
+                      labelFormatter={(label) => String(label)}
+                    />
+                    <Line type="monotone" dataKey="accuracy" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 3 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-none shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Weakest Quiz Types</CardTitle>
+            <CardDescription>Lowest accuracy first.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {quizTypeBreakdown.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{isLoading ? 'Loading…' : 'No practice activity yet.'}</p>
+            ) : (
+              quizTypeBreakdown.map((item) => (
+                <div key={item.quizType} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-foreground">
+                      {item.quizType === 'unknown' ? 'Other' : quizTypeLabels.get(item.quizType) ?? item.quizType}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {item.accuracy}% · {item.attempts} attempts
+                    </span>
+                  </div>
+                  <div className="h-2 overflow-hidden rounded-full bg-muted">
+                    <div className="h-full rounded-full bg-primary" style={{ width: `${item.accuracy}%` }} />
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </section>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Practice by Quiz</CardTitle>
+          <CardDescription>Attempts and accuracy for every quiz, grouped by grade, unit and lesson.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={practiceRows}
+            columns={practiceColumns}
+            isLoading={isLoading}
+            emptyMessage="This student has not practiced any quizzes yet."
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Composition Grades</CardTitle>
+          <CardDescription>AI grades and the teacher review that settles them.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={compositionRows}
+            columns={compositionColumns}
+            isLoading={isLoading}
+            emptyMessage="No compositions submitted yet."
+            onRowClick={
+              can('grading.review') ? (row) => navigate(`/reviews?status=all&submission=${row.id}`) : undefined
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="border-none shadow-sm">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold">Competition Results</CardTitle>
+          <CardDescription>Ratings per section, ranked among the section’s rated players.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={competitionRows}
+            columns={competitionColumns}
+            isLoading={isLoading}
+            emptyMessage="No competition results yet."
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
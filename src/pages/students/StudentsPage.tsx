@@ -1,32 +1,87 @@
-import { useEffect, useMemo } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
-import { studentService } from '@/services/firebase'
-import type { Student } from '@/types/models'
+import { classService, fetchStudentPerformance, studentService } from '@/services/firebase'
+import type { Classroom, Student, StudentPerformance } from '@/types/models'
 import { useCollection } from '@/hooks/useCollection'
 import { useUI } from '@/context/UIContext'
 import { formatDateTime } from '@/utils/formatters'
 
+type StudentTableRow = Student & {
+  classNames: string[]
+  performance?: StudentPerformance
+}
+
+const ALL_CLASSES = 'all'
+
 export function StudentsPage() {
-  const { setPageTitle } = useUI()
+  const { setPageTitle, notifyError } = useUI()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const classFilter = searchParams.get('class') ?? ALL_CLASSES
 
   const { data: students, isLoading } = useCollection<Student>(studentService.listen)
+  const { data: classes } = useCollection<Classroom>(classService.listen)
+  const [performance, setPerformance] = useState<StudentPerformance[]>([])
 
   useEffect(() => {
     setPageTitle('Students')
   }, [setPageTitle])
 
-  const filteredStudents = useMemo(() => {
-    // Sort by created date (newest first, then students without created date at the end)
-    return [...students].sort((a, b) => {
-      if (!a.createdAt && !b.createdAt) return 0
-      if (!a.createdAt) return 1
-      if (!b.createdAt) return -1
-      return b.createdAt.toMillis() - a.createdAt.toMillis()
+  useEffect(() => {
+    let cancelled = false
+    fetchStudentPerformance(undefined, classFilter === ALL_CLASSES ? undefined : classFilter)
+      .then((items) => {
+        if (!cancelled) setPerformance(items)
+      })
+      .catch((error) => {
+        if (!cancelled) notifyError('Unable to load student performance', error instanceof Error ? error.message : undefined)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [classFilter, notifyError])
+
+  const selectedClass = classes.find((classroom) => classroom.id === classFilter)
+
+  const filteredStudents = useMemo<StudentTableRow[]>(() => {
+    const performanceMap = new Map(performance.map((item) => [item.studentId, item]))
+    const classNamesByStudent = new Map<string, string[]>()
+    classes.forEach((classroom) => {
+      const studentIds = classroom.studentIds ?? []
+      studentIds.forEach((studentId) => {
+        classNamesByStudent.set(studentId, [...(classNamesByStudent.get(studentId) ?? []), classroom.name])
+      })
     })
-  }, [students])
+    const roster = selectedClass ? new Set(selectedClass.studentIds ?? []) : null
+
+    // Sort by created date (newest first, then students without created date at the end)
+    return students
+      .filter((student) => !roster || roster.has(student.id))
+      .map((student) => ({
+        ...student,
+        classNames: classNamesByStudent.get(student.id) ?? [],
+        performance: performanceMap.get(student.id),
+      }))
+      .sort((a, b) => {
+        if (!a.createdAt && !b.createdAt) return 0
+        if (!a.createdAt) return 1
+        if (!b.createdAt) return -1
+        return b.createdAt.toMillis() - a.createdAt.toMillis()
+      })
+  }, [students, classes, selectedClass, performance])
 
-  const columns: Array<DataTableColumn<Student>> = [
+  const averageAccuracy = useMemo(() => {
+    const active = filteredStudents.filter((student) => (student.performance?.totalAttempts ?? 0) > 0)
+    const attempts = active.reduce((sum, student) => sum + (student.performance?.totalAttempts ?? 0), 0)
+    const correct = active.reduce((sum, student) => sum + (student.performance?.totalCorrect ?? 0), 0)
+    return attempts > 0 ? ((correct / attempts) * 100).toFixed(1) : null
+  }, [filteredStudents])
+
+  const columns: Array<DataTableColumn<StudentTableRow>> = [
     {
       key: 'name',
       header: 'Name',
@@ -43,6 +98,42 @@ export function StudentsPage() {
         </span>
       ),
     },
+    {
+      key: 'classNames',
+      header: 'Classes',
+      render: (row) =>
+        row.classNames.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {row.classNames.map((name) => (
+              <Badge key={name} variant="outline">
+                {name}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <span className="text-sm text-muted-foreground">—</span>
+        ),
+    },
+    {
+      key: 'accuracy',
+      header: 'Accuracy',
+      align: 'right',
+      render: (row) =>
+        row.performance && row.performance.totalAttempts > 0 ? (
+          <span className="text-sm font-medium">{row.performance.averageAccuracy.toFixed(1)}%</span>
+        ) : (
+          <span className="text-sm text-muted-foreground">—</span>
+        ),
+    },
+    {
+      key: 'lastActivityAt',
+      header: 'Last activity',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">
+          {row.performance?.lastActivityAt ? formatDateTime(row.performance.lastActivityAt) : '—'}
+        </span>
+      ),
+    },
     {
       key: 'enrolledAt',
       header: 'Enrolled',
@@ -56,7 +147,7 @@ export function StudentsPage() {
 
   return (
     <div className="space-y-6">
-      <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
         <div>
           <div className="flex items-center gap-3">
             <h2 className="text-2xl font-semibold text-foreground">Students</h2>
@@ -68,13 +159,31 @@ export function StudentsPage() {
           </div>
           <p className="text-sm text-muted-foreground">View all students and their learning progress across all grades.</p>
         </div>
+        <Select
+          value={classFilter}
+          onValueChange={(value) => setSearchParams(value === ALL_CLASSES ? {} : { class: value })}
+        >
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue placeholder="Filter by class" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CLASSES}>All classes</SelectItem>
+            {classes.map((classroom) => (
+              <SelectItem key={classroom.id} value={classroom.id}>
+                {classroom.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       <Card className="border-none shadow-sm">
         <CardHeader>
           <CardTitle className="text-xl font-semibold">Student Performance</CardTitle>
           <CardDescription>
-            View all students and their learning progress across all grades.
+            {selectedClass ? `${selectedClass.name} · ` : ''}
+            {averageAccuracy ? `Average accuracy ${averageAccuracy}%. ` : ''}
+            Select a student to see their practice history, accuracy trends and competition results.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -82,11 +191,15 @@ export function StudentsPage() {
             data={filteredStudents}
             columns={columns}
             isLoading={isLoading}
-            emptyMessage="No students found. Students will appear here once they start practicing."
+            onRowClick={(row) => navigate(`/students/${row.id}`)}
+            emptyMessage={
+              selectedClass
+                ? 'No students in this class yet.'
+                : 'No students found. Students will appear here once they start practicing.'
+            }
           />
         </CardContent>
       </Card>
     </div>
   )
 }
-
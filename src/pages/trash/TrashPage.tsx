@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useState } from 'react'
+import { differenceInCalendarDays } from 'date-fns'
+import { ArchiveRestore } from 'lucide-react'
+import { useAuth } from '@/context/AuthContext'
+import { useUI } from '@/context/UIContext'
+import { useCurriculumCache } from '@/context/CurriculumCacheContext'
+import { Badge } from '@/components/ui/badge'
+import { DataTable, type DataTableColumn } from '@/components/tables/DataTable'
+import { getAdminActionLog } from '@/services/firebase'
+import { listTrashEntries, purgeTrashEntry, restoreTrashEntry, TRASH_RETENTION_DAYS } from '@/services/trashService'
+import type { TrashEntry } from '@/types/models'
+import { formatDateTime } from '@/utils/formatters'
+
+type TrashTableRow = TrashEntry & { deletedByLabel: string }
+
+const levelLabels: Record<TrashEntry['level'], string> = {
+  grades: 'Grade',
+  units: 'Unit',
+  lessons: 'Lesson',
+  sections: 'Section',
+  quizzes: 'Quiz',
+}
+
+export function TrashPage() {
+  const { user } = useAuth()
+  const { setPageTitle, notifyError, notifySuccess, confirmAction } = useUI()
+  const { refreshUnits, refreshLessons, refreshSections, refreshQuizzes } = useCurriculumCache()
+  const [rows, setRows] = useState<TrashTableRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    setPageTitle('Trash')
+  }, [setPageTitle])
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const entries = await listTrashEntries()
+      // Show who deleted each item from the matching activity log entry
+      const withAuthors = await Promise.all(
+        entries.map(async (entry) => {
+          const log = entry.deleteLogId ? await getAdminActionLog(entry.deleteLogId) : null
+          return { ...entry, deletedByLabel: log?.adminEmail ?? log?.adminId ?? entry.deletedBy }
+        }),
+      )
+      setRows(withAuthors)
+    } catch (error) {
+      notifyError('Unable to load trash', error instanceof Error ? error.message : undefined)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [notifyError])
+
+  useEffect(() => {
+    void loadEntries()
+  }, [loadEntries])
+
+  const handleRestore = async (entry: TrashTableRow) => {
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      await restoreTrashEntry(entry.id, user.uid)
+      refreshUnits()
+      refreshLessons()
+      refreshSections()
+      refreshQuizzes()
+      await loadEntries()
+      notifySuccess(`${levelLabels[entry.level]} restored`, entry.title)
+    } catch (error) {
+      notifyError('Unable to restore item', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const handlePurge = async (entry: TrashTableRow) => {
+    const confirmed = await confirmAction({
+      title: 'Delete permanently?',
+      description: `"${entry.title}" and everything inside it will be deleted forever. This cannot be undone.`,
+      confirmLabel: 'Delete forever',
+      danger: true,
+    })
+    if (!confirmed) return
+    if (!user?.uid) {
+      notifyError('Missing admin session', 'Please sign in again.')
+      return
+    }
+    try {
+      await purgeTrashEntry(entry.id, user.uid)
+      await loadEntries()
+      notifySuccess('Item deleted permanently')
+    } catch (error) {
+      notifyError('Unable to delete item', error instanceof Error ? error.message : undefined)
+    }
+  }
+
+  const columns: Array<DataTableColumn<TrashTableRow>> = [
+    {
+      key: 'title',
+      header: 'Item',
+      render: (row) => (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{levelLabels[row.level]}</Badge>
+            <p className="font-semibold text-foreground">{row.title}</p>
+          </div>
+          {row.location && <p className="text-xs text-muted-foreground">{row.location}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'contents',
+      header: 'Contents',
+      render: (row) => (
+        <span className="text-sm text-muted-foreground">
+          {row.documentCount} item{row.documentCount === 1 ? '' : 's'} · {row.questionCount} question
+          {row.questionCount === 1 ? '' : 's'}
+        </span>
+      ),
+    },
+    {
+      key: 'deletedBy',
+      header: 'Deleted by',
+      render: (row) => <span className="text-sm text-muted-foreground">{row.deletedByLabel}</span>,
+    },
+    {
+      key: 'deletedAt',
+      header: 'Deleted',
+      render: (row) => <span className="text-sm text-muted-foreground">{formatDateTime(row.deletedAt)}</span>,
+    },
+    {
+      key: 'expiresAt',
+      header: 'Expires',
+      render: (row) => {
+        if (!row.expiresAt) return <span className="text-sm text-muted-foreground">—</span>
+        const daysLeft = Math.max(0, differenceInCalendarDays(row.expiresAt.toDate(), new Date()))
+        return (
+          <Badge variant={daysLeft <= 3 ? 'destructive' : 'outline'}>
+            {daysLeft === 0 ? 'Today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+          </Badge>
+        )
+      },
+    },
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3">
+        <div>
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold text-foreground">Trash</h2>
+            {!isLoading && (
+              <span className="rounded-full bg-primary/10 px-3 py-1 text-sm font-semibold text-primary">{rows.length}</span>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Deleted curriculum items are kept for {TRASH_RETENTION_DAYS} days. Restore them to their original place or
+            delete them permanently.
+          </p>
+        </div>
+      </div>
+
+      <DataTable
+        data={rows}
+        columns={columns}
+        isLoading={isLoading}
+        emptyMessage="Trash is empty."
+        onDelete={handlePurge}
+        rowActions={[
+          { label: 'Restore', icon: <ArchiveRestore className="h-4 w-4" />, onSelect: handleRestore },
+        ]}
+      />
+    </div>
+  )
+}
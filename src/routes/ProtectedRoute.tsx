@@ -1,10 +1,18 @@
-import { Navigate, Outlet, useLocation } from 'react-router-dom'
+import { Navigate, Outlet, useLocation, useNavigate } from 'react-router-dom'
+import { ShieldAlert } from 'lucide-react'
 import { useAuth } from '@/context/AuthContext'
 import { PageLoader } from '@/components/feedback/PageLoader'
+import { EmptyState } from '@/components/feedback/EmptyState'
+import type { Permission } from '@/utils/permissions'
 
-export function ProtectedRoute() {
-  const { isAuthenticated, isLoading } = useAuth()
+type ProtectedRouteProps = {
+  permission?: Permission // Extra permission needed for the nested routes, on top of being signed in
+}
+
+export function ProtectedRoute({ permission }: ProtectedRouteProps) {
+  const { isAuthenticated, isLoading, can } = useAuth()
   const location = useLocation()
+  const navigate = useNavigate()
 
   if (isLoading) {
     return (
@@ -18,7 +26,17 @@ export function ProtectedRoute() {
     return <Navigate to="/login" replace state={{ from: location }} />
   }
 
+  if (permission && !can(permission)) {
+    return (
+      <EmptyState
+        title="You don't have access to this page"
+        description="Ask an owner to change your role if you need it."
+        icon={<ShieldAlert className="h-8 w-8" />}
+        actionLabel="Back to dashboard"
+        onAction={() => navigate('/dashboard')}
+      />
+    )
+  }
+
   return <Outlet />
 }
-
-
@@ -0,0 +1,176 @@
+/**
+ * Class Service
+ * Roster, join code and deletion helpers for classes. Basic CRUD goes through classService in firebase.ts.
+ * Structure: classes/{classId} with studentIds, mirrored on users/{studentId}.classIds
+ */
+
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+  type DocumentReference,
+  type Transaction,
+} from 'firebase/firestore'
+import { customAlphabet } from 'nanoid'
+import { classService, firestore, logAdminAction } from './firebase'
+import { assertGradeInScope } from './gradeScope'
+import type { Classroom } from '@/types/models'
+
+const CLASSES_COLLECTION = 'classes'
+const JOIN_CODES_COLLECTION = 'classJoinCodes' // classJoinCodes/{code}: { classId, gradeId }, one per code in use
+const BATCH_LIMIT = 450
+
+// No 0/O or 1/I so codes can be read aloud and copied from a board
+const generateCode = customAlphabet('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 6)
+
+/**
+ * Reserve a new join code for a class in the same transaction that writes the code to the class,
+ * so two classes can never be given the same code. The class's previous code, if any, is released.
+ */
+async function assignJoinCode(
+  classRef: DocumentReference,
+  gradeId: string,
+  writeClass: (transaction: Transaction, joinCode: string) => void,
+  previousCode?: string,
+): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const joinCode = generateCode()
+    const codeRef = doc(firestore, JOIN_CODES_COLLECTION, joinCode)
+    const previousRef = previousCode ? doc(firestore, JOIN_CODES_COLLECTION, previousCode) : null
+    const assigned = await runTransaction(firestore, async (transaction) => {
+      if ((await transaction.get(codeRef)).exists()) return false
+      const previous = previousRef ? await transaction.get(previousRef) : null
+
+      writeClass(transaction, joinCode)
+      transaction.set(codeRef, { classId: classRef.id, gradeId, createdAt: serverTimestamp() })
+      // Classes given their code before codes were reserved have no document to release
+      if (previousRef && previous?.data()?.classId === classRef.id) transaction.delete(previousRef)
+      return true
+    })
+    if (assigned) return joinCode
+  }
+  throw new Error('Unable to generate a unique join code. Please try again.')
+}
+
+/**
+ * Create a class with a newly reserved join code; returns the code
+ */
+export async function createClass(
+  data: Omit<Classroom, 'id' | 'createdAt' | 'updatedAt' | 'joinCode'>,
+  adminId: string,
+): Promise<string> {
+  assertGradeInScope(data.gradeId)
+  const classRef = doc(collection(firestore, CLASSES_COLLECTION))
+  const joinCode = await assignJoinCode(classRef, data.gradeId, (transaction, code) => {
+    transaction.set(classRef, {
+      ...data,
+      id: classRef.id,
+      joinCode: code,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+  })
+  await logAdminAction({
+    adminId,
+    action: 'create',
+    entity: CLASSES_COLLECTION,
+    entityId: classRef.id,
+    metadata: { name: data.name },
+  })
+  return joinCode
+}
+
+export async function regenerateJoinCode(classroom: Classroom, adminId: string): Promise<string> {
+  assertGradeInScope(classroom.gradeId)
+  const classRef = doc(firestore, CLASSES_COLLECTION, classroom.id)
+  const joinCode = await assignJoinCode(
+    classRef,
+    classroom.gradeId,
+    (transaction, code) => transaction.update(classRef, { joinCode: code, updatedAt: serverTimestamp() }),
+    classroom.joinCode,
+  )
+  await logAdminAction({
+    adminId,
+    action: 'update',
+    entity: CLASSES_COLLECTION,
+    entityId: classroom.id,
+    metadata: { name: classroom.name, operation: 'regenerate_join_code' },
+    changes: [{ field: 'joinCode', before: classroom.joinCode, after: joinCode }],
+  })
+  return joinCode
+}
+
+/**
+ * Add students to the class roster and tag each student with the class
+ */
+export async function enrollStudents(classroom: Classroom, studentIds: string[], adminId: string): Promise<number> {
+  const existing = new Set(classroom.studentIds ?? [])
+  const newIds = Array.from(new Set(studentIds)).filter((id) => !existing.has(id))
+  if (newIds.length === 0) return 0
+
+  for (let start = 0; start < newIds.length; start += BATCH_LIMIT) {
+    const chunk = newIds.slice(start, start + BATCH_LIMIT)
+    const batch = writeBatch(firestore)
+    batch.update(doc(firestore, CLASSES_COLLECTION, classroom.id), {
+      studentIds: arrayUnion(...chunk),
+      updatedAt: serverTimestamp(),
+    })
+    chunk.forEach((studentId) => {
+      batch.update(doc(firestore, 'users', studentId), { classIds: arrayUnion(classroom.id) })
+    })
+    await batch.commit()
+  }
+
+  await logAdminAction({
+    adminId,
+    action: 'update',
+    entity: CLASSES_COLLECTION,
+    entityId: classroom.id,
+    metadata: { name: classroom.name, operation: 'enroll', studentCount: newIds.length },
+  })
+  return newIds.length
+}
+
+export async function unenrollStudent(classroom: Classroom, studentId: string, adminId: string): Promise<void> {
+  const batch = writeBatch(firestore)
+  batch.update(doc(firestore, CLASSES_COLLECTION, classroom.id), {
+    studentIds: arrayRemove(studentId),
+    updatedAt: serverTimestamp(),
+  })
+  batch.update(doc(firestore, 'users', studentId), { classIds: arrayRemove(classroom.id) })
+  await batch.commit()
+
+  await logAdminAction({
+    adminId,
+    action: 'update',
+    entity: CLASSES_COLLECTION,
+    entityId: classroom.id,
+    metadata: { name: classroom.name, operation: 'unenroll', studentId },
+  })
+}
+
+/**
+ * Delete the class and drop it from every enrolled student
+ */
+export async function deleteClass(classroom: Classroom, adminId: string): Promise<void> {
+  const studentIds = classroom.studentIds ?? []
+  for (let start = 0; start < studentIds.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(firestore)
+    studentIds.slice(start, start + BATCH_LIMIT).forEach((studentId) => {
+      batch.update(doc(firestore, 'users', studentId), { classIds: arrayRemove(classroom.id) })
+    })
+    await batch.commit()
+  }
+  // Release the code so it can be given to another class
+  if (classroom.joinCode) {
+    const codeRef = doc(firestore, JOIN_CODES_COLLECTION, classroom.joinCode)
+    if ((await getDoc(codeRef)).data()?.classId === classroom.id) await deleteDoc(codeRef)
+  }
+  await classService.remove(classroom.id, adminId, { name: classroom.name, studentCount: studentIds.length })
+}
@@ -0,0 +1,229 @@
+/**
+ * Competition Service
+ * Live rooms, matches, ratings and leaderboards of student competitions.
+ * Rooms and matches live in the Realtime Database, which the panel cannot read directly, so they are
+ * listed and changed through Cloud Functions. Ratings are read from competitionRatings (all-time) and
+ * competitionRatingPeriods (weekly and monthly), tournament brackets from competitionTournaments and
+ * flagged submissions from competitionFlags; all are written by the functions only.
+ */
+
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore'
+import { httpsCallable } from 'firebase/functions'
+import { periodKey, type LeaderboardPeriod } from '@shared/competitionRatings'
+import { firebaseFunctions, firestore } from './firebase'
+import type {
+  CompetitionFlagStatus,
+  CompetitionMatchSummary,
+  CompetitionRating,
+  CompetitionRatingPeriod,
+  CompetitionRoomSummary,
+  Section,
+} from '@/types/models'
+
+const LEADERBOARD_SIZE = 100
+
+// Rooms waiting longer than this are past the matchmaking window and will never get a second player
+export const STUCK_ROOM_AGE_MS = 2 * 60 * 1000
+// Live quiz lobbies wait for a whole class; the functions remove them when they were never started
+export const STUCK_LIVE_LOBBY_AGE_MS = 3 * 60 * 60 * 1000
+// Matches still live after this long have been abandoned by at least one player
+export const STUCK_MATCH_AGE_MS = 30 * 60 * 1000
+
+export type CompetitionActivity = {
+  rooms: CompetitionRoomSummary[]
+  matches: CompetitionMatchSummary[]
+}
+
+/**
+ * Open rooms and the 100 most recent matches in the signed-in staff member's grades
+ */
+export async function fetchCompetitionActivity(): Promise<CompetitionActivity> {
+  const callList = httpsCallable<void, CompetitionActivity>(firebaseFunctions, 'listCompetitionActivity')
+  const { data } = await callList()
+  return data
+}
+
+/**
+ * Whether a room is stuck: waiting past the matchmaking window, or holding a match that never finished
+ */
+export function isRoomStuck(
+  room: CompetitionRoomSummary,
+  matchesById: Map<string, CompetitionMatchSummary>,
+  now = Date.now(),
+): boolean {
+  const age = now - (room.createdAt ?? 0)
+  if (room.status === 'waiting') return age > (room.matchType === 'live' ? STUCK_LIVE_LOBBY_AGE_MS : STUCK_ROOM_AGE_MS)
+  const match = room.matchId ? matchesById.get(room.matchId) : undefined
+  return match?.status === 'live' && age > STUCK_MATCH_AGE_MS
+}
+
+export async function closeCompetitionRooms(roomIds: string[]): Promise<number> {
+  const callClose = httpsCallable<{ roomIds: string[] }, { closed: number }>(firebaseFunctions, 'closeCompetitionRooms')
+  const { data } = await callClose({ roomIds })
+  return data.closed
+}
+
+export type LeaderboardEntry = {
+  id: string
+  userId: string
+  userName: string
+  rating: number
+  matches: number
+  wins: number
+  losses: number
+  ratingChange: number | null // Over the week or month; null on the all-time leaderboard
+}
+
+/**
+ * Top players of a section: by rating all-time, or by rating gained this week or month
+ */
+export async function fetchRatingLeaderboard(sectionId: string, period: LeaderboardPeriod): Promise<LeaderboardEntry[]> {
+  if (period === 'all-time') {
+    const snapshot = await getDocs(
+      query(
+        collection(firestore, 'competitionRatings'),
+        where('sectionId', '==', sectionId),
+        orderBy('rating', 'desc'),
+        limit(LEADERBOARD_SIZE),
+      ),
+    )
+    return snapshot.docs.map((docSnap) => {
+      const data = docSnap.data() as Omit<CompetitionRating, 'id'>
+      return { id: docSnap.id, ...toEntryCounts(data), ratingChange: null }
+    })
+  }
+  const snapshot = await getDocs(
+    query(
+      collection(firestore, 'competitionRatingPeriods'),
+      where('sectionId', '==', sectionId),
+      where('periodKey', '==', periodKey(period)),
+      orderBy('ratingChange', 'desc'),
+      limit(LEADERBOARD_SIZE),
+    ),
+  )
+  return snapshot.docs.map((docSnap) => {
+    const data = docSnap.data() as Omit<CompetitionRatingPeriod, 'id'>
+    return { id: docSnap.id, ...toEntryCounts(data), ratingChange: data.ratingChange }
+  })
+}
+
+function toEntryCounts(data: Pick<CompetitionRating, 'userId' | 'userName' | 'rating' | 'matches' | 'wins' | 'losses'>) {
+  return {
+    userId: data.userId,
+    userName: data.userName,
+    rating: data.rating,
+    matches: data.matches ?? 0,
+    wins: data.wins ?? 0,
+    losses: data.losses ?? 0,
+  }
+}
+
+/**
+ * Take a player off the section leaderboard, and out of a match when matchId is given
+ * Their rating and weekly and monthly entries are deleted.
+ */
+export async function removeCompetitionPlayer(params: {
+  sectionId: string
+  userId: string
+  matchId?: string
+  reason?: string
+}): Promise<void> {
+  const callRemove = httpsCallable<typeof params, { removedFromLeaderboard: boolean; removedFromMatch: boolean }>(
+    firebaseFunctions,
+    'removeCompetitionPlayer',
+  )
+  await callRemove(params)
+}
+
+export async function resetCompetitionLeaderboard(sectionId: string): Promise<void> {
+  const callReset = httpsCallable<{ sectionId: string }, { previousEntries: number }>(
+    firebaseFunctions,
+    'resetCompetitionLeaderboard',
+  )
+  await callReset({ sectionId })
+}
+
+/**
+ * Close a flagged submission: dismissed as a false alarm, or actioned once the player was dealt with
+ */
+export async function reviewCompetitionFlag(params: {
+  flagId: string
+  status: Exclude<CompetitionFlagStatus, 'open'>
+  note?: string
+}): Promise<void> {
+  const callReview = httpsCallable<typeof params, { status: CompetitionFlagStatus }>(firebaseFunctions, 'reviewCompetitionFlag')
+  await callReview(params)
+}
+
+export type LiveQuiz = {
+  room: CompetitionRoomSummary
+  match: CompetitionMatchSummary | null // Set once the host started the quiz
+}
+
+const sectionMetadataOf = (section: Section) => ({
+  gradeId: section.gradeId,
+  unitId: section.unitId,
+  lessonId: section.lessonId,
+})
+
+/**
+ * Open a live quiz lobby on a section; students join it with the returned code
+ */
+export async function createLiveQuiz(params: { section: Section; classId?: string; title?: string }) {
+  const callCreate = httpsCallable<
+    { sectionId: string; sectionMetadata: ReturnType<typeof sectionMetadataOf>; classId?: string; title?: string },
+    { roomId: string; joinCode: string }
+  >(firebaseFunctions, 'createLiveQuiz')
+  const { data } = await callCreate({
+    sectionId: params.section.id,
+    sectionMetadata: sectionMetadataOf(params.section),
+    ...(params.classId ? { classId: params.classId } : {}),
+    ...(params.title ? { title: params.title } : {}),
+  })
+  return data
+}
+
+export async function fetchLiveQuiz(roomId: string): Promise<LiveQuiz> {
+  const callGet = httpsCallable<{ roomId: string }, LiveQuiz>(firebaseFunctions, 'getLiveQuiz')
+  const { data } = await callGet({ roomId })
+  return data
+}
+
+export async function startLiveQuiz(roomId: string): Promise<string> {
+  const callStart = httpsCallable<{ roomId: string }, { matchId: string }>(firebaseFunctions, 'startLiveQuiz')
+  const { data } = await callStart({ roomId })
+  return data.matchId
+}
+
+/**
+ * Score a running live quiz with the answers in so far, or close a lobby that was never started
+ */
+export async function endLiveQuiz(roomId: string): Promise<void> {
+  const callEnd = httpsCallable<{ roomId: string }, { matchId: string | null }>(firebaseFunctions, 'endLiveQuiz')
+  await callEnd({ roomId })
+}
+
+/**
+ * Create a single-elimination tournament for a class; round one starts straight away
+ */
+export async function createCompetitionTournament(params: { title: string; section: Section; classId: string }) {
+  const callCreate = httpsCallable<
+    { title: string; sectionId: string; sectionMetadata: ReturnType<typeof sectionMetadataOf>; classId: string },
+    { tournamentId: string }
+  >(firebaseFunctions, 'createCompetitionTournament')
+  const { data } = await callCreate({
+    title: params.title,
+    sectionId: params.section.id,
+    sectionMetadata: sectionMetadataOf(params.section),
+    classId: params.classId,
+  })
+  return data.tournamentId
+}
+
+/**
+ * Send a player through a bracket match by hand, e.g. when their opponent never showed up
+ */
+export async function resolveTournamentMatch(params: { tournamentId: string; matchKey: string; winnerId: string }): Promise<void> {
+  const callResolve = httpsCallable<typeof params, { matchId: string | null }>(firebaseFunctions, 'resolveTournamentMatch')
+  await callResolve(params)
+}
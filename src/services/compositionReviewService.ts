@@ -0,0 +1,114 @@
+/**
+ * Composition Review Service
+ * Teacher review of AI-graded compositions. A review settles the submission's final score,
+ * corrects the student's practice record when the verdict flips, and updates the quiz's
+ * AI/teacher agreement counters.
+ * Structure: compositionSubmissions/{submissionId}, compositionAgreement/{quizId}
+ */
+
+import { doc, increment, runTransaction, serverTimestamp } from 'firebase/firestore'
+import { fetchStudentPracticeRecords, firestore, logAdminAction } from './firebase'
+import { assertGradeInScope } from './gradeScope'
+import type { CompositionSubmission, PracticeAggregate } from '@/types/models'
+import { toLoggedValue } from '@/utils/changeLog'
+
+const SUBMISSIONS_COLLECTION = 'compositionSubmissions'
+const AGREEMENT_COLLECTION = 'compositionAgreement'
+const PRACTICE_COLLECTION = 'practiceData'
+
+export type CompositionReview =
+  | { decision: 'accept'; teacherFeedback?: string }
+  | { decision: 'override'; score: number; teacherFeedback?: string }
+
+/**
+ * Practice record the student's composition attempt was counted in, if the student app keeps one
+ */
+async function findPracticeRecord(submission: CompositionSubmission): Promise<PracticeAggregate | null> {
+  const records = await fetchStudentPracticeRecords(submission.userId)
+  return records.find((record) => record.quizId === submission.quizId && record.gradeId) ?? null
+}
+
+export async function reviewCompositionSubmission(
+  submission: CompositionSubmission,
+  review: CompositionReview,
+  adminId: string,
+): Promise<void> {
+  assertGradeInScope(submission.gradeId)
+  const finalScore = review.decision === 'override' ? Math.round(review.score) : submission.aiGrade.overallScore
+  if (finalScore < 0 || finalScore > 100) {
+    throw new Error('Score must be between 0 and 100.')
+  }
+  const finalIsCorrect = finalScore >= submission.passMark
+  const agreement = finalIsCorrect === submission.aiGrade.isCorrect
+  const teacherFeedback = review.teacherFeedback?.trim() || null
+  const practiceRecord = agreement ? null : await findPracticeRecord(submission)
+
+  const submissionRef = doc(firestore, SUBMISSIONS_COLLECTION, submission.id)
+  await runTransaction(firestore, async (transaction) => {
+    const current = await transaction.get(submissionRef)
+    if (!current.exists()) {
+      throw new Error('This submission no longer exists.')
+    }
+    if ((current.data() as CompositionSubmission).reviewStatus !== 'pending') {
+      throw new Error('This submission has already been reviewed.')
+    }
+
+    // The student app counted the AI verdict; move the attempt to the teacher's verdict
+    const practiceRef = practiceRecord ? doc(firestore, PRACTICE_COLLECTION, practiceRecord.id) : null
+    const practice = practiceRef ? await transaction.get(practiceRef) : null
+    if (practiceRef && practice?.exists()) {
+      const { attempts = 0, correct = 0 } = practice.data() as PracticeAggregate
+      const adjustedCorrect = Math.min(attempts, Math.max(0, correct + (finalIsCorrect ? 1 : -1)))
+      transaction.update(practiceRef, {
+        correct: adjustedCorrect,
+        accuracy: attempts > 0 ? (adjustedCorrect / attempts) * 100 : 0,
+        updatedAt: serverTimestamp(),
+      })
+    }
+
+    transaction.update(submissionRef, {
+      reviewStatus: review.decision === 'accept' ? 'accepted' : 'overridden',
+      finalScore,
+      finalIsCorrect,
+      teacherFeedback,
+      agreement,
+      reviewedBy: adminId,
+      reviewedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    })
+
+    transaction.set(
+      doc(firestore, AGREEMENT_COLLECTION, submission.quizId),
+      {
+        id: submission.quizId,
+        gradeId: submission.gradeId,
+        unitId: submission.unitId,
+        lessonId: submission.lessonId,
+        sectionId: submission.sectionId,
+        reviewed: increment(1),
+        agreed: increment(agreement ? 1 : 0),
+        totalScoreDifference: increment(Math.abs(finalScore - submission.aiGrade.overallScore)),
+        updatedAt: serverTimestamp(),
+      },
+      { merge: true },
+    )
+  })
+
+  await logAdminAction({
+    adminId,
+    action: 'update',
+    entity: SUBMISSIONS_COLLECTION,
+    entityId: submission.id,
+    metadata: {
+      operation: review.decision === 'accept' ? 'accept_ai_grade' : 'override_ai_grade',
+      name: submission.studentName ?? submission.userId,
+      quizId: submission.quizId,
+    },
+    // Before is the AI's verdict, so an accepted grade only logs the feedback
+    changes: [
+      { field: 'finalScore', before: submission.aiGrade.overallScore, after: finalScore },
+      { field: 'finalIsCorrect', before: submission.aiGrade.isCorrect, after: finalIsCorrect },
+      { field: 'teacherFeedback', before: null, after: toLoggedValue(teacherFeedback) },
+    ].filter((change) => change.before !== change.after),
+  })
+}
@@ -0,0 +1,541 @@
+/**
+ * Curriculum Tree Service
+ * Reads and writes whole subtrees of the nested curriculum structure
+ * Structure: grades/{gradeId}/units/{unitId}/lessons/{lessonId}/sections/{sectionId}/quizzes/{quizId}
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+  Timestamp,
+  writeBatch,
+  type DocumentData,
+} from 'firebase/firestore'
+import { z } from 'zod'
+import { firebaseApp, firestore, logAdminAction } from './firebase'
+import { assertGradeInScope } from './gradeScope'
+import { relocateQuizDraft } from './quizDraftService'
+import { relocateQuizVersions } from './quizVersionService'
+
+export type CurriculumLevel = 'grades' | 'units' | 'lessons' | 'sections' | 'quizzes'
+
+// Collection names from the root of the tree down to quizzes
+export const CURRICULUM_LEVELS: CurriculumLevel[] = ['grades', 'units', 'lessons', 'sections', 'quizzes']
+
+// Denormalized parent references, written on every document below the grade
+const PARENT_ID_FIELDS = ['gradeId', 'unitId', 'lessonId', 'sectionId'] as const
+
+export const CURRICULUM_EXPORT_FORMAT = 'eduenglish-curriculum'
+export const CURRICULUM_EXPORT_VERSION = 1
+
+// Firestore allows 500 writes per batch; stay below it
+const BATCH_LIMIT = 450
+
+export interface CurriculumTreeNode {
+  id: string
+  data: DocumentData
+  children: CurriculumTreeNode[]
+}
+
+export interface CurriculumExportDocument {
+  format: typeof CURRICULUM_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  sourceProjectId?: string
+  level: CurriculumLevel // Level of the tree root
+  tree: CurriculumTreeNode
+}
+
+export interface CurriculumTreeSummary {
+  rootId: string
+  rootTitle: string
+  counts: Record<CurriculumLevel, number>
+  questionCount: number
+  items: Array<{ level: CurriculumLevel; depth: number; title: string }>
+}
+
+export interface CurriculumWrite {
+  segments: string[]
+  data: DocumentData
+}
+
+interface PlanOptions {
+  preserveIds?: boolean // Keep document IDs (used when moving); otherwise new IDs are generated
+  resetTimestamps?: boolean // Stamp createdAt/updatedAt with the server time
+}
+
+const treeNodeSchema: z.ZodType<CurriculumTreeNode> = z.lazy(() =>
+  z.object({
+    id: z.string().min(1),
+    data: z.record(z.string(), z.unknown()),
+    children: z.array(treeNodeSchema),
+  }),
+)
+
+const exportDocumentSchema = z.object({
+  format: z.literal(CURRICULUM_EXPORT_FORMAT, { message: 'This file is not a curriculum export' }),
+  version: z.number().max(CURRICULUM_EXPORT_VERSION, 'This export was created by a newer version of the panel'),
+  exportedAt: z.string(),
+  sourceProjectId: z.string().optional(),
+  level: z.enum(CURRICULUM_LEVELS as [CurriculumLevel, ...CurriculumLevel[]]),
+  tree: treeNodeSchema,
+})
+
+/**
+ * Build the Firestore path segments of a collection at the given depth
+ */
+function collectionSegments(depth: number, ancestorIds: string[]): string[] {
+  const segments: string[] = []
+  ancestorIds.slice(0, depth).forEach((id, index) => {
+    segments.push(CURRICULUM_LEVELS[index], id)
+  })
+  segments.push(CURRICULUM_LEVELS[depth])
+  return segments
+}
+
+/**
+ * Human readable label for a curriculum document
+ */
+export function describeCurriculumNode(level: CurriculumLevel, data: DocumentData): string {
+  switch (level) {
+    case 'grades':
+      return String(data.name ?? 'Untitled grade')
+    case 'units':
+      return `Unit ${data.number ?? '?'}`
+    case 'lessons':
+      return String(data.title ?? 'Untitled lesson')
+    case 'sections':
+      return String(data.title ?? 'Untitled section')
+    case 'quizzes':
+      return String(data.title ?? 'Untitled quiz')
+  }
+}
+
+async function readChildren(depth: number, ancestorIds: string[]): Promise<CurriculumTreeNode[]> {
+  if (depth >= CURRICULUM_LEVELS.length) return []
+  const [root, ...rest] = collectionSegments(depth, ancestorIds)
+  const snapshot = await getDocs(collection(firestore, root, ...rest))
+  return Promise.all(
+    snapshot.docs.map(async (docSnap) => ({
+      id: docSnap.id,
+      data: docSnap.data(),
+      children: await readChildren(depth + 1, [...ancestorIds, docSnap.id]),
+    })),
+  )
+}
+
+/**
+ * Read a document and all of its descendants
+ * path holds the IDs from the grade down to the root node, e.g. [gradeId, unitId] for a unit
+ */
+export async function readCurriculumTree(path: string[]): Promise<CurriculumTreeNode | null> {
+  assertGradeInScope(path[0])
+  const depth = path.length - 1
+  const [root, ...rest] = collectionSegments(depth, path)
+  const snapshot = await getDoc(doc(firestore, root, ...rest, path[depth]))
+  if (!snapshot.exists()) return null
+
+  return {
+    id: snapshot.id,
+    data: snapshot.data(),
+    children: await readChildren(depth + 1, path),
+  }
+}
+
+/**
+ * Walk a tree and collect the documents to write under the given parent
+ * Rewrites IDs, denormalized parent references and embedded question IDs
+ */
+function planNodeWrites(
+  node: CurriculumTreeNode,
+  depth: number,
+  parentIds: string[],
+  options: PlanOptions,
+  writes: CurriculumWrite[],
+): string {
+  const segments = collectionSegments(depth, parentIds)
+  const [root, ...rest] = segments
+  const newId = options.preserveIds ? node.id : doc(collection(firestore, root, ...rest)).id
+
+  const data: DocumentData = { ...node.data, id: newId }
+  PARENT_ID_FIELDS.slice(0, depth).forEach((field, index) => {
+    data[field] = parentIds[index]
+  })
+
+  // Embedded question IDs follow the `${quizId}_q${n}` convention from quizBuilderService
+  if (CURRICULUM_LEVELS[depth] === 'quizzes' && Array.isArray(data.questions) && newId !== node.id) {
+    data.questions = (data.questions as DocumentData[]).map((question, index) => ({
+      ...question,
+      id: `${newId}_q${index + 1}`,
+    }))
+  }
+
+  if (options.resetTimestamps) {
+    data.createdAt = serverTimestamp()
+    data.updatedAt = serverTimestamp()
+  }
+
+  writes.push({ segments: [...segments, newId], data })
+
+  node.children.forEach((child) => {
+    planNodeWrites(child, depth + 1, [...parentIds, newId], options, writes)
+  })
+
+  return newId
+}
+
+/**
+ * Full Firestore path segments of a curriculum document, from the IDs down to it
+ */
+export function curriculumDocumentSegments(path: string[]): string[] {
+  const depth = path.length - 1
+  return [...collectionSegments(depth, path), path[depth]]
+}
+
+/**
+ * Flatten a tree into one write per document at its current location, IDs unchanged
+ */
+export function flattenCurriculumTree(node: CurriculumTreeNode, depth: number, parentIds: string[]): CurriculumWrite[] {
+  const writes: CurriculumWrite[] = []
+  planNodeWrites(node, depth, parentIds, { preserveIds: true }, writes)
+  return writes
+}
+
+/**
+ * Commit planned writes in chunks that fit Firestore batch limits
+ */
+export async function commitWrites(writes: CurriculumWrite[]): Promise<void> {
+  writes.forEach(({ segments }) => assertGradeInScope(segments[1]))
+  for (let start = 0; start < writes.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(firestore)
+    writes.slice(start, start + BATCH_LIMIT).forEach(({ segments, data }) => {
+      const [root, ...rest] = segments
+      batch.set(doc(firestore, root, ...rest), data)
+    })
+    await batch.commit()
+  }
+}
+
+/**
+ * Count and list the documents in a tree
+ */
+export function summarizeCurriculumTree(node: CurriculumTreeNode, depth: number): CurriculumTreeSummary {
+  const summary: CurriculumTreeSummary = {
+    rootId: node.id,
+    rootTitle: describeCurriculumNode(CURRICULUM_LEVELS[depth], node.data),
+    counts: { grades: 0, units: 0, lessons: 0, sections: 0, quizzes: 0 },
+    questionCount: 0,
+    items: [],
+  }
+
+  const visit = (current: CurriculumTreeNode, currentDepth: number) => {
+    const level = CURRICULUM_LEVELS[currentDepth]
+    summary.counts[level] += 1
+    summary.items.push({ level, depth: currentDepth - depth, title: describeCurriculumNode(level, current.data) })
+    if (level === 'quizzes' && Array.isArray(current.data.questions)) {
+      summary.questionCount += current.data.questions.length
+    }
+    current.children.forEach((child) => visit(child, currentDepth + 1))
+  }
+  visit(node, depth)
+
+  return summary
+}
+
+/**
+ * Keep a copied or moved node from colliding with its new siblings
+ * Units get the next free number and lessons the next free order. A copied or restored section
+ * with a taken title gets a suffix; a moved one is rejected instead of being renamed.
+ */
+export async function resolveSiblingConflicts(
+  depth: number,
+  parentIds: string[],
+  data: DocumentData,
+  mode: 'copy' | 'move' | 'restore',
+): Promise<DocumentData> {
+  if (depth === 0) return data
+
+  const [root, ...rest] = collectionSegments(depth, parentIds)
+  const siblings = (await getDocs(collection(firestore, root, ...rest))).docs.map((docSnap) => docSnap.data())
+  const level = CURRICULUM_LEVELS[depth]
+
+  if (level === 'units' || level === 'lessons') {
+    const field = level === 'units' ? 'number' : 'order'
+    const taken = siblings.map((sibling) => Number(sibling[field])).filter((value) => Number.isFinite(value))
+    const current = Number(data[field])
+    if (Number.isFinite(current) && current > 0 && !taken.includes(current)) return data
+    return { ...data, [field]: Math.max(0, ...taken) + 1 }
+  }
+
+  if (level === 'sections' && siblings.some((sibling) => sibling.title === data.title)) {
+    if (mode === 'move') {
+      throw new Error(`A section named "${data.title}" already exists in the target lesson`)
+    }
+    return { ...data, title: `${data.title} (${mode === 'restore' ? 'Restored' : 'Copy'})` }
+  }
+
+  return data
+}
+
+/**
+ * Deep copy a unit, lesson or section, with all descendants, under another parent
+ * sourcePath holds the IDs down to the copied node; targetParentPath the IDs down to its new parent.
+ * Every document gets a new ID, and a copied unit starts unpublished so it can be edited first.
+ */
+export async function duplicateCurriculumNode(
+  sourcePath: string[],
+  targetParentPath: string[],
+  adminId: string,
+): Promise<CurriculumTreeSummary & { id: string }> {
+  const depth = sourcePath.length - 1
+  if (depth < 1 || targetParentPath.length !== depth) {
+    throw new Error('Target must be the same kind of parent as the current one')
+  }
+
+  const tree = await readCurriculumTree(sourcePath)
+  if (!tree) {
+    throw new Error('Item to duplicate was not found')
+  }
+
+  let rootData = await resolveSiblingConflicts(depth, targetParentPath, tree.data, 'copy')
+  if ('isPublished' in rootData) {
+    // The copy starts hidden and does not inherit the source's publishing schedule
+    rootData = { ...rootData, isPublished: false, publishAt: null, unpublishAt: null }
+  }
+
+  const writes: CurriculumWrite[] = []
+  const newId = planNodeWrites({ ...tree, data: rootData }, depth, targetParentPath, { resetTimestamps: true }, writes)
+  await commitWrites(writes)
+
+  const summary = summarizeCurriculumTree({ ...tree, data: rootData }, depth)
+  await logAdminAction({
+    adminId,
+    action: 'create',
+    entity: CURRICULUM_LEVELS[depth],
+    entityId: newId,
+    metadata: {
+      title: summary.rootTitle,
+      source: 'duplicate',
+      sourceId: tree.id,
+      sourcePath: sourcePath.join('/'),
+      targetPath: targetParentPath.join('/'),
+      documentCount: writes.length,
+    },
+  })
+
+  return { ...summary, id: newId }
+}
+
+/**
+ * Collect the document paths of a tree, deepest documents first
+ */
+function collectNodePaths(node: CurriculumTreeNode, depth: number, parentIds: string[], paths: string[][]) {
+  node.children.forEach((child) => collectNodePaths(child, depth + 1, [...parentIds, node.id], paths))
+  paths.push([...collectionSegments(depth, parentIds), node.id])
+}
+
+/**
+ * Hard delete every document of a tree
+ */
+export async function deleteCurriculumTree(node: CurriculumTreeNode, depth: number, parentIds: string[]): Promise<void> {
+  assertGradeInScope(depth === 0 ? node.id : parentIds[0])
+  const paths: string[][] = []
+  collectNodePaths(node, depth, parentIds, paths)
+  for (let start = 0; start < paths.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(firestore)
+    paths.slice(start, start + BATCH_LIMIT).forEach(([root, ...rest]) => {
+      batch.delete(doc(firestore, root, ...rest))
+    })
+    await batch.commit()
+  }
+}
+
+/**
+ * Move a unit, lesson or section, with all descendants, under another parent
+ * Document IDs are kept so student progress stays linked; the denormalized
+ * gradeId/unitId/lessonId/sectionId fields are rewritten for the new location.
+ * The copy is written before the old documents are deleted, so a failure never loses data.
+ */
+export async function moveCurriculumNode(
+  sourcePath: string[],
+  targetParentPath: string[],
+  adminId: string,
+): Promise<CurriculumTreeSummary> {
+  const depth = sourcePath.length - 1
+  if (depth < 1 || targetParentPath.length !== depth) {
+    throw new Error('Target must be the same kind of parent as the current one')
+  }
+  const sourceParentPath = sourcePath.slice(0, depth)
+  if (sourceParentPath.join('/') === targetParentPath.join('/')) {
+    throw new Error('The item is already in this location')
+  }
+
+  const tree = await readCurriculumTree(sourcePath)
+  if (!tree) {
+    throw new Error('Item to move was not found')
+  }
+
+  const rootData = {
+    ...(await resolveSiblingConflicts(depth, targetParentPath, tree.data, 'move')),
+    updatedAt: serverTimestamp(),
+  }
+
+  const writes: CurriculumWrite[] = []
+  planNodeWrites({ ...tree, data: rootData }, depth, targetParentPath, { preserveIds: true }, writes)
+  await commitWrites(writes)
+
+  await deleteCurriculumTree(tree, depth, sourceParentPath)
+
+  // Drafts and version history of the moved quizzes carry their path, grade first
+  const quizPaths = writes
+    .filter(({ segments }) => segments[segments.length - 2] === 'quizzes')
+    .map(({ segments }) => segments.filter((_, index) => index % 2 === 1))
+  await Promise.all(quizPaths.map((path) => Promise.all([relocateQuizDraft(path), relocateQuizVersions(path)])))
+
+  const summary = summarizeCurriculumTree({ ...tree, data: rootData }, depth)
+  await logAdminAction({
+    adminId,
+    action: 'update',
+    entity: CURRICULUM_LEVELS[depth],
+    entityId: tree.id,
+    metadata: {
+      title: summary.rootTitle,
+      operation: 'move',
+      fromPath: sourcePath.join('/'),
+      toPath: [...targetParentPath, tree.id].join('/'),
+      documentCount: writes.length,
+    },
+  })
+
+  return summary
+}
+
+/**
+ * Convert Firestore values to JSON-safe values (timestamps become tagged ISO strings)
+ * Keys are sorted so repeated exports of unchanged content diff cleanly in git
+ */
+function toPortable(value: unknown): unknown {
+  if (value instanceof Timestamp) {
+    return { __timestamp: value.toDate().toISOString() }
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPortable)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, toPortable(item)]),
+    )
+  }
+  return value
+}
+
+/**
+ * Reverse of toPortable
+ */
+function fromPortable(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(fromPortable)
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    if (typeof record.__timestamp === 'string' && Object.keys(record).length === 1) {
+      return Timestamp.fromDate(new Date(record.__timestamp))
+    }
+    return Object.fromEntries(Object.entries(record).map(([key, item]) => [key, fromPortable(item)]))
+  }
+  return value
+}
+
+function mapTree(node: CurriculumTreeNode, mapData: (data: DocumentData) => DocumentData): CurriculumTreeNode {
+  return {
+    id: node.id,
+    data: mapData(node.data),
+    children: node.children
+      .map((child) => mapTree(child, mapData))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+  }
+}
+
+/**
+ * Export a grade with all units, lessons, sections and quizzes as one portable document
+ */
+export async function exportGradeTree(gradeId: string): Promise<CurriculumExportDocument> {
+  const tree = await readCurriculumTree([gradeId])
+  if (!tree) {
+    throw new Error('Grade not found')
+  }
+
+  return {
+    format: CURRICULUM_EXPORT_FORMAT,
+    version: CURRICULUM_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceProjectId: firebaseApp.options.projectId,
+    level: 'grades',
+    tree: mapTree(tree, (data) => toPortable(data) as DocumentData),
+  }
+}
+
+/**
+ * Parse and validate the contents of an export file
+ */
+export function parseCurriculumExport(text: string): CurriculumExportDocument {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const result = exportDocumentSchema.safeParse(raw)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(issue ? `${issue.path.join('.') || 'file'}: ${issue.message}` : 'Invalid export file')
+  }
+  return result.data as CurriculumExportDocument
+}
+
+/**
+ * Recreate an exported grade with new IDs
+ * With dryRun the tree is planned and summarized but nothing is written
+ */
+export async function importGradeTree(
+  exportDocument: CurriculumExportDocument,
+  adminId: string,
+  options: { dryRun?: boolean } = {},
+): Promise<CurriculumTreeSummary & { gradeId: string }> {
+  if (exportDocument.level !== 'grades') {
+    throw new Error('Only grade exports can be imported')
+  }
+
+  const tree = mapTree(exportDocument.tree, (data) => fromPortable(data) as DocumentData)
+  const writes: CurriculumWrite[] = []
+  const gradeId = planNodeWrites(tree, 0, [], { resetTimestamps: true }, writes)
+  const summary = summarizeCurriculumTree(tree, 0)
+
+  if (options.dryRun) {
+    return { ...summary, gradeId }
+  }
+
+  await commitWrites(writes)
+
+  await logAdminAction({
+    adminId,
+    action: 'create',
+    entity: 'grades',
+    entityId: gradeId,
+    metadata: {
+      name: summary.rootTitle,
+      source: 'import',
+      sourceProjectId: exportDocument.sourceProjectId ?? null,
+      exportedAt: exportDocument.exportedAt,
+      documentCount: writes.length,
+    },
+  })
+
+  return { ...summary, gradeId }
+}
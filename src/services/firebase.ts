@@ -15,12 +15,17 @@ import {
   setDoc,
   updateDoc,
   deleteDoc,
+  getDoc,
   serverTimestamp,
   onSnapshot,
   query,
   orderBy,
   limit,
+  startAfter,
   getDocs,
+  getCountFromServer,
+  where,
+  documentId,
   type Firestore,
   type QueryConstraint,
   type DocumentSnapshot,
@@ -28,9 +33,18 @@ import {
   type Timestamp,
 } from 'firebase/firestore'
 import { getStorage, ref, uploadBytes, getDownloadURL, deleteObject, type FirebaseStorage } from 'firebase/storage'
+import { getFunctions, type Functions } from 'firebase/functions'
+import { assertGradeInScope, gradeScopeConstraints } from './gradeScope'
+import { deletedFields, diffFields } from '@/utils/changeLog'
 import type {
   AdminActionLog,
   AdminProfile,
+  Classroom,
+  CompetitionFlag,
+  CompetitionRatingSummary,
+  CompetitionTournament,
+  CompositionAgreement,
+  CompositionSubmission,
   CurriculumCounts,
   Grade,
   Lesson,
@@ -39,7 +53,9 @@ import type {
   Question,
   Quiz,
   Section,
+  StaffMember,
   Student,
+  StudentCompetitionResult,
   StudentPerformance,
   Unit,
 } from '@/types/models'
@@ -69,11 +85,13 @@ const app: FirebaseApp = getApps().length ? getApp() : initializeApp(firebaseCon
 const auth: Auth = getAuth(app)
 const db: Firestore = getFirestore(app)
 const storage: FirebaseStorage = getStorage(app)
+const functions: Functions = getFunctions(app)
 
 export const firebaseApp = app
 export const firebaseAuth = auth
 export const firestore = db
 export const firebaseStorage = storage
+export const firebaseFunctions = functions
 
 export function onAuthStateChangedListener(callback: (user: User | null) => void) {
   return onAuthStateChanged(auth, callback)
@@ -110,6 +128,13 @@ type CollectionName =
   | 'adminLogs'
   | 'notifications'
   | 'users'
+  | 'classes'
+  | 'staff'
+  | 'compositionSubmissions'
+  | 'compositionAgreement'
+  | 'competitionRatingSummaries'
+  | 'competitionTournaments'
+  | 'competitionFlags'
 
 type EntityMap = {
   grades: Grade
@@ -123,6 +148,39 @@ type EntityMap = {
   adminLogs: AdminActionLog
   notifications: Notification
   users: Student
+  classes: Classroom
+  staff: StaffMember
+  compositionSubmissions: CompositionSubmission
+  compositionAgreement: CompositionAgreement
+  competitionRatingSummaries: CompetitionRatingSummary
+  competitionTournaments: CompetitionTournament
+  competitionFlags: CompetitionFlag
+}
+
+// Collections limited to the signed-in staff member's grades, and the field holding the grade ID
+const GRADE_SCOPED_FIELDS: Partial<Record<CollectionName, 'id' | 'gradeId'>> = {
+  grades: 'id',
+  users: 'gradeId',
+  classes: 'gradeId',
+  practiceData: 'gradeId',
+  compositionSubmissions: 'gradeId',
+  compositionAgreement: 'gradeId',
+  competitionTournaments: 'gradeId',
+  competitionRatingSummaries: 'gradeId',
+  competitionFlags: 'gradeId',
+}
+
+function scopedQuery(collectionName: CollectionName, constraints: QueryConstraint[] = []) {
+  const colRef = collection(db, collectionName)
+  const scopeField = GRADE_SCOPED_FIELDS[collectionName]
+  const allConstraints = [...(scopeField ? gradeScopeConstraints(scopeField) : []), ...constraints]
+  return allConstraints.length ? query(colRef, ...allConstraints) : colRef
+}
+
+function assertWriteInScope(collectionName: CollectionName, id: string, data?: { gradeId?: unknown }) {
+  const scopeField = GRADE_SCOPED_FIELDS[collectionName]
+  if (scopeField === 'id') assertGradeInScope(id)
+  else if (scopeField && typeof data?.gradeId === 'string') assertGradeInScope(data.gradeId)
 }
 
 function fromDoc<T>(snapshot: DocumentSnapshot<DocumentData, DocumentData>): T {
@@ -132,16 +190,18 @@ function fromDoc<T>(snapshot: DocumentSnapshot<DocumentData, DocumentData>): T {
   } as T
 }
 
-export async function logAdminAction(params: Omit<AdminActionLog, 'id' | 'createdAt' | 'updatedAt' | 'status'> & { status?: 'active' | 'inactive' }) {
+export async function logAdminAction(params: Omit<AdminActionLog, 'id' | 'createdAt' | 'updatedAt' | 'status'> & { status?: 'active' | 'inactive' }): Promise<string> {
   const logRef = doc(collection(db, 'adminLogs'))
   await setDoc(logRef, {
     id: logRef.id,
     status: params.status ?? 'active',
+    adminEmail: auth.currentUser?.email ?? null, // Readable "who" next to the uid
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
     timestamp: serverTimestamp(),
     ...params,
   })
+  return logRef.id
 }
 
 interface CollectionService<T extends { id: string }> {
@@ -158,6 +218,7 @@ function createCollectionService<K extends CollectionName>(collectionName: K): C
     async create(data, adminId, metadata) {
       const collectionRef = collection(db, collectionName)
       const docRef = doc(collectionRef)
+      assertWriteInScope(collectionName, docRef.id, data)
       const payload = {
         ...data,
         id: docRef.id,
@@ -176,7 +237,9 @@ function createCollectionService<K extends CollectionName>(collectionName: K): C
       return payload as T
     },
     async update(id, data, adminId, metadata) {
+      assertWriteInScope(collectionName, id, data)
       const docRef = doc(db, collectionName, id)
+      const previous = await getDoc(docRef)
       await updateDoc(docRef, {
         ...data,
         updatedAt: serverTimestamp(),
@@ -187,17 +250,21 @@ function createCollectionService<K extends CollectionName>(collectionName: K): C
         entity: collectionName,
         entityId: id,
         metadata,
+        changes: diffFields(previous.data(), data),
       })
     },
     async remove(id, adminId, metadata) {
+      assertWriteInScope(collectionName, id)
       const docRef = doc(db, collectionName, id)
       
-      // If deleting a grade, also delete all child data (units, lessons, sections, quizzes)
+      // Grades move to the trash together with all child data (units, lessons, sections, quizzes)
       if (collectionName === 'grades') {
-        const { deleteAllUnits } = await import('./hierarchicalServices')
-        await deleteAllUnits(id)
+        const { trashCurriculumNode } = await import('./trashService')
+        await trashCurriculumNode([id], adminId)
+        return
       }
       
+      const previous = await getDoc(docRef)
       await deleteDoc(docRef)
       await logAdminAction({
         adminId,
@@ -205,19 +272,18 @@ function createCollectionService<K extends CollectionName>(collectionName: K): C
         entity: collectionName,
         entityId: id,
         metadata,
+        ...(previous.exists() ? { changes: deletedFields(previous.data()) } : {}),
       })
     },
     listen(callback, constraints) {
-      const colRef = collection(db, collectionName)
-      const q = constraints?.length ? query(colRef, ...constraints) : colRef
+      const q = scopedQuery(collectionName, constraints)
       return onSnapshot(q, (snapshot) => {
         const data = snapshot.docs.map((docSnap) => fromDoc<T>(docSnap))
         callback(data)
       })
     },
     async getAll(constraints) {
-      const colRef = collection(db, collectionName)
-      const q = constraints?.length ? query(colRef, ...constraints) : colRef
+      const q = scopedQuery(collectionName, constraints)
       const snapshot = await getDocs(q)
       return snapshot.docs.map((docSnap) => fromDoc<T>(docSnap))
     },
@@ -234,6 +300,14 @@ export const practiceService = createCollectionService('practiceData')
 export const adminProfileService = createCollectionService('admin')
 export const notificationService = createCollectionService('notifications')
 export const studentService = createCollectionService('users')
+export const classService = createCollectionService('classes')
+export const staffService = createCollectionService('staff')
+export const compositionSubmissionService = createCollectionService('compositionSubmissions')
+export const compositionAgreementService = createCollectionService('compositionAgreement')
+// Read-only in the panel; changes go through the competition functions (see competitionService)
+export const competitionRatingSummaryService = createCollectionService('competitionRatingSummaries')
+export const competitionTournamentService = createCollectionService('competitionTournaments')
+export const competitionFlagService = createCollectionService('competitionFlags')
 
 export async function sendNotification(notificationId: string, adminId: string, metadata?: Record<string, unknown>) {
   const docRef = doc(db, 'notifications', notificationId)
@@ -315,7 +389,7 @@ export async function deleteFile(path: string) {
 
 export async function computeDashboardCounts(): Promise<CurriculumCounts> {
   // Get grades first
-  const gradesSnap = await getDocs(collection(db, 'grades'))
+  const gradesSnap = await getDocs(scopedQuery('grades'))
   
   // Get all nested data by iterating through grades
   let totalUnits = 0
@@ -355,7 +429,7 @@ export async function computeDashboardCounts(): Promise<CurriculumCounts> {
     }
   }
   
-  const practiceSnap = await getDocs(collection(db, 'practiceData'))
+  const practiceSnap = await getDocs(scopedQuery('practiceData'))
 
   let totalAccuracy = 0
   let accuracyCount = 0
@@ -470,13 +544,70 @@ export async function getAdminActionLogs(limitCount = 50) {
   return snapshot.docs.map((docSnap) => fromDoc<AdminActionLog>(docSnap))
 }
 
-export async function fetchStudentPerformance(gradeId?: string): Promise<StudentPerformance[]> {
-  const [studentsSnap, practiceSnap, gradesSnap] = await Promise.all([
-    getDocs(collection(db, 'users')),
-    getDocs(collection(db, 'practiceData')),
-    getDocs(collection(db, 'grades')),
+export async function getAdminActionLog(logId: string): Promise<AdminActionLog | null> {
+  const snapshot = await getDoc(doc(db, 'adminLogs', logId))
+  if (!snapshot.exists()) return null
+  return fromDoc<AdminActionLog>(snapshot)
+}
+
+export type AdminActionLogFilters = {
+  adminId?: string
+  action?: AdminActionLog['action']
+  entity?: string
+  entityId?: string
+  from?: Date // Inclusive start of the range
+  to?: Date // Exclusive end of the range
+}
+
+export type AdminActionLogPage = {
+  logs: AdminActionLog[]
+  cursor: DocumentSnapshot<DocumentData, DocumentData> | null // Pass back to load the next page
+  hasMore: boolean
+}
+
+/**
+ * One page of activity logs, newest first
+ * Combining equality filters with the date range needs composite indexes on adminLogs;
+ * Firestore links to the missing index in the error message
+ */
+export async function fetchAdminActionLogPage(
+  filters: AdminActionLogFilters,
+  cursor: DocumentSnapshot<DocumentData, DocumentData> | null = null,
+  pageSize = 50,
+): Promise<AdminActionLogPage> {
+  const constraints: QueryConstraint[] = []
+  if (filters.adminId) constraints.push(where('adminId', '==', filters.adminId))
+  if (filters.action) constraints.push(where('action', '==', filters.action))
+  if (filters.entity) constraints.push(where('entity', '==', filters.entity))
+  if (filters.entityId) constraints.push(where('entityId', '==', filters.entityId))
+  if (filters.from) constraints.push(where('timestamp', '>=', filters.from))
+  if (filters.to) constraints.push(where('timestamp', '<', filters.to))
+  constraints.push(orderBy('timestamp', 'desc'))
+  if (cursor) constraints.push(startAfter(cursor))
+  // One extra document tells whether another page exists
+  constraints.push(limit(pageSize + 1))
+
+  const snapshot = await getDocs(query(collection(db, 'adminLogs'), ...constraints))
+  const docs = snapshot.docs.slice(0, pageSize)
+  return {
+    logs: docs.map((docSnap) => fromDoc<AdminActionLog>(docSnap)),
+    cursor: docs[docs.length - 1] ?? null,
+    hasMore: snapshot.docs.length > pageSize,
+  }
+}
+
+export async function fetchStudentPerformance(gradeId?: string, classId?: string): Promise<StudentPerformance[]> {
+  const [studentsSnap, practiceSnap, gradesSnap, classSnap] = await Promise.all([
+    getDocs(scopedQuery('users')),
+    getDocs(scopedQuery('practiceData')),
+    getDocs(scopedQuery('grades')),
+    classId ? getDoc(doc(db, 'classes', classId)) : Promise.resolve(null),
   ])
 
+  // Class rosters are the source of truth for class filters
+  const rosterIds = classSnap?.exists() ? new Set((classSnap.data() as Classroom).studentIds ?? []) : null
+  if (classId && !rosterIds) return []
+
   const gradeMap = new Map(gradesSnap.docs.map((grade) => [grade.id, (grade.data() as Grade).name]))
   // const studentMap = new Map(studentsSnap.docs.map((student) => [student.id, fromDoc<Student>(student)]))
 
@@ -522,6 +653,7 @@ export async function fetchStudentPerformance(gradeId?: string): Promise<Student
 
       // If filtering by grade, check student's gradeId
       if (gradeId && student.gradeId !== gradeId) return null
+      if (rosterIds && !rosterIds.has(userId)) return null
 
       const totalAttempts = perf.attempts
       const totalCorrect = perf.correct
@@ -549,4 +681,56 @@ export async function fetchStudentPerformance(gradeId?: string): Promise<Student
     })
 }
 
+export async function fetchStudent(studentId: string): Promise<Student | null> {
+  const snapshot = await getDoc(doc(db, 'users', studentId))
+  if (!snapshot.exists()) return null
+  return fromDoc<Student>(snapshot)
+}
 
+/**
+ * Practice aggregates of one student
+ * Matches the same links as fetchStudentPerformance: userId, studentId or a "{userId}_" document ID prefix
+ */
+export async function fetchStudentPracticeRecords(studentId: string): Promise<PracticeAggregate[]> {
+  const snapshots = await Promise.all([
+    getDocs(scopedQuery('practiceData', [where('userId', '==', studentId)])),
+    getDocs(scopedQuery('practiceData', [where('studentId', '==', studentId)])),
+    getDocs(
+      scopedQuery('practiceData', [where(documentId(), '>=', `${studentId}_`), where(documentId(), '<', `${studentId}_\uf8ff`)]),
+    ),
+  ])
+
+  const records = new Map<string, PracticeAggregate>()
+  snapshots.forEach((snapshot) => {
+    snapshot.docs.forEach((docSnap) => records.set(docSnap.id, fromDoc<PracticeAggregate>(docSnap)))
+  })
+  return Array.from(records.values())
+}
+
+/**
+ * Section ratings of one student, with their place among the section's rated players
+ */
+export async function fetchStudentCompetitionResults(studentId: string): Promise<StudentCompetitionResult[]> {
+  const snapshot = await getDocs(query(collection(db, 'competitionRatings'), where('userId', '==', studentId)))
+  const results = await Promise.all(
+    snapshot.docs.map(async (docSnap): Promise<StudentCompetitionResult> => {
+      const data = docSnap.data() as { sectionId: string; rating: number; matches?: number; wins?: number; updatedAt?: Timestamp | null }
+      const [higher, summary] = await Promise.all([
+        getCountFromServer(
+          query(collection(db, 'competitionRatings'), where('sectionId', '==', data.sectionId), where('rating', '>', data.rating)),
+        ),
+        getDoc(doc(db, 'competitionRatingSummaries', data.sectionId)),
+      ])
+      return {
+        sectionId: data.sectionId,
+        rating: data.rating,
+        rank: higher.data().count + 1,
+        totalPlayers: (summary.data()?.players as number | undefined) ?? 0,
+        matches: data.matches ?? 0,
+        wins: data.wins ?? 0,
+        updatedAt: data.updatedAt ?? null,
+      }
+    }),
+  )
+  return results.sort((a, b) => a.rank - b.rank)
+}
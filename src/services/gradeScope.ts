@@ -0,0 +1,39 @@
+/**
+ * Grade Scope
+ * Grades the signed-in staff member may see and change. null means every grade.
+ * AuthContext sets it after sign-in; services check it before reading or writing a grade.
+ * Firestore rules enforce the same scope, so these checks mainly keep the panel from
+ * issuing queries the rules would reject.
+ */
+
+import { documentId, where, type QueryConstraint } from 'firebase/firestore'
+
+let allowedGradeIds: string[] | null = null
+
+export function setGradeScope(gradeIds: string[] | null) {
+  allowedGradeIds = gradeIds?.length ? [...gradeIds] : null
+}
+
+export function getGradeScope(): string[] | null {
+  return allowedGradeIds
+}
+
+export function isGradeInScope(gradeId: string | null | undefined): boolean {
+  if (!allowedGradeIds) return true
+  return Boolean(gradeId && allowedGradeIds.includes(gradeId))
+}
+
+export function assertGradeInScope(gradeId: string | null | undefined) {
+  if (!isGradeInScope(gradeId)) {
+    throw new Error('You do not have access to this grade.')
+  }
+}
+
+/**
+ * Query constraints limiting a collection to the scoped grades
+ * field is the grade ID field of the documents, or 'id' for the grades collection itself
+ */
+export function gradeScopeConstraints(field: 'id' | 'gradeId' = 'gradeId'): QueryConstraint[] {
+  if (!allowedGradeIds) return []
+  return [where(field === 'id' ? documentId() : field, 'in', allowedGradeIds)]
+}
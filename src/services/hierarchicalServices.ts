@@ -2,6 +2,7 @@
  * Hierarchical Collection Services
  * Services for nested Firestore structure compatible with student app
  * Structure: grades/{gradeId}/units/{unitId}/lessons/{lessonId}/sections/{sectionId}/quizzes/{quizId}
+ * Every call checks the grade against the signed-in staff member's grade scope
  */
 
 import {
@@ -11,16 +12,20 @@ import {
   getDocs,
   setDoc,
   updateDoc,
-  deleteDoc,
   query,
   serverTimestamp,
   onSnapshot,
   type QueryConstraint,
+  type DocumentReference,
   type DocumentSnapshot,
   type DocumentData,
 } from 'firebase/firestore'
-import { firestore } from './firebase'
+import { firestore, logAdminAction } from './firebase'
+import { trashCurriculumNode } from './trashService'
+import { describeCurriculumNode, type CurriculumLevel } from './curriculumTreeService'
+import { assertGradeInScope, isGradeInScope } from './gradeScope'
 import type { Unit, Lesson, Section } from '@/types/models'
+import { diffFields } from '@/utils/changeLog'
 
 /**
  * Convert Firestore document to entity
@@ -33,109 +38,27 @@ function fromDoc<T>(snapshot: DocumentSnapshot<DocumentData>): T {
 }
 
 /**
- * Recursively delete all quizzes under a section
+ * Apply a partial update and log the fields it changed
  */
-async function deleteAllQuizzes(
-  gradeId: string,
-  unitId: string,
-  lessonId: string,
-  sectionId: string,
+async function updateWithLog(
+  docRef: DocumentReference<DocumentData>,
+  level: CurriculumLevel,
+  data: DocumentData,
+  adminId: string,
 ): Promise<void> {
-  const quizzesRef = collection(
-    firestore,
-    'grades',
-    gradeId,
-    'units',
-    unitId,
-    'lessons',
-    lessonId,
-    'sections',
-    sectionId,
-    'quizzes',
-  )
-  const snapshot = await getDocs(quizzesRef)
-  const deletePromises = snapshot.docs.map((docSnap) => deleteDoc(docSnap.ref))
-  await Promise.all(deletePromises)
-}
-
-/**
- * Recursively delete all sections and their quizzes under a lesson
- */
-async function deleteAllSections(
-  gradeId: string,
-  unitId: string,
-  lessonId: string,
-): Promise<void> {
-  const sectionsRef = collection(
-    firestore,
-    'grades',
-    gradeId,
-    'units',
-    unitId,
-    'lessons',
-    lessonId,
-    'sections',
-  )
-  const snapshot = await getDocs(sectionsRef)
-  
-  // Delete all quizzes for each section, then delete the section
-  const deletePromises = snapshot.docs.map(async (sectionDoc) => {
-    const sectionId = sectionDoc.id
-    // Delete all quizzes under this section
-    await deleteAllQuizzes(gradeId, unitId, lessonId, sectionId)
-    // Delete the section itself
-    await deleteDoc(sectionDoc.ref)
-  })
-  
-  await Promise.all(deletePromises)
-}
-
-/**
- * Recursively delete all lessons, sections, and quizzes under a unit
- */
-async function deleteAllLessons(
-  gradeId: string,
-  unitId: string,
-): Promise<void> {
-  const lessonsRef = collection(
-    firestore,
-    'grades',
-    gradeId,
-    'units',
-    unitId,
-    'lessons',
-  )
-  const snapshot = await getDocs(lessonsRef)
-  
-  // Delete all sections and quizzes for each lesson, then delete the lesson
-  const deletePromises = snapshot.docs.map(async (lessonDoc) => {
-    const lessonId = lessonDoc.id
-    // Delete all sections and their quizzes under this lesson
-    await deleteAllSections(gradeId, unitId, lessonId)
-    // Delete the lesson itself
-    await deleteDoc(lessonDoc.ref)
+  const previous = await getDoc(docRef)
+  await updateDoc(docRef, {
+    ...data,
+    updatedAt: serverTimestamp(),
   })
-  
-  await Promise.all(deletePromises)
-}
-
-/**
- * Recursively delete all units, lessons, sections, and quizzes under a grade
- */
-export async function deleteAllUnits(gradeId: string): Promise<void> {
-  const unitsRef = collection(firestore, 'grades', gradeId, 'units')
-  const snapshot = await getDocs(unitsRef)
-  
-  // Delete all lessons, sections, and quizzes for each unit, then delete the unit
-  const deletePromises = snapshot.docs.map(async (unitDoc) => {
-    const unitId = unitDoc.id
-    // Delete all lessons, sections, and quizzes under this unit
-    await deleteAllLessons(gradeId, unitId)
-    // Delete the unit itself
-    await deleteDoc(unitDoc.ref)
+  await logAdminAction({
+    adminId,
+    action: 'update',
+    entity: level,
+    entityId: docRef.id,
+    metadata: { title: describeCurriculumNode(level, { ...previous.data(), ...data }) },
+    changes: diffFields(previous.data(), data),
   })
-  
-  await Promise.all(deletePromises)
 }
 
 /**
@@ -150,6 +73,7 @@ export const hierarchicalUnitService = {
     gradeId: string,
     data: Omit<Unit, 'id' | 'createdAt' | 'updatedAt'>,
   ): Promise<Unit> {
+    assertGradeInScope(gradeId)
     const unitsRef = collection(firestore, 'grades', gradeId, 'units')
     const docRef = doc(unitsRef)
     const payload = {
@@ -171,29 +95,26 @@ export const hierarchicalUnitService = {
     gradeId: string,
     unitId: string,
     data: Partial<Omit<Unit, 'id' | 'createdAt' | 'updatedAt'>>,
+    adminId: string,
   ): Promise<void> {
+    assertGradeInScope(gradeId)
     const docRef = doc(firestore, 'grades', gradeId, 'units', unitId)
-    await updateDoc(docRef, {
-      ...data,
-      updatedAt: serverTimestamp(),
-    })
+    await updateWithLog(docRef, 'units', data, adminId)
   },
 
   /**
-   * Delete unit and all its child data (lessons, sections, quizzes)
+   * Move unit and all its child data (lessons, sections, quizzes) to the trash
    */
-  async remove(gradeId: string, unitId: string): Promise<void> {
-    // Delete all lessons, sections, and quizzes under this unit first
-    await deleteAllLessons(gradeId, unitId)
-    // Delete the unit itself
-    const docRef = doc(firestore, 'grades', gradeId, 'units', unitId)
-    await deleteDoc(docRef)
+  async remove(gradeId: string, unitId: string, adminId: string): Promise<void> {
+    assertGradeInScope(gradeId)
+    await trashCurriculumNode([gradeId, unitId], adminId)
   },
 
   /**
    * Get unit by ID
    */
   async get(gradeId: string, unitId: string): Promise<Unit | null> {
+    assertGradeInScope(gradeId)
     const docRef = doc(firestore, 'grades', gradeId, 'units', unitId)
     const snapshot = await getDoc(docRef)
     if (!snapshot.exists()) return null
@@ -204,6 +125,7 @@ export const hierarchicalUnitService = {
    * Get all units for a grade
    */
   async getAll(gradeId: string, constraints?: QueryConstraint[]): Promise<Unit[]> {
+    assertGradeInScope(gradeId)
     const unitsRef = collection(firestore, 'grades', gradeId, 'units')
     const q = constraints?.length ? query(unitsRef, ...constraints) : unitsRef
     const snapshot = await getDocs(q)
@@ -218,6 +140,11 @@ export const hierarchicalUnitService = {
     callback: (units: Unit[]) => void,
     constraints?: QueryConstraint[],
   ): () => void {
+    // Listeners run inside effects, so report an out-of-scope grade as empty instead of throwing
+    if (!isGradeInScope(gradeId)) {
+      callback([])
+      return () => {}
+    }
     const unitsRef = collection(firestore, 'grades', gradeId, 'units')
     const q = constraints?.length ? query(unitsRef, ...constraints) : unitsRef
     return onSnapshot(q, (snapshot) => {
@@ -237,6 +164,7 @@ export const hierarchicalLessonService = {
     unitId: string,
     data: Omit<Lesson, 'id' | 'createdAt' | 'updatedAt'>,
   ): Promise<Lesson> {
+    assertGradeInScope(gradeId)
     const lessonsRef = collection(firestore, 'grades', gradeId, 'units', unitId, 'lessons')
     const docRef = doc(lessonsRef)
     const payload = {
@@ -256,23 +184,21 @@ export const hierarchicalLessonService = {
     unitId: string,
     lessonId: string,
     data: Partial<Omit<Lesson, 'id' | 'createdAt' | 'updatedAt'>>,
+    adminId: string,
   ): Promise<void> {
+    assertGradeInScope(gradeId)
     const docRef = doc(firestore, 'grades', gradeId, 'units', unitId, 'lessons', lessonId)
-    await updateDoc(docRef, {
-      ...data,
-      updatedAt: serverTimestamp(),
-    })
+    await updateWithLog(docRef, 'lessons', data, adminId)
   },
 
-  async remove(gradeId: string, unitId: string, lessonId: string): Promise<void> {
-    // Delete all sections and quizzes under this lesson first
-    await deleteAllSections(gradeId, unitId, lessonId)
-    // Delete the lesson itself
-    const docRef = doc(firestore, 'grades', gradeId, 'units', unitId, 'lessons', lessonId)
-    await deleteDoc(docRef)
+  async remove(gradeId: string, unitId: string, lessonId: string, adminId: string): Promise<void> {
+    assertGradeInScope(gradeId)
+    // Lesson, sections and quizzes go to the trash together
+    await trashCurriculumNode([gradeId, unitId, lessonId], adminId)
   },
 
   async get(gradeId: string, unitId: string, lessonId: string): Promise<Lesson | null> {
+    assertGradeInScope(gradeId)
     const docRef = doc(firestore, 'grades', gradeId, 'units', unitId, 'lessons', lessonId)
     const snapshot = await getDoc(docRef)
     if (!snapshot.exists()) return null
@@ -284,6 +210,7 @@ export const hierarchicalLessonService = {
     unitId: string,
     constraints?: QueryConstraint[],
   ): Promise<Lesson[]> {
+    assertGradeInScope(gradeId)
     const lessonsRef = collection(firestore, 'grades', gradeId, 'units', unitId, 'lessons')
     const q = constraints?.length ? query(lessonsRef, ...constraints) : lessonsRef
     const snapshot = await getDocs(q)
@@ -296,6 +223,10 @@ export const hierarchicalLessonService = {
     callback: (lessons: Lesson[]) => void,
     constraints?: QueryConstraint[],
   ): () => void {
+    if (!isGradeInScope(gradeId)) {
+      callback([])
+      return () => {}
+    }
     const lessonsRef = collection(firestore, 'grades', gradeId, 'units', unitId, 'lessons')
     const q = constraints?.length ? query(lessonsRef, ...constraints) : lessonsRef
     return onSnapshot(q, (snapshot) => {
@@ -316,6 +247,7 @@ export const hierarchicalSectionService = {
     lessonId: string,
     data: Omit<Section, 'id' | 'createdAt' | 'updatedAt'>,
   ): Promise<Section> {
+    assertGradeInScope(gradeId)
     const sectionsRef = collection(
       firestore,
       'grades',
@@ -346,7 +278,9 @@ export const hierarchicalSectionService = {
     lessonId: string,
     sectionId: string,
     data: Partial<Omit<Section, 'id' | 'createdAt' | 'updatedAt'>>,
+    adminId: string,
   ): Promise<void> {
+    assertGradeInScope(gradeId)
     const docRef = doc(
       firestore,
       'grades',
@@ -358,10 +292,7 @@ export const hierarchicalSectionService = {
       'sections',
       sectionId,
     )
-    await updateDoc(docRef, {
-      ...data,
-      updatedAt: serverTimestamp(),
-    })
+    await updateWithLog(docRef, 'sections', data, adminId)
   },
 
   async remove(
@@ -369,22 +300,11 @@ export const hierarchicalSectionService = {
     unitId: string,
     lessonId: string,
     sectionId: string,
+    adminId: string,
   ): Promise<void> {
-    // Delete all quizzes under this section first
-    await deleteAllQuizzes(gradeId, unitId, lessonId, sectionId)
-    // Delete the section itself
-    const docRef = doc(
-      firestore,
-      'grades',
-      gradeId,
-      'units',
-      unitId,
-      'lessons',
-      lessonId,
-      'sections',
-      sectionId,
-    )
-    await deleteDoc(docRef)
+    assertGradeInScope(gradeId)
+    // Section and its quizzes go to the trash together
+    await trashCurriculumNode([gradeId, unitId, lessonId, sectionId], adminId)
   },
 
   async get(
@@ -393,6 +313,7 @@ export const hierarchicalSectionService = {
     lessonId: string,
     sectionId: string,
   ): Promise<Section | null> {
+    assertGradeInScope(gradeId)
     const docRef = doc(
       firestore,
       'grades',
@@ -415,6 +336,7 @@ export const hierarchicalSectionService = {
     lessonId: string,
     constraints?: QueryConstraint[],
   ): Promise<Section[]> {
+    assertGradeInScope(gradeId)
     const sectionsRef = collection(
       firestore,
       'grades',
@@ -437,6 +359,10 @@ export const hierarchicalSectionService = {
     callback: (sections: Section[]) => void,
     constraints?: QueryConstraint[],
   ): () => void {
+    if (!isGradeInScope(gradeId)) {
+      callback([])
+      return () => {}
+    }
     const sectionsRef = collection(
       firestore,
       'grades',
@@ -0,0 +1,47 @@
+/**
+ * Notification Audience Service
+ * Recipient counts of a notification audience, resolved by the previewNotificationAudience function
+ * the same way the push delivery resolves it. Notifications themselves go through notificationService in firebase.ts.
+ */
+
+import { httpsCallable } from 'firebase/functions'
+import {
+  activeAudienceFilters,
+  type NotificationAudienceFilters,
+  type NotificationAudienceSpec,
+} from '@shared/notificationAudience'
+import { firebaseFunctions } from './firebase'
+import type { NotificationFormValues } from '@/utils/schemas'
+
+export type AudiencePreview = {
+  students: number
+  devices: number // Devices with push notifications enabled
+}
+
+/**
+ * Audience of the notification form as stored on the notification, without the filters that are not set
+ */
+export function toNotificationAudience(values: NotificationFormValues): {
+  audienceType: NotificationFormValues['audienceType']
+  audienceValue: string
+  audienceFilters: NotificationAudienceFilters
+} {
+  const usesValue = values.audienceType !== 'all' && values.audienceType !== 'students'
+  return {
+    audienceType: values.audienceType,
+    audienceValue: usesValue ? (values.audienceValue?.trim() ?? '') : '',
+    audienceFilters: activeAudienceFilters({
+      studentIds: values.audienceType === 'students' ? values.studentIds : undefined,
+      classId: values.filterClassId,
+      inactiveDays: values.inactiveDays,
+      lowAccuracyUnitId: values.lowAccuracyUnitId,
+      maxAccuracy: values.maxAccuracy,
+    }),
+  }
+}
+
+export async function previewNotificationAudience(audience: NotificationAudienceSpec): Promise<AudiencePreview> {
+  const callPreview = httpsCallable<NotificationAudienceSpec, AudiencePreview>(firebaseFunctions, 'previewNotificationAudience')
+  const { data } = await callPreview(audience)
+  return data
+}
@@ -11,14 +11,19 @@ import {
   getDocs,
   setDoc,
   updateDoc,
-  deleteDoc,
   serverTimestamp,
+  type DocumentData,
 } from 'firebase/firestore'
 import { firestore } from './firebase'
-import type { Quiz, Question } from '@/types/models'
-import { prepareQuizDocumentForFirestore } from '@/utils/dataTransformers'
+import type { PublishWindow, Quiz, Question } from '@/types/models'
+import { prepareQuizDocumentForFirestore, type StudentAppQuestion } from '@/utils/dataTransformers'
 import { mapToTeacherQuizType } from '@/utils/quizTypeMapper'
+import { diffDocuments, diffFields } from '@/utils/changeLog'
 import { logAdminAction } from './firebase'
+import { trashCurriculumNode } from './trashService'
+import { assertGradeInScope } from './gradeScope'
+import { recordQuizVersion } from './quizVersionService'
+import { deleteQuizDraft, draftDiffersFromPublished, getQuizDraft, saveQuizDraft } from './quizDraftService'
 
 /**
  * Create quiz with embedded questions
@@ -30,6 +35,7 @@ export async function createQuizWithQuestions(
   questions: Omit<Question, 'id' | 'createdAt' | 'updatedAt' | 'quizId'>[],
   adminId: string,
 ): Promise<Quiz> {
+  assertGradeInScope(quiz.gradeId)
   // Create quiz document reference in nested structure
   const quizzesRef = collection(
     firestore,
@@ -76,12 +82,14 @@ export async function createQuizWithQuestions(
   firestoreDoc.lessonId = quiz.lessonId
   firestoreDoc.quizType = quiz.quizType // Preserve teacher panel quiz type
   firestoreDoc.isPublished = quiz.isPublished ?? false
+  firestoreDoc.publishAt = quiz.publishAt ?? null
+  firestoreDoc.unpublishAt = quiz.unpublishAt ?? null
 
   // Write to Firestore
   await setDoc(quizDocRef, firestoreDoc)
 
   // Log admin action
-  await logAdminAction({
+  const logId = await logAdminAction({
     adminId,
     action: 'create',
     entity: 'quizzes',
@@ -92,11 +100,19 @@ export async function createQuizWithQuestions(
     },
   })
 
+  await recordQuizVersion(
+    [quiz.gradeId, quiz.unitId, quiz.lessonId, quiz.sectionId, quizDocRef.id],
+    firestoreDoc,
+    adminId,
+    { logId },
+  )
+
   return quizWithId
 }
 
 /**
  * Update quiz with embedded questions
+ * Changes are saved to the quiz draft; students keep the published document until publishQuiz runs
  */
 export async function updateQuizWithQuestions(
   gradeId: string,
@@ -108,6 +124,7 @@ export async function updateQuizWithQuestions(
   questions: Omit<Question, 'id' | 'createdAt' | 'updatedAt' | 'quizId'>[],
   adminId: string,
 ): Promise<void> {
+  assertGradeInScope(gradeId)
   const quizDocRef = doc(
     firestore,
     'grades',
@@ -122,13 +139,15 @@ export async function updateQuizWithQuestions(
     quizId,
   )
 
-  // Get existing quiz to merge updates
+  // Get existing quiz to merge updates, starting from the draft when there is one
   const existingQuizSnap = await getDoc(quizDocRef)
   if (!existingQuizSnap.exists()) {
     throw new Error('Quiz not found')
   }
+  const draft = await getQuizDraft(quizId)
+  const existingDocument: DocumentData = draft ? { ...existingQuizSnap.data(), ...draft.document } : existingQuizSnap.data()
 
-  const existingQuiz = existingQuizSnap.data() as Quiz
+  const existingQuiz = existingDocument as Quiz
 
   // Merge updates
   const updatedQuiz: Quiz = {
@@ -149,7 +168,6 @@ export async function updateQuizWithQuestions(
 
   // Prepare document
   const firestoreDoc = prepareQuizDocumentForFirestore(updatedQuiz, questionsWithIds)
-  firestoreDoc.updatedAt = serverTimestamp()
 
   // Keep teacher panel metadata
   firestoreDoc.gradeId = gradeId
@@ -158,11 +176,11 @@ export async function updateQuizWithQuestions(
   firestoreDoc.quizType = updatedQuiz.quizType // Preserve teacher panel quiz type
   firestoreDoc.isPublished = updatedQuiz.isPublished ?? false
 
-  // Update in Firestore
-  await updateDoc(quizDocRef, firestoreDoc)
+  // Save as draft; the published document stays untouched
+  await saveQuizDraft([gradeId, unitId, lessonId, sectionId, quizId], firestoreDoc, adminId)
 
   // Log admin action
-  await logAdminAction({
+  const logId = await logAdminAction({
     adminId,
     action: 'update',
     entity: 'quizzes',
@@ -170,14 +188,66 @@ export async function updateQuizWithQuestions(
     metadata: {
       title: updatedQuiz.title,
       questionCount: questions.length,
+      draft: true,
     },
+    changes: diffFields(existingDocument, firestoreDoc),
+  })
+
+  // Keep an immutable copy of what was saved so it can be compared or rolled back
+  await recordQuizVersion([gradeId, unitId, lessonId, sectionId, quizId], firestoreDoc, adminId, {
+    previousDocument: existingDocument,
+    logId,
   })
 }
 
 /**
- * Delete quiz with embedded questions
+ * Problems that block publishing a quiz document (student app format)
  */
-export async function deleteQuizWithQuestions(
+export function getQuizPublishIssues(document: Record<string, unknown>): string[] {
+  const issues: string[] = []
+  if (typeof document.title !== 'string' || !document.title.trim()) {
+    issues.push('The quiz needs a title.')
+  }
+
+  const questions = Array.isArray(document.questions) ? (document.questions as StudentAppQuestion[]) : []
+  if (questions.length === 0) {
+    issues.push('Add at least one question.')
+  }
+
+  questions.forEach((question, index) => {
+    const label = `Question ${index + 1}`
+    if (typeof question.prompt !== 'string' || !question.prompt.trim()) {
+      issues.push(`${label} has no prompt.`)
+    }
+    switch (question.type) {
+      case 'fill_blank':
+      case 'drag_drop':
+      case 'spelling':
+        if (!Array.isArray(question.answers) || question.answers.length === 0) {
+          issues.push(`${label} has no answers.`)
+        }
+        break
+      case 'matching':
+        if (!question.pairs || Object.keys(question.pairs).length === 0) {
+          issues.push(`${label} has no pairs.`)
+        }
+        break
+      case 'order_words':
+        if (!Array.isArray(question.order) || question.order.length === 0) {
+          issues.push(`${label} has no words to order.`)
+        }
+        break
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Promote the quiz draft to the document the student app reads
+ * Throws with the validation issues when the draft is not ready
+ */
+export async function publishQuiz(
   gradeId: string,
   unitId: string,
   lessonId: string,
@@ -185,6 +255,7 @@ export async function deleteQuizWithQuestions(
   quizId: string,
   adminId: string,
 ): Promise<void> {
+  assertGradeInScope(gradeId)
   const quizDocRef = doc(
     firestore,
     'grades',
@@ -198,23 +269,119 @@ export async function deleteQuizWithQuestions(
     'quizzes',
     quizId,
   )
+  const publishedSnap = await getDoc(quizDocRef)
+  if (!publishedSnap.exists()) {
+    throw new Error('Quiz not found')
+  }
+  const published = publishedSnap.data()
+  const draft = await getQuizDraft(quizId)
+  const document = draft ? draft.document : published
 
-  // Get quiz title for logging
-  const quizSnap = await getDoc(quizDocRef)
-  const quizTitle = quizSnap.exists() ? (quizSnap.data() as Quiz).title : 'Unknown'
+  const issues = getQuizPublishIssues(document)
+  if (issues.length > 0) {
+    throw new Error(issues.join(' '))
+  }
 
-  // Delete quiz (questions are embedded, so they're deleted too)
-  await deleteDoc(quizDocRef)
+  const publishedDocument = {
+    ...document,
+    // Location follows the current path even if the quiz was moved after the draft was saved
+    id: quizId,
+    sectionId,
+    gradeId,
+    unitId,
+    lessonId,
+    isPublished: true,
+    publishAt: null, // Published now, so a pending scheduled publish no longer applies
+    unpublishAt: published.unpublishAt ?? null,
+    createdAt: published.createdAt ?? serverTimestamp(),
+    updatedAt: serverTimestamp(),
+    publishedAt: serverTimestamp(),
+    publishedBy: adminId,
+  }
+  await setDoc(quizDocRef, publishedDocument)
+  if (draft) {
+    await deleteQuizDraft(quizId)
+  }
 
-  // Log admin action
   await logAdminAction({
     adminId,
-    action: 'delete',
+    action: 'update',
+    entity: 'quizzes',
+    entityId: quizId,
+    metadata: {
+      title: document.title ?? null,
+      operation: 'publish',
+      questionCount: Array.isArray(document.questions) ? document.questions.length : 0,
+    },
+    // What students see change, compared with the previously published version
+    changes: diffDocuments(published, publishedDocument),
+  })
+}
+
+/**
+ * Delete quiz with embedded questions
+ * The quiz moves to the trash, which also records the admin log entry
+ */
+export async function deleteQuizWithQuestions(
+  gradeId: string,
+  unitId: string,
+  lessonId: string,
+  sectionId: string,
+  quizId: string,
+  adminId: string,
+): Promise<void> {
+  assertGradeInScope(gradeId)
+  await trashCurriculumNode([gradeId, unitId, lessonId, sectionId, quizId], adminId)
+}
+
+/**
+ * Set the scheduled publish window on the published quiz document
+ * The window is not draft content, so it applies immediately
+ */
+export async function updateQuizSchedule(
+  gradeId: string,
+  unitId: string,
+  lessonId: string,
+  sectionId: string,
+  quizId: string,
+  window: PublishWindow,
+  adminId: string,
+): Promise<void> {
+  assertGradeInScope(gradeId)
+  const quizDocRef = doc(
+    firestore,
+    'grades',
+    gradeId,
+    'units',
+    unitId,
+    'lessons',
+    lessonId,
+    'sections',
+    sectionId,
+    'quizzes',
+    quizId,
+  )
+  const schedule = {
+    publishAt: window.publishAt ?? null,
+    unpublishAt: window.unpublishAt ?? null,
+  }
+  const previous = await getDoc(quizDocRef)
+  await updateDoc(quizDocRef, {
+    ...schedule,
+    updatedAt: serverTimestamp(),
+  })
+
+  await logAdminAction({
+    adminId,
+    action: 'update',
     entity: 'quizzes',
     entityId: quizId,
     metadata: {
-      title: quizTitle,
+      operation: 'schedule',
+      publishAt: window.publishAt?.toDate().toISOString() ?? null,
+      unpublishAt: window.unpublishAt?.toDate().toISOString() ?? null,
     },
+    changes: diffFields(previous.data(), schedule),
   })
 }
 
@@ -227,7 +394,8 @@ export async function getQuizWithQuestions(
   lessonId: string,
   sectionId: string,
   quizId: string,
-): Promise<{ quiz: Quiz; questions: Question[] } | null> {
+): Promise<{ quiz: Quiz; questions: Question[]; hasUnpublishedChanges: boolean } | null> {
+  assertGradeInScope(gradeId)
   const quizDocRef = doc(
     firestore,
     'grades',
@@ -245,7 +413,9 @@ export async function getQuizWithQuestions(
   const snapshot = await getDoc(quizDocRef)
   if (!snapshot.exists()) return null
 
-  const data = snapshot.data()
+  // Teachers always work on the draft when one exists
+  const draft = await getQuizDraft(quizId)
+  const data = draft ? { ...snapshot.data(), ...draft.document } : snapshot.data()
   
   // Map 'type' (student app format) to 'quizType' (teacher panel format)
   const quizType = data.quizType || (data.type ? mapToTeacherQuizType(data.type) : 'fill-in')
@@ -418,6 +588,7 @@ export async function getQuizWithQuestions(
   return {
     quiz,
     questions: questions,
+    hasUnpublishedChanges: draft ? draftDiffersFromPublished(draft, snapshot.data()) : false,
   }
 }
 
@@ -430,6 +601,7 @@ export async function getQuizzesForSection(
   lessonId: string,
   sectionId: string,
 ): Promise<Quiz[]> {
+  assertGradeInScope(gradeId)
   const quizzesRef = collection(
     firestore,
     'grades',
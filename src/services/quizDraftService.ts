@@ -0,0 +1,111 @@
+/**
+ * Quiz Draft Service
+ * Teachers edit a draft copy of each quiz; the student app keeps reading the published quiz document
+ * until the draft is published. Structure: quizDrafts/{quizId}
+ */
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  documentId,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  type DocumentData,
+} from 'firebase/firestore'
+import { firestore } from './firebase'
+import { getGradeScope } from './gradeScope'
+import type { QuizDraft } from '@/types/models'
+import { diffQuizVersions } from '@/utils/quizVersionDiff'
+
+const QUIZ_DRAFTS_COLLECTION = 'quizDrafts'
+const IN_QUERY_LIMIT = 30
+
+/**
+ * Draft of a quiz, or null when the quiz has no unpublished edits
+ */
+export async function getQuizDraft(quizId: string): Promise<QuizDraft | null> {
+  const snapshot = await getDoc(doc(firestore, QUIZ_DRAFTS_COLLECTION, quizId))
+  if (!snapshot.exists()) return null
+  return { id: snapshot.id, ...snapshot.data() } as QuizDraft
+}
+
+/**
+ * Replace the draft with a full quiz document in student app format
+ */
+export async function saveQuizDraft(path: string[], document: DocumentData, adminId: string): Promise<void> {
+  const quizId = path[path.length - 1]
+  const draftDocument: Record<string, unknown> = { ...document }
+  delete draftDocument.createdAt
+  delete draftDocument.updatedAt
+  await setDoc(doc(firestore, QUIZ_DRAFTS_COLLECTION, quizId), {
+    id: quizId,
+    path,
+    gradeId: path[0],
+    document: draftDocument,
+    updatedBy: adminId,
+    updatedAt: serverTimestamp(),
+  })
+}
+
+export async function deleteQuizDraft(quizId: string): Promise<void> {
+  await deleteDoc(doc(firestore, QUIZ_DRAFTS_COLLECTION, quizId))
+}
+
+/**
+ * Point the draft of a moved quiz at its new location, so the grade scope follows the quiz
+ */
+export async function relocateQuizDraft(path: string[]): Promise<void> {
+  const draftRef = doc(firestore, QUIZ_DRAFTS_COLLECTION, path[path.length - 1])
+  if (!(await getDoc(draftRef)).exists()) return
+  await updateDoc(draftRef, { path, gradeId: path[0] })
+}
+
+/**
+ * True when the draft content differs from the published quiz document
+ */
+export function draftDiffersFromPublished(draft: QuizDraft, published: Record<string, unknown>): boolean {
+  const diff = diffQuizVersions(published, draft.document)
+  return diff.quizFields.length > 0 || diff.counts.added + diff.counts.changed + diff.counts.removed > 0
+}
+
+/**
+ * IDs of the given quizzes whose drafts have unpublished changes
+ * Grade-scoped staff query one grade at a time, so the security rules can check every draft returned
+ */
+export async function getQuizIdsWithDraftChanges(
+  quizzes: Array<{ id: string; gradeId?: string } & Record<string, unknown>>,
+): Promise<Set<string>> {
+  const changed = new Set<string>()
+  const byId = new Map(quizzes.map((quiz) => [quiz.id, quiz]))
+  const scope = getGradeScope()
+
+  const idsByGrade = new Map<string | null, string[]>()
+  quizzes.forEach((quiz) => {
+    const gradeId = scope ? (quiz.gradeId ?? '') : null
+    if (scope && !scope.includes(gradeId ?? '')) return
+    idsByGrade.set(gradeId, [...(idsByGrade.get(gradeId) ?? []), quiz.id])
+  })
+
+  for (const [gradeId, ids] of idsByGrade) {
+    for (let start = 0; start < ids.length; start += IN_QUERY_LIMIT) {
+      const chunk = ids.slice(start, start + IN_QUERY_LIMIT)
+      const constraints = [where(documentId(), 'in', chunk), ...(gradeId ? [where('gradeId', '==', gradeId)] : [])]
+      const snapshot = await getDocs(query(collection(firestore, QUIZ_DRAFTS_COLLECTION), ...constraints))
+      snapshot.docs.forEach((docSnap) => {
+        const draft = { id: docSnap.id, ...docSnap.data() } as QuizDraft
+        const published = byId.get(draft.id)
+        if (published && draftDiffersFromPublished(draft, published)) {
+          changed.add(draft.id)
+        }
+      })
+    }
+  }
+
+  return changed
+}
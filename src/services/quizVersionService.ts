@@ -0,0 +1,196 @@
+/**
+ * Quiz Version Service
+ * Immutable snapshots of quiz documents (student app format), written on every save
+ * Structure: quizVersions/{versionId} keyed by quizId, so history survives moves and trash restores
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+} from 'firebase/firestore'
+import { firebaseAuth, firestore, logAdminAction } from './firebase'
+import { getQuizDraft, saveQuizDraft } from './quizDraftService'
+import { gradeScopeConstraints } from './gradeScope'
+import type { QuizVersion } from '@/types/models'
+
+const QUIZ_VERSIONS_COLLECTION = 'quizVersions'
+const BATCH_LIMIT = 450
+
+// Fields that change on every write and would make every version look different
+const VOLATILE_FIELDS = ['createdAt', 'updatedAt']
+
+function quizDocRef(path: string[]) {
+  const [gradeId, unitId, lessonId, sectionId, quizId] = path
+  return doc(
+    firestore,
+    'grades',
+    gradeId,
+    'units',
+    unitId,
+    'lessons',
+    lessonId,
+    'sections',
+    sectionId,
+    'quizzes',
+    quizId,
+  )
+}
+
+function toSnapshotDocument(data: DocumentData): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = { ...data }
+  VOLATILE_FIELDS.forEach((field) => delete snapshot[field])
+  return snapshot
+}
+
+/**
+ * All saved versions of a quiz, newest first
+ * Grade-scoped staff only see the versions saved in their grades
+ */
+export async function listQuizVersions(quizId: string): Promise<QuizVersion[]> {
+  const snapshot = await getDocs(
+    query(collection(firestore, QUIZ_VERSIONS_COLLECTION), where('quizId', '==', quizId), ...gradeScopeConstraints()),
+  )
+  return snapshot.docs
+    .map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as QuizVersion)
+    .sort((a, b) => b.version - a.version)
+}
+
+/**
+ * Point every version of a moved quiz at its new location, so the grade scope follows the quiz
+ */
+export async function relocateQuizVersions(path: string[]): Promise<void> {
+  const versions = await listQuizVersions(path[path.length - 1])
+  for (let start = 0; start < versions.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(firestore)
+    versions.slice(start, start + BATCH_LIMIT).forEach((version) => {
+      batch.update(doc(firestore, QUIZ_VERSIONS_COLLECTION, version.id), { path, gradeId: path[0] })
+    })
+    await batch.commit()
+  }
+}
+
+/**
+ * Delete the version history of a quiz, once the quiz itself is gone for good
+ */
+export async function deleteQuizVersions(quizId: string): Promise<void> {
+  const versions = await listQuizVersions(quizId)
+  for (let start = 0; start < versions.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(firestore)
+    versions.slice(start, start + BATCH_LIMIT).forEach((version) => {
+      batch.delete(doc(firestore, QUIZ_VERSIONS_COLLECTION, version.id))
+    })
+    await batch.commit()
+  }
+}
+
+async function writeVersion(
+  path: string[],
+  version: number,
+  document: DocumentData,
+  createdBy: string | null,
+  extra: Partial<Pick<QuizVersion, 'logId' | 'restoredFromVersion'>> = {},
+): Promise<QuizVersion> {
+  const versionRef = doc(collection(firestore, QUIZ_VERSIONS_COLLECTION))
+  const snapshotDocument = toSnapshotDocument(document)
+  const questions = Array.isArray(snapshotDocument.questions) ? snapshotDocument.questions : []
+  const entry: Omit<QuizVersion, 'createdAt' | 'updatedAt'> = {
+    id: versionRef.id,
+    quizId: path[path.length - 1],
+    path,
+    gradeId: path[0],
+    version,
+    title: typeof snapshotDocument.title === 'string' ? snapshotDocument.title : '',
+    questionCount: questions.length,
+    document: snapshotDocument,
+    createdBy,
+    createdByEmail: createdBy ? firebaseAuth.currentUser?.email ?? null : null,
+    ...extra,
+  }
+  await setDoc(versionRef, { ...entry, createdAt: serverTimestamp() })
+  return entry
+}
+
+/**
+ * Record a saved quiz document as the next version
+ * previousDocument is stored first as a baseline when the quiz has no history yet,
+ * so the state before the first tracked edit can still be restored
+ */
+export async function recordQuizVersion(
+  path: string[],
+  document: DocumentData,
+  adminId: string,
+  options: { previousDocument?: DocumentData; logId?: string; restoredFromVersion?: number } = {},
+): Promise<QuizVersion> {
+  const existing = await listQuizVersions(path[path.length - 1])
+  let nextVersion = (existing[0]?.version ?? 0) + 1
+
+  if (existing.length === 0 && options.previousDocument) {
+    await writeVersion(path, nextVersion, options.previousDocument, null)
+    nextVersion += 1
+  }
+
+  return writeVersion(path, nextVersion, document, adminId, {
+    ...(options.logId ? { logId: options.logId } : {}),
+    ...(options.restoredFromVersion !== undefined ? { restoredFromVersion: options.restoredFromVersion } : {}),
+  })
+}
+
+/**
+ * Replace the quiz draft with an earlier version
+ * The rollback itself becomes a new version and goes live once the quiz is published
+ */
+export async function restoreQuizVersion(path: string[], versionId: string, adminId: string): Promise<QuizVersion> {
+  const [gradeId, unitId, lessonId, sectionId, quizId] = path
+  const versionSnap = await getDoc(doc(firestore, QUIZ_VERSIONS_COLLECTION, versionId))
+  if (!versionSnap.exists()) {
+    throw new Error('Version not found')
+  }
+  const version = { id: versionSnap.id, ...versionSnap.data() } as QuizVersion
+  if (version.quizId !== quizId) {
+    throw new Error('This version belongs to a different quiz')
+  }
+
+  const publishedSnap = await getDoc(quizDocRef(path))
+  if (!publishedSnap.exists()) {
+    throw new Error('Quiz not found')
+  }
+  const draft = await getQuizDraft(quizId)
+  const current = draft ? draft.document : publishedSnap.data()
+
+  const restored: DocumentData = {
+    ...version.document,
+    id: quizId,
+    sectionId,
+    gradeId,
+    unitId,
+    lessonId,
+    isPublished: publishedSnap.data().isPublished ?? false,
+  }
+  await saveQuizDraft(path, restored, adminId)
+
+  const logId = await logAdminAction({
+    adminId,
+    action: 'update',
+    entity: 'quizzes',
+    entityId: quizId,
+    metadata: {
+      title: version.title,
+      operation: 'rollback',
+      restoredFromVersion: version.version,
+    },
+  })
+
+  return recordQuizVersion(path, restored, adminId, {
+    previousDocument: current,
+    logId,
+    restoredFromVersion: version.version,
+  })
+}
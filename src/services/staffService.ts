@@ -0,0 +1,80 @@
+/**
+ * Staff Service
+ * Panel accounts and their roles. Structure: staff/{lowercased email}
+ * Invites go through the inviteStaffMember function, which creates the Auth account server-side.
+ */
+
+import type { User } from 'firebase/auth'
+import { httpsCallable } from 'firebase/functions'
+import { doc, getDoc, serverTimestamp, updateDoc } from 'firebase/firestore'
+import { firebaseFunctions, firestore, requestPasswordReset, staffService } from './firebase'
+import type { StaffMember, StaffRole } from '@/types/models'
+
+const STAFF_COLLECTION = 'staff'
+
+export function staffDocId(email: string) {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Staff record of a signed-in user, or null when they are not allowed into the panel
+ * Without a record, the bootstrapStaffOwner function creates the first owner when the user signs in
+ * with the bootstrap email configured on the functions and no owner exists yet
+ */
+export async function resolveStaffMember(user: User): Promise<StaffMember | null> {
+  if (!user.email) return null
+  const staffRef = doc(firestore, STAFF_COLLECTION, staffDocId(user.email))
+  const snapshot = await getDoc(staffRef)
+
+  if (!snapshot.exists()) {
+    const callBootstrap = httpsCallable<void, { member: StaffMember | null }>(firebaseFunctions, 'bootstrapStaffOwner')
+    const { data } = await callBootstrap()
+    return data.member
+  }
+
+  const member = { id: snapshot.id, ...snapshot.data() } as StaffMember
+  if (member.status === 'inactive') return null
+
+  await updateDoc(staffRef, { uid: user.uid, lastSignInAt: serverTimestamp() })
+  return { ...member, uid: user.uid }
+}
+
+/**
+ * Create the staff record and Auth account, then email a link to set a password
+ */
+export async function inviteStaffMember(invite: {
+  email: string
+  name: string
+  role: StaffRole
+  gradeIds: string[]
+}): Promise<void> {
+  const callInvite = httpsCallable<{ email: string; name: string; role: StaffRole; gradeIds: string[] }, { uid: string }>(
+    firebaseFunctions,
+    'inviteStaffMember',
+  )
+  await callInvite({ ...invite, email: staffDocId(invite.email) })
+  await requestPasswordReset(invite.email)
+}
+
+export async function updateStaffRole(member: StaffMember, role: StaffRole, adminId: string): Promise<void> {
+  await staffService.update(member.id, { role }, adminId, { email: member.email, previousRole: member.role, role })
+}
+
+export async function setStaffActive(member: StaffMember, active: boolean, adminId: string): Promise<void> {
+  await staffService.update(member.id, { status: active ? 'active' : 'inactive' }, adminId, {
+    email: member.email,
+    operation: active ? 'reactivate' : 'deactivate',
+  })
+}
+
+/**
+ * Limit a staff member to some grades; an empty list gives access to every grade
+ * Takes effect on their next sign-in in the panel, and immediately in the security rules
+ */
+export async function updateStaffGradeScope(member: StaffMember, gradeIds: string[], adminId: string): Promise<void> {
+  await staffService.update(member.id, { gradeIds }, adminId, {
+    email: member.email,
+    previousGradeIds: member.gradeIds ?? [],
+    gradeIds,
+  })
+}
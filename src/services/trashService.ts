@@ -0,0 +1,231 @@
+/**
+ * Trash Service
+ * Soft delete for the curriculum hierarchy. Deleted subtrees are kept for
+ * TRASH_RETENTION_DAYS and can be restored to their original place or purged.
+ * Structure: trash/{trashId} (entry) + trash/{trashId}/documents/{docId} (one per curriculum document)
+ */
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+  type DocumentData,
+} from 'firebase/firestore'
+import { firestore, logAdminAction } from './firebase'
+import { assertGradeInScope, gradeScopeConstraints } from './gradeScope'
+import { deleteQuizDraft } from './quizDraftService'
+import { deleteQuizVersions } from './quizVersionService'
+import {
+  CURRICULUM_LEVELS,
+  commitWrites,
+  curriculumDocumentSegments,
+  deleteCurriculumTree,
+  describeCurriculumNode,
+  flattenCurriculumTree,
+  readCurriculumTree,
+  resolveSiblingConflicts,
+  summarizeCurriculumTree,
+  type CurriculumWrite,
+} from './curriculumTreeService'
+import type { TrashEntry } from '@/types/models'
+import { deletedFields } from '@/utils/changeLog'
+
+export const TRASH_RETENTION_DAYS = 30
+
+const TRASH_COLLECTION = 'trash'
+const BATCH_LIMIT = 450
+
+/**
+ * Readable location of a document's parents, e.g. "Grade 5 › Unit 3 › Grammar"
+ */
+async function describeLocation(path: string[]): Promise<string> {
+  const labels = await Promise.all(
+    path.slice(0, -1).map(async (_, index) => {
+      const [root, ...rest] = curriculumDocumentSegments(path.slice(0, index + 1))
+      const snapshot = await getDoc(doc(firestore, root, ...rest))
+      return snapshot.exists() ? describeCurriculumNode(CURRICULUM_LEVELS[index], snapshot.data()) : '—'
+    }),
+  )
+  return labels.join(' › ')
+}
+
+async function deleteTrashDocuments(entryId: string): Promise<void> {
+  const snapshot = await getDocs(collection(firestore, TRASH_COLLECTION, entryId, 'documents'))
+  for (let start = 0; start < snapshot.docs.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(firestore)
+    snapshot.docs.slice(start, start + BATCH_LIMIT).forEach((docSnap) => batch.delete(docSnap.ref))
+    await batch.commit()
+  }
+}
+
+/**
+ * Move a grade, unit, lesson, section or quiz with all descendants to the trash
+ * path holds the IDs from the grade down to the item
+ */
+export async function trashCurriculumNode(path: string[], adminId: string): Promise<TrashEntry> {
+  const depth = path.length - 1
+  const level = CURRICULUM_LEVELS[depth]
+  const tree = await readCurriculumTree(path)
+  if (!tree) {
+    throw new Error('Item not found')
+  }
+
+  const parentIds = path.slice(0, depth)
+  const documents = flattenCurriculumTree(tree, depth, parentIds)
+  const summary = summarizeCurriculumTree(tree, depth)
+  const expiresAt = Timestamp.fromMillis(Date.now() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+
+  const entryRef = doc(collection(firestore, TRASH_COLLECTION))
+  const entry: Omit<TrashEntry, 'deletedAt'> = {
+    id: entryRef.id,
+    level,
+    entityId: tree.id,
+    title: summary.rootTitle,
+    path,
+    gradeId: path[0],
+    location: await describeLocation(path),
+    documentCount: documents.length,
+    questionCount: summary.questionCount,
+    deletedBy: adminId,
+    expiresAt,
+  }
+
+  // Keep the copy first so a failure part-way never loses content
+  for (let start = 0; start < documents.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(firestore)
+    if (start === 0) {
+      batch.set(entryRef, { ...entry, deletedAt: serverTimestamp() })
+    }
+    documents.slice(start, start + BATCH_LIMIT).forEach(({ segments, data }) => {
+      batch.set(doc(collection(entryRef, 'documents')), { segments, data })
+    })
+    await batch.commit()
+  }
+
+  await deleteCurriculumTree(tree, depth, parentIds)
+
+  const deleteLogId = await logAdminAction({
+    adminId,
+    action: 'delete',
+    entity: level,
+    entityId: tree.id,
+    metadata: {
+      title: summary.rootTitle,
+      location: entry.location,
+      trashId: entryRef.id,
+      documentCount: documents.length,
+    },
+    changes: deletedFields(tree.data),
+  })
+  await updateDoc(entryRef, { deleteLogId })
+
+  return { ...entry, deleteLogId, deletedAt: null }
+}
+
+/**
+ * Trash entries of the grades the staff member works on, newest first
+ * Scoped listing needs the composite index on gradeId + deletedAt in firestore.indexes.json
+ */
+export async function listTrashEntries(): Promise<TrashEntry[]> {
+  const snapshot = await getDocs(
+    query(collection(firestore, TRASH_COLLECTION), ...gradeScopeConstraints(), orderBy('deletedAt', 'desc')),
+  )
+  return snapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as TrashEntry)
+}
+
+/**
+ * Put a trashed subtree back where it was deleted from
+ * Fails if the parent no longer exists; unit numbers and lesson orders are bumped if taken meanwhile
+ */
+export async function restoreTrashEntry(entryId: string, adminId: string): Promise<TrashEntry> {
+  const entryRef = doc(firestore, TRASH_COLLECTION, entryId)
+  const entrySnap = await getDoc(entryRef)
+  if (!entrySnap.exists()) {
+    throw new Error('Trash entry not found')
+  }
+  const entry = { id: entrySnap.id, ...entrySnap.data() } as TrashEntry
+  assertGradeInScope(entry.path[0])
+  const depth = entry.path.length - 1
+  const parentIds = entry.path.slice(0, depth)
+
+  if (depth > 0) {
+    const [root, ...rest] = curriculumDocumentSegments(parentIds)
+    const parentSnap = await getDoc(doc(firestore, root, ...rest))
+    if (!parentSnap.exists()) {
+      throw new Error(`The ${CURRICULUM_LEVELS[depth - 1].slice(0, -1)} this item belonged to no longer exists. Restore it first.`)
+    }
+  }
+
+  const documentsSnap = await getDocs(collection(entryRef, 'documents'))
+  const rootSegments = curriculumDocumentSegments(entry.path).join('/')
+  const writes: CurriculumWrite[] = await Promise.all(
+    documentsSnap.docs.map(async (docSnap) => {
+      const { segments, data } = docSnap.data() as { segments: string[]; data: DocumentData }
+      if (segments.join('/') !== rootSegments) return { segments, data }
+      const resolved = await resolveSiblingConflicts(depth, parentIds, data, 'restore')
+      return { segments, data: { ...resolved, updatedAt: serverTimestamp() } }
+    }),
+  )
+
+  await commitWrites(writes)
+  await deleteTrashDocuments(entryId)
+  await deleteDoc(entryRef)
+
+  await logAdminAction({
+    adminId,
+    action: 'create',
+    entity: entry.level,
+    entityId: entry.entityId,
+    metadata: {
+      title: entry.title,
+      operation: 'restore',
+      trashId: entryId,
+      documentCount: writes.length,
+    },
+  })
+
+  return entry
+}
+
+/**
+ * Permanently delete a trash entry and its stored documents, with the drafts and version history of its quizzes
+ */
+export async function purgeTrashEntry(entryId: string, adminId: string): Promise<void> {
+  const entryRef = doc(firestore, TRASH_COLLECTION, entryId)
+  const entrySnap = await getDoc(entryRef)
+  if (!entrySnap.exists()) {
+    throw new Error('Trash entry not found')
+  }
+  const entry = entrySnap.data() as TrashEntry
+  assertGradeInScope(entry.path[0])
+
+  const documentsSnap = await getDocs(collection(entryRef, 'documents'))
+  const quizIds = documentsSnap.docs
+    .map((docSnap) => (docSnap.data() as { segments: string[] }).segments)
+    .filter((segments) => segments[segments.length - 2] === 'quizzes')
+    .map((segments) => segments[segments.length - 1])
+  await Promise.all(quizIds.map((quizId) => Promise.all([deleteQuizDraft(quizId), deleteQuizVersions(quizId)])))
+
+  await deleteTrashDocuments(entryId)
+  await deleteDoc(entryRef)
+
+  await logAdminAction({
+    adminId,
+    action: 'delete',
+    entity: entry.level,
+    entityId: entry.entityId,
+    metadata: {
+      title: entry.title,
+      operation: 'purge',
+      trashId: entryId,
+    },
+  })
+}
@@ -1,11 +1,15 @@
 import type { Timestamp } from 'firebase/firestore'
+import type { AnswerMatching } from '@shared/answerGrading'
+import type { CompositionCriterionId, CompositionRubric } from '@shared/compositionRubric'
+import type { NotificationAudienceFilters, NotificationAudienceType } from '@shared/notificationAudience'
 
 export type EntityStatus = 'active' | 'inactive'
 export type QuizType = 'fill-in' | 'drag-drop' | 'spelling' | 'matching' | 'order-words' | 'composition'
 export type LessonType = 'Grammar' | 'Vocabulary' | 'Passages' | 'Literature' | 'Composition'
-export type NotificationAudience = 'all' | 'grade' | 'unit' | 'lesson' | 'custom'
+export type NotificationAudience = NotificationAudienceType
 export type NotificationStatus = 'draft' | 'scheduled' | 'sent' | 'cancelled'
 export type NotificationChannel = 'in-app' | 'email' | 'push'
+export type StaffRole = 'owner' | 'editor' | 'reviewer' | 'notifier' | 'analyst'
 
 export interface BaseEntity {
   id: string
@@ -14,7 +18,13 @@ export interface BaseEntity {
   updatedAt?: Timestamp | null
 }
 
-export interface Grade extends Omit<BaseEntity, 'status'> {
+// Optional window in which a scheduled function flips isPublished on and off
+export interface PublishWindow {
+  publishAt?: Timestamp | null
+  unpublishAt?: Timestamp | null
+}
+
+export interface Grade extends Omit<BaseEntity, 'status'>, PublishWindow {
   name: string
   description?: string
   isPublished: boolean
@@ -22,7 +32,7 @@ export interface Grade extends Omit<BaseEntity, 'status'> {
   status?: string
 }
 
-export interface Unit extends Omit<BaseEntity, 'status'> {
+export interface Unit extends Omit<BaseEntity, 'status'>, PublishWindow {
   gradeId: string
   number: number
   isPublished: boolean
@@ -60,7 +70,7 @@ export interface Section extends Omit<BaseEntity, 'status'> {
   lists?: SectionList // Optional list with items
 }
 
-export interface Quiz extends Omit<BaseEntity, 'status'> {
+export interface Quiz extends Omit<BaseEntity, 'status'>, PublishWindow {
   gradeId: string
   unitId: string
   lessonId: string
@@ -70,6 +80,59 @@ export interface Quiz extends Omit<BaseEntity, 'status'> {
   quizType: QuizType
   isPublished: boolean
   aiEvaluationPrompt?: string // Optional additional prompt/instructions for AI evaluation (composition quizzes only)
+  compositionRubric?: CompositionRubric // AI grading rubric (composition quizzes only); the default rubric applies when missing
+  publishedAt?: Timestamp | null // Last time the draft was promoted to this document
+  publishedBy?: string
+}
+
+export type { CompositionCriterionId, CompositionRubric }
+
+export type CompositionBand = 'excellent' | 'good' | 'satisfactory' | 'needs_improvement'
+
+// Result of the evaluateComposition function
+export type CompositionGrade = {
+  isCorrect: boolean
+  overallScore: number // Weighted percentage, 0-100
+  band: CompositionBand
+  criteria: Array<{ id: CompositionCriterionId; weight: number; score: number; maxScore: number; comment: string }>
+  feedback: string // Short feedback written for the student
+}
+
+export type CompositionReviewStatus = 'pending' | 'accepted' | 'overridden'
+
+// A student's composition answer with its AI grade, written by the evaluateComposition function
+export interface CompositionSubmission extends Omit<BaseEntity, 'status'> {
+  userId: string
+  studentName?: string | null
+  gradeId: string
+  unitId: string
+  lessonId: string
+  sectionId: string
+  quizId: string
+  questionId?: string | null
+  questionPrompt: string
+  studentAnswer: string
+  passMark: number // Rubric pass mark when the answer was graded
+  aiGrade: CompositionGrade
+  provider: string // AI provider that graded the answer
+  reviewStatus: CompositionReviewStatus
+  finalScore?: number // Score that counts for the student; the AI score when accepted
+  finalIsCorrect?: boolean
+  teacherFeedback?: string | null // Shown to the student instead of the AI feedback when set
+  agreement?: boolean // Whether the teacher reached the same pass/fail verdict as the AI
+  reviewedBy?: string
+  reviewedAt?: Timestamp | null
+}
+
+// Running AI/teacher agreement for one quiz; document ID is the quiz ID
+export interface CompositionAgreement extends Omit<BaseEntity, 'status'> {
+  gradeId: string
+  unitId: string
+  lessonId: string
+  sectionId: string
+  reviewed: number
+  agreed: number
+  totalScoreDifference: number // Sum of |teacher score - AI score| over reviewed submissions
 }
 
 export type QuestionOption = {
@@ -86,6 +149,8 @@ export interface QuestionBase extends BaseEntity {
   points: number // Required points field (defaults to 1)
   // Optional per-question competition timer (seconds). Used only in competition mode.
   competitionTimerSeconds?: number
+  // How typed answers are compared (fill-in, drag-drop and spelling); omitted means the defaults
+  answerMatching?: AnswerMatching
 }
 
 export interface FillInQuestion extends QuestionBase {
@@ -151,20 +216,81 @@ export interface AdminProfile extends BaseEntity {
   email: string
 }
 
+export interface StaffMember extends BaseEntity {
+  // Document ID is the lowercased email so invites can exist before the person first signs in
+  email: string
+  name: string
+  role: StaffRole
+  gradeIds?: string[] // Grades the member may see and change; empty or missing means every grade
+  uid?: string | null
+  invitedBy?: string | null
+  lastSignInAt?: Timestamp | null
+}
+
 export interface AdminActionLog extends BaseEntity {
   adminId: string
+  adminEmail?: string | null
   action: 'create' | 'update' | 'delete'
   entity: string
   entityId: string
   metadata?: Record<string, unknown>
+  changes?: FieldChange[] // Changed fields of update logs; every field of the removed document for delete logs
   timestamp?: Timestamp | null
 }
 
+export interface FieldChange {
+  field: string
+  before: LoggedValue
+  after: LoggedValue
+}
+
+// Readable copy of a field value as stored in a log; objects and lists are summarized as text
+export type LoggedValue = string | number | boolean | null
+
+export interface QuizVersion extends Omit<BaseEntity, 'status'> {
+  quizId: string
+  path: string[] // IDs from the grade down to the quiz when the version was saved
+  gradeId: string // path[0], kept as a field so grade-scoped staff can query by it
+  version: number
+  title: string
+  questionCount: number
+  document: Record<string, unknown> // Quiz document in student app format, without timestamps
+  createdBy: string | null // null for the baseline captured before history existed
+  createdByEmail?: string | null
+  logId?: string // adminLogs entry for the save
+  restoredFromVersion?: number
+}
+
+export interface QuizDraft {
+  id: string // Same as the quiz ID
+  path: string[] // IDs from the grade down to the quiz when the draft was last saved
+  gradeId: string // path[0], kept as a field so grade-scoped staff can query by it
+  document: Record<string, unknown> // Full quiz document in student app format, without timestamps
+  updatedBy: string
+  updatedAt?: Timestamp | null
+}
+
+export interface TrashEntry extends Omit<BaseEntity, 'status'> {
+  level: 'grades' | 'units' | 'lessons' | 'sections' | 'quizzes'
+  entityId: string
+  title: string
+  path: string[] // IDs from the grade down to the deleted item
+  gradeId: string // path[0], kept as a field so grade-scoped staff can query by it
+  location: string // Readable parent path at the time of deletion, e.g. "Grade 5 › Unit 3"
+  documentCount: number
+  questionCount: number
+  deletedBy: string
+  deleteLogId?: string // adminLogs entry recording the deletion
+  deletedAt?: Timestamp | null
+  expiresAt?: Timestamp | null
+}
+
 export interface Notification extends BaseEntity {
   title: string
   message: string
   audienceType: NotificationAudience
-  audienceValue?: string
+  audienceValue?: string // ID of the grade, unit, lesson or class
+  audienceFilters?: NotificationAudienceFilters
   channels: NotificationChannel[]
   scheduledAt?: Timestamp | null
   sentAt?: Timestamp | null
@@ -178,11 +304,23 @@ export interface Student extends BaseEntity {
   name: string
   email?: string
   gradeId?: string
+  classIds?: string[] // Mirrors Classroom.studentIds so a student's classes can be queried directly
   photoURL?: string
   enrolledAt?: Timestamp | null
   lastActiveAt?: Timestamp | null
 }
 
+export interface Classroom extends BaseEntity {
+  name: string
+  gradeId: string
+  teacherId: string // Admin uid that owns the roster
+  teacherName: string
+  description?: string
+  studentIds: string[]
+  joinCode: string // Students enter this in the app to join the class
+  joinCodeEnabled: boolean
+}
+
 export interface StudentPerformance {
   studentId: string
   studentName: string
@@ -195,6 +333,163 @@ export interface StudentPerformance {
   lastActivityAt?: Timestamp | null
 }
 
+export interface StudentCompetitionResult {
+  sectionId: string
+  rating: number
+  rank: number
+  totalPlayers: number // Rated players of the section
+  matches: number
+  wins: number
+  updatedAt?: Timestamp | null
+}
+
+// Firestore competitionRatings/{sectionId}_{userId}, written by the competition Cloud Functions
+export interface CompetitionRating {
+  id: string
+  sectionId: string
+  userId: string
+  userName: string
+  gradeId?: string
+  unitId?: string
+  lessonId?: string
+  rating: number
+  peakRating: number
+  matches: number
+  wins?: number
+  ties?: number
+  losses?: number
+  lastPlayedAt?: Timestamp | null
+  updatedAt?: Timestamp | null
+}
+
+// Firestore competitionRatingPeriods/{periodKey}_{sectionId}_{userId}: a player's week or month on a section
+export interface CompetitionRatingPeriod {
+  id: string
+  period: 'weekly' | 'monthly'
+  periodKey: string // e.g. 2026-W42 or 2026-10
+  sectionId: string
+  userId: string
+  userName: string
+  gradeId?: string
+  rating: number // Rating after the player's latest match of the period
+  ratingChange: number
+  matches: number
+  wins?: number
+  ties?: number
+  losses?: number
+  updatedAt?: Timestamp | null
+}
+
+// Firestore competitionRatingSummaries/{sectionId}: player count and rating distribution of a section
+export interface CompetitionRatingSummary {
+  id: string // Section ID
+  sectionId: string
+  gradeId?: string
+  unitId?: string
+  lessonId?: string
+  players: number
+  bands?: Record<string, number> // Players per RATING_BAND_SIZE band, keyed by the band's lower bound
+  resetAt?: Timestamp | null
+  resetBy?: string
+  updatedAt?: Timestamp | null
+}
+
+export type CompetitionMode = 'public' | 'invite' | 'live' | 'tournament'
+
+export type CompetitionFlagType = 'late' | 'timing' | 'speed' | 'identical_answers'
+export type CompetitionFlagStatus = 'open' | 'dismissed' | 'actioned'
+
+// Firestore competitionFlags/{matchId}_{userId}: a submission that failed an integrity check
+export interface CompetitionFlag {
+  id: string
+  matchId: string
+  sectionId: string
+  gradeId?: string
+  mode: CompetitionMode
+  userId: string
+  userName: string
+  reasons: Array<{ type: CompetitionFlagType; detail: string; otherUserId?: string }>
+  status: CompetitionFlagStatus
+  flaggedAt?: Timestamp | null
+  reviewedBy?: string
+  reviewedAt?: Timestamp | null
+  reviewNote?: string
+  updatedAt?: Timestamp | null
+}
+export type CompetitionRoomStatus = 'waiting' | 'starting' | 'ready' | 'closed'
+export type CompetitionMatchStatus = 'live' | 'completed' | 'cancelled'
+
+export interface CompetitionParticipant {
+  userId: string
+  userName: string
+  status: string // 'waiting', 'ready' or 'removed'
+  submitted?: boolean
+  totalPoints?: number | null
+  correctCount?: number | null
+}
+
+// Realtime Database rooms and matches as listed by the listCompetitionActivity function; times are epoch milliseconds
+export interface CompetitionRoomSummary {
+  roomId: string
+  sectionId: string
+  gradeId: string | null
+  matchType: CompetitionMode
+  status: CompetitionRoomStatus
+  createdAt: number | null
+  matchId: string | null
+  maxCapacity: number // 2-8 players, more for live quizzes
+  joinCode?: string // Live quizzes
+  classId?: string
+  title?: string
+  tournamentId?: string
+  participants: CompetitionParticipant[]
+}
+
+export interface CompetitionMatchSummary {
+  matchId: string
+  roomId: string
+  sectionId: string
+  gradeId: string | null
+  mode: CompetitionMode | null // Missing on matches created before live quizzes and tournaments
+  status: CompetitionMatchStatus
+  createdAt: number | null
+  finalizedAt: number | null
+  winnerId: string | null
+  isTie: boolean
+  questionCount: number
+  participants: CompetitionParticipant[]
+}
+
+export type TournamentBracketMatchStatus = 'pending' | 'live' | 'completed' | 'bye'
+
+export interface TournamentBracketMatch {
+  key: string // r{round}m{match}
+  playerIds: Array<string | null> // Two slots; null until the feeding match is decided
+  winnerId: string | null
+  matchId: string | null
+  status: TournamentBracketMatchStatus
+}
+
+// Firestore competitionTournaments/{tournamentId}, written by the competition Cloud Functions
+export interface CompetitionTournament {
+  id: string
+  title: string
+  sectionId: string
+  gradeId: string
+  unitId: string
+  lessonId: string
+  classId: string
+  className: string
+  status: 'active' | 'completed'
+  players: Array<{ userId: string; userName: string; seed: number }>
+  rounds: Array<{ name: string; matches: TournamentBracketMatch[] }>
+  championId: string | null
+  createdBy: string
+  createdAt?: Timestamp | null
+  updatedAt?: Timestamp | null
+  completedAt?: Timestamp | null
+}
+
 export interface CurriculumCounts {
   grades: number
   units: number
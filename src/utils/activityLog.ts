@@ -0,0 +1,110 @@
+/**
+ * Activity Log helpers
+ * Labels for adminLogs entries and the panel page each entry points at.
+ */
+
+import type { AdminActionLog, Grade, Lesson, Quiz, Section, Unit } from '@/types/models'
+
+export const activityEntityOptions = [
+  { value: 'grades', label: 'Grade' },
+  { value: 'units', label: 'Unit' },
+  { value: 'lessons', label: 'Lesson' },
+  { value: 'sections', label: 'Section' },
+  { value: 'quizzes', label: 'Quiz' },
+  { value: 'classes', label: 'Class' },
+  { value: 'users', label: 'Student' },
+  { value: 'compositionSubmissions', label: 'Composition review' },
+  { value: 'competition_rooms', label: 'Competition room' },
+  { value: 'competition_leaderboards', label: 'Competition leaderboard' },
+  { value: 'competitionTournaments', label: 'Tournament' },
+  { value: 'competitionFlags', label: 'Competition flag' },
+  { value: 'notifications', label: 'Notification' },
+  { value: 'staff', label: 'Staff' },
+] as const
+
+export const activityActionOptions = [
+  { value: 'create', label: 'Created' },
+  { value: 'update', label: 'Updated' },
+  { value: 'delete', label: 'Deleted' },
+] as const
+
+const entityLabels = new Map<string, string>(activityEntityOptions.map((option) => [option.value, option.label]))
+
+export function activityEntityLabel(entity: string): string {
+  return entityLabels.get(entity) ?? entity
+}
+
+/**
+ * Short human summary of a log entry's metadata, e.g. "move · Past Simple"
+ */
+export function describeActivity(log: AdminActionLog): string {
+  const metadata = log.metadata ?? {}
+  const parts = [metadata.operation ?? metadata.action, metadata.title ?? metadata.name ?? metadata.email]
+  return parts.filter((part): part is string => typeof part === 'string' && part.length > 0).join(' · ')
+}
+
+type CurriculumLookup = {
+  grades: Grade[]
+  allUnits: Unit[]
+  allLessons: Lesson[]
+  allSections: Section[]
+  allQuizzes: Quiz[]
+}
+
+/**
+ * Route of the item a log entry changed, or null when it no longer exists
+ * Curriculum items are found in the curriculum cache, which holds the parent IDs the routes need
+ */
+export function activityTargetPath(log: AdminActionLog, curriculum: CurriculumLookup): string | null {
+  const metadata = log.metadata ?? {}
+  switch (log.entity) {
+    case 'grades': {
+      // Unit edits made from the units page are logged against their grade
+      const unitId = typeof metadata.unitId === 'string' ? metadata.unitId : null
+      const unit = unitId ? curriculum.allUnits.find((item) => item.id === unitId) : null
+      if (unit) return `/curriculum/${unit.gradeId}/${unit.id}/lessons`
+      return curriculum.grades.some((grade) => grade.id === log.entityId) ? `/curriculum/${log.entityId}/units` : null
+    }
+    case 'units': {
+      const unit = curriculum.allUnits.find((item) => item.id === log.entityId)
+      return unit ? `/curriculum/${unit.gradeId}/${unit.id}/lessons` : null
+    }
+    case 'lessons': {
+      const lesson = curriculum.allLessons.find((item) => item.id === log.entityId)
+      return lesson ? `/curriculum/${lesson.gradeId}/${lesson.unitId}/${lesson.id}/sections` : null
+    }
+    case 'sections': {
+      const section = curriculum.allSections.find((item) => item.id === log.entityId)
+      return section
+        ? `/curriculum/${section.gradeId}/${section.unitId}/${section.lessonId}/${section.id}/quizzes`
+        : null
+    }
+    case 'quizzes': {
+      const quiz = curriculum.allQuizzes.find((item) => item.id === log.entityId)
+      return quiz
+        ? `/curriculum/${quiz.gradeId}/${quiz.unitId}/${quiz.lessonId}/${quiz.sectionId}/${quiz.id}/questions`
+        : null
+    }
+    case 'classes':
+      return `/classes/${log.entityId}`
+    case 'users':
+      return `/students/${log.entityId}`
+    case 'compositionSubmissions':
+      return `/reviews?status=all&submission=${log.entityId}`
+    case 'competition_rooms':
+      // Live quizzes keep their host view until their room is cleaned up
+      return log.metadata?.operation === 'create_live_quiz' ? `/competitions/live/${log.entityId}` : '/competitions'
+    case 'competition_leaderboards':
+      return `/competitions?section=${log.entityId}`
+    case 'competitionTournaments':
+      return `/competitions/tournaments/${log.entityId}`
+    case 'competitionFlags':
+      return '/competitions?flags=all'
+    case 'notifications':
+      return '/notifications'
+    case 'staff':
+      return '/settings/staff'
+    default:
+      return null
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Change Log helpers
+ * Field-level before/after diffs stored on admin log entries.
+ */
+
+import { deleteField, FieldValue, Timestamp, type DocumentData } from 'firebase/firestore'
+import type { FieldChange, LoggedValue } from '@/types/models'
+
+// Bookkeeping fields every write touches; they never describe what a person changed
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'timestamp', 'publishedAt', 'publishedBy'])
+const MAX_TEXT_LENGTH = 300
+
+/**
+ * Comparable form of a value: timestamps as ISO strings, object keys sorted
+ */
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === null) return null
+  if (value instanceof Timestamp) return value.toDate().toISOString()
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(normalize)
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])]),
+    )
+  }
+  return value
+}
+
+function isSameValue(before: unknown, after: unknown): boolean {
+  return JSON.stringify(normalize(before)) === JSON.stringify(normalize(after))
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text
+}
+
+function isObjectList(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'object' && item !== null)
+}
+
+export function toLoggedValue(value: unknown): LoggedValue {
+  const normalized = normalize(value)
+  if (normalized === null || typeof normalized === 'number' || typeof normalized === 'boolean') return normalized
+  if (typeof normalized === 'string') return truncate(normalized)
+  if (isObjectList(normalized)) return `${normalized.length} items`
+  return truncate(JSON.stringify(normalized))
+}
+
+/**
+ * Lists of objects, such as embedded quiz questions, are compared position by position
+ * and logged as counts, e.g. "10 items" → "12 items (2 added, 1 edited)"
+ */
+function diffObjectLists(field: string, before: unknown, after: unknown): FieldChange {
+  const beforeItems = Array.isArray(before) ? before : []
+  const afterItems = Array.isArray(after) ? after : []
+  const shared = Math.min(beforeItems.length, afterItems.length)
+  const edited = beforeItems.slice(0, shared).filter((item, index) => !isSameValue(item, afterItems[index])).length
+  const added = Math.max(0, afterItems.length - beforeItems.length)
+  const removed = Math.max(0, beforeItems.length - afterItems.length)
+  const details = [added && `${added} added`, removed && `${removed} removed`, edited && `${edited} edited`].filter(Boolean)
+  return {
+    field,
+    before: `${beforeItems.length} items`,
+    after: `${afterItems.length} items${details.length ? ` (${details.join(', ')})` : ''}`,
+  }
+}
+
+/**
+ * Changes a write makes to a document
+ * Only fields present in next are compared, so a partial update patch can be passed as is.
+ * deleteField() counts as null; other field values such as serverTimestamp() or arrayUnion()
+ * are skipped because their result is unknown here.
+ */
+export function diffFields(previous: DocumentData | null | undefined, next: DocumentData): FieldChange[] {
+  const resolved = Object.fromEntries(
+    Object.entries(next)
+      .filter(([field, value]) => !IGNORED_FIELDS.has(field) && (!(value instanceof FieldValue) || value.isEqual(deleteField())))
+      .map(([field, value]) => [field, value instanceof FieldValue ? null : value]),
+  )
+  return Object.keys(resolved)
+    .sort()
+    .filter((field) => !isSameValue(previous?.[field], resolved[field]))
+    .map((field) => {
+      const before = previous?.[field]
+      const after = resolved[field]
+      if (isObjectList(before) || isObjectList(after)) return diffObjectLists(field, before, after)
+      return { field, before: toLoggedValue(before), after: toLoggedValue(after) }
+    })
+}
+
+/**
+ * Changes of a full document replacement, including fields the new version no longer has
+ */
+export function diffDocuments(previous: DocumentData | null | undefined, next: DocumentData): FieldChange[] {
+  const removedFields = Object.keys(previous ?? {}).filter((field) => !(field in next))
+  return diffFields(previous, { ...next, ...Object.fromEntries(removedFields.map((field) => [field, null])) })
+}
+
+/**
+ * Every field of a document that is being deleted
+ */
+export function deletedFields(previous: DocumentData): FieldChange[] {
+  return diffFields(previous, Object.fromEntries(Object.keys(previous).map((field) => [field, null]))).map((change) => ({
+    ...change,
+    after: null,
+  }))
+}
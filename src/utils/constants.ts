@@ -1,6 +1,9 @@
-import { BarChart3, BellRing, BookOpenCheck, Settings, Users } from 'lucide-react'
+import { BarChart3, BellRing, BookOpenCheck, ClipboardCheck, History, School, Settings, Trash2, Trophy, Users, type LucideIcon } from 'lucide-react'
+import type { Permission } from '@/utils/permissions'
+import type { AnswerMatching } from '@shared/answerGrading'
+import type { CompositionBand, CompositionCriterionId } from '@/types/models'
 
-export const navigationLinks = [
+export const navigationLinks: Array<{ label: string; icon: LucideIcon; to: string; permission?: Permission }> = [
   {
     label: 'Dashboard',
     icon: BarChart3,
@@ -16,10 +19,38 @@ export const navigationLinks = [
     icon: Users,
     to: '/students',
   },
+  {
+    label: 'Classes',
+    icon: School,
+    to: '/classes',
+  },
+  {
+    label: 'Review Queue',
+    icon: ClipboardCheck,
+    to: '/reviews',
+    permission: 'grading.review',
+  },
+  {
+    label: 'Competitions',
+    icon: Trophy,
+    to: '/competitions',
+  },
   {
     label: 'Notifications',
     icon: BellRing,
     to: '/notifications',
+    permission: 'notifications.manage',
+  },
+  {
+    label: 'Activity',
+    icon: History,
+    to: '/activity',
+  },
+  {
+    label: 'Trash',
+    icon: Trash2,
+    to: '/trash',
+    permission: 'trash.manage',
   },
   {
     label: 'Settings',
@@ -52,9 +83,10 @@ export const quizTypeOptions = [
 export const notificationAudienceOptions = [
   { value: 'all', label: 'All students' },
   { value: 'grade', label: 'Specific grade' },
-  { value: 'unit', label: 'Specific unit' },
-  { value: 'lesson', label: 'Specific lesson' },
-  { value: 'custom', label: 'Custom segment' },
+  { value: 'unit', label: 'Students practising a unit' },
+  { value: 'lesson', label: 'Students practising a lesson' },
+  { value: 'class', label: 'Specific class' },
+  { value: 'students', label: 'Specific students' },
 ] as const
 
 export const notificationChannelOptions = [
@@ -70,6 +102,14 @@ export const notificationStatusBadges: Record<string, { label: string; variant:
   cancelled: { label: 'Cancelled', variant: 'destructive' },
 }
 
+export const staffRoleOptions = [
+  { value: 'owner', label: 'Owner', description: 'Full access, including staff management.' },
+  { value: 'editor', label: 'Content editor', description: 'Edits curriculum, quizzes, classes and the trash; reviews AI grades; hosts and moderates competitions.' },
+  { value: 'reviewer', label: 'Reviewer', description: 'Reviews quiz drafts, publishes them and reviews AI grades.' },
+  { value: 'notifier', label: 'Notifier', description: 'Creates and sends notifications.' },
+  { value: 'analyst', label: 'Read-only analyst', description: 'Views content, students and analytics.' },
+] as const
+
 export const statusOptions = [
   { value: 'active', label: 'Active' },
   { value: 'inactive', label: 'Inactive' },
@@ -77,3 +117,28 @@ export const statusOptions = [
 
 
 
+
+export const compositionCriteriaOptions: Array<{ value: CompositionCriterionId; label: string; description: string }> = [
+  { value: 'task_achievement', label: 'Task achievement', description: 'Answers the question and covers the topic' },
+  { value: 'grammar', label: 'Grammar', description: 'Accurate sentences, tenses and agreement' },
+  { value: 'vocabulary', label: 'Vocabulary', description: 'Range and correct use of words and spelling' },
+  { value: 'coherence', label: 'Coherence', description: 'Ideas are organised and linked clearly' },
+]
+
+export const answerMatchingToggleOptions: Array<{
+  value: Exclude<keyof AnswerMatching, 'typoTolerance'>
+  label: string
+  description: string
+}> = [
+  { value: 'caseSensitive', label: 'Case sensitive', description: '"London" and "london" count as different answers' },
+  { value: 'ignorePunctuation', label: 'Ignore punctuation', description: 'Full stops, commas, apostrophes and hyphens are left out' },
+  { value: 'normalizeWhitespace', label: 'Ignore extra spaces', description: 'Repeated spaces count as one' },
+  { value: 'equateDigits', label: 'Arabic and Latin digits match', description: '"٣" is accepted for "3" and the other way round' },
+]
+
+export const compositionBandLabels: Record<CompositionBand, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  satisfactory: 'Satisfactory',
+  needs_improvement: 'Needs improvement',
+}
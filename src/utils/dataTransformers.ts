@@ -11,9 +11,11 @@ import type {
   OrderWordsQuestion,
   CompositionQuestion,
   Question,
+  CompositionRubric,
   Quiz,
   SpellingQuestion,
 } from '@/types/models'
+import { DEFAULT_ANSWER_MATCHING, type AnswerMatching } from '@shared/answerGrading'
 import { mapToStudentQuizType, type StudentQuizType } from './quizTypeMapper'
 
 /**
@@ -39,6 +41,19 @@ export interface StudentAppQuestion {
   points: number
   // Optional per-question competition timer (seconds). Used only in competition mode.
   competitionTimerSeconds?: number
+  // How typed answers are compared (fill_blank, drag_drop and spelling); validation uses the defaults when absent
+  answerMatching?: AnswerMatching
+}
+
+/**
+ * Only the matching options that differ from the defaults, so untouched questions store nothing
+ */
+function compactAnswerMatching(matching: AnswerMatching | undefined): AnswerMatching | undefined {
+  if (!matching) return undefined
+  const changed = Object.entries(matching).filter(
+    ([key, value]) => value !== undefined && value !== DEFAULT_ANSWER_MATCHING[key as keyof AnswerMatching],
+  )
+  return changed.length > 0 ? (Object.fromEntries(changed) as AnswerMatching) : undefined
 }
 
 /**
@@ -68,6 +83,7 @@ function transformFillInQuestion(question: FillInQuestion): StudentAppQuestion {
     hint: question.explanation,
     points: question.points ?? 1,
     competitionTimerSeconds: question.competitionTimerSeconds,
+    answerMatching: compactAnswerMatching(question.answerMatching),
   }
 }
 
@@ -90,6 +106,7 @@ function transformDragDropQuestion(question: DragDropQuestion): StudentAppQuesti
     hint: question.explanation,
     points: question.points ?? 1,
     competitionTimerSeconds: question.competitionTimerSeconds,
+    answerMatching: compactAnswerMatching(question.answerMatching),
   }
 }
 
@@ -117,6 +134,7 @@ function transformSpellingQuestion(question: SpellingQuestion): StudentAppQuesti
     hint: question.explanation,
     points: question.points ?? 1,
     competitionTimerSeconds: question.competitionTimerSeconds,
+    answerMatching: compactAnswerMatching(question.answerMatching),
   }
 }
 
@@ -245,6 +263,7 @@ export function transformQuizToStudentFormat(
   totalPoints: number
   questions: StudentAppQuestion[]
   aiEvaluationPrompt?: string // Optional additional prompt/instructions for AI evaluation (composition quizzes only)
+  compositionRubric?: CompositionRubric
 } {
   // Sort questions by order
   const sortedQuestions = [...questions].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
@@ -268,6 +287,7 @@ export function transformQuizToStudentFormat(
     totalPoints: totalPoints,
     questions: transformedQuestions,
     aiEvaluationPrompt: quiz.aiEvaluationPrompt, // Optional additional prompt for AI evaluation (composition quizzes only)
+    compositionRubric: quiz.compositionRubric,
   }
 }
 
@@ -348,6 +368,11 @@ export function prepareQuizDocumentForFirestore(
         questionObj.competitionTimerSeconds = q.competitionTimerSeconds
       }
 
+      // Add answer matching options if the teacher changed them from the defaults
+      if (q.answerMatching) {
+        questionObj.answerMatching = q.answerMatching
+      }
+
       return questionObj
     }),
   }
@@ -357,6 +382,11 @@ export function prepareQuizDocumentForFirestore(
     quizDoc.aiEvaluationPrompt = studentFormat.aiEvaluationPrompt
   }
 
+  // Rubric the evaluateComposition function grades with
+  if (studentFormat.type === 'composition' && studentFormat.compositionRubric) {
+    quizDoc.compositionRubric = studentFormat.compositionRubric
+  }
+
   return quizDoc
 }
 
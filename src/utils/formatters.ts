@@ -34,6 +34,14 @@ export function formatDateTime(value?: Timestamp | string | null, defaultText =
   }
 }
 
+/**
+ * Value for <input type="datetime-local"> in the browser's time zone
+ */
+export function toDateTimeLocalValue(value?: Date | null) {
+  if (!value) return ''
+  return format(value, "yyyy-MM-dd'T'HH:mm")
+}
+
 export function getInitials(name?: string) {
   if (!name) return 'EE'
   const segments = name.trim().split(' ').filter(Boolean)
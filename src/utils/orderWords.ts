@@ -0,0 +1,101 @@
+/**
+ * Order Words helpers
+ * Shared by the question builder and the spreadsheet importer
+ */
+
+/**
+ * Separate words and punctuation from a sentence
+ * Bracketed phrases like [her phone] are kept together as a single word
+ */
+export function separateWordsAndPunctuation(sentence: string): { words: string[]; punctuation: string[] } {
+  if (!sentence.trim()) {
+    return { words: [], punctuation: [] }
+  }
+
+  // Common punctuation marks (ordered by length to check longer ones first, e.g., "'s" before "'")
+  // Note: '[' and ']' are intentionally excluded here as they're used for grouping multi-word phrases
+  const punctuationMarks = ["'s", '.', ',', '?', '!', ':', ';', "'", '"', '(', ')', '{', '}']
+  
+  const words: string[] = []
+  const punctuationSet = new Set<string>()
+  
+  // Step 1: Extract bracketed phrases and replace with placeholders
+  // This allows phrases like [her phone] to be treated as single words
+  const bracketedPhrases: string[] = []
+  let processedSentence = sentence.trim()
+  
+  // Find all [bracketed text] and replace with unique placeholders
+  const bracketRegex = /\[([^\]]+)\]/g
+  let match
+  let placeholderIndex = 0
+  
+  while ((match = bracketRegex.exec(sentence)) !== null) {
+    const fullMatch = match[0] // e.g., "[her phone]"
+    const content = match[1].trim() // e.g., "her phone" (without brackets)
+    
+    if (content) {
+      const placeholder = `__BRACKET_${placeholderIndex}__`
+      bracketedPhrases.push(content) // Store "her phone"
+      processedSentence = processedSentence.replace(fullMatch, placeholder)
+      placeholderIndex++
+    }
+  }
+  
+  // Step 2: Split by whitespace
+  const parts = processedSentence.split(/\s+/).filter(part => part.length > 0)
+  
+  // Step 3: Process each part and restore bracketed phrases
+  for (const part of parts) {
+    // Check if this part is a placeholder for a bracketed phrase
+    const placeholderMatch = part.match(/__BRACKET_(\d+)__/)
+    if (placeholderMatch) {
+      const index = parseInt(placeholderMatch[1], 10)
+      if (index < bracketedPhrases.length) {
+        // This is a bracketed phrase - add it as a single word
+        words.push(bracketedPhrases[index])
+      }
+      continue
+    }
+    
+    // Check if the entire part is punctuation
+    if (punctuationMarks.includes(part)) {
+      punctuationSet.add(part)
+      continue
+    }
+    
+    // Extract words and punctuation from mixed parts (e.g., "word," or "Sara's")
+    let remainingPart = part
+    const foundPunctuation: string[] = []
+    
+    // Check for punctuation at the end (check longer marks first, especially "'s")
+    // This handles cases like "Sara's" -> "Sara" + "'s"
+    for (const mark of punctuationMarks) {
+      if (remainingPart.endsWith(mark)) {
+        remainingPart = remainingPart.slice(0, -mark.length)
+        foundPunctuation.push(mark)
+        break // Only remove one punctuation mark at a time
+      }
+    }
+    
+    // Check for punctuation at the beginning
+    for (const mark of punctuationMarks) {
+      if (remainingPart.startsWith(mark)) {
+        remainingPart = remainingPart.slice(mark.length)
+        foundPunctuation.push(mark)
+        break // Only remove one punctuation mark at a time
+      }
+    }
+    
+    // Add word if it's not empty (keep original case for display, but we'll normalize in storage)
+    if (remainingPart.trim().length > 0) {
+      words.push(remainingPart.trim())
+    }
+    
+    // Add punctuation marks found
+    for (const mark of foundPunctuation) {
+      punctuationSet.add(mark)
+    }
+  }
+  
+  return { words, punctuation: Array.from(punctuationSet) }
+}
@@ -0,0 +1,47 @@
+/**
+ * Permissions
+ * What each staff role may do in the panel. Pages ask for a permission, never for a role,
+ * so adjusting a role only means editing rolePermissions.
+ */
+
+import type { StaffMember, StaffRole } from '@/types/models'
+
+export type Permission =
+  | 'curriculum.edit' // Create, edit, move and delete curriculum content and quiz drafts
+  | 'curriculum.publish' // Publish quizzes and toggle published state
+  | 'classes.manage' // Create classes and change rosters
+  | 'grading.review' // Accept or override AI composition grades
+  | 'competitions.manage' // Host live quizzes and tournaments, close competition rooms, remove players and reset leaderboards
+  | 'notifications.manage' // Create, schedule and send notifications
+  | 'trash.manage' // Restore and purge deleted content
+  | 'staff.manage' // Invite staff and change their roles
+
+export const rolePermissions: Record<StaffRole, Permission[]> = {
+  owner: [
+    'curriculum.edit',
+    'curriculum.publish',
+    'classes.manage',
+    'grading.review',
+    'competitions.manage',
+    'notifications.manage',
+    'trash.manage',
+    'staff.manage',
+  ],
+  editor: ['curriculum.edit', 'classes.manage', 'grading.review', 'competitions.manage', 'trash.manage'],
+  reviewer: ['curriculum.publish', 'grading.review'],
+  notifier: ['notifications.manage'],
+  analyst: [],
+}
+
+export function hasPermission(role: StaffRole | null | undefined, permission: Permission): boolean {
+  return role ? rolePermissions[role].includes(permission) : false
+}
+
+/**
+ * Grades a staff member is limited to, or null when they may work on every grade
+ * Owners are never limited, whatever is stored on their record
+ */
+export function gradeScopeOf(member: Pick<StaffMember, 'role' | 'gradeIds'> | null | undefined): string[] | null {
+  if (!member || member.role === 'owner' || !member.gradeIds?.length) return null
+  return member.gradeIds
+}
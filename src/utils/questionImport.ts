@@ -0,0 +1,242 @@
+/**
+ * Question Import
+ * Maps spreadsheet rows to QuestionBuilder question shapes and validates them
+ * against the question schemas, collecting errors per row
+ */
+
+import { nanoid } from 'nanoid/non-secure'
+import type { ZodType } from 'zod'
+import type { Question, Quiz } from '@/types/models'
+import type { SpreadsheetRecord, SpreadsheetRow } from '@/utils/spreadsheet'
+import { separateWordsAndPunctuation } from '@/utils/orderWords'
+import {
+  compositionQuestionSchema,
+  dragDropQuestionSchema,
+  fillInQuestionSchema,
+  matchingQuestionSchema,
+  orderWordsQuestionSchema,
+  spellingQuestionSchema,
+} from '@/utils/schemas'
+
+export type ImportedQuestion = Omit<Question, 'id' | 'createdAt' | 'updatedAt' | 'quizId'>
+
+export interface QuestionImportRowResult {
+  rowNumber: number // Spreadsheet row number (header is row 1)
+  prompt: string
+  question?: ImportedQuestion
+  errors: string[]
+}
+
+// Highest numbered blank_N / left_N column read from a row
+const MAX_NUMBERED_COLUMNS = 20
+
+const questionSchemas: Record<Quiz['quizType'], ZodType> = {
+  'fill-in': fillInQuestionSchema,
+  'drag-drop': dragDropQuestionSchema,
+  spelling: spellingQuestionSchema,
+  matching: matchingQuestionSchema,
+  'order-words': orderWordsQuestionSchema,
+  composition: compositionQuestionSchema,
+}
+
+// Column templates per quiz type, with one example row each
+const importTemplates: Record<Quiz['quizType'], { headers: string[]; example: string[] }> = {
+  'fill-in': {
+    headers: ['prompt', 'blank_1', 'blank_1_options', 'blank_2', 'blank_2_options', 'points', 'timer_seconds', 'explanation'],
+    example: ['She ___ to school every day and ___ home at 3.', 'goes', 'go/goes/going', 'comes', 'come/comes', '1', '', ''],
+  },
+  'drag-drop': {
+    headers: ['prompt', 'blank_1', 'blank_1_options', 'blank_2', 'blank_2_options', 'points', 'timer_seconds', 'explanation'],
+    example: ['The ___ is barking at the ___.', 'dog', 'dog/cat', 'postman', 'postman/teacher', '1', '', ''],
+  },
+  spelling: {
+    headers: ['prompt', 'answers', 'points', 'timer_seconds', 'explanation'],
+    example: ['Spell the word for "قطة"', 'cat', '1', '', ''],
+  },
+  matching: {
+    headers: ['prompt', 'left_1', 'right_1', 'left_2', 'right_2', 'left_3', 'right_3', 'points', 'timer_seconds', 'explanation'],
+    example: ['Match the words with their meanings', 'big', 'كبير', 'small', 'صغير', 'happy', 'سعيد', '1', '', ''],
+  },
+  'order-words': {
+    headers: ['prompt', 'sentence', 'alternatives', 'additional_words', 'instruction', 'points', 'timer_seconds', 'explanation'],
+    example: ['Put the words in order', 'She reads a book every night.', 'Every night she reads a book.', 'read/books', '', '1', '', ''],
+  },
+  composition: {
+    headers: ['prompt', 'points', 'timer_seconds', 'explanation'],
+    example: ['Write a short paragraph about your best friend.', '1', '', ''],
+  },
+}
+
+export function getQuestionImportTemplate(quizType: Quiz['quizType']) {
+  return importTemplates[quizType]
+}
+
+// Split a slash-separated cell, same convention as the builder's quick-add options
+function splitSlashList(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split('/')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+}
+
+// Alternatives are full sentences, so they are separated with "|" instead of "/"
+function splitPipeList(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split('|')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+}
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined
+  return Number(value)
+}
+
+function isEmptyRow(row: SpreadsheetRow) {
+  return Object.values(row).every((value) => value === '')
+}
+
+function buildBlanks(row: SpreadsheetRow) {
+  const blanks: Array<{ id: string; answer: string; options: string[] }> = []
+  for (let index = 1; index <= MAX_NUMBERED_COLUMNS; index++) {
+    const answer = row[`blank_${index}`] ?? ''
+    const options = splitSlashList(row[`blank_${index}_options`])
+    if (!answer && options.length === 0) continue
+    blanks.push({ id: nanoid(), answer, options })
+  }
+  return blanks
+}
+
+function buildPairs(row: SpreadsheetRow) {
+  const pairs: Array<{ id: string; left: string; right: string }> = []
+  for (let index = 1; index <= MAX_NUMBERED_COLUMNS; index++) {
+    const left = row[`left_${index}`] ?? ''
+    const right = row[`right_${index}`] ?? ''
+    if (!left && !right) continue
+    pairs.push({ id: nanoid(), left, right })
+  }
+  return pairs
+}
+
+function buildTypeFields(quizType: Quiz['quizType'], row: SpreadsheetRow): Record<string, unknown> {
+  switch (quizType) {
+    case 'fill-in':
+    case 'drag-drop':
+      return { blanks: buildBlanks(row) }
+    case 'spelling':
+      return { answers: splitSlashList(row.answers ?? row.answer) }
+    case 'matching':
+      return { pairs: buildPairs(row) }
+    case 'order-words': {
+      // Mirror the builder: words are stored lowercase, punctuation separately
+      const sentence = row.sentence ?? row.correct_answer ?? ''
+      const { words, punctuation } = separateWordsAndPunctuation(sentence)
+      const normalizedWords = words.map((word) => word.toLowerCase())
+      return {
+        words: normalizedWords,
+        correctOrder: normalizedWords,
+        correctAnswer: sentence.trim(),
+        punctuation,
+        alternativeCorrectAnswers: splitPipeList(row.alternatives),
+        additionalWords: splitSlashList(row.additional_words),
+        instructionTitle: row.instruction || undefined,
+      }
+    }
+    case 'composition':
+    default:
+      return {}
+  }
+}
+
+// Translate a schema issue path back to the spreadsheet column it came from
+function describeIssuePath(path: PropertyKey[]): string {
+  const [field, index, subField] = path
+  const position = typeof index === 'number' ? index + 1 : undefined
+
+  switch (field) {
+    case 'blanks':
+      if (position === undefined) return 'blank_1'
+      return subField === 'options' ? `blank_${position}_options` : `blank_${position}`
+    case 'pairs':
+      if (position === undefined) return 'left_1 / right_1'
+      return subField === 'right' ? `right_${position}` : `left_${position}`
+    case 'words':
+    case 'correctOrder':
+      return 'sentence'
+    case 'alternativeCorrectAnswers':
+      return 'alternatives'
+    case 'additionalWords':
+      return 'additional_words'
+    case 'competitionTimerSeconds':
+      return 'timer_seconds'
+    default:
+      return path.length > 0 ? path.map(String).join('.') : 'row'
+  }
+}
+
+/**
+ * Build and validate questions for a quiz from spreadsheet rows
+ * Empty rows are skipped; valid rows are numbered from startOrder in file order
+ */
+export function buildQuestionsFromRows(
+  rows: SpreadsheetRecord[],
+  quiz: Quiz,
+  startOrder: number,
+): QuestionImportRowResult[] {
+  const schema = questionSchemas[quiz.quizType]
+  const results: QuestionImportRowResult[] = []
+  let nextOrder = startOrder
+
+  rows.forEach(({ rowNumber, cells: row }) => {
+    if (isEmptyRow(row)) return
+
+    const prompt = row.prompt ?? row.question ?? ''
+    const errors: string[] = []
+
+    // An optional type column must agree with the quiz, since a quiz holds one question type
+    if (row.type && row.type !== quiz.quizType) {
+      errors.push(`type: "${row.type}" does not match this quiz (${quiz.quizType})`)
+    }
+
+    const candidate = {
+      quizId: quiz.id,
+      prompt,
+      type: quiz.quizType,
+      order: nextOrder,
+      points: parseOptionalNumber(row.points),
+      competitionTimerSeconds: parseOptionalNumber(row.timer_seconds),
+      status: 'active',
+      ...buildTypeFields(quiz.quizType, row),
+    }
+
+    const parsed = schema.safeParse(candidate)
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        errors.push(`${describeIssuePath(issue.path)}: ${issue.message}`)
+      })
+    }
+
+    if (errors.length > 0 || !parsed.success) {
+      results.push({ rowNumber, prompt, errors })
+      return
+    }
+
+    // quizId is only needed for validation; the quiz document owns its questions
+    const questionValues = { ...(parsed.data as Record<string, unknown>) }
+    delete questionValues.quizId
+    results.push({
+      rowNumber,
+      prompt,
+      errors,
+      question: {
+        ...questionValues,
+        ...(row.explanation ? { explanation: row.explanation } : {}),
+      } as ImportedQuestion,
+    })
+    nextOrder++
+  })
+
+  return results
+}
@@ -0,0 +1,107 @@
+/**
+ * Question-level comparison of two quiz versions (student app format)
+ */
+
+export type QuestionDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export type QuestionDiff = {
+  id: string
+  prompt: string
+  status: QuestionDiffStatus
+  changedFields: string[]
+}
+
+export type QuizVersionDiff = {
+  quizFields: string[] // Quiz-level fields that differ, e.g. title or aiEvaluationPrompt
+  questions: QuestionDiff[]
+  counts: Record<QuestionDiffStatus, number>
+}
+
+// Quiz-level fields worth reporting; metadata like gradeId follows the quiz location instead
+const QUIZ_FIELDS = ['title', 'description', 'type', 'durationMinutes', 'totalPoints', 'aiEvaluationPrompt', 'compositionRubric']
+
+type QuestionRecord = Record<string, unknown> & { id?: string; prompt?: string }
+
+/**
+ * JSON with sorted keys, so Firestore map ordering never shows up as a change
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function changedKeys(before: Record<string, unknown>, after: Record<string, unknown>, keys?: string[]): string[] {
+  const candidates = keys ?? Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return candidates.filter((key) => stableStringify(before[key]) !== stableStringify(after[key])).sort()
+}
+
+function questionsOf(document: Record<string, unknown>): QuestionRecord[] {
+  return Array.isArray(document.questions) ? (document.questions as QuestionRecord[]) : []
+}
+
+/**
+ * Compare an older and a newer quiz document; questions are matched by ID
+ */
+export function diffQuizVersions(
+  older: Record<string, unknown>,
+  newer: Record<string, unknown>,
+): QuizVersionDiff {
+  const olderQuestions = questionsOf(older)
+  const newerQuestions = questionsOf(newer)
+  const olderById = new Map(olderQuestions.map((question, index) => [question.id ?? `#${index}`, question]))
+  const newerIds = new Set(newerQuestions.map((question, index) => question.id ?? `#${index}`))
+
+  const questions: QuestionDiff[] = newerQuestions.map((question, index) => {
+    const id = question.id ?? `#${index}`
+    const previous = olderById.get(id)
+    if (!previous) {
+      return { id, prompt: question.prompt ?? '', status: 'added', changedFields: [] }
+    }
+    const changedFields = changedKeys(previous, question)
+    return {
+      id,
+      prompt: question.prompt ?? '',
+      status: changedFields.length > 0 ? 'changed' : 'unchanged',
+      changedFields,
+    }
+  })
+
+  olderQuestions.forEach((question, index) => {
+    const id = question.id ?? `#${index}`
+    if (!newerIds.has(id)) {
+      questions.push({ id, prompt: question.prompt ?? '', status: 'removed', changedFields: [] })
+    }
+  })
+
+  const counts: Record<QuestionDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 }
+  questions.forEach((question) => {
+    counts[question.status] += 1
+  })
+
+  return {
+    quizFields: changedKeys(older, newer, QUIZ_FIELDS),
+    questions,
+    counts,
+  }
+}
+
+/**
+ * Short description of a diff, e.g. "2 added, 1 changed, title"
+ */
+export function summarizeQuizVersionDiff(diff: QuizVersionDiff): string {
+  const parts = (['added', 'changed', 'removed'] as const)
+    .filter((status) => diff.counts[status] > 0)
+    .map((status) => `${diff.counts[status]} ${status}`)
+  if (diff.quizFields.length > 0) {
+    parts.push(diff.quizFields.join(', '))
+  }
+  return parts.length > 0 ? parts.join(', ') : 'No changes'
+}
@@ -0,0 +1,75 @@
+/**
+ * Roster Import
+ * Matches spreadsheet rows to existing students for bulk class enrolment,
+ * by student ID, then email, then an unambiguous exact name
+ */
+
+import type { Student } from '@/types/models'
+import type { SpreadsheetRecord } from '@/utils/spreadsheet'
+
+export interface RosterImportRowResult {
+  rowNumber: number // Spreadsheet row number (header is row 1)
+  label: string // What the row identified the student by
+  student?: Student
+  alreadyEnrolled: boolean
+  error?: string
+}
+
+export const rosterImportTemplate = {
+  headers: ['student_id', 'email', 'name'],
+  example: ['', 'student@example.com', 'Sara Ahmed'],
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+export function matchRosterRows(rows: SpreadsheetRecord[], students: Student[], enrolledIds: string[]): RosterImportRowResult[] {
+  const byId = new Map(students.map((student) => [student.id, student]))
+  const byEmail = new Map(
+    students.filter((student) => student.email).map((student) => [normalize(student.email!), student]),
+  )
+  const byName = new Map<string, Student[]>()
+  students.forEach((student) => {
+    const key = normalize(student.name ?? '')
+    if (key) byName.set(key, [...(byName.get(key) ?? []), student])
+  })
+  const enrolled = new Set(enrolledIds)
+  const seen = new Set<string>()
+
+  return rows
+    .map(({ rowNumber, cells: row }): RosterImportRowResult | null => {
+      const studentId = row.student_id || row.id || ''
+      const email = row.email || ''
+      const name = row.name || row.student_name || ''
+      const label = studentId || email || name
+
+      if (!label) return null
+
+      let student: Student | undefined
+      let error: string | undefined
+      if (studentId) {
+        student = byId.get(studentId)
+        if (!student) error = 'No student with this ID'
+      } else if (email) {
+        student = byEmail.get(normalize(email))
+        if (!student) error = 'No student with this email'
+      } else {
+        const matches = byName.get(normalize(name)) ?? []
+        if (matches.length === 1) student = matches[0]
+        else error = matches.length === 0 ? 'No student with this name' : 'Several students share this name; use email or ID'
+      }
+
+      if (student && seen.has(student.id)) {
+        return { rowNumber, label, alreadyEnrolled: false, error: 'Duplicate of an earlier row' }
+      }
+      if (student) seen.add(student.id)
+
+      return {
+        rowNumber,
+        label,
+        student,
+        alreadyEnrolled: student ? enrolled.has(student.id) : false,
+        error,
+      }
+    })
+    .filter((result): result is RosterImportRowResult => result !== null)
+}
@@ -1,26 +1,58 @@
 import { z } from 'zod'
+import { MAX_AUDIENCE_STUDENTS, MAX_INACTIVE_DAYS } from '@shared/notificationAudience'
 
 // const lessonTypes = ['Grammar', 'Vocabulary', 'Reading', 'Listening'] as const
 const quizTypes = ['fill-in', 'drag-drop', 'spelling', 'matching', 'order-words', 'composition'] as const
-const notificationAudienceTypes = ['all', 'grade', 'unit', 'lesson', 'custom'] as const
+const notificationAudienceTypes = ['all', 'grade', 'unit', 'lesson', 'class', 'students'] as const
 const notificationChannels = ['in-app', 'email', 'push'] as const
 const notificationStatuses = ['draft', 'scheduled', 'sent', 'cancelled'] as const
 
 export const statusSchema = z.enum(['active', 'inactive'] as const)
 
+// Accepts Date, ISO/datetime-local strings or nothing
+const optionalDateSchema = z
+  .preprocess((value) => {
+    if (!value) return undefined
+    if (value instanceof Date) return value
+    if (typeof value === 'string') {
+      const parsed = new Date(value)
+      return Number.isNaN(parsed.getTime()) ? undefined : parsed
+    }
+    return value
+  }, z.date())
+  .optional()
+
+// Scheduled publishing window shared by grades, units and quizzes
+const publishWindowFields = {
+  publishAt: optionalDateSchema,
+  unpublishAt: optionalDateSchema,
+}
+
+function refinePublishWindow(values: { publishAt?: Date; unpublishAt?: Date }, ctx: z.RefinementCtx) {
+  if (values.publishAt && values.unpublishAt && values.unpublishAt.getTime() <= values.publishAt.getTime()) {
+    ctx.addIssue({
+      path: ['unpublishAt'],
+      code: z.ZodIssueCode.custom,
+      message: 'Unpublish time must be after the publish time.',
+    })
+  }
+}
+
 export const gradeSchema = z.object({
   id: z.string().optional(),
   name: z.string().min(2, 'Grade name must be at least 2 characters'),
   description: z.string().max(30, 'Description must be at most 30 characters').optional().or(z.literal('')),
   isPublished: z.boolean(),
-})
+  ...publishWindowFields,
+}).superRefine(refinePublishWindow)
 
 export const unitSchema = z.object({
   id: z.string().optional(),
   gradeId: z.string().min(1, 'Grade is required'),
   number: z.number().min(1, 'Unit number must be greater than zero'),
   isPublished: z.boolean().default(false),
-})
+  ...publishWindowFields,
+}).superRefine(refinePublishWindow)
 
 const lessonTitleOptions = ['Grammar', 'Matching', 'Fill in the blanks', 'Spelling', 'Passages', 'Literature', 'Composition'] as const
 
@@ -61,6 +93,26 @@ export const sectionSchema = z.object({
   lists: sectionListSchema.optional(),
 })
 
+const compositionRubricSchema = z.object({
+  criteria: z
+    .array(
+      z.object({
+        id: z.enum(['task_achievement', 'grammar', 'vocabulary', 'coherence'] as const),
+        weight: z.number().min(0, 'Weight cannot be negative').max(100, 'Weight must be 100 or less'),
+      }),
+    )
+    .refine((criteria) => criteria.some((criterion) => criterion.weight > 0), 'At least one criterion needs a weight'),
+  passMark: z.number().min(0, 'Pass mark must be between 0 and 100').max(100, 'Pass mark must be between 0 and 100'),
+})
+
+const answerMatchingSchema = z.object({
+  caseSensitive: z.boolean().optional(),
+  ignorePunctuation: z.boolean().optional(),
+  normalizeWhitespace: z.boolean().optional(),
+  typoTolerance: z.number().int().min(0, 'Typo distance cannot be negative').max(3, 'Typo distance must be 3 or less').optional(),
+  equateDigits: z.boolean().optional(),
+})
+
 export const quizSchema = z.object({
   id: z.string().optional(),
   gradeId: z.string().min(1, 'Grade is required'),
@@ -70,7 +122,9 @@ export const quizSchema = z.object({
   title: z.string().min(2, 'Quiz title must be at least 2 characters'),
   quizType: z.enum(quizTypes),
   aiEvaluationPrompt: z.string().optional(), // Optional additional prompt/instructions for AI evaluation (composition quizzes only)
-})
+  compositionRubric: compositionRubricSchema.optional(),
+  ...publishWindowFields,
+}).superRefine(refinePublishWindow)
 
 export const fillInQuestionSchema = z.object({
   id: z.string().optional(),
@@ -94,6 +148,7 @@ export const fillInQuestionSchema = z.object({
     .number()
     .min(0, 'Timer must be 0 or more seconds')
     .optional(),
+  answerMatching: answerMatchingSchema.optional(),
 })
 
 export const dragDropQuestionSchema = fillInQuestionSchema.extend({
@@ -113,6 +168,7 @@ export const spellingQuestionSchema = z.object({
     .number()
     .min(0, 'Timer must be 0 or more seconds')
     .optional(),
+  answerMatching: answerMatchingSchema.optional(),
 })
 
 export const matchingQuestionSchema = z.object({
@@ -182,35 +238,80 @@ export const adminSettingsSchema = z.object({
   status: statusSchema.default('active'),
 })
 
+export const staffInviteSchema = z.object({
+  email: z.string().trim().email('Enter a valid email'),
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  role: z.enum(['owner', 'editor', 'reviewer', 'notifier', 'analyst'] as const),
+  gradeIds: z.array(z.string()),
+})
+
+export const classSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(2, 'Class name must be at least 2 characters'),
+  gradeId: z.string().min(1, 'Grade is required'),
+  teacherName: z.string().trim().min(2, 'Teacher name is required'),
+  description: z.string().max(200, 'Description must be at most 200 characters').optional().or(z.literal('')),
+  joinCodeEnabled: z.boolean().default(true),
+})
+
+// Live quizzes may be open to anyone with the join code; tournaments are always played by one class
+export const competitionEventSchema = z
+  .object({
+    kind: z.enum(['live', 'tournament']),
+    title: z.string().trim().max(120, 'Title must be at most 120 characters'),
+    sectionId: z.string().min(1, 'Section is required'),
+    classId: z.string(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.kind !== 'tournament') return
+    if (values.title.length < 3) {
+      ctx.addIssue({ path: ['title'], code: z.ZodIssueCode.custom, message: 'Tournament title must be at least 3 characters' })
+    }
+    if (!values.classId) {
+      ctx.addIssue({ path: ['classId'], code: z.ZodIssueCode.custom, message: 'Choose the class that plays the tournament' })
+    }
+  })
+
 export const notificationSchema = z.object({
   id: z.string().optional(),
   title: z.string().min(3, 'Notification title must be at least 3 characters'),
   message: z.string().min(10, 'Provide more context in the message'),
   audienceType: z.enum(notificationAudienceTypes),
   audienceValue: z.string().optional(),
+  // Audience filters, stored together as audienceFilters
+  studentIds: z.array(z.string()).max(MAX_AUDIENCE_STUDENTS, `Pick at most ${MAX_AUDIENCE_STUDENTS} students`).default([]),
+  filterClassId: z.string().optional(),
+  inactiveDays: z
+    .number()
+    .int('Use whole days')
+    .min(1, 'Use at least 1 day')
+    .max(MAX_INACTIVE_DAYS, `Use at most ${MAX_INACTIVE_DAYS} days`)
+    .optional(),
+  lowAccuracyUnitId: z.string().optional(),
+  maxAccuracy: z.number().min(1, 'Use 1% or more').max(100, 'Use 100% or less').optional(),
   channels: z.array(z.enum(notificationChannels)).min(1, 'Select at least one channel'),
   deliveryStatus: z.enum(notificationStatuses).default('draft'),
-  scheduledAt: z
-    .preprocess((value) => {
-      if (!value) return undefined
-      if (value instanceof Date) return value
-      if (typeof value === 'string') {
-        const parsed = new Date(value)
-        return Number.isNaN(parsed.getTime()) ? undefined : parsed
-      }
-      return value
-    }, z.date())
-    .optional(),
+  scheduledAt: optionalDateSchema,
   status: statusSchema.default('active'),
   deliveryProcessed: z.boolean().optional(),
 }).superRefine((values, ctx) => {
-  if (values.audienceType !== 'all' && !values.audienceValue?.trim()) {
+  if (values.audienceType === 'students') {
+    if (values.studentIds.length === 0) {
+      ctx.addIssue({ path: ['studentIds'], code: z.ZodIssueCode.custom, message: 'Pick at least one student.' })
+    }
+  } else if (values.audienceType !== 'all' && !values.audienceValue?.trim()) {
     ctx.addIssue({
       path: ['audienceValue'],
       code: z.ZodIssueCode.custom,
       message: 'Provide a target for the selected audience.',
     })
   }
+  if (values.lowAccuracyUnitId && values.maxAccuracy === undefined) {
+    ctx.addIssue({ path: ['maxAccuracy'], code: z.ZodIssueCode.custom, message: 'Set the accuracy students must be below.' })
+  }
+  if (values.maxAccuracy !== undefined && !values.lowAccuracyUnitId) {
+    ctx.addIssue({ path: ['lowAccuracyUnitId'], code: z.ZodIssueCode.custom, message: 'Select the unit to check accuracy on.' })
+  }
 
   if (values.deliveryStatus === 'scheduled' && !values.scheduledAt) {
     ctx.addIssue({
@@ -241,6 +342,9 @@ export type MatchingQuestionFormValues = z.infer<typeof matchingQuestionSchema>
 export type OrderWordsQuestionFormValues = z.infer<typeof orderWordsQuestionSchema>
 export type CompositionQuestionFormValues = z.infer<typeof compositionQuestionSchema>
 export type AdminSettingsFormValues = z.infer<typeof adminSettingsSchema>
+export type StaffInviteFormValues = z.infer<typeof staffInviteSchema>
+export type ClassFormValues = z.infer<typeof classSchema>
+export type CompetitionEventFormValues = z.infer<typeof competitionEventSchema>
 export type NotificationFormValues = z.infer<typeof notificationSchema>
 
 
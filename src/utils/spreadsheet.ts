@@ -0,0 +1,125 @@
+/**
+ * Spreadsheet Helpers
+ * Read CSV/XLSX files into plain rows and write simple templates
+ */
+
+import { readSheet } from 'read-excel-file/browser'
+import writeXlsxFile from 'write-excel-file/browser'
+
+export type SpreadsheetRow = Record<string, string>
+
+export type SpreadsheetRecord = {
+  rowNumber: number // Row in the sheet, counting the header as row 1, so errors point at the right row
+  cells: SpreadsheetRow
+}
+
+// File input accept string for spreadsheet uploads
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx'
+
+/**
+ * Normalize a header cell so "Blank 1 Options" and "blank_1_options" match
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted fields with commas, quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  // A trailing line break does not start another row
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Sheet rows as text cells, with their row numbers; the first row holds the headers
+ */
+async function readSheetRows(file: File): Promise<Array<{ rowNumber: number; values: string[] }>> {
+  const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv'
+
+  if (isCsv) {
+    // CSV is read as text so UTF-8 content (e.g. Arabic) is decoded correctly
+    const text = (await file.text()).replace(/^\uFEFF/, '')
+    return parseCsv(text).map((values, index) => ({ rowNumber: index + 1, values }))
+  }
+
+  if (!file.name.toLowerCase().endsWith('.xlsx')) {
+    throw new Error('Only CSV and XLSX files are supported')
+  }
+  // Rows come back from the top of the sheet, empty ones included, so row N is at index N - 1
+  const sheet = await readSheet(file, { trim: false })
+  return sheet.map((row, index) => ({
+    rowNumber: index + 1,
+    values: row.map((value) => {
+      if (value === null) return ''
+      return value instanceof Date ? value.toISOString() : String(value)
+    }),
+  }))
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX file
+ * Returns one record per non-empty data row, keyed by normalized header, with trimmed string values
+ */
+export async function readSpreadsheetRows(file: File): Promise<SpreadsheetRecord[]> {
+  const [headerRow, ...dataRows] = await readSheetRows(file)
+  if (!headerRow) return []
+  const headers = headerRow.values.map(normalizeHeader)
+
+  return dataRows
+    .map(({ rowNumber, values }) => {
+      const cells: SpreadsheetRow = {}
+      headers.forEach((key, index) => {
+        if (!key || key in cells) return
+        cells[key] = (values[index] ?? '').trim()
+      })
+      return { rowNumber, cells }
+    })
+    .filter(({ cells }) => Object.values(cells).some((value) => value !== ''))
+}
+
+/**
+ * Download a single-sheet XLSX file with the given header row and example rows
+ */
+export async function downloadSpreadsheetTemplate(fileName: string, headers: string[], exampleRows: string[][] = []) {
+  await writeXlsxFile([headers, ...exampleRows]).toFile(fileName)
+}
@@ -0,0 +1,88 @@
+/**
+ * Student Analytics
+ * Summaries of a single student's practice aggregates for the student detail page
+ */
+
+import { format } from 'date-fns'
+import type { PracticeAggregate, QuizType } from '@/types/models'
+
+export type PracticeTotals = {
+  attempts: number
+  correct: number
+  accuracy: number // Percentage, 0-100
+}
+
+export type AccuracyTrendPoint = PracticeTotals & {
+  date: string // yyyy-MM-dd
+  label: string
+}
+
+export type QuizTypeBreakdown = PracticeTotals & {
+  quizType: QuizType | 'unknown'
+}
+
+function toAccuracy(correct: number, attempts: number) {
+  return attempts > 0 ? Number(((correct / attempts) * 100).toFixed(1)) : 0
+}
+
+function addTotals(records: PracticeAggregate[]): PracticeTotals {
+  const attempts = records.reduce((sum, record) => sum + (record.attempts ?? 0), 0)
+  const correct = records.reduce((sum, record) => sum + (record.correct ?? 0), 0)
+  return { attempts, correct, accuracy: toAccuracy(correct, attempts) }
+}
+
+function activityOf(record: PracticeAggregate) {
+  return record.updatedAt ?? record.createdAt ?? null
+}
+
+export function summarizePractice(records: PracticeAggregate[]) {
+  const lastActivity = records
+    .map(activityOf)
+    .filter((value): value is NonNullable<typeof value> => Boolean(value))
+    .sort((a, b) => b.toMillis() - a.toMillis())[0]
+
+  return {
+    ...addTotals(records),
+    quizzesPracticed: new Set(records.map((record) => record.quizId).filter(Boolean)).size,
+    totalTimeSeconds: records.reduce((sum, record) => sum + (record.totalTimeSeconds ?? 0), 0),
+    lastActivityAt: lastActivity ?? null,
+  }
+}
+
+/**
+ * Accuracy per day of last activity, oldest first
+ * Aggregates are cumulative per quiz, so each one counts on the day it was last updated
+ */
+export function buildAccuracyTrend(records: PracticeAggregate[]): AccuracyTrendPoint[] {
+  const byDay = new Map<string, PracticeAggregate[]>()
+  records.forEach((record) => {
+    const activity = activityOf(record)
+    if (!activity) return
+    const day = format(activity.toDate(), 'yyyy-MM-dd')
+    byDay.set(day, [...(byDay.get(day) ?? []), record])
+  })
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayRecords]) => ({
+      date,
+      label: format(new Date(`${date}T00:00:00`), 'MMM d'),
+      ...addTotals(dayRecords),
+    }))
+}
+
+/**
+ * Accuracy per quiz type, weakest first
+ */
+export function buildQuizTypeBreakdown(records: PracticeAggregate[]): QuizTypeBreakdown[] {
+  const byType = new Map<QuizTypeBreakdown['quizType'], PracticeAggregate[]>()
+  records.forEach((record) => {
+    const quizType = record.quizType ?? 'unknown'
+    byType.set(quizType, [...(byType.get(quizType) ?? []), record])
+  })
+
+  return Array.from(byType.entries())
+    .map(([quizType, typeRecords]) => ({ quizType, ...addTotals(typeRecords) }))
+    .filter((item) => item.attempts > 0)
+    .sort((a, b) => a.accuracy - b.accuracy)
+}
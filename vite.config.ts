@@ -8,6 +8,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': resolve(__dirname, 'src'),
+      // Plain TS modules shared with the Cloud Functions
+      '@shared': resolve(__dirname, 'functions/src/shared'),
     },
   },
 })